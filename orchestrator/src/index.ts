@@ -13,14 +13,28 @@ import blueprintService from './services/blueprintService';
 import agentService from './services/agentService';
 import http from 'http';
 import workflowService from './services/workflowService';
-import memoryService from './services/memoryService';
+import expressionService from './services/expressionService';
+import templateService from './services/templateService';
+import schedulerService, { WorkflowSchedule } from './services/schedulerService';
+import eventService, { EventSubscription, isReservedTopic } from './services/eventService';
+import approvalService, { ApprovalRequest } from './services/approvalService';
+import memoryService, { MemoryFilter } from './services/memoryService';
+import memoryConsolidationService from './services/memoryConsolidationService';
+import knowledgeService from './services/knowledgeService';
 import simulationService from './services/simulationService';
 import deploymentService from './services/deploymentService';
 import analyticsService from './services/analyticsService';
+import meteringService, { BudgetScope } from './services/meteringService';
 import voiceService from './services/voiceService';
 import videoService from './services/videoService';
-import communicationService from './services/communicationService';
+import communicationService, { SessionDetails } from './services/communicationService';
+import agentStreamService from './services/agentStreamService';
+import webhookService, { WebhookConfig, WebhookRequestRecord } from './services/webhookService';
+import deliveryService, { OutboundDelivery } from './services/deliveryService';
+import authService, { AuthenticatedUser } from './services/authService';
+import { Server as SocketServer } from 'socket.io';
 import { error } from 'console';
+import { httpError } from './utils/httpError';
 
 // Configure rate limiting
 const apiLimiter = rateLimit({
@@ -46,6 +60,11 @@ interface WorkflowNode {
 
 // Initialize Express app
 const app = express();
+
+// Keep the body exactly as received; webhook signatures are computed over it
+const captureRawBody = (req: http.IncomingMessage, res: http.ServerResponse, buf: Buffer) => {
+  (req as any).rawBody = buf.toString('utf8');
+};
 let PORT = parseInt(process.env.PORT || "3000");
 const NODE_ENV = process.env.NODE_ENV || 'development';
 const AGENT_SERVICE_URL = process.env.AGENT_SERVICE_URL || 'http://localhost:8001';
@@ -64,7 +83,7 @@ let redisClient: RedisClientType | undefined;
 // Setup middleware
 app.use(cors());
 app.use(helmet()); // Adds security headers
-app.use(express.json());
+app.use(express.json({ verify: captureRawBody }));
 app.use(morgan('dev'));
 
 // Apply rate limiting to API routes in production
@@ -316,11 +335,12 @@ app.post(['/generateCanvas', '/canvas/generate', '/api/canvas/generate'], async
 app.post(['/executeFlow', '/workflow/execute', '/api/workflow/execute'], async (req, res) => {
   try {
     console.log('🔄 Workflow execution request received by Orchestrator');
-    const { flowId, nodes, edges, context = {} }: {
+    const { flowId, nodes, edges, context = {}, options = {} }: {
       flowId?: string;
       nodes: WorkflowNode[];
       edges: any[];
       context?: any;
+      options?: { maxConcurrency?: number };
     } = req.body;
     
     // Validate input
@@ -335,7 +355,8 @@ app.post(['/executeFlow', '/workflow/execute', '/api/workflow/execute'], async (
       flowId || `flow-${uuidv4()}`,
       nodes,
       edges,
-      context
+      context,
+      options
     );
     
     console.log(`✅ Execution started: ${result.executionId}`);
@@ -355,13 +376,54 @@ app.post(['/executeFlow', '/workflow/execute', '/api/workflow/execute'], async (
   }
 });
 
+// Validate condition expressions while a workflow is being designed
+app.post(['/workflow/validate', '/api/workflow/validate'], async (req, res) => {
+  try {
+    const { expression, template, nodes } = req.body;
+    
+    if (typeof expression === 'string') {
+      return res.json(expressionService.validate(expression));
+    }
+    
+    if (typeof template === 'string') {
+      const errors = templateService.validate(template);
+      return res.json({ valid: errors.length === 0, errors });
+    }
+    
+    if (!Array.isArray(nodes)) {
+      return res.status(400).json({ 
+        error: 'Invalid request',
+        message: 'expression, template or nodes is required'
+      });
+    }
+    
+    const issues = workflowService.validateWorkflow(nodes);
+    
+    return res.json({ 
+      valid: issues.length === 0,
+      issues
+    });
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to validate workflow');
+  }
+});
+
+// Names of the secrets templates can read as {{ secrets.NAME }}; values never leave the server
+app.get(['/workflow/secrets', '/api/workflow/secrets'], async (req, res) => {
+  try {
+    res.json({ secrets: templateService.listSecretNames() });
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to list workflow secrets');
+  }
+});
+
 // Agent dispatch endpoint
 app.post('/agentDispatch', async (req, res) => {
   try {
     const startTime = Date.now();
     console.log('🤖 Agent dispatch request received');
     
-    const { agent_id, input, context = {} } = req.body;
+    const { agent_id, input, context = {}, tools, max_tool_steps } = req.body;
     
     if (!agent_id || !input) {
       return res.status(400).json({ 
@@ -387,13 +449,21 @@ app.post('/agentDispatch', async (req, res) => {
 
     try {
       // Execute the agent using the agent service
-      const response = await agentService.executeAgent(agent_id, input, context);
+      // Tools are names of tools configured on the agent; definitions are never taken from requests
+      const response = await agentService.executeAgent(agent_id, input, context, {
+        tools: tools || context.agent_tools,
+        maxToolSteps: max_tool_steps
+      });
       
       console.log('Agent response received');
       res.json(response);
     } catch (error: any) {
       console.error('❌ Error dispatching to agent:', error);
       
+      if (error.status === 429) {
+        return handleApiError(res, error, 'Agent budget exceeded');
+      }
+      
       if (error.code === 'ECONNREFUSED' || error.message?.includes('connect')) {
         console.log('⚠️ Agent service unreachable, using fallback response');
         return res.json({
@@ -421,6 +491,296 @@ app.post('/agentDispatch', async (req, res) => {
   }
 });
 
+// Owner of the agent streams a user starts over HTTP; socket streams are owned by their socket
+function streamOwner(user: AuthenticatedUser): string {
+  return `user:${user.id}`;
+}
+
+// Streaming agent dispatch to an agent the caller owns: relays partial output and
+// chain-of-thought steps as server-sent events until a final done, error or cancelled event
+app.post(['/agentDispatch/stream', '/api/agentDispatch/stream'], async (req, res) => {
+  const { agent_id, input, context = {}, tools, max_tool_steps } = req.body;
+  
+  if (!agent_id || !input) {
+    return res.status(400).json({ 
+      error: 'Invalid request',
+      message: 'agent_id and input are required'
+    });
+  }
+  
+  let user: AuthenticatedUser;
+  try {
+    user = await requireAgentOwner(req, agent_id);
+  } catch (error: any) {
+    return handleApiError(res, error, 'Failed to start agent stream');
+  }
+  
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  
+  // Comments keep proxies from closing an idle connection while the agent thinks
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+  let finished = false;
+  
+  const stream = agentStreamService.start({
+    agentId: agent_id,
+    input,
+    context: { ...context, request_id: uuidv4(), source: 'orchestrator' },
+    tools: tools || context.agent_tools,
+    maxToolSteps: max_tool_steps,
+    owner: streamOwner(user)
+  }, message => {
+    res.write(`id: ${message.sequence}\nevent: ${message.type}\ndata: ${JSON.stringify(message)}\n\n`);
+    
+    if (message.type === 'done' || message.type === 'error' || message.type === 'cancelled') {
+      finished = true;
+      clearInterval(heartbeat);
+      res.end();
+    }
+  });
+  
+  // A client that goes away no longer wants the answer
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    if (!finished) {
+      agentStreamService.cancel(stream.streamId, 'Client disconnected');
+    }
+  });
+});
+
+// Cancel a stream the caller started; other users' streams are reported as not found
+app.delete(['/agentDispatch/stream/:streamId', '/api/agentDispatch/stream/:streamId'], async (req, res) => {
+  try {
+    const user = await requestUser(req);
+    const stream = agentStreamService.getStream(req.params.streamId);
+    const owned = stream && (stream.owner === streamOwner(user) || authService.isAdmin(user));
+    
+    if (!owned || !agentStreamService.cancel(req.params.streamId, req.body?.reason || 'Cancelled by client')) {
+      return res.status(404).json({ error: 'Stream not found or already finished' });
+    }
+    
+    res.json({ streamId: req.params.streamId, cancelled: true });
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to cancel agent stream');
+  }
+});
+
+/**
+ * A communication session the caller may read and drive: one in a guild they own
+ */
+async function requireSessionOwner(req: express.Request, sessionId: string): Promise<SessionDetails> {
+  const session = await communicationService.getSessionDetails(sessionId);
+  
+  if (!session) {
+    throw httpError(`Session not found: ${sessionId}`, 404);
+  }
+  
+  if (!session.guildId) {
+    throw httpError('Session belongs to no guild', 403);
+  }
+  
+  await requireGuildOwner(req, session.guildId);
+  return session;
+}
+
+// Create an agent communication session in a guild; participants connect to it over Socket.IO
+app.post(['/communication/sessions', '/api/communication/sessions'], async (req, res) => {
+  try {
+    const { agents = [], metadata = {}, guild_id } = req.body;
+    
+    if (!Array.isArray(agents)) {
+      return res.status(400).json({ error: 'agents must be a list of agent ids' });
+    }
+    
+    if (!guild_id) {
+      return res.status(400).json({ error: 'guild_id is required' });
+    }
+    
+    await requireGuildOwner(req, guild_id);
+    
+    for (const agentId of agents) {
+      if (!(await authService.isGuildAgent(guild_id, agentId))) {
+        return res.status(403).json({ error: `Agent ${agentId} does not belong to this guild` });
+      }
+    }
+    
+    const { sessionId } = await communicationService.createSession(agents, metadata, guild_id);
+    res.status(201).json(communicationService.getSession(sessionId));
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to create communication session');
+  }
+});
+
+// List a guild's stored sessions, most recently active first
+app.get(['/communication/sessions', '/api/communication/sessions'], async (req, res) => {
+  try {
+    const guildId = req.query.guildId as string | undefined;
+    const status = req.query.status as string | undefined;
+    
+    if (!guildId) {
+      return res.status(400).json({ error: 'guildId is required' });
+    }
+    
+    await requireGuildOwner(req, guildId);
+    
+    if (status && status !== 'active' && status !== 'closed') {
+      return res.status(400).json({ error: 'status must be active or closed' });
+    }
+    
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+    const { sessions, total } = await communicationService.listSessions({
+      status: status as 'active' | 'closed' | undefined,
+      agentId: req.query.agentId as string | undefined,
+      guildId
+    }, limit, offset);
+    
+    res.json({ sessions, total, limit, offset });
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to list communication sessions');
+  }
+});
+
+app.get(['/communication/sessions/:sessionId', '/api/communication/sessions/:sessionId'], async (req, res) => {
+  try {
+    res.json(await requireSessionOwner(req, req.params.sessionId));
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to get communication session');
+  }
+});
+
+// Page through a session's transcript in the order it was sent
+app.get(['/communication/sessions/:sessionId/messages', '/api/communication/sessions/:sessionId/messages'], async (req, res) => {
+  try {
+    await requireSessionOwner(req, req.params.sessionId);
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+    const { messages, total } = await communicationService.listMessages(req.params.sessionId, limit, offset);
+    
+    res.json({ messages, total, limit, offset });
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to list session messages');
+  }
+});
+
+// Download a session transcript as JSON or Markdown
+app.get(['/communication/sessions/:sessionId/export', '/api/communication/sessions/:sessionId/export'], async (req, res) => {
+  try {
+    const format = (req.query.format as string) || 'json';
+    
+    if (format !== 'json' && format !== 'markdown') {
+      return res.status(400).json({ error: 'format must be json or markdown' });
+    }
+    
+    await requireSessionOwner(req, req.params.sessionId);
+    const transcript = await communicationService.exportSession(req.params.sessionId, format);
+    
+    if (transcript === null) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    
+    const extension = format === 'json' ? 'json' : 'md';
+    res.setHeader('Content-Type', format === 'json' ? 'application/json' : 'text/markdown; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${req.params.sessionId}.${extension}"`);
+    res.send(transcript);
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to export session');
+  }
+});
+
+// Replay a session as server-sent events, with the original gaps between messages
+// divided by ?speed= and capped at ?max_gap_ms=
+app.get(['/communication/sessions/:sessionId/replay', '/api/communication/sessions/:sessionId/replay'], async (req, res) => {
+  try {
+    const session = await requireSessionOwner(req, req.params.sessionId);
+    
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.write(`event: session\ndata: ${JSON.stringify(session)}\n\n`);
+    
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+    
+    const maxGap = parseInt(req.query.max_gap_ms as string);
+    const replayed = await communicationService.replaySession(req.params.sessionId, {
+      speed: parseFloat(req.query.speed as string) || 1,
+      maxGapMs: Number.isFinite(maxGap) ? maxGap : undefined,
+      signal: controller.signal
+    }, (message, offsetMs) => {
+      res.write(`id: ${message.sequence ?? ''}\nevent: message\ndata: ${JSON.stringify({ ...message, offsetMs })}\n\n`);
+    });
+    
+    if (!controller.signal.aborted) {
+      res.write(`event: end\ndata: ${JSON.stringify({ sessionId: req.params.sessionId, replayed })}\n\n`);
+      res.end();
+    }
+  } catch (error: any) {
+    if (res.headersSent) {
+      res.write(`event: error\ndata: ${JSON.stringify({ error: error.message })}\n\n`);
+      return res.end();
+    }
+    handleApiError(res, error, 'Failed to replay session');
+  }
+});
+
+// Start a round-robin, debate, delegation or voting protocol in a session
+app.post(['/communication/sessions/:sessionId/protocols', '/api/communication/sessions/:sessionId/protocols'], async (req, res) => {
+  try {
+    await requireSessionOwner(req, req.params.sessionId);
+    res.status(202).json(communicationService.startProtocol(req.params.sessionId, req.body));
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to start protocol');
+  }
+});
+
+app.get(['/communication/sessions/:sessionId/protocols', '/api/communication/sessions/:sessionId/protocols'], async (req, res) => {
+  try {
+    await requireSessionOwner(req, req.params.sessionId);
+    res.json({ runs: communicationService.listProtocolRuns(req.params.sessionId) });
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to list protocol runs');
+  }
+});
+
+app.get(['/communication/sessions/:sessionId/protocols/:runId', '/api/communication/sessions/:sessionId/protocols/:runId'], async (req, res) => {
+  try {
+    await requireSessionOwner(req, req.params.sessionId);
+    const run = communicationService.getProtocolRun(req.params.sessionId, req.params.runId);
+    
+    if (!run) {
+      return res.status(404).json({ error: 'Protocol run not found' });
+    }
+    
+    res.json(run);
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to get protocol run');
+  }
+});
+
+// Stop the running protocol; it still posts its summary message
+app.post(['/communication/sessions/:sessionId/protocols/stop', '/api/communication/sessions/:sessionId/protocols/stop'], async (req, res) => {
+  try {
+    await requireSessionOwner(req, req.params.sessionId);
+    const run = communicationService.stopProtocol(req.params.sessionId, req.body?.reason || 'Stopped by user');
+    
+    if (!run) {
+      return res.status(404).json({ error: 'No protocol is running in this session' });
+    }
+    
+    res.json(run);
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to stop protocol');
+  }
+});
+
 // Create a new router for agent endpoints
 const agentRouter = express.Router();
 
@@ -589,34 +949,127 @@ analyticsRouter.get('/guilds/:guildId/analytics', async (req, res) => {
   }
 });
 
-// Mount the analytics router
-app.use('/api/analytics', analyticsRouter);
+// Mount the analytics router; the frontend calls it without the prefix
+app.use(['/api/analytics', '/'], analyticsRouter);
 
 // Deployment endpoints
 const deploymentRouter = express.Router();
 
-// Deploy a guild
+// The user behind a request's bearer token; a local user when authentication is disabled
+async function requestUser(req: express.Request): Promise<AuthenticatedUser> {
+  const header = req.headers.authorization;
+  return authService.verifyToken(header?.startsWith('Bearer ') ? header.slice(7) : null);
+}
+
+async function requireGuildOwner(req: express.Request, guildId: string): Promise<AuthenticatedUser> {
+  const user = await requestUser(req);
+  
+  if (!(await authService.ownsGuild(user.id, guildId))) {
+    throw httpError('You do not own this guild', 403);
+  }
+  return user;
+}
+
+async function requireWorkflowOwner(req: express.Request, flowId: string): Promise<AuthenticatedUser> {
+  const user = await requestUser(req);
+  
+  if (!authService.isAdmin(user) && !(await authService.ownsWorkflow(user.id, flowId))) {
+    throw httpError("You do not own this workflow's guild", 403);
+  }
+  return user;
+}
+
+// Deploy a guild, or redeploy an existing one as its next version
 deploymentRouter.post('/guild', async (req, res) => {
   try {
-    const { blueprint, simulation_results, credentials } = req.body;
+    const { blueprint, simulation_results, credentials, guild_id } = req.body;
     
     if (!blueprint) {
       return res.status(400).json({ error: 'Blueprint is required' });
     }
     
+    const user = guild_id ? await requireGuildOwner(req, guild_id) : await requestUser(req);
+    
     const result = await deploymentService.deployGuild(
       blueprint,
       simulation_results,
-      credentials || {}
+      credentials || {},
+      { guildId: guild_id, deployedBy: { id: user.id, email: user.email } }
     );
     
     res.json(result);
   } catch (error: any) {
-    console.error('❌ Guild deployment failed:', error);
-    res.status(500).json({
-      error: error.message || 'Failed to deploy guild',
-      success: false
+    handleApiError(res, error, 'Failed to deploy guild');
+  }
+});
+
+// Deployment history of a guild, newest first
+deploymentRouter.get('/guilds/:guildId/versions', async (req, res) => {
+  try {
+    const { guildId } = req.params;
+    await requireGuildOwner(req, guildId);
+    
+    const versions = await deploymentService.listVersions(
+      guildId,
+      req.query.limit ? parseInt(req.query.limit as string) : undefined
+    );
+    
+    res.json({ versions, count: versions.length });
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to list deployment versions');
+  }
+});
+
+// One deployment version, with its snapshot
+deploymentRouter.get('/guilds/:guildId/versions/:version', async (req, res) => {
+  try {
+    const { guildId, version } = req.params;
+    await requireGuildOwner(req, guildId);
+    
+    res.json(await deploymentService.getVersion(guildId, Number(version)));
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to get deployment version');
+  }
+});
+
+// Changes between two deployment versions (default: the current one and the one before)
+deploymentRouter.get('/guilds/:guildId/diff', async (req, res) => {
+  try {
+    const { guildId } = req.params;
+    const { from, to } = req.query;
+    await requireGuildOwner(req, guildId);
+    
+    const diff = await deploymentService.diffVersions(
+      guildId,
+      from !== undefined ? Number(from) : undefined,
+      to !== undefined ? Number(to) : undefined
+    );
+    
+    res.json(diff);
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to diff deployment versions');
+  }
+});
+
+// Restore an earlier version (default: the one before the current version)
+deploymentRouter.post('/guilds/:guildId/rollback', async (req, res) => {
+  try {
+    const { guildId } = req.params;
+    const { version } = req.body || {};
+    const user = await requireGuildOwner(req, guildId);
+    
+    if (version !== undefined && !Number.isInteger(version)) {
+      return res.status(400).json({ error: 'version must be an integer' });
+    }
+    
+    const rollback = await deploymentService.rollbackGuild(guildId, {
+      version,
+      deployedBy: { id: user.id, email: user.email }
     });
+    
+    res.json(rollback);
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to roll back deployment');
   }
 });
 
@@ -635,8 +1088,8 @@ deploymentRouter.get('/status/:deploymentId', async (req, res) => {
   }
 });
 
-// Mount the deployment router
-app.use('/api/deployments', deploymentRouter);
+// Mount the deployment router; the frontend calls it without the /api prefix
+app.use(['/api/deployments', '/deployments'], deploymentRouter);
 
 // Get execution status endpoint
 app.get('/execution/:executionId', async (req, res) => {
@@ -648,7 +1101,7 @@ app.get('/execution/:executionId', async (req, res) => {
     }
 
     // Get the execution status from the workflow service
-    const executionStatus = workflowService.getExecutionStatus(executionId);
+    const executionStatus = await workflowService.getExecutionStatus(executionId);
     
     if (!executionStatus) {
       return res.status(404).json({
@@ -663,28 +1116,793 @@ app.get('/execution/:executionId', async (req, res) => {
   }
 });
 
-// Blueprint generation endpoint
-app.post(['/generateBlueprint', '/wizard/generate-blueprint', '/api/wizard/generate-blueprint'], async (req, res) => {
+// The caller, who must own the workflow an execution ran
+async function requireExecutionOwner(req: express.Request, executionId: string): Promise<AuthenticatedUser> {
+  const execution = await workflowService.getExecutionStatus(executionId);
+  
+  if (!execution) {
+    throw httpError(`No execution found with ID: ${executionId}`, 404);
+  }
+  return requireWorkflowOwner(req, execution.flowId);
+}
+
+// Outbound webhook and notification deliveries made by an execution, with every attempt
+app.get(['/execution/:executionId/deliveries', '/api/execution/:executionId/deliveries'], async (req, res) => {
   try {
-    console.log('🧠 Blueprint generation request received by Orchestrator');
-    const { user_input } = req.body;
+    await requireExecutionOwner(req, req.params.executionId);
+    const deliveries = await deliveryService.listDeliveries({
+      executionId: req.params.executionId,
+      limit: Math.min(parseInt(req.query.limit as string) || 100, 500)
+    });
     
-    if (!user_input) {
-      return res.status(400).json({ 
-        error: 'Missing user input',
-        message: 'User input is required'
+    res.json({
+      executionId: req.params.executionId,
+      deliveries: deliveries.map(delivery => deliveryService.describe(delivery))
+    });
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to list execution deliveries');
+  }
+});
+
+// A schedule of a workflow the caller owns
+async function requireScheduleOwner(req: express.Request, scheduleId: string): Promise<WorkflowSchedule> {
+  const schedule = await schedulerService.getSchedule(scheduleId);
+  
+  if (!schedule) {
+    throw httpError(`No schedule found with ID: ${scheduleId}`, 404);
+  }
+  
+  await requireWorkflowOwner(req, schedule.flowId);
+  return schedule;
+}
+
+// Create a cron, interval or one-shot schedule for a workflow
+app.post(['/workflows/:flowId/schedule', '/workflows/:flowId/schedules', '/api/workflows/:flowId/schedules'], async (req, res) => {
+  try {
+    await requireWorkflowOwner(req, req.params.flowId);
+    const schedule = await schedulerService.createSchedule(req.params.flowId, req.body || {});
+    res.status(201).json(schedule);
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to create schedule');
+  }
+});
+
+// List the schedules of a workflow
+app.get(['/workflows/:flowId/schedules', '/api/workflows/:flowId/schedules'], async (req, res) => {
+  try {
+    await requireWorkflowOwner(req, req.params.flowId);
+    const schedules = await schedulerService.listSchedules(req.params.flowId);
+    res.json({ flowId: req.params.flowId, schedules });
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to list schedules');
+  }
+});
+
+// Pause a schedule
+app.post(['/schedules/:scheduleId/pause', '/api/schedules/:scheduleId/pause'], async (req, res) => {
+  try {
+    const schedule = await requireScheduleOwner(req, req.params.scheduleId);
+    res.json(await schedulerService.pauseSchedule(schedule.id));
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to pause schedule');
+  }
+});
+
+// Resume a paused schedule
+app.post(['/schedules/:scheduleId/resume', '/api/schedules/:scheduleId/resume'], async (req, res) => {
+  try {
+    const schedule = await requireScheduleOwner(req, req.params.scheduleId);
+    res.json(await schedulerService.resumeSchedule(schedule.id));
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to resume schedule');
+  }
+});
+
+// Delete a schedule
+app.delete(['/schedules/:scheduleId', '/api/schedules/:scheduleId'], async (req, res) => {
+  try {
+    const schedule = await requireScheduleOwner(req, req.params.scheduleId);
+    const deleted = await schedulerService.deleteSchedule(schedule.id);
+    
+    if (!deleted) {
+      return res.status(404).json({
+        error: 'Schedule not found',
+        message: `No schedule found with ID: ${req.params.scheduleId}`
       });
     }
     
-    console.log(`Generating blueprint for: ${user_input.substring(0, 50)}...`);
+    res.json({ deleted: true, scheduleId: req.params.scheduleId });
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to delete schedule');
+  }
+});
+
+// Run history of a schedule
+app.get(['/schedules/:scheduleId/runs', '/api/schedules/:scheduleId/runs'], async (req, res) => {
+  try {
+    const schedule = await requireScheduleOwner(req, req.params.scheduleId);
     
-    try {
-      // First try to use agent service for better blueprint generation
-      try {
-        console.log('🧪 Attempting to use agent service for blueprint generation');
-        const agentServiceUrl = process.env.AGENT_SERVICE_URL || 'http://localhost:8001';
-        
-        // Try multiple endpoints that might work
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+    const runs = await schedulerService.getScheduleRuns(schedule.id, limit);
+    
+    res.json({ schedule, runs });
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to get schedule runs');
+  }
+});
+
+// The caller, who must own the workflow a subscription starts; in-process
+// handlers are the orchestrator's own and only admins may touch them
+async function requireSubscriptionOwner(req: express.Request, subscription: EventSubscription): Promise<AuthenticatedUser> {
+  if (subscription.target.type === 'workflow') {
+    return requireWorkflowOwner(req, subscription.target.flowId);
+  }
+  
+  const user = await requestUser(req);
+  if (!authService.isAdmin(user)) {
+    throw httpError('Only admins may manage internal event subscriptions', 403);
+  }
+  return user;
+}
+
+// Publish an event to a guild's workflows; lifecycle topics such as
+// `workflow.*` and `approval.*` are reserved for the orchestrator
+app.post(['/events', '/api/events'], async (req, res) => {
+  try {
+    const { topic, payload = {}, source, guild_id } = req.body;
+    const user = guild_id ? await requireGuildOwner(req, guild_id) : await requestUser(req);
+    const admin = authService.isAdmin(user);
+    
+    if (isReservedTopic(topic) && !admin) {
+      throw httpError(`Topic ${topic} is reserved for the orchestrator's own events`, 403);
+    }
+    
+    if (!guild_id && !admin) {
+      return res.status(400).json({ error: 'guild_id is required' });
+    }
+    
+    const result = await eventService.publish(topic, payload, { source: source || 'api', guildId: guild_id });
+    res.status(202).json(result);
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to publish event');
+  }
+});
+
+// Recently published events of a guild; every guild's for admins
+app.get(['/events', '/api/events'], async (req, res) => {
+  try {
+    const guildId = req.query.guild_id as string | undefined;
+    const user = guildId ? await requireGuildOwner(req, guildId) : await requestUser(req);
+    
+    if (!guildId && !authService.isAdmin(user)) {
+      return res.status(400).json({ error: 'guild_id is required' });
+    }
+    
+    const events = eventService.getRecentEvents({
+      topic: req.query.topic as string | undefined,
+      guildId,
+      limit: Math.min(parseInt(req.query.limit as string) || 50, 500)
+    });
+    
+    res.json({ events });
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to list events');
+  }
+});
+
+// Start a workflow whenever a matching event is published
+app.post(['/workflows/:flowId/event-trigger', '/api/workflows/:flowId/event-trigger'], async (req, res) => {
+  try {
+    await requireWorkflowOwner(req, req.params.flowId);
+    // Callers can't pick the ID, which would replace another workflow's subscription
+    const { id, ...input } = req.body || {};
+    
+    const subscription = await eventService.subscribeWorkflow(req.params.flowId, input, {
+      guildId: (await authService.workflowGuild(req.params.flowId)) || undefined
+    });
+    
+    res.status(201).json({
+      ...subscription,
+      flowId: req.params.flowId,
+      eventType: subscription.pattern
+    });
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to register event trigger');
+  }
+});
+
+// List event subscriptions of the caller's workflows, optionally for one workflow
+app.get(['/event-subscriptions', '/api/event-subscriptions'], async (req, res) => {
+  try {
+    const flowId = req.query.flowId as string | undefined;
+    const user = flowId ? await requireWorkflowOwner(req, flowId) : await requestUser(req);
+    
+    res.json({ subscriptions: eventService.getSubscriptions(flowId, await authService.ownedWorkflowIds(user)) });
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to list event subscriptions');
+  }
+});
+
+// Remove an event subscription
+app.delete(['/event-subscriptions/:subscriptionId', '/api/event-subscriptions/:subscriptionId'], async (req, res) => {
+  try {
+    const subscription = eventService.getSubscription(req.params.subscriptionId);
+    
+    if (subscription) {
+      await requireSubscriptionOwner(req, subscription);
+    }
+    
+    const deleted = subscription && await eventService.unsubscribe(subscription.id);
+    
+    if (!deleted) {
+      return res.status(404).json({
+        error: 'Subscription not found',
+        message: `No event subscription found with ID: ${req.params.subscriptionId}`
+      });
+    }
+    
+    res.json({ deleted: true, subscriptionId: req.params.subscriptionId });
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to delete event subscription');
+  }
+});
+
+// Delivery records to the caller's workflows; `?status=dead` lists the dead-letter queue
+app.get(['/event-deliveries', '/api/event-deliveries'], async (req, res) => {
+  try {
+    const flowIds = await authService.ownedWorkflowIds(await requestUser(req));
+    
+    const deliveries = await eventService.getDeliveries({
+      status: req.query.status as any,
+      eventId: req.query.eventId as string | undefined,
+      subscriptionIds: flowIds && eventService.getSubscriptions(undefined, flowIds).map(subscription => subscription.id),
+      limit: Math.min(parseInt(req.query.limit as string) || 50, 500)
+    });
+    
+    res.json({ deliveries });
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to list event deliveries');
+  }
+});
+
+// Requeue a dead-lettered delivery
+app.post(['/event-deliveries/:deliveryId/retry', '/api/event-deliveries/:deliveryId/retry'], async (req, res) => {
+  try {
+    const delivery = await eventService.getDelivery(req.params.deliveryId);
+    const subscription = delivery && eventService.getSubscription(delivery.subscriptionId);
+    
+    if (subscription) {
+      await requireSubscriptionOwner(req, subscription);
+    } else if (!authService.isAdmin(await requestUser(req))) {
+      throw httpError(`Event delivery not found: ${req.params.deliveryId}`, 404);
+    }
+    
+    res.json(await eventService.retryDelivery(req.params.deliveryId));
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to retry event delivery');
+  }
+});
+
+// The caller and an approval they may see and act on: they are one of its
+// named approvers or own its workflow's guild
+async function requireApprovalAccess(
+  req: express.Request,
+  approvalId: string
+): Promise<{ user: AuthenticatedUser; approval: ApprovalRequest }> {
+  const user = await requestUser(req);
+  const approval = await approvalService.getApproval(approvalId);
+  
+  if (!approval) {
+    throw httpError(`No approval found with ID: ${approvalId}`, 404);
+  }
+  
+  if (!authService.isAdmin(user) && !approvalService.isApprover(approval, user) &&
+      !(await authService.ownsWorkflow(user.id, approval.flowId))) {
+    throw httpError('You are not an approver of this request', 403);
+  }
+  return { user, approval };
+}
+
+// List approval requests of the caller's workflows; `?status=pending` lists the ones awaiting a decision
+app.get(['/approvals', '/api/approvals'], async (req, res) => {
+  try {
+    const user = await requestUser(req);
+    const approvals = await approvalService.listApprovals({
+      status: req.query.status as any,
+      flowId: req.query.flowId as string | undefined,
+      flowIds: await authService.ownedWorkflowIds(user),
+      executionId: req.query.executionId as string | undefined,
+      limit: Math.min(parseInt(req.query.limit as string) || 100, 500)
+    });
+    
+    res.json({ approvals });
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to list approvals');
+  }
+});
+
+// Get an approval request
+app.get(['/approvals/:approvalId', '/api/approvals/:approvalId'], async (req, res) => {
+  try {
+    const { approval } = await requireApprovalAccess(req, req.params.approvalId);
+    res.json(approval);
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to get approval');
+  }
+});
+
+// Approve a pending request; the workflow continues down its `approved` edge
+app.post(['/approvals/:approvalId/approve', '/api/approvals/:approvalId/approve'], async (req, res) => {
+  try {
+    const { user } = await requireApprovalAccess(req, req.params.approvalId);
+    const { comment, payload } = req.body || {};
+    res.json(await approvalService.approve(req.params.approvalId, user, { comment, payload }));
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to approve request');
+  }
+});
+
+// Reject a pending request; the workflow continues down its `rejected` edge
+app.post(['/approvals/:approvalId/reject', '/api/approvals/:approvalId/reject'], async (req, res) => {
+  try {
+    const { user } = await requireApprovalAccess(req, req.params.approvalId);
+    const { comment } = req.body || {};
+    res.json(await approvalService.reject(req.params.approvalId, user, { comment }));
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to reject request');
+  }
+});
+
+// Edit the payload of a pending request before deciding on it
+app.put(['/approvals/:approvalId/payload', '/api/approvals/:approvalId/payload'], async (req, res) => {
+  try {
+    const { user } = await requireApprovalAccess(req, req.params.approvalId);
+    res.json(await approvalService.updatePayload(req.params.approvalId, req.body?.payload, user));
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to update approval payload');
+  }
+});
+
+async function requireAgentOwner(req: express.Request, agentId: string): Promise<AuthenticatedUser> {
+  const user = await requestUser(req);
+  
+  if (!(await authService.ownsAgent(user.id, agentId))) {
+    throw httpError("You do not own this agent's guild", 403);
+  }
+  return user;
+}
+
+/**
+ * Memory filter from query parameters; dates may be ISO strings or ms timestamps
+ */
+function parseMemoryFilter(query: any): MemoryFilter {
+  const toNumber = (value: any): number | undefined => {
+    if (value === undefined || value === '') return undefined;
+    const number = /^\d+(\.\d+)?$/.test(String(value)) ? Number(value) : Date.parse(String(value));
+    
+    if (!Number.isFinite(number)) {
+      throw httpError(`Invalid filter value: ${value}`);
+    }
+    return number;
+  };
+  
+  return {
+    user_id: query.user_id || undefined,
+    type: query.type || undefined,
+    from: toNumber(query.from),
+    to: toNumber(query.to),
+    min_importance: toNumber(query.min_importance),
+    max_importance: toNumber(query.max_importance),
+    include_expired: query.include_expired === 'true'
+  };
+}
+
+// List an agent's memories, filtered by user, type, date range and importance
+app.get(['/agents/:agentId/memories', '/api/agents/:agentId/memories'], async (req, res) => {
+  try {
+    await requireAgentOwner(req, req.params.agentId);
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+    
+    const { memories, total } = await memoryService.listMemories(
+      req.params.agentId,
+      parseMemoryFilter(req.query),
+      limit,
+      offset
+    );
+    
+    res.json({ memories, total, limit, offset });
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to list memories');
+  }
+});
+
+// Export an agent's memories (same filters as the list) as JSON Lines
+app.get(['/agents/:agentId/memories/export', '/api/agents/:agentId/memories/export'], async (req, res) => {
+  try {
+    await requireAgentOwner(req, req.params.agentId);
+    const jsonl = await memoryService.exportMemories(req.params.agentId, parseMemoryFilter(req.query));
+    
+    res.setHeader('Content-Type', 'application/x-ndjson');
+    res.setHeader('Content-Disposition', `attachment; filename="memories-${req.params.agentId}.jsonl"`);
+    res.send(jsonl);
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to export memories');
+  }
+});
+
+// Import memories from a JSONL body, or JSON `{ memories: [...] }`; `?mode=replace` clears the agent first
+app.post(
+  ['/agents/:agentId/memories/import', '/api/agents/:agentId/memories/import'],
+  express.text({ type: ['application/x-ndjson', 'application/jsonl', 'text/plain'], limit: '20mb' }),
+  async (req, res) => {
+    try {
+      await requireAgentOwner(req, req.params.agentId);
+      const input = typeof req.body === 'string' ? req.body : req.body?.memories;
+      const mode = (req.query.mode || (typeof req.body === 'object' ? req.body?.mode : undefined)) as any;
+      
+      if (typeof input !== 'string' && !Array.isArray(input)) {
+        return res.status(400).json({ error: 'A JSONL body or a memories array is required' });
+      }
+      
+      res.json(await memoryService.importMemories(req.params.agentId, input, { mode }));
+    } catch (error: any) {
+      handleApiError(res, error, 'Failed to import memories');
+    }
+  }
+);
+
+// "Forget me": erase one end user's memories across all agents (admins and the service role only)
+app.delete(['/memory/users/:userId', '/api/memory/users/:userId'], async (req, res) => {
+  try {
+    if (!authService.isAdmin(await requestUser(req))) {
+      return res.status(403).json({ error: "Only administrators can erase a user's memories" });
+    }
+    
+    const { deleted, agents } = await memoryService.forgetUser(req.params.userId);
+    const reports = await memoryConsolidationService.forgetUser(req.params.userId);
+    
+    res.json({ userId: req.params.userId, deleted, agents, reportsRedacted: reports });
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to forget user');
+  }
+});
+
+// Run memory consolidation now for the caller's agents, or every agent for admins;
+// `dryRun` reports what would change without touching memories
+app.post(['/memory/consolidation/run', '/api/memory/consolidation/run'], async (req, res) => {
+  try {
+    const { agentIds, agentId, dryRun } = req.body || {};
+    const ids: string[] = agentIds || (agentId ? [agentId] : []);
+    
+    if (!Array.isArray(ids)) {
+      return res.status(400).json({ error: 'agentIds must be an array' });
+    }
+    
+    if (ids.length > 0) {
+      await Promise.all(ids.map(id => requireAgentOwner(req, id)));
+    } else if (!authService.isAdmin(await requestUser(req))) {
+      throw httpError("Only admins may consolidate every agent's memories", 403);
+    }
+    
+    const report = await memoryConsolidationService.run({
+      agentIds: ids.length > 0 ? ids : undefined,
+      dryRun: Boolean(dryRun),
+      trigger: 'manual'
+    });
+    
+    res.json(report);
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to run memory consolidation');
+  }
+});
+
+// Reports of past consolidation runs, newest first. Agent owners see only
+// their agent's results; every report is for admins.
+app.get(['/memory/consolidation/reports', '/api/memory/consolidation/reports'], async (req, res) => {
+  try {
+    const agentId = req.query.agentId as string | undefined;
+    const user = agentId ? await requireAgentOwner(req, agentId) : await requestUser(req);
+    const admin = authService.isAdmin(user);
+    
+    if (!agentId && !admin) {
+      throw httpError('agentId is required to list consolidation reports', 403);
+    }
+    
+    const reports = await memoryConsolidationService.listReports({
+      agentId,
+      limit: Math.min(parseInt(req.query.limit as string) || 20, 100)
+    });
+    
+    res.json({
+      reports: admin ? reports : reports.map(report => memoryConsolidationService.forAgents(report, [agentId!]))
+    });
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to list memory consolidation reports');
+  }
+});
+
+// Get one consolidation report
+app.get(['/memory/consolidation/reports/:reportId', '/api/memory/consolidation/reports/:reportId'], async (req, res) => {
+  try {
+    const user = await requestUser(req);
+    const report = await memoryConsolidationService.getReport(req.params.reportId);
+    
+    if (!report) {
+      return res.status(404).json({
+        error: 'Report not found',
+        message: `No consolidation report found with ID: ${req.params.reportId}`
+      });
+    }
+    
+    if (authService.isAdmin(user)) {
+      return res.json(report);
+    }
+    
+    // Only the results of agents the caller owns
+    const owned: string[] = [];
+    for (const agent of report.agents) {
+      if (await authService.ownsAgent(user.id, agent.agentId)) owned.push(agent.agentId);
+    }
+    
+    if (owned.length === 0) {
+      throw httpError("You do not own any of this report's agents", 403);
+    }
+    
+    res.json(memoryConsolidationService.forAgents(report, owned));
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to get memory consolidation report');
+  }
+});
+
+// Raw document uploads; JSON bodies carry the document in `content`
+const knowledgeUpload = express.text({
+  type: ['text/markdown', 'text/x-markdown', 'text/plain', 'text/csv'],
+  limit: '10mb'
+});
+
+/**
+ * Document input from either a raw upload (details in the query) or a JSON body
+ */
+function parseKnowledgeInput(req: express.Request) {
+  if (typeof req.body === 'string') {
+    return {
+      content: req.body,
+      title: req.query.title as string | undefined,
+      filename: req.query.filename as string | undefined,
+      format: (req.query.format as string | undefined) || (req.is('text/csv') ? 'csv' : req.is('text/markdown') || req.is('text/x-markdown') ? 'markdown' : undefined),
+      author: req.query.author as string | undefined
+    };
+  }
+  
+  const { title, format, filename, content, metadata, author } = req.body || {};
+  return { title, format, filename, content, metadata, author };
+}
+
+/**
+ * A guild's document, or a 404 if it doesn't exist in that guild
+ */
+async function getGuildDocument(guildId: string, documentId: string) {
+  const document = await knowledgeService.getDocument(documentId);
+  
+  if (!document || document.guild_id !== guildId) {
+    throw httpError(`Document not found: ${documentId}`, 404);
+  }
+  
+  return document;
+}
+
+// Upload a Markdown, text, CSV or JSON document to a guild's knowledge base
+app.post(['/guilds/:guildId/knowledge', '/api/guilds/:guildId/knowledge'], knowledgeUpload, async (req, res) => {
+  try {
+    await requireGuildOwner(req, req.params.guildId);
+    const document = await knowledgeService.createDocument(req.params.guildId, parseKnowledgeInput(req));
+    res.status(201).json(document);
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to add knowledge document');
+  }
+});
+
+// List a guild's documents (without content)
+app.get(['/guilds/:guildId/knowledge', '/api/guilds/:guildId/knowledge'], async (req, res) => {
+  try {
+    await requireGuildOwner(req, req.params.guildId);
+    res.json({ documents: await knowledgeService.listDocuments(req.params.guildId) });
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to list knowledge documents');
+  }
+});
+
+// Search a guild's knowledge base, as agents do before answering
+app.get(['/guilds/:guildId/knowledge/search', '/api/guilds/:guildId/knowledge/search'], async (req, res) => {
+  try {
+    await requireGuildOwner(req, req.params.guildId);
+    const query = req.query.q as string;
+    
+    if (!query) {
+      return res.status(400).json({ error: 'Query parameter q is required' });
+    }
+    
+    const results = await knowledgeService.search(req.params.guildId, query, {
+      limit: Math.min(parseInt(req.query.limit as string) || 5, 50)
+    });
+    
+    res.json({
+      results: results.map(result => ({ ...result, citation: knowledgeService.formatCitation(result.source) }))
+    });
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to search knowledge base');
+  }
+});
+
+// Get a document; `?version=N` returns that version's content
+app.get(['/guilds/:guildId/knowledge/:documentId', '/api/guilds/:guildId/knowledge/:documentId'], async (req, res) => {
+  try {
+    await requireGuildOwner(req, req.params.guildId);
+    const document = await getGuildDocument(req.params.guildId, req.params.documentId);
+    
+    if (req.query.version) {
+      const version = await knowledgeService.getVersion(document.id, parseInt(req.query.version as string));
+      
+      if (!version) {
+        return res.status(404).json({ error: `Version ${req.query.version} not found` });
+      }
+      
+      return res.json(version);
+    }
+    
+    res.json(document);
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to get knowledge document');
+  }
+});
+
+// Update a document; content or title changes create a new version
+app.put(['/guilds/:guildId/knowledge/:documentId', '/api/guilds/:guildId/knowledge/:documentId'], knowledgeUpload, async (req, res) => {
+  try {
+    await requireGuildOwner(req, req.params.guildId);
+    await getGuildDocument(req.params.guildId, req.params.documentId);
+    res.json(await knowledgeService.updateDocument(req.params.documentId, parseKnowledgeInput(req)));
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to update knowledge document');
+  }
+});
+
+// Delete a document and its version history
+app.delete(['/guilds/:guildId/knowledge/:documentId', '/api/guilds/:guildId/knowledge/:documentId'], async (req, res) => {
+  try {
+    await requireGuildOwner(req, req.params.guildId);
+    await getGuildDocument(req.params.guildId, req.params.documentId);
+    await knowledgeService.deleteDocument(req.params.documentId);
+    res.json({ success: true, documentId: req.params.documentId });
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to delete knowledge document');
+  }
+});
+
+// Version history of a document, newest first
+app.get(['/guilds/:guildId/knowledge/:documentId/versions', '/api/guilds/:guildId/knowledge/:documentId/versions'], async (req, res) => {
+  try {
+    await requireGuildOwner(req, req.params.guildId);
+    await getGuildDocument(req.params.guildId, req.params.documentId);
+    res.json({ versions: await knowledgeService.listVersions(req.params.documentId) });
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to list document versions');
+  }
+});
+
+// Make an earlier version current again (recorded as a new version)
+app.post(
+  ['/guilds/:guildId/knowledge/:documentId/versions/:version/restore', '/api/guilds/:guildId/knowledge/:documentId/versions/:version/restore'],
+  async (req, res) => {
+    try {
+      await requireGuildOwner(req, req.params.guildId);
+      await getGuildDocument(req.params.guildId, req.params.documentId);
+      res.json(await knowledgeService.restoreVersion(
+        req.params.documentId,
+        parseInt(req.params.version),
+        req.body?.author
+      ));
+    } catch (error: any) {
+      handleApiError(res, error, 'Failed to restore document version');
+    }
+  }
+);
+
+// Guild and agent budgets share their routes; the path says which one is meant
+function budgetScope(req: express.Request): BudgetScope {
+  return req.path.includes('/guilds/') ? 'guild' : 'agent';
+}
+
+// The caller, who must own the guild, or the agent's guild, a budget route is for
+async function requireBudgetOwner(req: express.Request): Promise<AuthenticatedUser> {
+  return budgetScope(req) === 'guild'
+    ? requireGuildOwner(req, req.params.id)
+    : requireAgentOwner(req, req.params.id);
+}
+
+// Metered agent executions of a guild or agent, most recent first
+app.get(
+  ['/guilds/:id/usage', '/api/guilds/:id/usage', '/agents/:id/usage', '/api/agents/:id/usage'],
+  async (req, res) => {
+    try {
+      await requireBudgetOwner(req);
+      const since = req.query.since ? new Date(req.query.since as string) : undefined;
+      
+      if (since && isNaN(since.getTime())) {
+        return res.status(400).json({ error: 'since must be a date' });
+      }
+      
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+      const { records, total } = await meteringService.listUsage({
+        ...(budgetScope(req) === 'guild'
+          ? { guildId: req.params.id, agentId: req.query.agentId as string | undefined }
+          : { agentId: req.params.id }),
+        since
+      }, limit, offset);
+      
+      res.json({ records, total, limit, offset });
+    } catch (error: any) {
+      handleApiError(res, error, 'Failed to list usage');
+    }
+  }
+);
+
+// Budget of a guild or agent, with its spend so far today and this month
+app.get(
+  ['/guilds/:id/budget', '/api/guilds/:id/budget', '/agents/:id/budget', '/api/agents/:id/budget'],
+  async (req, res) => {
+    try {
+      await requireBudgetOwner(req);
+      res.json(await meteringService.getBudget(budgetScope(req), req.params.id));
+    } catch (error: any) {
+      handleApiError(res, error, 'Failed to get budget');
+    }
+  }
+);
+
+// Set a guild's or agent's daily and monthly caps (USD) and requests per minute
+app.put(
+  ['/guilds/:id/budget', '/api/guilds/:id/budget', '/agents/:id/budget', '/api/agents/:id/budget'],
+  async (req, res) => {
+    try {
+      await requireBudgetOwner(req);
+      const { daily_cost_usd, monthly_cost_usd, requests_per_minute } = req.body || {};
+      
+      res.json(await meteringService.setBudget(budgetScope(req), req.params.id, {
+        dailyCostUsd: daily_cost_usd,
+        monthlyCostUsd: monthly_cost_usd,
+        requestsPerMinute: requests_per_minute
+      }));
+    } catch (error: any) {
+      handleApiError(res, error, 'Failed to update budget');
+    }
+  }
+);
+
+// Blueprint generation endpoint
+app.post(['/generateBlueprint', '/wizard/generate-blueprint', '/api/wizard/generate-blueprint'], async (req, res) => {
+  try {
+    console.log('🧠 Blueprint generation request received by Orchestrator');
+    const { user_input } = req.body;
+    
+    if (!user_input) {
+      return res.status(400).json({ 
+        error: 'Missing user input',
+        message: 'User input is required'
+      });
+    }
+    
+    console.log(`Generating blueprint for: ${user_input.substring(0, 50)}...`);
+    
+    try {
+      // First try to use agent service for better blueprint generation
+      try {
+        console.log('🧪 Attempting to use agent service for blueprint generation');
+        const agentServiceUrl = process.env.AGENT_SERVICE_URL || 'http://localhost:8001';
+        
+        // Try multiple endpoints that might work
         const endpoints = [
           '/generate-blueprint',
           '/v1/generate-blueprint',
@@ -826,11 +2044,23 @@ function handleApiError(res: express.Response, error: any, defaultMessage: strin
     statusCode = 401;
   } else if (error.status === 403 || errorMessage.includes('forbidden')) {
     statusCode = 403;
+  } else if (error.status === 409) {
+    statusCode = 409;
+  } else if (error.status === 429) {
+    statusCode = 429;
   }
   
   res.status(statusCode).json({ 
     error: errorMessage,
     status: 'error',
+    // Budget and rate limit refusals say which limit was hit and when to retry
+    ...(statusCode === 429 && {
+      code: error.code,
+      scope: error.scope,
+      scope_id: error.scopeId,
+      limit: error.limit,
+      retry_after_ms: error.retryAfterMs
+    }),
     timestamp: new Date().toISOString()
   });
 }
@@ -843,11 +2073,16 @@ app.post('/webhook', async (req, res) => {
     console.log(`📡 Webhook received from ${source || 'unknown source'}`);
     console.log(`📡 Event: ${event || 'unspecified event'}`);
     
-    // Process webhook event
-    // In a real implementation, this would trigger relevant workflows
+    // Hand the webhook to the event bus; event-triggered workflows pick it up from there
+    const published = await eventService.publish('webhook.received', {
+      source: source || 'unknown',
+      event,
+      payload
+    }, { source: 'webhook' });
     
     res.status(200).json({ 
       received: true,
+      eventId: published.eventId,
       timestamp: new Date().toISOString()
     });
   } catch (error: any) {
@@ -859,6 +2094,310 @@ app.post('/webhook', async (req, res) => {
   }
 });
 
+// The caller, who must have registered the webhook or own its workflow's guild
+async function requireWebhookOwner(req: express.Request, webhookId: string): Promise<{ user: AuthenticatedUser; webhook: WebhookConfig }> {
+  const user = await requestUser(req);
+  const webhook = await webhookService.getWebhook(webhookId);
+  
+  if (!webhook) {
+    throw httpError(`No webhook found with ID: ${webhookId}`, 404);
+  }
+  
+  if (!authService.isAdmin(user) && webhook.userId !== user.id &&
+      !(await authService.ownsWorkflow(user.id, webhook.workflowId))) {
+    throw httpError('You do not own this webhook', 403);
+  }
+  return { user, webhook };
+}
+
+// Register a webhook that triggers a workflow
+app.post(['/workflows/:flowId/webhooks', '/api/workflows/:flowId/webhooks'], async (req, res) => {
+  try {
+    const user = await requireWorkflowOwner(req, req.params.flowId);
+    const { path, method, secret, authentication, filtering, transform, nodes, edges } = req.body;
+    
+    const registration = await webhookService.registerWebhook(req.params.flowId, user.id, {
+      path,
+      method,
+      secret,
+      authentication,
+      filtering,
+      transform,
+      nodes,
+      edges
+    });
+    
+    res.status(201).json(registration);
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to register webhook');
+  }
+});
+
+// Update a webhook's method, secret, authentication, filtering or transform
+app.put(['/webhooks/:webhookId', '/api/webhooks/:webhookId'], async (req, res) => {
+  try {
+    const { webhook: current } = await requireWebhookOwner(req, req.params.webhookId);
+    const { method, secret, authentication, filtering, transform, status } = req.body;
+    const updates = Object.fromEntries(
+      Object.entries({ method, secret, authentication, filtering, transform, status }).filter(([, value]) => value !== undefined)
+    );
+    
+    const webhook = await webhookService.updateWebhook(current.id, current.userId, updates);
+    
+    if (!webhook) {
+      return res.status(404).json({
+        error: 'Webhook not found',
+        message: `No webhook found with ID: ${req.params.webhookId}`
+      });
+    }
+    
+    res.json(webhook);
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to update webhook');
+  }
+});
+
+// Delete a webhook
+app.delete(['/webhooks/:webhookId', '/api/webhooks/:webhookId'], async (req, res) => {
+  try {
+    const { webhook } = await requireWebhookOwner(req, req.params.webhookId);
+    const deleted = await webhookService.deleteWebhook(webhook.id, webhook.userId);
+    
+    if (!deleted) {
+      return res.status(404).json({
+        error: 'Webhook not found',
+        message: `No webhook found with ID: ${req.params.webhookId}`
+      });
+    }
+    
+    res.json({ deleted: true, webhookId: req.params.webhookId });
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to delete webhook');
+  }
+});
+
+// Which filtering rules a payload matches and the workflow inputs it transforms into
+app.post(['/webhooks/:webhookId/test', '/api/webhooks/:webhookId/test'], async (req, res) => {
+  try {
+    const { webhook } = await requireWebhookOwner(req, req.params.webhookId);
+    const { payload, filtering, transform } = req.body;
+    
+    res.json(await webhookService.testPayload(webhook.id, payload, { filtering, transform }));
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to test webhook payload');
+  }
+});
+
+// Requests to registered webhooks; verified ones that pass filtering start the workflow
+app.all(
+  ['/webhook/*', '/api/webhook/*'],
+  express.urlencoded({ extended: false, verify: captureRawBody }),
+  express.text({ type: 'text/*', verify: captureRawBody }),
+  async (req, res) => {
+    try {
+      const result = await webhookService.processWebhookRequest(
+        req.path.replace(/^\/api/, ''),
+        req.method,
+        req.headers,
+        req.body,
+        (req as any).rawBody ?? ''
+      );
+      
+      res.status(result.status || (result.success ? 202 : 400)).json({
+        received: result.success,
+        filtered: result.filtered || undefined,
+        error: result.error,
+        webhookId: result.webhookId || undefined,
+        requestId: result.requestId,
+        executionId: result.executionId,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      handleApiError(res, error, 'Failed to process webhook');
+    }
+  }
+);
+
+// The caller, who must own the webhook a stored request was sent to. Requests
+// that matched no webhook are only visible to admins.
+async function requireWebhookRequestOwner(req: express.Request, request: WebhookRequestRecord): Promise<AuthenticatedUser> {
+  const user = await requestUser(req);
+  if (authService.isAdmin(user)) return user;
+  
+  const webhook = request.webhook_id ? await webhookService.getWebhook(request.webhook_id) : null;
+  const owned = webhook
+    ? webhook.userId === user.id || await authService.ownsWorkflow(user.id, webhook.workflowId)
+    : Boolean(request.workflow_id) && await authService.ownsWorkflow(user.id, request.workflow_id!);
+  
+  if (!owned) {
+    throw httpError('You do not own the webhook this request was sent to', 403);
+  }
+  return user;
+}
+
+// Stored webhook requests to the caller's webhooks; `?dead_letter=true` lists the dead-letter queue
+app.get(['/webhook-requests', '/api/webhook-requests'], async (req, res) => {
+  try {
+    const user = await requestUser(req);
+    const deadLetter = req.query.dead_letter as string | undefined;
+    
+    const requests = await webhookService.listRequests({
+      webhookId: req.query.webhookId as string | undefined,
+      workflowIds: await authService.ownedWorkflowIds(user),
+      status: req.query.status as any,
+      deadLetter: deadLetter === undefined ? undefined : deadLetter === 'true',
+      since: req.query.since as string | undefined,
+      limit: Math.min(parseInt(req.query.limit as string) || 50, 500)
+    });
+    
+    res.json({ requests });
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to list webhook requests');
+  }
+});
+
+// A stored webhook request with its headers, body, verification and filter results
+app.get(['/webhook-requests/:requestId', '/api/webhook-requests/:requestId'], async (req, res) => {
+  try {
+    const request = await webhookService.getRequest(req.params.requestId);
+    
+    if (!request) {
+      return res.status(404).json({
+        error: 'Webhook request not found',
+        message: `No webhook request found with ID: ${req.params.requestId}`
+      });
+    }
+    
+    await requireWebhookRequestOwner(req, request);
+    res.json(request);
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to get webhook request');
+  }
+});
+
+// Run a stored webhook request again
+app.post(['/webhook-requests/:requestId/replay', '/api/webhook-requests/:requestId/replay'], async (req, res) => {
+  try {
+    const request = await webhookService.getRequest(req.params.requestId);
+    
+    if (!request) {
+      return res.status(404).json({
+        error: 'Webhook request not found',
+        message: `No webhook request found with ID: ${req.params.requestId}`
+      });
+    }
+    
+    const user = await requireWebhookRequestOwner(req, request);
+    res.status(201).json(await webhookService.replayRequest(request.id, user.id));
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to replay webhook request');
+  }
+});
+
+// Queue an outbound webhook delivery (used by frontend triggers). Payloads are
+// signed with OUTBOUND_SIGNING_SECRET; workflow secrets are only for workflow nodes.
+app.post(['/deliveries', '/api/deliveries'], async (req, res) => {
+  try {
+    const user = await requestUser(req);
+    const { url, method, headers, payload, kind, idempotency_key, max_attempts } = req.body;
+    
+    const delivery = await deliveryService.enqueue({
+      url,
+      method,
+      headers,
+      payload,
+      kind,
+      // Keys are per user, so one user's key can't return another's delivery
+      idempotencyKey: idempotency_key ? `user:${user.id}:${idempotency_key}` : undefined,
+      maxAttempts: max_attempts,
+      requestedBy: user.id
+    });
+    
+    res.status(202).json(deliveryService.describe(delivery));
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to queue delivery');
+  }
+});
+
+// The caller, who must have queued a delivery or own the workflow that made it
+async function requireDeliveryOwner(req: express.Request, delivery: OutboundDelivery): Promise<AuthenticatedUser> {
+  const user = await requestUser(req);
+  
+  if (!authService.isAdmin(user) && delivery.requestedBy !== user.id &&
+      !(delivery.flowId && await authService.ownsWorkflow(user.id, delivery.flowId))) {
+    throw httpError('You do not own this delivery', 403);
+  }
+  return user;
+}
+
+// The caller's outbound deliveries, newest first; `?status=failed` lists the ones that gave up
+app.get(['/deliveries', '/api/deliveries'], async (req, res) => {
+  try {
+    const user = await requestUser(req);
+    const flowIds = await authService.ownedWorkflowIds(user);
+    
+    const deliveries = await deliveryService.listDeliveries({
+      status: req.query.status as any,
+      visibleTo: flowIds && { userId: user.id, flowIds },
+      limit: Math.min(parseInt(req.query.limit as string) || 50, 500)
+    });
+    
+    res.json({ deliveries: deliveries.map(delivery => deliveryService.describe(delivery)) });
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to list deliveries');
+  }
+});
+
+// Circuit breaker state per destination; destinations span guilds, so admins only
+app.get(['/deliveries/circuits', '/api/deliveries/circuits'], async (req, res) => {
+  try {
+    if (!authService.isAdmin(await requestUser(req))) {
+      throw httpError('Only admins may see delivery circuits', 403);
+    }
+    res.json({ circuits: deliveryService.getCircuits() });
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to list delivery circuits');
+  }
+});
+
+// An outbound delivery with its attempt history
+app.get(['/deliveries/:deliveryId', '/api/deliveries/:deliveryId'], async (req, res) => {
+  try {
+    const delivery = await deliveryService.getDelivery(req.params.deliveryId);
+    
+    if (!delivery) {
+      return res.status(404).json({
+        error: 'Delivery not found',
+        message: `No delivery found with ID: ${req.params.deliveryId}`
+      });
+    }
+    
+    await requireDeliveryOwner(req, delivery);
+    res.json(deliveryService.describe(delivery));
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to get delivery');
+  }
+});
+
+// Queue a failed delivery again
+app.post(['/deliveries/:deliveryId/retry', '/api/deliveries/:deliveryId/retry'], async (req, res) => {
+  try {
+    const delivery = await deliveryService.getDelivery(req.params.deliveryId);
+    
+    if (!delivery) {
+      return res.status(404).json({
+        error: 'Delivery not found',
+        message: `No delivery found with ID: ${req.params.deliveryId}`
+      });
+    }
+    
+    await requireDeliveryOwner(req, delivery);
+    res.json(deliveryService.describe(await deliveryService.retryDelivery(delivery.id)));
+  } catch (error: any) {
+    handleApiError(res, error, 'Failed to retry delivery');
+  }
+});
+
 // Function to try starting the server on a port, and increment if already in use
 function startServer(port: number) {
   const server = http.createServer(app);
@@ -875,16 +2414,104 @@ function startServer(port: number) {
   server.on('listening', async () => {
     PORT = port; // Update the global PORT variable
     await initializeClients();
+    
+    // Socket.IO carries agent sessions and streamed agent responses
+    communicationService.initialize(new SocketServer(server, { cors: { origin: '*' } }));
+    
+    // Subscribe event-triggered workflows and redeliver pending events
+    await eventService.initialize();
+    
+    // Resume outbound webhook and notification deliveries still being retried
+    await deliveryService.initialize();
+    
+    // Pick up workflow executions interrupted by the last shutdown
+    await workflowService.resumeInterruptedExecutions();
+    
+    // Arm workflow schedules, catching up on runs missed while we were down
+    await schedulerService.initialize();
+    
+    // Summarize, evict and purge agent memories per their memory_config
+    memoryConsolidationService.initialize();
+    
     console.log(`🚀 GenesisOS Orchestrator ready at http://localhost:${port}`);
     console.log(`📋 API Endpoints available:
     - POST /generateBlueprint
     - POST /generateCanvas
     - POST /executeFlow
     - GET /execution/:executionId
+    - GET /execution/:executionId/deliveries
+    - POST /workflow/validate
+    - GET /workflow/secrets
+    - POST /workflows/:flowId/schedules
+    - GET /workflows/:flowId/schedules
+    - POST /schedules/:scheduleId/pause
+    - POST /schedules/:scheduleId/resume
+    - DELETE /schedules/:scheduleId
+    - GET /schedules/:scheduleId/runs
+    - POST /events
+    - GET /events
+    - POST /workflows/:flowId/event-trigger
+    - GET /event-subscriptions
+    - DELETE /event-subscriptions/:subscriptionId
+    - GET /event-deliveries
+    - POST /event-deliveries/:deliveryId/retry
+    - GET /approvals
+    - GET /approvals/:approvalId
+    - POST /approvals/:approvalId/approve
+    - POST /approvals/:approvalId/reject
+    - PUT /approvals/:approvalId/payload
+    - GET /agents/:agentId/memories
+    - GET /agents/:agentId/memories/export
+    - POST /agents/:agentId/memories/import
+    - DELETE /memory/users/:userId
+    - POST /memory/consolidation/run
+    - GET /memory/consolidation/reports
+    - GET /memory/consolidation/reports/:reportId
+    - POST /guilds/:guildId/knowledge
+    - GET /guilds/:guildId/knowledge
+    - GET /guilds/:guildId/knowledge/search
+    - GET /guilds/:guildId/knowledge/:documentId
+    - PUT /guilds/:guildId/knowledge/:documentId
+    - DELETE /guilds/:guildId/knowledge/:documentId
+    - GET /guilds/:guildId/knowledge/:documentId/versions
+    - POST /guilds/:guildId/knowledge/:documentId/versions/:version/restore
+    - GET /guilds/:guildId/usage, GET /agents/:agentId/usage
+    - GET/PUT /guilds/:guildId/budget, GET/PUT /agents/:agentId/budget
     - POST /agentDispatch
+    - POST /agentDispatch/stream
+    - DELETE /agentDispatch/stream/:streamId
+    - Socket.IO /guilds/:guildId (Supabase token): join-session, send-message, agent-stream-start, agent-stream-cancel
+    - POST /communication/sessions
+    - GET /communication/sessions
+    - GET /communication/sessions/:sessionId
+    - GET /communication/sessions/:sessionId/messages
+    - GET /communication/sessions/:sessionId/export
+    - GET /communication/sessions/:sessionId/replay
+    - POST /communication/sessions/:sessionId/protocols
+    - GET /communication/sessions/:sessionId/protocols
+    - GET /communication/sessions/:sessionId/protocols/:runId
+    - POST /communication/sessions/:sessionId/protocols/stop
     - POST /simulation/run
     - GET /simulation/:simulationId
+    - POST /deployments/guild (guild_id redeploys an existing guild)
+    - GET /deployments/status/:deploymentId
+    - GET /deployments/guilds/:guildId/versions
+    - GET /deployments/guilds/:guildId/versions/:version
+    - GET /deployments/guilds/:guildId/diff
+    - POST /deployments/guilds/:guildId/rollback
     - POST /webhook
+    - POST /workflows/:flowId/webhooks
+    - PUT /webhooks/:webhookId
+    - DELETE /webhooks/:webhookId
+    - POST /webhooks/:webhookId/test
+    - GET /webhook-requests
+    - GET /webhook-requests/:requestId
+    - POST /webhook-requests/:requestId/replay
+    - POST /deliveries, GET /deliveries
+    - GET /deliveries/circuits
+    - GET /deliveries/:deliveryId
+    - POST /deliveries/:deliveryId/retry
+    - ANY /webhook/* (registered webhooks; signature, Basic or Bearer authenticated)
     `);
   });
   
@@ -1,12 +1,21 @@
 import axios, { AxiosInstance } from 'axios';
+import { Readable } from 'stream';
 import dotenv from 'dotenv';
 import memoryService from './memoryService';
+import knowledgeService, { KnowledgeSource } from './knowledgeService';
+import toolRuntimeService, { AgentTool, ToolCallRecord, AGENT_MAX_TOOL_STEPS } from './toolRuntimeService';
+import meteringService, { AGENT_DEFAULT_MODEL, UsageRecord } from './meteringService';
+import authService from './authService';
+import { httpError } from '../utils/httpError';
 
 dotenv.config();
 
 // API URL from environment
 const AGENT_SERVICE_URL = process.env.AGENT_SERVICE_URL || 'http://localhost:8001';
 
+// Knowledge base excerpts given to an agent per request
+const KNOWLEDGE_CONTEXT_CHUNKS = parseInt(process.env.KNOWLEDGE_CONTEXT_CHUNKS || '4');
+
 // Interface for agent execution input
 interface AgentExecutionInput {
   input: string;
@@ -14,13 +23,58 @@ interface AgentExecutionInput {
 }
 
 // Interface for agent execution output
-interface AgentExecutionOutput {
+export interface AgentExecutionOutput {
   output: string;
   chain_of_thought: string;
   status: string;
   audio?: string;
+  // Knowledge base excerpts the agent was given, by the ref it can cite them with
+  citations?: Array<{ ref: string; citation: string; source: KnowledgeSource }>;
+  // Tools the agent called on the way to its answer
+  tool_calls?: ToolCallRecord[];
+  // Tokens used, as reported by the agent service or estimated, and their cost
+  usage?: AgentUsage;
+}
+
+export interface AgentUsage {
+  model?: string;
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  cost_usd?: number;
+  estimated?: boolean;
+}
+
+// Tokens used by the model calls of one execution
+interface ExecutionMeter {
+  model: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  estimated: boolean;
 }
 
+// Interface for agent execution options
+export interface AgentExecutionOptions {
+  // Names of tools configured on the agent
+  tools?: string[];
+  maxToolSteps?: number;
+  // Called after each tool call, e.g. to add it to a workflow execution log
+  onToolCall?: (call: ToolCallRecord) => void;
+  // Receives partial output and chain-of-thought steps as they are produced
+  onEvent?: (event: AgentStreamEvent) => void;
+  // Aborts the execution; executeAgent then rejects with status 499
+  signal?: AbortSignal;
+}
+
+// Partial results relayed while an agent is running. `reset` tells the listener
+// to discard the tokens it has so far, e.g. when they turned out to be a tool call.
+export type AgentStreamEvent =
+  | { type: 'token'; text: string }
+  | { type: 'thought'; text: string }
+  | { type: 'tool_call'; call: ToolCallRecord }
+  | { type: 'reset' };
+
 // Interface for agent configuration
 interface AgentConfig {
   name: string;
@@ -37,6 +91,8 @@ class AgentService {
   private apiClient: AxiosInstance;
   private retryAttempts: number = 3;
   private retryDelay: number = 1000; // ms
+  // Cleared the first time the agent service turns out to have no streaming endpoint
+  private streamingSupported: boolean = true;
 
   constructor() {
     this.apiClient = axios.create({
@@ -56,68 +112,439 @@ class AgentService {
   public async executeAgent(
     agent_id: string,
     input: string,
-    context: Record<string, any> = {}
+    context: Record<string, any> = {},
+    options: AgentExecutionOptions = {}
   ): Promise<AgentExecutionOutput> {
     // Add execution ID if not present
     if (!context.executionId) {
       context.executionId = `exec-${Date.now()}`;
     }
     
-    // Prepare request payload
-    const agentInput: AgentExecutionInput = {
-      input,
-      context
-    };
+    // Budgets, knowledge and usage follow the agent's stored guild, not one the caller names
+    const storedGuild = await authService.agentGuild(agent_id);
+    if (storedGuild !== undefined) {
+      context.guild_id = storedGuild || undefined;
+    }
+    
+    // Refuse the execution if the agent or its guild is over budget
+    await meteringService.checkBudget({ agentId: agent_id, guildId: context.guild_id });
+    
+    // Recall what the agent remembers about this input
+    if (context.memory_enabled !== false && !context.relevant_memories) {
+      try {
+        const recalled = await memoryService.searchMemories(agent_id, input, 5, { user_id: context.user_id });
+        
+        if (recalled.length > 0) {
+          context.relevant_memories = recalled.map(({ memory, score }) => ({
+            content: memory.content,
+            type: memory.type,
+            created_at: memory.created_at,
+            score
+          }));
+        }
+      } catch (error: any) {
+        console.warn(`⚠️ Failed to recall memories for agent ${agent_id}: ${error.message}`);
+      }
+    }
+    
+    // Ground the agent in its guild's shared knowledge base
+    if (context.guild_id && context.knowledge_enabled !== false && !context.knowledge) {
+      try {
+        const results = await knowledgeService.search(context.guild_id, input, { limit: KNOWLEDGE_CONTEXT_CHUNKS });
+        
+        if (results.length > 0) {
+          context.knowledge = results.map((result, index) => ({
+            ref: `[${index + 1}]`,
+            citation: knowledgeService.formatCitation(result.source),
+            content: result.chunk.text,
+            source: result.source,
+            similarity: result.similarity
+          }));
+          context.knowledge_instructions =
+            'Use the knowledge excerpts where they answer the request and cite each one you use by its ref, e.g. [1].';
+        }
+      } catch (error: any) {
+        console.warn(`⚠️ Failed to search knowledge base for guild ${context.guild_id}: ${error.message}`);
+      }
+    }
+    
+    const tools = options.tools?.length
+      ? await toolRuntimeService.resolveTools(agent_id, options.tools)
+      : [];
     
     console.log(`🤖 Executing agent ${agent_id} with input: ${input.substring(0, 50)}...`);
     
-    // Try to execute the agent with retries
+    const startedAt = Date.now();
+    // Priced at the model the agent service runs, or reports using; never the
+    // caller's context, which anyone dispatching the agent can set
+    const meter: ExecutionMeter = {
+      model: AGENT_DEFAULT_MODEL,
+      calls: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      estimated: false
+    };
+    
+    let result: AgentExecutionOutput | null;
+    try {
+      result = tools.length > 0
+        ? await this.executeWithTools(agent_id, input, context, tools, options, meter)
+        : await this.requestAgent(agent_id, { input, context }, options, meter);
+    } catch (error: any) {
+      this.recordUsage(agent_id, context, meter, error.status === 499 ? 'cancelled' : 'failed', startedAt);
+      throw error;
+    }
+    
+    const usage = await this.recordUsage(agent_id, context, meter, result ? 'succeeded' : 'fallback', startedAt, result?.tool_calls);
+    
+    if (!result) {
+      // If all retries failed, return a fallback response
+      console.warn(`⚠️ All ${this.retryAttempts} attempts failed, using fallback response`);
+      const fallback = this.getFallbackResponse(agent_id, input);
+      fallback.usage = usage;
+      this.emitEvent(options, { type: 'reset' });
+      this.emitEvent(options, { type: 'token', text: fallback.output });
+      return fallback;
+    }
+    
+    result.usage = usage;
+    
+    if (context.knowledge && !result.citations) {
+      result.citations = context.knowledge.map(({ ref, citation, source }: any) => ({ ref, citation, source }));
+    }
+    
+    // Store in memory if enabled
+    if (context.memory_enabled !== false) {
+      const memoryContent = JSON.stringify({
+        user_input: input,
+        agent_response: result.output,
+        agent_id,
+        execution_id: context.executionId
+      });
+      
+      await memoryService.storeMemory(
+        agent_id,
+        memoryContent,
+        'interaction',
+        { execution_id: context.executionId },
+        0.7, // default importance
+        context.user_id
+      );
+    }
+    
+    return result;
+  }
+
+  /**
+   * Call the agent service once, with retries. Returns null if every attempt failed.
+   * With an event listener the answer is streamed from the agent service when it
+   * supports that, otherwise the completed answer is relayed in one piece.
+   */
+  private async requestAgent(
+    agent_id: string,
+    agentInput: AgentExecutionInput,
+    options: AgentExecutionOptions = {},
+    meter?: ExecutionMeter
+  ): Promise<AgentExecutionOutput | null> {
     for (let attempt = 1; attempt <= this.retryAttempts; attempt++) {
+      if (options.signal?.aborted) {
+        throw httpError(`Execution of agent ${agent_id} was cancelled`, 499);
+      }
+      
       try {
+        if (options.onEvent && this.streamingSupported) {
+          const streamed = await this.requestAgentStream(agent_id, agentInput, options);
+          
+          if (streamed) {
+            console.log(`✅ Agent ${agent_id} streamed its response`);
+            this.meterCall(meter, agentInput, streamed);
+            return streamed;
+          }
+        }
+        
         const response = await this.apiClient.post(
           `/agent/${agent_id}/execute`,
-          agentInput
+          agentInput,
+          { signal: options.signal }
         );
         
         const result = response.data as AgentExecutionOutput;
-        console.log(`✅ Agent ${agent_id} executed successfully`);
         
-        // Store in memory if enabled
-        if (context.memory_enabled !== false) {
-          const memoryContent = JSON.stringify({
-            user_input: input,
-            agent_response: result.output,
-            agent_id,
-            execution_id: context.executionId
-          });
-          
-          await memoryService.storeMemory(
-            agent_id,
-            memoryContent,
-            'interaction',
-            { execution_id: context.executionId },
-            0.7, // default importance
-            context.user_id
-          );
+        if (result.chain_of_thought) {
+          this.emitEvent(options, { type: 'thought', text: result.chain_of_thought });
+        }
+        if (result.output) {
+          this.emitEvent(options, { type: 'token', text: result.output });
         }
         
+        console.log(`✅ Agent ${agent_id} executed successfully`);
+        this.meterCall(meter, agentInput, result);
         return result;
       } catch (error: any) {
+        if (options.signal?.aborted) {
+          throw httpError(`Execution of agent ${agent_id} was cancelled`, 499);
+        }
+        
         console.error(`❌ Attempt ${attempt}/${this.retryAttempts} - Error executing agent ${agent_id}:`, error.message);
         
-        if (attempt === this.retryAttempts) {
-          // If all retries failed, return a fallback response
-          console.warn(`⚠️ All ${this.retryAttempts} attempts failed, using fallback response`);
-          return this.getFallbackResponse(agent_id, input);
+        // Partial output of a failed attempt is not part of the answer
+        this.emitEvent(options, { type: 'reset' });
+        
+        if (attempt < this.retryAttempts) {
+          // Wait before retrying
+          await new Promise(resolve => setTimeout(resolve, this.retryDelay * attempt));
+        }
+      }
+    }
+    
+    return null;
+  }
+
+  /**
+   * Stream one execution from the agent service, which answers with newline-delimited
+   * JSON events: {type:'token',text}, {type:'thought',text}, {type:'error',error} and
+   * a final {type:'done',output,chain_of_thought,status}. Returns null when the agent
+   * service has no streaming endpoint.
+   */
+  private async requestAgentStream(
+    agent_id: string,
+    agentInput: AgentExecutionInput,
+    options: AgentExecutionOptions
+  ): Promise<AgentExecutionOutput | null> {
+    let stream: Readable;
+    
+    try {
+      const response = await this.apiClient.post(
+        `/agent/${agent_id}/execute/stream`,
+        agentInput,
+        { responseType: 'stream', signal: options.signal }
+      );
+      stream = response.data;
+    } catch (error: any) {
+      if (error.response?.status === 404 || error.response?.status === 405) {
+        this.streamingSupported = false;
+        console.log('ℹ️ Agent service does not stream responses, relaying completed outputs instead');
+        return null;
+      }
+      throw error;
+    }
+    
+    let output = '';
+    const thoughts: string[] = [];
+    let result: AgentExecutionOutput | null = null;
+    
+    const handleLine = (line: string) => {
+      const data = line.replace(/^data:/, '').trim();
+      if (!data) return;
+      
+      const event = JSON.parse(data);
+      
+      switch (event.type) {
+        case 'token':
+          output += event.text || '';
+          this.emitEvent(options, { type: 'token', text: event.text || '' });
+          break;
+        case 'thought':
+          thoughts.push(event.text || '');
+          this.emitEvent(options, { type: 'thought', text: event.text || '' });
+          break;
+        case 'error':
+          throw new Error(event.error || 'Agent stream failed');
+        case 'done':
+          result = {
+            output: event.output ?? output,
+            chain_of_thought: event.chain_of_thought ?? thoughts.join('\n'),
+            status: event.status || 'completed',
+            audio: event.audio,
+            usage: event.usage
+          };
+          break;
+      }
+    };
+    
+    stream.setEncoding('utf8');
+    let buffered = '';
+    
+    for await (const chunk of stream) {
+      buffered += chunk;
+      const lines = buffered.split('\n');
+      buffered = lines.pop() || '';
+      lines.forEach(handleLine);
+    }
+    handleLine(buffered);
+    
+    if (!result) {
+      throw new Error('Agent stream ended before the response was complete');
+    }
+    
+    return result;
+  }
+
+  /**
+   * Tool loop: the agent sees its tools and the results of earlier calls, and
+   * either calls another tool or answers. After `maxToolSteps` calls it is asked
+   * to answer without tools. Every call is recorded in the result and in
+   * chain_of_thought.
+   */
+  private async executeWithTools(
+    agent_id: string,
+    input: string,
+    context: Record<string, any>,
+    tools: AgentTool[],
+    options: AgentExecutionOptions,
+    meter?: ExecutionMeter
+  ): Promise<AgentExecutionOutput | null> {
+    const maxSteps = Math.max(1, options.maxToolSteps || AGENT_MAX_TOOL_STEPS);
+    const schemas = toolRuntimeService.describeTools(tools);
+    const calls: ToolCallRecord[] = [];
+    const thoughts: string[] = [];
+    
+    for (let step = 1; ; step++) {
+      const limitReached = step > maxSteps;
+      const available = limitReached ? [] : schemas;
+      
+      // Tokens that open with JSON or a code fence are probably a tool call, so
+      // they are held back until the response is complete
+      let held = '';
+      let relay: 'pending' | 'stream' | 'hold' = limitReached ? 'stream' : 'pending';
+      const onEvent = options.onEvent && ((event: AgentStreamEvent) => {
+        if (event.type === 'reset') {
+          held = '';
+          relay = limitReached ? 'stream' : 'pending';
+        } else if (event.type === 'token' && relay !== 'stream') {
+          held += event.text;
+          const start = held.trimStart();
+          if (relay === 'hold' || !start) return;
+          
+          relay = start.startsWith('{') || start.startsWith('`') ? 'hold' : 'stream';
+          if (relay === 'hold') return;
+          event = { type: 'token', text: held };
+        }
+        this.emitEvent(options, event);
+      });
+      
+      const response = await this.requestAgent(agent_id, {
+        input: toolRuntimeService.buildPrompt(input, available, calls, limitReached),
+        context: { ...context, original_input: input, available_tools: available, tool_calls: calls }
+      }, { signal: options.signal, onEvent }, meter);
+      
+      if (!response) return null;
+      
+      if (response.chain_of_thought) {
+        thoughts.push(response.chain_of_thought);
+      }
+      
+      const call = limitReached ? null : toolRuntimeService.parseToolCall(response.output);
+      
+      if (!call) {
+        if (limitReached) {
+          thoughts.push(`Stopped calling tools after the limit of ${maxSteps} steps.`);
+        }
+        if (relay !== 'stream') {
+          this.emitEvent(options, { type: 'token', text: response.output });
         }
         
-        // Wait before retrying
-        await new Promise(resolve => setTimeout(resolve, this.retryDelay * attempt));
+        return {
+          ...response,
+          chain_of_thought: thoughts.join('\n'),
+          tool_calls: calls
+        };
+      }
+      
+      if (relay === 'stream') {
+        this.emitEvent(options, { type: 'reset' });
       }
+      
+      const record = await toolRuntimeService.executeCall(call, tools, schemas, step);
+      calls.push(record);
+      thoughts.push(toolRuntimeService.describeCall(record));
+      this.emitEvent(options, { type: 'tool_call', call: record });
+      this.emitEvent(options, { type: 'thought', text: toolRuntimeService.describeCall(record) });
+      
+      try {
+        options.onToolCall?.(record);
+      } catch (error: any) {
+        console.warn(`⚠️ Tool call listener failed: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Add the tokens of one model call to an execution's meter. Calls the agent
+   * service doesn't report usage for are estimated from the text sent and received.
+   */
+  private meterCall(meter: ExecutionMeter | undefined, agentInput: AgentExecutionInput, result: AgentExecutionOutput): void {
+    if (!meter) return;
+    
+    const reported = result.usage;
+    meter.calls++;
+    meter.model = reported?.model || meter.model;
+    
+    if (typeof reported?.prompt_tokens === 'number' && typeof reported?.completion_tokens === 'number') {
+      meter.promptTokens += reported.prompt_tokens;
+      meter.completionTokens += reported.completion_tokens;
+      return;
     }
     
-    // Shouldn't reach here, but TypeScript wants a return
-    return this.getFallbackResponse(agent_id, input);
+    meter.estimated = true;
+    meter.promptTokens += meteringService.estimateTokens(agentInput.input + JSON.stringify(agentInput.context || {}));
+    meter.completionTokens += meteringService.estimateTokens((result.output || '') + (result.chain_of_thought || ''));
+  }
+  
+  /**
+   * Record the usage of an execution. Metering problems never fail the execution.
+   */
+  private async recordUsage(
+    agent_id: string,
+    context: Record<string, any>,
+    meter: ExecutionMeter,
+    status: UsageRecord['status'],
+    startedAt: number,
+    toolCalls: ToolCallRecord[] = []
+  ): Promise<AgentUsage> {
+    const usage: AgentUsage = {
+      model: meter.model,
+      prompt_tokens: meter.promptTokens,
+      completion_tokens: meter.completionTokens,
+      total_tokens: meter.promptTokens + meter.completionTokens,
+      cost_usd: meteringService.calculateCost(meter.model, meter.promptTokens, meter.completionTokens),
+      estimated: meter.estimated
+    };
+    
+    try {
+      await meteringService.recordUsage({
+        agent_id,
+        guild_id: context.guild_id || null,
+        user_id: context.user_id || null,
+        execution_id: context.executionId,
+        source: context.source || null,
+        model: meter.model,
+        calls: meter.calls,
+        prompt_tokens: meter.promptTokens,
+        completion_tokens: meter.completionTokens,
+        estimated: meter.estimated,
+        duration_ms: Date.now() - startedAt,
+        status,
+        tool_calls: toolCalls.map(call => ({ tool: call.tool, status: call.status, durationMs: call.durationMs }))
+      });
+    } catch (error: any) {
+      console.error(`❌ Failed to record usage of agent ${agent_id}:`, error.message);
+    }
+    
+    return usage;
+  }
+  
+  /**
+   * Hand a stream event to the execution's listener, if it has one
+   */
+  private emitEvent(options: AgentExecutionOptions, event: AgentStreamEvent): void {
+    if (!options.onEvent) return;
+    
+    try {
+      options.onEvent(event);
+    } catch (error: any) {
+      console.warn(`⚠️ Agent stream listener failed: ${error.message}`);
+    }
   }
 
   /**
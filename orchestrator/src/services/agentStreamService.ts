@@ -0,0 +1,169 @@
+import { v4 as uuid } from 'uuid';
+import dotenv from 'dotenv';
+import agentService, { AgentExecutionOutput, AgentStreamEvent } from './agentService';
+
+dotenv.config();
+
+// Streams still running after this long are cancelled
+const AGENT_STREAM_TIMEOUT_MS = parseInt(process.env.AGENT_STREAM_TIMEOUT_MS || '300000');
+
+/**
+ * Runs agent executions whose partial output and chain-of-thought steps are
+ * relayed to a listener (an SSE response or a socket) as they are produced.
+ * Every stream gets an id it can be cancelled by, from any transport.
+ */
+class AgentStreamService {
+  private streams: Map<string, ActiveStream> = new Map();
+
+  /**
+   * Start executing an agent. The listener gets a `start` message first and
+   * exactly one of `done`, `error` or `cancelled` last.
+   */
+  start(request: AgentStreamRequest, listener: (message: AgentStreamMessage) => void): AgentStreamInfo {
+    const streamId = uuid();
+    const context = { ...(request.context || {}) };
+    context.executionId = context.executionId || `exec-${Date.now()}`;
+
+    const stream: ActiveStream = {
+      info: {
+        streamId,
+        agentId: request.agentId,
+        executionId: context.executionId,
+        owner: request.owner,
+        startedAt: new Date().toISOString()
+      },
+      controller: new AbortController(),
+      listener,
+      sequence: 0,
+      finished: false,
+      timeout: setTimeout(() => this.cancel(streamId, 'Stream timed out'), AGENT_STREAM_TIMEOUT_MS)
+    };
+    this.streams.set(streamId, stream);
+
+    this.send(stream, { type: 'start', agentId: request.agentId, executionId: context.executionId });
+    console.log(`📡 Streaming agent ${request.agentId} (stream ${streamId})`);
+
+    agentService.executeAgent(request.agentId, request.input, context, {
+      tools: request.tools,
+      maxToolSteps: request.maxToolSteps,
+      signal: stream.controller.signal,
+      onEvent: event => this.send(stream, event)
+    })
+      .then(result => this.finish(stream, { type: 'done', result }))
+      .catch((error: any) => {
+        if (stream.controller.signal.aborted) {
+          this.finish(stream, { type: 'cancelled', reason: String(stream.controller.signal.reason || 'Cancelled') });
+        } else {
+          console.error(`❌ Agent stream ${streamId} failed:`, error.message);
+          this.finish(stream, { type: 'error', error: error.message || 'Agent execution failed' });
+        }
+      });
+
+    return stream.info;
+  }
+
+  /**
+   * Cancel a running stream. Returns false if it is unknown or already finished.
+   */
+  cancel(streamId: string, reason: string = 'Cancelled by client'): boolean {
+    const stream = this.streams.get(streamId);
+    if (!stream || stream.finished) return false;
+
+    console.log(`🛑 Cancelling agent stream ${streamId}: ${reason}`);
+    stream.controller.abort(reason);
+
+    // The execution may be waiting on a tool call; report the cancellation now
+    this.finish(stream, { type: 'cancelled', reason });
+    return true;
+  }
+
+  /**
+   * Cancel every running stream started on behalf of an owner, e.g. a socket
+   */
+  cancelOwned(owner: string, reason: string): number {
+    let cancelled = 0;
+
+    for (const stream of Array.from(this.streams.values())) {
+      if (stream.info.owner === owner && this.cancel(stream.info.streamId, reason)) {
+        cancelled++;
+      }
+    }
+
+    return cancelled;
+  }
+
+  getStream(streamId: string): AgentStreamInfo | null {
+    return this.streams.get(streamId)?.info || null;
+  }
+
+  private send(stream: ActiveStream, payload: AgentStreamPayload): void {
+    if (stream.finished) return;
+
+    try {
+      stream.listener({
+        ...payload,
+        streamId: stream.info.streamId,
+        sequence: stream.sequence++,
+        timestamp: new Date().toISOString()
+      } as AgentStreamMessage);
+    } catch (error: any) {
+      console.warn(`⚠️ Agent stream listener failed: ${error.message}`);
+    }
+  }
+
+  private finish(stream: ActiveStream, payload: AgentStreamPayload): void {
+    if (stream.finished) return;
+
+    this.send(stream, payload);
+    stream.finished = true;
+    clearTimeout(stream.timeout);
+    this.streams.delete(stream.info.streamId);
+  }
+}
+
+// Create singleton instance
+const agentStreamService = new AgentStreamService();
+
+export default agentStreamService;
+
+// Types
+export interface AgentStreamRequest {
+  agentId: string;
+  input: string;
+  context?: Record<string, any>;
+  // Names of tools configured on the agent
+  tools?: string[];
+  maxToolSteps?: number;
+  // Who started the stream, so it can be cancelled when they go away
+  owner?: string;
+}
+
+export interface AgentStreamInfo {
+  streamId: string;
+  agentId: string;
+  executionId: string;
+  owner?: string;
+  startedAt: string;
+}
+
+type AgentStreamPayload =
+  | AgentStreamEvent
+  | { type: 'start'; agentId: string; executionId: string }
+  | { type: 'done'; result: AgentExecutionOutput }
+  | { type: 'error'; error: string }
+  | { type: 'cancelled'; reason: string };
+
+export type AgentStreamMessage = AgentStreamPayload & {
+  streamId: string;
+  sequence: number;
+  timestamp: string;
+};
+
+interface ActiveStream {
+  info: AgentStreamInfo;
+  controller: AbortController;
+  listener: (message: AgentStreamMessage) => void;
+  sequence: number;
+  finished: boolean;
+  timeout: NodeJS.Timeout;
+}
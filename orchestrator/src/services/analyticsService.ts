@@ -1,33 +1,112 @@
 import axios from 'axios';
-import { v4 as uuid } from 'uuid';
+import meteringService, { AGENT_DEFAULT_MODEL, UsageSummary } from './meteringService';
+import memoryService, { Memory } from './memoryService';
 
 const AGENT_SERVICE_URL = process.env.AGENT_SERVICE_URL || 'http://localhost:8001';
 
+// How far back each analytics period reaches, and the size of its time series buckets
+const PERIOD_WINDOWS: Record<string, { days: number; bucketMs: number }> = {
+  day: { days: 1, bucketMs: 3600000 },
+  week: { days: 7, bucketMs: 86400000 },
+  month: { days: 30, bucketMs: 86400000 * 3 },
+  all: { days: 90, bucketMs: 86400000 * 7 }
+};
+
+function periodWindow(period: string): { since: Date; bucketMs: number } {
+  const window = PERIOD_WINDOWS[period] || PERIOD_WINDOWS.week;
+  return { since: new Date(Date.now() - window.days * 86400000), bucketMs: window.bucketMs };
+}
+
+function ratio(part: number, whole: number): number {
+  return whole ? Number((part / whole).toFixed(2)) : 0;
+}
+
 /**
  * Service for analytics and reporting
  */
 class AnalyticsService {
   /**
-   * Get agent analysis
+   * Get agent analysis, from the agent's metered executions and its memories
    */
   async getAgentAnalysis(agentId: string, period = 'week'): Promise<any> {
     try {
       console.log(`📊 Getting analysis for agent: ${agentId}`);
       
-      // Try to get analysis from agent service
+      const { since, bucketMs } = periodWindow(period);
+      const usage = await meteringService.getUsageSummary({ agentId, since }, bucketMs);
+      
+      let memories: Memory[] = [];
       try {
-        const response = await axios.post(`${AGENT_SERVICE_URL}/agent-analysis`, {
-          agent_id: agentId,
-          time_period: period
-        });
-        
-        return response.data;
-      } catch (error) {
-        console.error('❌ Agent analysis API error, using fallback:', error);
-        
-        // Fall back to a mock analysis
-        return this.generateMockAgentAnalysis(agentId, period);
+        memories = await memoryService.loadAgentMemories(agentId);
+      } catch (error: any) {
+        console.warn(`⚠️ Failed to load memories of agent ${agentId}: ${error.message}`);
       }
+      
+      const memoryTypes = new Map<string, number>();
+      memories.forEach(memory => memoryTypes.set(memory.type, (memoryTypes.get(memory.type) || 0) + 1));
+      const interactions = memoryTypes.get('interaction') || 0;
+      
+      const toolCalls = usage.byTool.reduce((total, tool) => total + tool.count, 0);
+      const successfulToolCalls = usage.byTool.reduce((total, tool) => total + tool.succeeded, 0);
+      
+      return {
+        agent_id: agentId,
+        agent_name: agentId,
+        period,
+        performance_metrics: {
+          total_conversations: usage.executions,
+          avg_response_time_ms: usage.avgDurationMs,
+          success_rate: ratio(usage.succeeded, usage.executions),
+          error_rate: ratio(usage.failed + usage.fallback, usage.executions),
+          avg_tokens_per_response: usage.executions ? Math.round(usage.completionTokens / usage.executions) : 0,
+          total_tokens_used: usage.totalTokens,
+          total_cost_usd: usage.costUsd,
+          common_error_types: [
+            { type: 'Agent service unavailable (fallback response)', count: usage.fallback },
+            { type: 'Execution error', count: usage.failed },
+            { type: 'Cancelled', count: usage.cancelled }
+          ].filter(error => error.count > 0)
+        },
+        memory_metrics: {
+          // Interactions are short-term until consolidation turns them into reflections
+          short_term_entries: interactions,
+          long_term_entries: memories.length - interactions,
+          avg_importance_score: memories.length
+            ? Number((memories.reduce((total, memory) => total + memory.importance, 0) / memories.length).toFixed(2))
+            : 0,
+          memory_types_distribution: Array.from(memoryTypes.entries()).map(([type, count]) => ({ type, count }))
+        },
+        tool_usage_metrics: {
+          tools_used: usage.byTool.map(tool => ({
+            tool: tool.tool,
+            count: tool.count,
+            success_rate: ratio(tool.succeeded, tool.count),
+            avg_execution_time_ms: tool.avgDurationMs
+          })),
+          total_tool_calls: toolCalls,
+          successful_tool_calls: successfulToolCalls,
+          failed_tool_calls: toolCalls - successfulToolCalls
+        },
+        usage_metrics: {
+          prompt_tokens: usage.promptTokens,
+          completion_tokens: usage.completionTokens,
+          estimated_executions: usage.estimated,
+          by_model: usage.byModel.map(model => ({
+            model: model.model,
+            executions: model.executions,
+            total_tokens: model.totalTokens,
+            cost_usd: model.costUsd
+          })),
+          time_series_data: {
+            timestamps: usage.timeSeries.map(bucket => bucket.timestamp),
+            executions: usage.timeSeries.map(bucket => bucket.executions),
+            tokens_used: usage.timeSeries.map(bucket => bucket.totalTokens),
+            cost_usd: usage.timeSeries.map(bucket => bucket.costUsd)
+          }
+        },
+        optimization_opportunities: this.findOpportunities(usage),
+        created_at: new Date().toISOString()
+      };
     } catch (error: any) {
       console.error('❌ Error getting agent analysis:', error);
       throw new Error(`Failed to get agent analysis: ${error.message}`);
@@ -35,23 +114,66 @@ class AnalyticsService {
   }
   
   /**
-   * Get guild analytics
+   * Get guild analytics, from the metered executions of the guild's agents
    */
   async getGuildAnalytics(guildId: string, period = 'week'): Promise<any> {
     try {
       console.log(`📊 Getting analytics for guild: ${guildId}`);
       
-      // Try to get analytics from an API endpoint
-      try {
-        const response = await axios.get(`${AGENT_SERVICE_URL}/guilds/${guildId}/analytics?period=${period}`);
-        
-        return response.data;
-      } catch (error) {
-        console.error('❌ Guild analytics API error, using fallback:', error);
-        
-        // Fall back to a mock analytics report
-        return this.generateMockGuildAnalytics(guildId, period);
-      }
+      const { since, bucketMs } = periodWindow(period);
+      const usage = await meteringService.getUsageSummary({ guildId, since }, bucketMs);
+      const budget = await meteringService.getBudget('guild', guildId);
+      
+      const busiestSource = [...usage.bySource].sort((a, b) => b.executions - a.executions)[0];
+      const costliestAgent = [...usage.byAgent].sort((a, b) => b.costUsd - a.costUsd)[0];
+      const insights = [
+        usage.executions > 0 && `${usage.executions} agent executions used ${usage.totalTokens} tokens ($${usage.costUsd.toFixed(4)})`,
+        costliestAgent && `Agent ${costliestAgent.agentId} accounts for ${Math.round(ratio(costliestAgent.costUsd, usage.costUsd) * 100)}% of spend`,
+        busiestSource && `Most executions come from ${busiestSource.source} (${busiestSource.executions})`,
+        budget.remaining.monthlyCostUsd !== null && `$${budget.remaining.monthlyCostUsd.toFixed(2)} of the monthly budget remains`,
+        usage.estimated > 0 && `Token counts of ${usage.estimated} executions are estimated`
+      ].filter(Boolean) as string[];
+      
+      return {
+        guild_id: guildId,
+        guild_name: guildId,
+        period,
+        summary_metrics: {
+          total_conversations: usage.executions,
+          avg_response_time_ms: usage.avgDurationMs,
+          overall_success_rate: ratio(usage.succeeded, usage.executions),
+          total_agents: usage.byAgent.length,
+          total_executions: usage.executions,
+          total_tokens_used: usage.totalTokens,
+          total_cost_usd: usage.costUsd
+        },
+        agent_metrics: usage.byAgent.map(agent => ({
+          agent_id: agent.agentId,
+          agent_name: agent.agentId,
+          conversations: agent.executions,
+          success_rate: ratio(agent.succeeded, agent.executions),
+          avg_response_time_ms: agent.avgDurationMs,
+          tokens_used: agent.totalTokens,
+          cost_usd: agent.costUsd
+        })),
+        channel_metrics: usage.bySource.map(source => ({
+          channel: source.source,
+          conversations: source.executions,
+          users: source.users,
+          tokens_used: source.totalTokens,
+          cost_usd: source.costUsd
+        })),
+        time_series_data: {
+          timestamps: usage.timeSeries.map(bucket => bucket.timestamp),
+          conversations: usage.timeSeries.map(bucket => bucket.executions),
+          avg_response_times: usage.timeSeries.map(bucket => bucket.avgDurationMs),
+          tokens_used: usage.timeSeries.map(bucket => bucket.totalTokens),
+          cost_usd: usage.timeSeries.map(bucket => bucket.costUsd)
+        },
+        budget,
+        insight_highlights: insights,
+        created_at: new Date().toISOString()
+      };
     } catch (error: any) {
       console.error('❌ Error getting guild analytics:', error);
       throw new Error(`Failed to get guild analytics: ${error.message}`);
@@ -83,202 +205,27 @@ class AnalyticsService {
   }
   
   /**
-   * Generate a mock agent analysis
-   */
-  private generateMockAgentAnalysis(agentId: string, period: string): any {
-    console.log('🔄 Generating mock agent analysis');
-    
-    return {
-      agent_id: agentId,
-      agent_name: `Agent ${agentId.slice(-8)}`,
-      period,
-      performance_metrics: {
-        total_conversations: Math.floor(Math.random() * 1000) + 100,
-        avg_response_time_ms: Math.floor(Math.random() * 500) + 200,
-        success_rate: (Math.random() * 0.2 + 0.8).toFixed(2), // 80-100%
-        error_rate: (Math.random() * 0.1).toFixed(2), // 0-10%
-        avg_tokens_per_response: Math.floor(Math.random() * 200) + 100,
-        total_tokens_used: Math.floor(Math.random() * 1000000) + 100000,
-        avg_sentiment_score: (Math.random() * 0.6 + 0.3).toFixed(2), // 0.3-0.9
-        common_error_types: [
-          { type: "API Timeout", count: Math.floor(Math.random() * 20) + 5 },
-          { type: "Authentication Failure", count: Math.floor(Math.random() * 10) + 1 },
-          { type: "Invalid Input", count: Math.floor(Math.random() * 15) + 3 }
-        ]
-      },
-      memory_metrics: {
-        short_term_entries: Math.floor(Math.random() * 100) + 20,
-        long_term_entries: Math.floor(Math.random() * 1000) + 100,
-        avg_importance_score: (Math.random() * 0.6 + 0.2).toFixed(2), // 0.2-0.8
-        memory_types_distribution: [
-          { type: "conversation", count: Math.floor(Math.random() * 500) + 100 },
-          { type: "knowledge", count: Math.floor(Math.random() * 300) + 50 },
-          { type: "reflection", count: Math.floor(Math.random() * 100) + 10 },
-          { type: "plan", count: Math.floor(Math.random() * 50) + 5 }
-        ],
-        avg_retrieval_time_ms: Math.floor(Math.random() * 100) + 20
-      },
-      tool_usage_metrics: {
-        tools_used: [
-          {
-            tool: "Database Query",
-            count: Math.floor(Math.random() * 200) + 50,
-            success_rate: (Math.random() * 0.2 + 0.8).toFixed(2),
-            avg_execution_time_ms: Math.floor(Math.random() * 300) + 100
-          },
-          {
-            tool: "API Request",
-            count: Math.floor(Math.random() * 150) + 30,
-            success_rate: (Math.random() * 0.3 + 0.7).toFixed(2),
-            avg_execution_time_ms: Math.floor(Math.random() * 400) + 150
-          },
-          {
-            tool: "Email Sender",
-            count: Math.floor(Math.random() * 50) + 10,
-            success_rate: (Math.random() * 0.1 + 0.9).toFixed(2),
-            avg_execution_time_ms: Math.floor(Math.random() * 500) + 200
-          }
-        ],
-        total_tool_calls: 0,
-        successful_tool_calls: 0,
-        failed_tool_calls: 0
-      },
-      optimization_opportunities: [
-        "Response time is higher than optimal. Consider optimizing prompt design.",
-        "Error rate is above target threshold. Implement better error handling.",
-        "Memory retrieval time is high. Consider optimizing memory indexing."
-      ],
-      improvement_suggestions: [
-        "Implement caching for frequently accessed data to reduce API calls",
-        "Add more specific examples to agent instructions to improve task understanding",
-        "Consider breaking complex workflows into smaller, more focused steps",
-        "Increase memory importance thresholds to focus on higher-quality information"
-      ],
-      created_at: new Date().toISOString()
-    };
-  }
-  
-  /**
-   * Generate mock guild analytics
+   * Point out what stands out in an agent's usage
    */
-  private generateMockGuildAnalytics(guildId: string, period: string): any {
-    console.log('🔄 Generating mock guild analytics');
-    
-    // Generate time series data
-    const generateTimeSeries = (daysCount: number, averageConversations: number, varianceConversations: number) => {
-      const result = {
-        timestamps: [] as string[],
-        conversations: [] as number[],
-        messages: [] as number[],
-        avg_response_times: [] as number[]
-      };
-      
-      const now = Date.now();
-      const interval = period === 'day' ? 3600000 : // 1 hour
-                     period === 'week' ? 86400000 : // 1 day
-                     period === 'month' ? 86400000 * 3 : // 3 days
-                     86400000 * 7; // 7 days for 'all'
-      
-      const count = period === 'day' ? 24 : // 24 hours
-                  period === 'week' ? 7 : // 7 days
-                  period === 'month' ? 10 : // 10 points (30 days / 3)
-                  Math.ceil(daysCount / 7); // Variable for 'all'
-      
-      for (let i = 0; i < count; i++) {
-        const timestamp = new Date(now - (count - i - 1) * interval);
-        
-        const conversations = Math.max(0, Math.floor(averageConversations + (Math.random() - 0.5) * varianceConversations));
-        const avgMessagesPerConversation = Math.floor(Math.random() * 3) + 3; // 3-5 messages per conversation
-        
-        result.timestamps.push(timestamp.toISOString());
-        result.conversations.push(conversations);
-        result.messages.push(conversations * avgMessagesPerConversation);
-        result.avg_response_times.push(Math.floor(Math.random() * 300) + 200); // 200-500ms
-      }
-      
-      return result;
-    };
+  private findOpportunities(usage: UsageSummary): string[] {
+    const opportunities: string[] = [];
     
-    // Generate agent metrics
-    const generateAgentMetrics = (agentCount: number) => {
-      return Array.from({ length: agentCount }, (_, i) => ({
-        agent_id: `agent-${i}-${guildId.slice(-4)}`,
-        agent_name: `Agent ${i + 1}`,
-        conversations: Math.floor(Math.random() * 500) + 50,
-        success_rate: (Math.min(1, Math.max(0.7, 0.9 + (Math.random() - 0.5) * 0.1))).toFixed(2),
-        avg_response_time_ms: Math.floor(Math.random() * 300) + 200
-      }));
-    };
-    
-    // Generate channel metrics
-    const generateChannelMetrics = () => {
-      const channels = ['Web Widget', 'Slack', 'Email', 'API', 'Mobile'];
-      
-      return channels.map(channel => ({
-        channel,
-        conversations: Math.floor(Math.random() * 300) + 50,
-        messages: Math.floor(Math.random() * 1500) + 200,
-        users: Math.floor(Math.random() * 50) + 5
-      }));
-    };
-    
-    // Generate time series data
-    const agentCount = Math.floor(Math.random() * 3) + 2; // 2-4 agents
-    const timeSeriesData = generateTimeSeries(
-      period === 'day' ? 1 : 
-      period === 'week' ? 7 : 
-      period === 'month' ? 30 : 90,
-      20, // average 20 conversations per period
-      20 // variance of +/- 10
-    );
-    
-    // Calculate totals
-    const totalConversations = timeSeriesData.conversations.reduce((sum, val) => sum + val, 0);
-    const totalMessages = timeSeriesData.messages.reduce((sum, val) => sum + val, 0);
-    const avgResponseTime = timeSeriesData.avg_response_times.reduce((sum, val) => sum + val, 0) / 
-                          timeSeriesData.avg_response_times.length;
-    
-    // Generate agent metrics
-    const agentMetrics = generateAgentMetrics(agentCount);
-    
-    // Generate channel metrics
-    const channelMetrics = generateChannelMetrics();
+    if (usage.executions === 0) return opportunities;
     
-    // Generate insight highlights
-    const insights = [
-      `User engagement increased by ${Math.floor(Math.random() * 30) + 10}% compared to previous period`,
-      `Average conversation length is ${Math.floor(Math.random() * 3) + 3} messages`,
-      `Peak usage time is between ${Math.floor(Math.random() * 3) + 9}AM and ${Math.floor(Math.random() * 3) + 2}PM`,
-      `Most common user intent is "${['Product Information', 'Customer Support', 'Account Management', 'Pricing Inquiry'][Math.floor(Math.random() * 4)]}"`,
-      `${Math.floor(Math.random() * 30) + 70}% of users received responses within 1 second`,
-      `Channel with highest engagement is ${channelMetrics.sort((a, b) => b.conversations - a.conversations)[0].channel}`
-    ];
+    if (ratio(usage.failed + usage.fallback, usage.executions) > 0.1) {
+      opportunities.push(`${usage.failed + usage.fallback} of ${usage.executions} executions failed or fell back; check the agent service's availability.`);
+    }
+    if (usage.avgDurationMs > 10000) {
+      opportunities.push(`Executions take ${Math.round(usage.avgDurationMs / 1000)}s on average. Consider a faster model or fewer tool steps.`);
+    }
+    if (usage.executions > 0 && usage.promptTokens / usage.executions > 4000) {
+      opportunities.push('Prompts average over 4000 tokens. Trimming recalled memories or knowledge excerpts would cut cost.');
+    }
+    usage.byModel
+      .filter(model => model.model !== AGENT_DEFAULT_MODEL && ratio(model.costUsd, usage.costUsd) > 0.5)
+      .forEach(model => opportunities.push(`${model.model} accounts for most of the spend; ${AGENT_DEFAULT_MODEL} may be enough for simpler requests.`));
     
-    return {
-      guild_id: guildId,
-      guild_name: `Guild ${guildId.slice(-8)}`,
-      period,
-      summary_metrics: {
-        total_conversations: totalConversations,
-        total_messages: totalMessages,
-        avg_response_time_ms: Math.floor(avgResponseTime),
-        overall_success_rate: (agentMetrics.reduce((sum, agent) => sum + parseFloat(agent.success_rate as string), 0) / agentCount).toFixed(2),
-        total_agents: agentCount,
-        total_workflows: Math.floor(Math.random() * 3) + 1, // 1-3 workflows
-        total_executions: Math.floor(Math.random() * 1000) + 100,
-        total_tokens_used: Math.floor(Math.random() * 10000000) + 1000000
-      },
-      agent_metrics: agentMetrics,
-      channel_metrics: channelMetrics,
-      time_series_data: {
-        timestamps: timeSeriesData.timestamps,
-        conversations: timeSeriesData.conversations,
-        messages: timeSeriesData.messages,
-        avg_response_times: timeSeriesData.avg_response_times
-      },
-      insight_highlights: insights.sort(() => Math.random() - 0.5).slice(0, 4), // Random 4 insights
-      created_at: new Date().toISOString()
-    };
+    return opportunities;
   }
   
   /**
@@ -0,0 +1,512 @@
+import { createClient } from '@supabase/supabase-js';
+import { v4 as uuidv4 } from 'uuid';
+import dotenv from 'dotenv';
+import { httpError } from '../utils/httpError';
+import { AuthenticatedUser } from './authService';
+import deliveryService from './deliveryService';
+
+// Load environment variables
+dotenv.config();
+
+// Initialize Supabase
+const supabaseUrl = process.env.SUPABASE_URL as string;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY as string;
+let supabase: ReturnType<typeof createClient> | undefined;
+
+if (supabaseUrl && supabaseKey && !supabaseUrl.includes('your_') && !supabaseKey.includes('your_')) {
+  supabase = createClient(supabaseUrl, supabaseKey);
+  console.log('✅ Approval service initialized with Supabase database');
+} else {
+  console.log('⚠️ Approval service initialized without database persistence');
+}
+
+const APPROVAL_CHANNELS: ApprovalChannel[] = ['email', 'slack', 'teams', 'discord', 'webhook', 'none'];
+
+// In-memory fallback store
+const approvalRegistry: Record<string, ApprovalRequest> = {};
+
+// How decisions and edits record who made them
+function actorName(user: AuthenticatedUser): string {
+  return user.email || user.id;
+}
+
+/**
+ * Human-in-the-loop approvals requested by workflow `approval` nodes.
+ * This service only stores requests, notifies approvers and records decisions;
+ * the workflow engine listens for changes and continues the parked execution.
+ */
+class ApprovalService {
+  private listeners: Array<(approval: ApprovalRequest, change: ApprovalChange) => void> = [];
+
+  constructor() {
+    console.log('✋ Approval Service initialized');
+  }
+
+  /**
+   * Register a listener called whenever an approval is requested, edited or settled
+   */
+  onChange(listener: (approval: ApprovalRequest, change: ApprovalChange) => void): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Create a pending approval and notify its approvers
+   */
+  async requestApproval(input: CreateApprovalInput): Promise<ApprovalRequest> {
+    const channel = input.channel || 'email';
+
+    if (!APPROVAL_CHANNELS.includes(channel)) {
+      throw httpError(`Unsupported approval channel "${channel}"`);
+    }
+
+    if (input.defaultOutcome && !['approved', 'rejected'].includes(input.defaultOutcome)) {
+      throw httpError(`Default outcome must be "approved" or "rejected"`);
+    }
+
+    const now = new Date().toISOString();
+
+    const approval: ApprovalRequest = {
+      id: uuidv4(),
+      executionId: input.executionId,
+      flowId: input.flowId,
+      nodeId: input.nodeId,
+      title: input.title || `Approval required for ${input.nodeId}`,
+      message: input.message,
+      approvers: input.approvers || [],
+      channel,
+      channelTarget: input.channelTarget,
+      status: 'pending',
+      payload: input.payload ?? null,
+      originalPayload: input.payload ?? null,
+      edits: [],
+      expiresAt: input.expiresAt,
+      defaultOutcome: input.defaultOutcome || 'rejected',
+      notifications: [],
+      createdAt: now,
+      updatedAt: now
+    };
+
+    approval.notifications.push(await this.notifyApprovers(approval));
+
+    await this.saveApproval(approval);
+    this.emit(approval, 'requested');
+
+    console.log(`✋ Approval ${approval.id} requested for node ${approval.nodeId} of execution ${approval.executionId}`);
+
+    return approval;
+  }
+
+  /**
+   * Get an approval by ID
+   */
+  async getApproval(approvalId: string): Promise<ApprovalRequest | null> {
+    if (supabase) {
+      try {
+        const { data, error } = await supabase
+          .from('workflow_approvals')
+          .select('*')
+          .eq('id', approvalId)
+          .maybeSingle();
+
+        if (error) {
+          console.error('❌ Failed to retrieve approval from database:', error);
+        } else if (data) {
+          return data.request as ApprovalRequest;
+        }
+      } catch (error) {
+        console.error('❌ Error retrieving approval from database:', error);
+      }
+    }
+
+    // Fallback to in-memory storage
+    return approvalRegistry[approvalId] || null;
+  }
+
+  /**
+   * List approvals, newest first
+   */
+  async listApprovals(filter: ApprovalFilter = {}): Promise<ApprovalRequest[]> {
+    const limit = filter.limit || 100;
+
+    if (supabase) {
+      try {
+        let query = supabase.from('workflow_approvals').select('*');
+
+        if (filter.status) query = query.eq('status', filter.status);
+        if (filter.flowId) query = query.eq('workflow_id', filter.flowId);
+        if (filter.flowIds) query = query.in('workflow_id', filter.flowIds);
+        if (filter.executionId) query = query.eq('execution_id', filter.executionId);
+
+        const { data, error } = await query.order('created_at', { ascending: false }).limit(limit);
+
+        if (error) {
+          console.error('❌ Failed to retrieve approvals from database:', error);
+        } else if (data) {
+          return data.map(row => row.request as ApprovalRequest);
+        }
+      } catch (error) {
+        console.error('❌ Error retrieving approvals from database:', error);
+      }
+    }
+
+    // Fallback to in-memory storage
+    return Object.values(approvalRegistry)
+      .filter(approval =>
+        (!filter.status || approval.status === filter.status) &&
+        (!filter.flowId || approval.flowId === filter.flowId) &&
+        (!filter.flowIds || filter.flowIds.includes(approval.flowId)) &&
+        (!filter.executionId || approval.executionId === filter.executionId)
+      )
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit);
+  }
+
+  /**
+   * Approve a pending request, optionally replacing its payload in the same step
+   */
+  async approve(approvalId: string, actor: AuthenticatedUser, decision: ApprovalDecisionInput = {}): Promise<ApprovalRequest> {
+    return this.decide(approvalId, 'approved', actor, decision);
+  }
+
+  /**
+   * Reject a pending request
+   */
+  async reject(approvalId: string, actor: AuthenticatedUser, decision: ApprovalDecisionInput = {}): Promise<ApprovalRequest> {
+    return this.decide(approvalId, 'rejected', actor, decision);
+  }
+
+  /**
+   * Replace the payload of a pending request before it is decided.
+   * Every edit is kept so reviewers can see what changed.
+   */
+  async updatePayload(approvalId: string, payload: any, actor: AuthenticatedUser): Promise<ApprovalRequest> {
+    if (payload === undefined) {
+      throw httpError('payload is required');
+    }
+
+    const approval = await this.requirePending(approvalId);
+    this.checkApprover(approval, actor);
+    const editedBy = actorName(actor);
+
+    approval.edits.push({
+      editedBy,
+      editedAt: new Date().toISOString(),
+      previousPayload: approval.payload
+    });
+    approval.payload = payload;
+    approval.updatedAt = new Date().toISOString();
+
+    await this.saveApproval(approval);
+    this.emit(approval, 'edited');
+
+    console.log(`✏️ Approval ${approvalId} payload edited by ${editedBy}`);
+
+    return approval;
+  }
+
+  /**
+   * Settle a pending request with its default outcome once its timeout has passed.
+   * Returns null if it was already decided.
+   */
+  async expire(approvalId: string): Promise<ApprovalRequest | null> {
+    const approval = await this.getApproval(approvalId);
+    if (!approval || approval.status !== 'pending') return null;
+
+    const now = new Date().toISOString();
+
+    approval.status = 'expired';
+    approval.outcome = approval.defaultOutcome;
+    approval.decidedAt = now;
+    approval.updatedAt = now;
+
+    await this.saveApproval(approval);
+    this.emit(approval, 'expired');
+
+    console.log(`⌛ Approval ${approvalId} timed out, defaulting to ${approval.outcome}`);
+
+    return approval;
+  }
+
+  /**
+   * Withdraw the pending requests of an execution that can no longer continue
+   */
+  async cancelForExecution(executionId: string, reason: string): Promise<number> {
+    const pending = await this.listApprovals({ executionId, status: 'pending' });
+
+    for (const approval of pending) {
+      approval.status = 'cancelled';
+      approval.comment = reason;
+      approval.updatedAt = new Date().toISOString();
+
+      await this.saveApproval(approval);
+      this.emit(approval, 'cancelled');
+    }
+
+    return pending.length;
+  }
+
+  private async decide(
+    approvalId: string,
+    outcome: ApprovalOutcome,
+    actor: AuthenticatedUser,
+    decision: ApprovalDecisionInput
+  ): Promise<ApprovalRequest> {
+    const approval = await this.requirePending(approvalId);
+    this.checkApprover(approval, actor);
+    const decidedBy = actorName(actor);
+
+    if (decision.payload !== undefined) {
+      approval.edits.push({
+        editedBy: decidedBy,
+        editedAt: new Date().toISOString(),
+        previousPayload: approval.payload
+      });
+      approval.payload = decision.payload;
+    }
+
+    const now = new Date().toISOString();
+
+    approval.status = outcome;
+    approval.outcome = outcome;
+    approval.decidedBy = decidedBy;
+    approval.comment = decision.comment;
+    approval.decidedAt = now;
+    approval.updatedAt = now;
+
+    await this.saveApproval(approval);
+    this.emit(approval, outcome);
+
+    console.log(`${outcome === 'approved' ? '✅' : '🚫'} Approval ${approvalId} ${outcome} by ${decidedBy}`);
+
+    return approval;
+  }
+
+  private async requirePending(approvalId: string): Promise<ApprovalRequest> {
+    const approval = await this.getApproval(approvalId);
+
+    if (!approval) {
+      throw httpError(`Approval not found: ${approvalId}`, 404);
+    }
+
+    if (approval.status !== 'pending') {
+      throw httpError(`Approval ${approvalId} is already ${approval.status}`, 409);
+    }
+
+    return approval;
+  }
+
+  /**
+   * Whether a request names a user as an approver, by user ID or email
+   */
+  isApprover(approval: ApprovalRequest, user: AuthenticatedUser): boolean {
+    const names = [user.id, user.email].filter(Boolean).map(name => name!.toLowerCase());
+    return approval.approvers.some(approver => names.includes(approver.toLowerCase()));
+  }
+
+  /**
+   * When a request names its approvers, only they may act on it
+   */
+  private checkApprover(approval: ApprovalRequest, actor: AuthenticatedUser): void {
+    if (approval.approvers.length === 0) return;
+
+    if (!this.isApprover(approval, actor)) {
+      throw httpError(`${actorName(actor)} is not an approver for ${approval.id}`, 403);
+    }
+  }
+
+  /**
+   * Tell approvers a decision is needed. Slack, Teams, Discord and webhook
+   * requests are posted to the URL in `channelTarget` through the delivery
+   * queue, like notification actions; email has no sender to go through.
+   */
+  private async notifyApprovers(approval: ApprovalRequest): Promise<ApprovalNotification> {
+    const notification: ApprovalNotification = {
+      channel: approval.channel,
+      recipients: approval.channelTarget ? [approval.channelTarget] : approval.approvers,
+      sentAt: new Date().toISOString(),
+      status: 'skipped'
+    };
+
+    if (approval.channel === 'none') return notification;
+
+    if (approval.channel === 'email') {
+      return { ...notification, error: 'Email notifications are not supported; approvers must check pending approvals' };
+    }
+
+    if (!approval.channelTarget || !/^https?:\/\//i.test(approval.channelTarget)) {
+      return { ...notification, error: `A ${approval.channel} approval needs a webhook URL as its channel target` };
+    }
+
+    try {
+      const delivery = await deliveryService.enqueue({
+        url: approval.channelTarget,
+        payload: this.notificationPayload(approval),
+        kind: 'notification',
+        idempotencyKey: `approval:${approval.id}`,
+        executionId: approval.executionId,
+        flowId: approval.flowId,
+        nodeId: approval.nodeId
+      });
+
+      return {
+        ...notification,
+        status: delivery.status === 'failed' ? 'failed' : 'queued',
+        deliveryId: delivery.id,
+        error: delivery.lastError
+      };
+    } catch (error: any) {
+      console.error(`❌ Failed to notify approvers of ${approval.id}:`, error.message);
+      return { ...notification, status: 'failed', error: error.message };
+    }
+  }
+
+  /**
+   * The approval request in the message format of its channel
+   */
+  private notificationPayload(approval: ApprovalRequest): Record<string, any> {
+    const text = `${approval.title}${approval.message ? ` - ${approval.message}` : ''} (approval ${approval.id})`;
+
+    switch (approval.channel) {
+      case 'slack':
+      case 'teams':
+        return { text };
+      case 'discord':
+        return { content: text };
+      default:
+        return {
+          type: 'approval.requested',
+          approvalId: approval.id,
+          executionId: approval.executionId,
+          flowId: approval.flowId,
+          nodeId: approval.nodeId,
+          title: approval.title,
+          message: approval.message,
+          approvers: approval.approvers,
+          payload: approval.payload,
+          expiresAt: approval.expiresAt
+        };
+    }
+  }
+
+  private emit(approval: ApprovalRequest, change: ApprovalChange): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(approval, change);
+      } catch (error) {
+        console.error(`❌ Approval listener failed for ${approval.id}:`, error);
+      }
+    }
+  }
+
+  private async saveApproval(approval: ApprovalRequest): Promise<void> {
+    if (supabase) {
+      try {
+        const { error } = await supabase
+          .from('workflow_approvals')
+          .upsert({
+            id: approval.id,
+            execution_id: approval.executionId,
+            workflow_id: approval.flowId,
+            node_id: approval.nodeId,
+            status: approval.status,
+            expires_at: approval.expiresAt || null,
+            request: approval,
+            created_at: approval.createdAt,
+            updated_at: approval.updatedAt
+          });
+
+        if (error) {
+          console.error('❌ Failed to store approval in database:', error);
+        }
+      } catch (error) {
+        console.error('❌ Error storing approval in database:', error);
+      }
+    }
+
+    // Also store in memory for fallback
+    approvalRegistry[approval.id] = approval;
+  }
+}
+
+// Create singleton instance
+const approvalService = new ApprovalService();
+export default approvalService;
+
+// Types
+export type ApprovalChannel = 'email' | 'slack' | 'teams' | 'discord' | 'webhook' | 'none';
+
+export type ApprovalOutcome = 'approved' | 'rejected';
+
+export type ApprovalStatus = 'pending' | ApprovalOutcome | 'expired' | 'cancelled';
+
+export type ApprovalChange = 'requested' | 'edited' | ApprovalOutcome | 'expired' | 'cancelled';
+
+export interface ApprovalEdit {
+  editedBy?: string;
+  editedAt: string;
+  previousPayload: any;
+}
+
+export interface ApprovalNotification {
+  channel: ApprovalChannel;
+  recipients: string[];
+  sentAt: string;
+  // `queued` once handed to the delivery queue; its delivery records the outcome
+  status: 'queued' | 'skipped' | 'failed';
+  deliveryId?: string;
+  error?: string;
+}
+
+export interface CreateApprovalInput {
+  executionId: string;
+  flowId: string;
+  nodeId: string;
+  title?: string;
+  message?: string;
+  approvers?: string[];
+  channel?: ApprovalChannel;
+  channelTarget?: string;
+  payload?: any;
+  expiresAt?: string;
+  defaultOutcome?: ApprovalOutcome;
+}
+
+export interface ApprovalDecisionInput {
+  comment?: string;
+  payload?: any;
+}
+
+export interface ApprovalFilter {
+  status?: ApprovalStatus;
+  flowId?: string;
+  // Only approvals of these workflows
+  flowIds?: string[];
+  executionId?: string;
+  limit?: number;
+}
+
+export interface ApprovalRequest {
+  id: string;
+  executionId: string;
+  flowId: string;
+  nodeId: string;
+  title: string;
+  message?: string;
+  approvers: string[];
+  channel: ApprovalChannel;
+  channelTarget?: string;
+  status: ApprovalStatus;
+  // The decision the workflow continues with; for expired requests the default outcome
+  outcome?: ApprovalOutcome;
+  payload: any;
+  originalPayload: any;
+  edits: ApprovalEdit[];
+  decidedBy?: string;
+  comment?: string;
+  decidedAt?: string;
+  expiresAt?: string;
+  defaultOutcome: ApprovalOutcome;
+  notifications: ApprovalNotification[];
+  createdAt: string;
+  updatedAt: string;
+}
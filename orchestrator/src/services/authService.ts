@@ -0,0 +1,338 @@
+import { createClient } from '@supabase/supabase-js';
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { httpError } from '../utils/httpError';
+
+// Load environment variables
+dotenv.config();
+
+// Initialize Supabase
+const supabaseUrl = process.env.SUPABASE_URL as string;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY as string;
+let supabase: ReturnType<typeof createClient> | undefined;
+
+if (supabaseUrl && supabaseKey && !supabaseUrl.includes('your_') && !supabaseKey.includes('your_')) {
+  supabase = createClient(supabaseUrl, supabaseKey);
+  console.log('✅ Auth service initialized with Supabase');
+} else {
+  console.log('⚠️ Auth service initialized without Supabase; clients are not authenticated');
+}
+
+// With the project's JWT secret, tokens are verified locally instead of by Supabase
+const SUPABASE_JWT_SECRET = process.env.SUPABASE_JWT_SECRET || '';
+
+// How long guild ownership and membership lookups are reused
+const AUTH_CACHE_TTL_MS = parseInt(process.env.AUTH_CACHE_TTL_MS || '60000');
+
+// Users who may act across guilds, e.g. to erase an end user's memories
+const ADMIN_USER_IDS = new Set((process.env.ADMIN_USER_IDS || '').split(',').map(id => id.trim()).filter(Boolean));
+
+// Used for every client when Supabase isn't configured
+const LOCAL_USER: AuthenticatedUser = { id: 'local-dev', role: 'authenticated' };
+
+// Backend callers that authenticate with the service role key
+const SERVICE_USER: AuthenticatedUser = { id: 'service', role: 'service_role' };
+
+function decodeSegment(segment: string): any {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+}
+
+/**
+ * Verifies the Supabase access tokens clients send, and answers which guilds
+ * and agents the user behind a token may act for
+ */
+class AuthService {
+  private guildOwners: Map<string, { ownerId: string | null; expiresAt: number }> = new Map();
+  private guildAgents: Map<string, { member: boolean; expiresAt: number }> = new Map();
+  private agentGuilds: Map<string, { guildId: string | null; expiresAt: number }> = new Map();
+  private workflowGuilds: Map<string, { guildId: string | null; expiresAt: number }> = new Map();
+
+  /**
+   * True when clients are actually authenticated
+   */
+  isEnabled(): boolean {
+    return Boolean(supabase || SUPABASE_JWT_SECRET);
+  }
+
+  /**
+   * Resolve the user a Supabase access token belongs to. Throws a 401 error for
+   * missing, malformed, expired or forged tokens.
+   */
+  async verifyToken(token?: string | null): Promise<AuthenticatedUser> {
+    if (!this.isEnabled()) return LOCAL_USER;
+
+    if (!token) {
+      throw httpError('Authentication token required', 401);
+    }
+
+    if (supabaseKey && token.length === supabaseKey.length &&
+        crypto.timingSafeEqual(Buffer.from(token), Buffer.from(supabaseKey))) {
+      return SERVICE_USER;
+    }
+
+    if (SUPABASE_JWT_SECRET) {
+      return this.verifySignedToken(token);
+    }
+
+    const { data, error } = await supabase!.auth.getUser(token);
+
+    if (error || !data?.user) {
+      throw httpError('Invalid or expired authentication token', 401);
+    }
+
+    let expiresAt: number | undefined;
+    try {
+      const claims = decodeSegment(token.split('.')[1]);
+      expiresAt = typeof claims.exp === 'number' ? claims.exp * 1000 : undefined;
+    } catch {
+      // Supabase accepted the token, so its expiry is only informational
+    }
+
+    return {
+      id: data.user.id,
+      email: data.user.email,
+      role: data.user.role || 'authenticated',
+      expiresAt
+    };
+  }
+
+  /**
+   * Whether a user owns a guild
+   */
+  async ownsGuild(userId: string, guildId: string): Promise<boolean> {
+    // Without a database there are no guilds to check against
+    if (!supabase) return !this.isEnabled();
+
+    const cached = this.guildOwners.get(guildId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.ownerId === userId;
+    }
+
+    const { data, error } = await supabase
+      .from('guilds')
+      .select('user_id')
+      .eq('id', guildId)
+      .maybeSingle();
+
+    if (error) {
+      // Malformed ids are rejected by the database; they can't be owned by anyone
+      console.error(`❌ Failed to look up owner of guild ${guildId}:`, error.message);
+      return false;
+    }
+
+    const ownerId = (data as any)?.user_id || null;
+    this.guildOwners.set(guildId, { ownerId, expiresAt: Date.now() + AUTH_CACHE_TTL_MS });
+
+    return ownerId === userId;
+  }
+
+  /**
+   * Whether a user may act across guilds: the service role and ADMIN_USER_IDS
+   */
+  isAdmin(user: AuthenticatedUser): boolean {
+    if (!this.isEnabled()) return true;
+    return user.role === 'service_role' || ADMIN_USER_IDS.has(user.id);
+  }
+
+  /**
+   * Whether a user owns the guild an agent belongs to
+   */
+  async ownsAgent(userId: string, agentId: string): Promise<boolean> {
+    if (!supabase) return !this.isEnabled();
+
+    const guildId = await this.agentGuild(agentId);
+    return guildId !== null && guildId !== undefined && this.ownsGuild(userId, guildId);
+  }
+
+  /**
+   * The guild an agent is stored in; null for unknown agents and agents
+   * without a guild, undefined without a database to look in
+   */
+  async agentGuild(agentId: string): Promise<string | null | undefined> {
+    if (!supabase) return undefined;
+
+    const cached = this.agentGuilds.get(agentId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.guildId;
+    }
+
+    const { data, error } = await supabase
+      .from('agents')
+      .select('guild_id')
+      .eq('id', agentId)
+      .maybeSingle();
+
+    if (error) {
+      console.error(`❌ Failed to look up guild of agent ${agentId}:`, error.message);
+      return null;
+    }
+
+    const guildId = (data as any)?.guild_id || null;
+    this.agentGuilds.set(agentId, { guildId, expiresAt: Date.now() + AUTH_CACHE_TTL_MS });
+
+    return guildId;
+  }
+
+  /**
+   * Whether an agent belongs to a guild
+   */
+  async isGuildAgent(guildId: string, agentId: string): Promise<boolean> {
+    if (!supabase) return !this.isEnabled();
+
+    const key = `${guildId}:${agentId}`;
+    const cached = this.guildAgents.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.member;
+    }
+
+    const { data, error } = await supabase
+      .from('agents')
+      .select('id')
+      .eq('id', agentId)
+      .eq('guild_id', guildId)
+      .maybeSingle();
+
+    if (error) {
+      console.error(`❌ Failed to look up agent ${agentId} in guild ${guildId}:`, error.message);
+      return false;
+    }
+
+    const member = Boolean(data);
+    this.guildAgents.set(key, { member, expiresAt: Date.now() + AUTH_CACHE_TTL_MS });
+
+    return member;
+  }
+
+  /**
+   * Whether a user owns the guild a workflow belongs to
+   */
+  async ownsWorkflow(userId: string, workflowId: string): Promise<boolean> {
+    if (!supabase) return !this.isEnabled();
+
+    const guildId = await this.workflowGuild(workflowId);
+    return guildId !== null && guildId !== undefined && this.ownsGuild(userId, guildId);
+  }
+
+  /**
+   * The guild a workflow is stored in; null for unknown workflows, undefined
+   * without a database to look in
+   */
+  async workflowGuild(workflowId: string): Promise<string | null | undefined> {
+    if (!supabase) return undefined;
+
+    const cached = this.workflowGuilds.get(workflowId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.guildId;
+    }
+
+    const { data, error } = await supabase
+      .from('workflows')
+      .select('guild_id')
+      .eq('id', workflowId)
+      .maybeSingle();
+
+    if (error) {
+      console.error(`❌ Failed to look up guild of workflow ${workflowId}:`, error.message);
+      return null;
+    }
+
+    const guildId = (data as any)?.guild_id || null;
+    this.workflowGuilds.set(workflowId, { guildId, expiresAt: Date.now() + AUTH_CACHE_TTL_MS });
+
+    return guildId;
+  }
+
+  /**
+   * The workflows in guilds a user owns; undefined when the user may see every
+   * workflow
+   */
+  async ownedWorkflowIds(user: AuthenticatedUser): Promise<string[] | undefined> {
+    if (this.isAdmin(user)) return undefined;
+    if (!supabase) return [];
+
+    const { data: guilds, error: guildError } = await supabase
+      .from('guilds')
+      .select('id')
+      .eq('user_id', user.id);
+
+    if (guildError) {
+      console.error(`❌ Failed to look up guilds of user ${user.id}:`, guildError.message);
+      return [];
+    }
+
+    const guildIds = (guilds as any[] || []).map(guild => guild.id);
+    if (guildIds.length === 0) return [];
+
+    const { data: workflows, error } = await supabase
+      .from('workflows')
+      .select('id')
+      .in('guild_id', guildIds);
+
+    if (error) {
+      console.error(`❌ Failed to look up workflows of user ${user.id}:`, error.message);
+      return [];
+    }
+
+    return (workflows as any[] || []).map(workflow => workflow.id);
+  }
+
+  /**
+   * Verify an HS256 token against the project's JWT secret
+   */
+  private verifySignedToken(token: string): AuthenticatedUser {
+    const [header, payload, signature] = token.split('.');
+
+    if (!header || !payload || !signature) {
+      throw httpError('Malformed authentication token', 401);
+    }
+
+    let claims: any;
+    try {
+      if (decodeSegment(header).alg !== 'HS256') {
+        throw httpError('Unsupported authentication token algorithm', 401);
+      }
+      claims = decodeSegment(payload);
+    } catch (error: any) {
+      throw error.status ? error : httpError('Malformed authentication token', 401);
+    }
+
+    const expected = crypto
+      .createHmac('sha256', SUPABASE_JWT_SECRET)
+      .update(`${header}.${payload}`)
+      .digest();
+    const received = Buffer.from(signature, 'base64url');
+
+    if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+      throw httpError('Invalid authentication token signature', 401);
+    }
+
+    if (typeof claims.exp === 'number' && claims.exp * 1000 <= Date.now()) {
+      throw httpError('Authentication token has expired', 401);
+    }
+
+    if (!claims.sub) {
+      throw httpError('Authentication token has no subject', 401);
+    }
+
+    return {
+      id: claims.sub,
+      email: claims.email,
+      role: claims.role || 'authenticated',
+      expiresAt: typeof claims.exp === 'number' ? claims.exp * 1000 : undefined
+    };
+  }
+}
+
+// Create singleton instance
+const authService = new AuthService();
+
+export default authService;
+
+// Types
+export interface AuthenticatedUser {
+  id: string;
+  email?: string;
+  role: string;
+  // When the token the user authenticated with expires, in ms since the epoch
+  expiresAt?: number;
+}
@@ -1,35 +1,194 @@
-import { Server } from 'socket.io';
+import { Namespace, Server, Socket } from 'socket.io';
 import { v4 as uuid } from 'uuid';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
 import memoryService from './memoryService';
 import agentService from './agentService';
+import agentStreamService from './agentStreamService';
+import authService from './authService';
+import { httpError } from '../utils/httpError';
+
+// Load environment variables
+dotenv.config();
+
+// Initialize Supabase
+const supabaseUrl = process.env.SUPABASE_URL as string;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY as string;
+let supabase: ReturnType<typeof createClient> | undefined;
+
+if (supabaseUrl && supabaseKey && !supabaseUrl.includes('your_') && !supabaseKey.includes('your_')) {
+  supabase = createClient(supabaseUrl, supabaseKey);
+  console.log('✅ Communication service initialized with Supabase database');
+} else {
+  console.log('⚠️ Communication service initialized without database persistence');
+}
+
+// In-memory fallback store; unlike active sessions it is never cleaned up
+const sessionRegistry: Record<string, SessionRecord> = {};
+const messageRegistry: Record<string, Message[]> = {};
+
+// Messages reloaded into memory when a stored session becomes active again
+const SESSION_RELOAD_MESSAGES = 200;
+
+// Turn budget of a protocol run when none is given, and the most it may ask for
+const PROTOCOL_DEFAULT_MAX_TURNS = parseInt(process.env.PROTOCOL_DEFAULT_MAX_TURNS || '12');
+const PROTOCOL_MAX_TURNS_LIMIT = parseInt(process.env.PROTOCOL_MAX_TURNS_LIMIT || '50');
+
+// Share of voters that must agree for a vote to reach consensus
+const PROTOCOL_CONSENSUS_THRESHOLD = parseFloat(process.env.PROTOCOL_CONSENSUS_THRESHOLD || '0.66');
+
+// Recent messages of a run shown to the agent taking a turn
+const PROTOCOL_TRANSCRIPT_MESSAGES = 12;
+
+// Finished runs kept per session
+const PROTOCOL_RUN_HISTORY = 20;
+
+const PROTOCOL_TYPES: ProtocolType[] = ['round_robin', 'debate', 'delegation', 'voting'];
+
+// Socket.IO namespace of each guild, /guilds/<guildId>
+const GUILD_NAMESPACE = /^\/guilds\/[\w-]+$/;
+
+// System and summary messages are only posted by the orchestrator
+const CLIENT_MESSAGE_TYPES: MessageType[] = ['request', 'response', 'broadcast'];
+
+function toSessionDetails(record: SessionRecord): SessionDetails {
+  return {
+    sessionId: record.id,
+    guildId: record.guild_id || undefined,
+    agents: record.agents || [],
+    messageCount: record.message_count,
+    metadata: record.metadata || {},
+    startTime: record.started_at,
+    lastActivity: record.last_activity,
+    status: record.status,
+    closedAt: record.closed_at || undefined
+  };
+}
+
+const PROTOCOL_LABELS: Record<ProtocolType, string> = {
+  round_robin: 'round-robin discussion',
+  debate: 'moderated debate',
+  delegation: 'delegated task',
+  voting: 'consensus vote'
+};
+
+/**
+ * Parse the first JSON object in an agent's reply, fenced or not
+ */
+function extractJson(text: string): any {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  
+  if (start === -1 || end <= start) return null;
+  
+  try {
+    return JSON.parse(candidate.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read a vote from a reply: a {"vote","reason"} object, or else the only choice
+ * the reply mentions. Anything else is an abstention.
+ */
+function parseVote(text: string, options: string[]): { choice: string | null; reason?: string } {
+  const parsed = extractJson(text);
+  const match = (value: string) => options.find(option => option.toLowerCase() === value.trim().toLowerCase()) || null;
+  
+  if (parsed && typeof parsed.vote === 'string') {
+    return { choice: match(parsed.vote), reason: typeof parsed.reason === 'string' ? parsed.reason : undefined };
+  }
+  
+  const mentioned = options.filter(option => new RegExp(`\\b${option.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i').test(text));
+  return { choice: mentioned.length === 1 ? mentioned[0] : null, reason: text.slice(0, 200) };
+}
+
+function formatSubtask(subtask: ProtocolSubtask): string {
+  return `- ${subtask.id} (${subtask.assignee}, ${subtask.status}): ${subtask.task}${subtask.result ? `\n  Result: ${subtask.result}` : ''}`;
+}
+
+/**
+ * One-paragraph account of how a run ended, used as (or to ground) its summary
+ */
+function describeOutcome(run: ProtocolRun): string {
+  const reasons: Record<ProtocolStopReason, string> = {
+    stop_condition: `a participant gave the stop phrase "${run.stopPhrase}"`,
+    max_turns: `the budget of ${run.maxTurns} turns ran out`,
+    completed: 'the lead gave the final answer',
+    consensus: `the vote reached consensus on "${run.result}"`,
+    no_consensus: 'the vote did not reach consensus within the turn budget',
+    stopped: 'it was stopped',
+    error: `it failed: ${run.error}`
+  };
+  const parts = [`The ${PROTOCOL_LABELS[run.protocol]} on "${run.topic}" ended after ${run.turns} turns because ${reasons[run.stopReason || 'stopped']}.`];
+  
+  if (run.subtasks?.length) {
+    const completed = run.subtasks.filter(subtask => subtask.status === 'completed').length;
+    parts.push(`${completed} of ${run.subtasks.length} sub-tasks were completed.`);
+  }
+  if (run.voteRounds?.length) {
+    const last = run.voteRounds[run.voteRounds.length - 1];
+    const tally = Object.entries(last.tally).map(([choice, count]) => `${choice}: ${count}`).join(', ') || 'no valid votes';
+    parts.push(`Final round ${last.round} tally: ${tally}.`);
+  }
+  if (run.result && run.protocol === 'delegation') {
+    parts.push(`Final answer: ${run.result}`);
+  }
+  
+  return parts.join(' ');
+}
 
 /**
  * Service for handling agent-to-agent communication
  */
 class CommunicationService {
   private io: Server | null = null;
-  private activeSessions: Map<string, {
-    agents: Set<string>;
-    messages: Message[];
-    metadata: Record<string, any>;
-    startTime: Date;
-    lastActivity: Date;
-  }> = new Map();
+  private guildNamespaces: Map<string, Namespace> = new Map();
+  private activeSessions: Map<string, ActiveSession> = new Map();
+  private protocolRuns: Map<string, ProtocolRun[]> = new Map();
+  private runningProtocols: Map<string, { run: ProtocolRun; controller: AbortController }> = new Map();
   
   /**
-   * Initialize the communication service with a Socket.IO server
+   * Initialize the communication service with a Socket.IO server. Clients
+   * connect to their guild's namespace, /guilds/<guildId>, with a Supabase
+   * access token; sessions and streams are scoped to that guild.
    */
   initialize(io: Server) {
     this.io = io;
     
+    const guilds = io.of(GUILD_NAMESPACE);
+    
+    // Authenticate every connection before any of its events are handled
+    guilds.use(async (socket, next) => {
+      try {
+        const header = socket.handshake.headers.authorization;
+        const token = socket.handshake.auth?.token
+          || (header?.startsWith('Bearer ') ? header.slice(7) : null);
+        
+        socket.data.user = await authService.verifyToken(token);
+        socket.data.guildId = socket.nsp.name.slice('/guilds/'.length);
+        next();
+      } catch (error: any) {
+        console.warn(`🔒 Rejected socket connection to ${socket.nsp.name}: ${error.message}`);
+        const rejection = new Error(error.message) as Error & { data?: Record<string, any> };
+        rejection.data = { code: 'UNAUTHORIZED' };
+        next(rejection);
+      }
+    });
+    
     // Set up socket.io event handlers
-    io.on('connection', (socket) => {
-      console.log(`🔌 New socket connection: ${socket.id}`);
+    guilds.on('connection', (socket) => {
+      const guildId: string = socket.data.guildId;
+      this.guildNamespaces.set(guildId, socket.nsp);
+      console.log(`🔌 New socket connection: ${socket.id} (user ${socket.data.user.id}, guild ${guildId})`);
       
       // Handle joining a communication session
       socket.on('join-session', async (data: { 
         sessionId: string;
-        agentId: string;
+        agentId?: string;
         metadata?: Record<string, any>
       }) => {
         await this.joinSession(socket, data);
@@ -47,12 +206,42 @@ class CommunicationService {
         await this.sendMessage(socket, data);
       });
       
+      // Handle streaming an agent's response to this socket
+      socket.on('agent-stream-start', async (data: {
+        agentId: string;
+        input: string;
+        context?: Record<string, any>;
+        tools?: string[];
+        maxToolSteps?: number;
+      }, ack?: (response: { streamId?: string; error?: string; code?: string }) => void) => {
+        await this.startAgentStream(socket, data, ack);
+      });
+      
+      // Handle cancelling a streamed response
+      socket.on('agent-stream-cancel', (data: { streamId: string }) => {
+        const stream = agentStreamService.getStream(data?.streamId);
+        
+        if (stream?.owner === socket.id) {
+          agentStreamService.cancel(stream.streamId);
+        }
+      });
+      
       // Handle disconnections
       socket.on('disconnect', () => {
         console.log(`🔌 Socket disconnected: ${socket.id}`);
+        agentStreamService.cancelOwned(socket.id, 'Client disconnected');
       });
     });
     
+    // Sessions only exist within a guild
+    io.on('connection', (socket) => {
+      socket.emit('error', {
+        message: 'Connect to a guild namespace, /guilds/<guildId>',
+        code: 'GUILD_NAMESPACE_REQUIRED'
+      });
+      socket.disconnect(true);
+    });
+    
     console.log('🔄 Communication service initialized with Socket.IO');
     
     // Start periodic cleanup of inactive sessions
@@ -60,37 +249,63 @@ class CommunicationService {
   }
   
   /**
-   * Handle a client joining a communication session
+   * Handle a client joining a communication session. Only the guild's owner may
+   * join its sessions, optionally as one of the guild's agents.
    */
-  private async joinSession(socket: any, data: {
+  private async joinSession(socket: Socket, data: {
     sessionId: string;
-    agentId: string;
+    agentId?: string;
     metadata?: Record<string, any>;
   }) {
-    const { sessionId, agentId, metadata } = data;
+    const { sessionId, agentId, metadata } = data || ({} as typeof data);
+    const guildId: string = socket.data.guildId;
     
-    // Create new session if it doesn't exist
-    if (!this.activeSessions.has(sessionId)) {
+    if (!sessionId) {
+      return this.rejectEvent(socket, 'join-session', 'INVALID_REQUEST', 'sessionId is required');
+    }
+    
+    if (!this.checkToken(socket, 'join-session', sessionId)) return;
+    
+    if (!(await authService.ownsGuild(socket.data.user.id, guildId))) {
+      return this.rejectEvent(socket, 'join-session', 'FORBIDDEN', 'You do not own this guild', sessionId);
+    }
+    
+    if (agentId && !(await authService.isGuildAgent(guildId, agentId))) {
+      return this.rejectEvent(socket, 'join-session', 'FORBIDDEN', `Agent ${agentId} does not belong to this guild`, sessionId);
+    }
+    
+    // Resume a stored session, or create a new one if it doesn't exist
+    if (!this.activeSessions.has(sessionId) && !(await this.resumeSession(sessionId))) {
       this.activeSessions.set(sessionId, {
+        guildId,
         agents: new Set<string>(),
         messages: [],
         metadata: metadata || {},
         startTime: new Date(),
-        lastActivity: new Date()
+        lastActivity: new Date(),
+        sequence: 0
       });
       
-      console.log(`🔄 Created new communication session: ${sessionId}`);
+      console.log(`🔄 Created new communication session: ${sessionId} (guild ${guildId})`);
     }
     
     // Join the session
     const session = this.activeSessions.get(sessionId)!;
-    session.agents.add(agentId);
+    
+    if (session.guildId !== guildId) {
+      return this.rejectEvent(socket, 'join-session', 'FORBIDDEN', 'Session belongs to another guild', sessionId);
+    }
+    
+    if (agentId) {
+      session.agents.add(agentId);
+    }
     session.lastActivity = new Date();
+    this.saveSession(sessionId);
     
     // Join the socket room
     socket.join(sessionId);
     
-    console.log(`✅ Agent ${agentId} joined session ${sessionId}`);
+    console.log(`✅ ${agentId ? `Agent ${agentId}` : `User ${socket.data.user.id}`} joined session ${sessionId}`);
     
     // Send session history to the new participant
     socket.emit('session-history', {
@@ -101,17 +316,57 @@ class CommunicationService {
     });
     
     // Notify other participants
-    socket.to(sessionId).emit('agent-joined', {
-      sessionId,
-      agentId,
-      timestamp: new Date().toISOString()
-    });
+    if (agentId) {
+      socket.to(sessionId).emit('agent-joined', {
+        sessionId,
+        agentId,
+        timestamp: new Date().toISOString()
+      });
+    }
   }
   
   /**
-   * Handle sending a message in a session
+   * Stream an agent's response to a socket as 'agent-stream' events
    */
-  private async sendMessage(socket: any, data: {
+  private async startAgentStream(socket: Socket, data: {
+    agentId: string;
+    input: string;
+    context?: Record<string, any>;
+    tools?: string[];
+    maxToolSteps?: number;
+  }, ack?: (response: { streamId?: string; error?: string; code?: string }) => void) {
+    const guildId: string = socket.data.guildId;
+    
+    if (!data?.agentId || !data?.input) {
+      this.rejectEvent(socket, 'agent-stream-start', 'INVALID_STREAM_REQUEST', 'agentId and input are required', undefined, ack);
+      return;
+    }
+    
+    if (!this.checkToken(socket, 'agent-stream-start', undefined, ack)) return;
+    
+    if (!(await authService.ownsGuild(socket.data.user.id, guildId))
+      || !(await authService.isGuildAgent(guildId, data.agentId))) {
+      this.rejectEvent(socket, 'agent-stream-start', 'FORBIDDEN', `You may not run agent ${data.agentId}`, undefined, ack);
+      return;
+    }
+    
+    const stream = agentStreamService.start({
+      agentId: data.agentId,
+      input: data.input,
+      context: { ...data.context, source: 'socket', guild_id: guildId, user_id: socket.data.user.id },
+      tools: data.tools || data.context?.agent_tools,
+      maxToolSteps: data.maxToolSteps,
+      owner: socket.id
+    }, message => socket.emit('agent-stream', message));
+    
+    ack?.({ streamId: stream.streamId });
+  }
+  
+  /**
+   * Handle sending a message in a session. Clients send as themselves, or as
+   * one of the guild's agents, to participants in the guild.
+   */
+  private async sendMessage(socket: Socket, data: {
     sessionId: string;
     from: string;
     to: string;
@@ -119,41 +374,50 @@ class CommunicationService {
     type: MessageType;
     metadata?: Record<string, any>;
   }) {
-    const { sessionId, from, to, content, type, metadata } = data;
+    const { sessionId, from, to, content, type, metadata } = data || ({} as typeof data);
+    const guildId: string = socket.data.guildId;
+    const userId: string = socket.data.user.id;
+    
+    if (!sessionId || !from || !to || typeof content !== 'string') {
+      return this.rejectEvent(socket, 'send-message', 'INVALID_REQUEST', 'sessionId, from, to and content are required', sessionId);
+    }
+    
+    if (!this.checkToken(socket, 'send-message', sessionId)) return;
     
     // Ensure session exists
     if (!this.activeSessions.has(sessionId)) {
       socket.emit('error', { 
         message: 'Session not found',
-        code: 'SESSION_NOT_FOUND'
+        code: 'SESSION_NOT_FOUND',
+        event: 'send-message',
+        sessionId
       });
       return;
     }
     
-    // Get session
-    const session = this.activeSessions.get(sessionId)!;
-    session.lastActivity = new Date();
+    if (!socket.rooms.has(sessionId)) {
+      return this.rejectEvent(socket, 'send-message', 'NOT_IN_SESSION', 'Join the session before sending to it', sessionId);
+    }
     
-    // Create message object
-    const message: Message = {
-      id: uuid(),
-      sessionId,
-      from,
-      to,
-      content,
-      type,
-      metadata: metadata || {},
-      timestamp: new Date().toISOString()
-    };
+    if (!CLIENT_MESSAGE_TYPES.includes(type)) {
+      return this.rejectEvent(socket, 'send-message', 'FORBIDDEN', `Clients may not send ${type} messages`, sessionId);
+    }
+    
+    if (!(await authService.ownsGuild(userId, guildId))) {
+      return this.rejectEvent(socket, 'send-message', 'FORBIDDEN', 'You do not own this guild', sessionId);
+    }
     
-    // Add to session history
-    session.messages.push(message);
+    if (from !== userId && !(await authService.isGuildAgent(guildId, from))) {
+      return this.rejectEvent(socket, 'send-message', 'FORBIDDEN', `You may not send as ${from}`, sessionId);
+    }
     
-    // Broadcast to all participants in the session
-    if (this.io) {
-      this.io.to(sessionId).emit('message', message);
+    if (to !== 'broadcast' && to !== userId && !(await authService.isGuildAgent(guildId, to))) {
+      return this.rejectEvent(socket, 'send-message', 'FORBIDDEN', `${to} is not in this guild`, sessionId);
     }
     
+    // Add to session history and broadcast to all participants
+    const message = this.appendMessage(sessionId, { from, to, content, type, metadata });
+    
     console.log(`✅ Message from ${from} to ${to} in session ${sessionId}`);
     
     // Store in memory service for persistence
@@ -202,7 +466,7 @@ class CommunicationService {
     }
     
     // Process the message with the recipient agent if it's a real agent
-    if (to !== 'system' && to !== 'broadcast' && type === 'request') {
+    if (to !== 'system' && to !== 'broadcast' && to !== userId && type === 'request') {
       this.processAgentMessage(message);
     }
   }
@@ -218,6 +482,8 @@ class CommunicationService {
         message.content,
         {
           sessionId: message.sessionId,
+          guild_id: this.activeSessions.get(message.sessionId)?.guildId,
+          source: 'communication',
           senderId: message.from,
           messageId: message.id,
           messageType: message.type,
@@ -225,12 +491,9 @@ class CommunicationService {
         }
       );
       
-      // If response successful, send reply
-      if (response && response.output) {
-        // Create reply message
-        const replyMessage: Message = {
-          id: uuid(),
-          sessionId: message.sessionId,
+      // If response successful, reply in the session if it is still open
+      if (response && response.output && this.activeSessions.has(message.sessionId)) {
+        this.appendMessage(message.sessionId, {
           from: message.to,
           to: message.from,
           content: response.output,
@@ -239,77 +502,628 @@ class CommunicationService {
             ...message.metadata,
             replyTo: message.id,
             processingTimeMs: Date.now() - new Date(message.timestamp).getTime()
-          },
-          timestamp: new Date().toISOString()
-        };
-        
-        // Get session
-        const session = this.activeSessions.get(message.sessionId);
-        
-        if (session) {
-          // Add to session history
-          session.messages.push(replyMessage);
-          session.lastActivity = new Date();
-          
-          // Broadcast to all participants
-          if (this.io) {
-            this.io.to(message.sessionId).emit('message', replyMessage);
           }
-          
-          console.log(`✅ Agent ${message.to} replied to ${message.from} in session ${message.sessionId}`);
-        }
+        });
+        
+        console.log(`✅ Agent ${message.to} replied to ${message.from} in session ${message.sessionId}`);
       }
-    } catch (error) {
+    } catch (error: any) {
       console.error('❌ Error processing agent message:', error);
       
-      // Send error notification
-      if (this.io) {
-        this.io.to(message.sessionId).emit('error', {
-          messageId: message.id,
-          error: 'Failed to process message',
-          timestamp: new Date().toISOString()
-        });
-      }
+      // Send error notification; budget and rate limit refusals say why
+      this.emitToSession(message.sessionId, 'error', {
+        messageId: message.id,
+        error: error.status === 429 ? error.message : 'Failed to process message',
+        code: error.code,
+        timestamp: new Date().toISOString()
+      });
     }
   }
   
   /**
-   * Create a new communication session
+   * Create a new communication session. Sessions of a guild can be joined over
+   * that guild's socket namespace.
    */
   async createSession(
     initialAgents: string[],
-    metadata: Record<string, any> = {}
+    metadata: Record<string, any> = {},
+    guildId?: string
   ): Promise<{ sessionId: string }> {
     const sessionId = `session-${uuid()}`;
     
     // Create session
     this.activeSessions.set(sessionId, {
+      guildId,
       agents: new Set<string>(initialAgents),
       messages: [],
       metadata,
       startTime: new Date(),
-      lastActivity: new Date()
+      lastActivity: new Date(),
+      sequence: 0
     });
     
     console.log(`🔄 Created communication session ${sessionId} with ${initialAgents.length} initial agents`);
     
     // Send welcome message from system
-    if (this.io) {
-      const welcomeMessage: Message = {
-        id: uuid(),
-        sessionId,
-        from: 'system',
-        to: 'broadcast',
-        content: `Communication session created with ${initialAgents.length} participants`,
-        type: 'system',
-        timestamp: new Date().toISOString()
-      };
+    this.appendMessage(sessionId, {
+      from: 'system',
+      to: 'broadcast',
+      content: `Communication session created with ${initialAgents.length} participants`,
+      type: 'system'
+    });
+    
+    return { sessionId };
+  }
+  
+  /**
+   * Start an orchestrated conversation protocol in a session. The run proceeds in
+   * the background; its turns are posted to the session as messages and it always
+   * ends with a summary message.
+   */
+  startProtocol(sessionId: string, config: ProtocolConfig): ProtocolRun {
+    const session = this.activeSessions.get(sessionId);
+    
+    if (!session) {
+      throw httpError('Session not found', 404);
+    }
+    if (this.runningProtocols.has(sessionId)) {
+      throw httpError('A protocol is already running in this session', 409);
+    }
+    
+    const run = this.createProtocolRun(sessionId, config);
+    const controller = new AbortController();
+    
+    // Every participant becomes a member of the session
+    for (const agentId of [...run.participants, run.moderator, run.summarizer]) {
+      if (agentId) session.agents.add(agentId);
+    }
+    
+    this.runningProtocols.set(sessionId, { run, controller });
+    const runs = this.protocolRuns.get(sessionId) || [];
+    runs.push(run);
+    this.protocolRuns.set(sessionId, runs.slice(-PROTOCOL_RUN_HISTORY));
+    
+    console.log(`🎭 Starting ${run.protocol} protocol ${run.id} in session ${sessionId} (max ${run.maxTurns} turns)`);
+    
+    this.appendMessage(sessionId, {
+      from: 'system',
+      to: 'broadcast',
+      content: `Starting ${PROTOCOL_LABELS[run.protocol]} on "${run.topic}" with ${run.participants.join(', ')} (max ${run.maxTurns} turns)`,
+      type: 'system',
+      metadata: { protocol: run.protocol, runId: run.id }
+    });
+    this.emitToSession(sessionId, 'protocol-started', run);
+    
+    this.executeProtocol(run, controller.signal);
+    
+    return run;
+  }
+  
+  /**
+   * Stop the protocol running in a session. It still ends with a summary message.
+   */
+  stopProtocol(sessionId: string, reason: string = 'Stopped by user'): ProtocolRun | null {
+    const running = this.runningProtocols.get(sessionId);
+    if (!running) return null;
+    
+    console.log(`🛑 Stopping protocol ${running.run.id} in session ${sessionId}: ${reason}`);
+    running.controller.abort(reason);
+    
+    return running.run;
+  }
+  
+  /**
+   * The protocol running in a session, or the last one that ran
+   */
+  getProtocolRun(sessionId: string, runId?: string): ProtocolRun | null {
+    const runs = this.protocolRuns.get(sessionId) || [];
+    
+    if (runId) {
+      return runs.find(run => run.id === runId) || null;
+    }
+    
+    return runs[runs.length - 1] || null;
+  }
+  
+  /**
+   * All protocol runs of a session, oldest first
+   */
+  listProtocolRuns(sessionId: string): ProtocolRun[] {
+    return this.protocolRuns.get(sessionId) || [];
+  }
+  
+  /**
+   * Validate a protocol config and fill in defaults
+   */
+  private createProtocolRun(sessionId: string, config: ProtocolConfig): ProtocolRun {
+    if (!config || !PROTOCOL_TYPES.includes(config.protocol)) {
+      throw httpError(`protocol must be one of: ${PROTOCOL_TYPES.join(', ')}`);
+    }
+    if (!config.topic || typeof config.topic !== 'string') {
+      throw httpError('topic is required');
+    }
+    if (!Array.isArray(config.participants) || config.participants.some(agentId => typeof agentId !== 'string' || !agentId)) {
+      throw httpError('participants must be a list of agent ids');
+    }
+    
+    const participants = Array.from(new Set(config.participants.filter(agentId => agentId !== config.moderator)));
+    const maxTurns = Math.min(
+      Math.max(1, Math.floor(config.maxTurns || PROTOCOL_DEFAULT_MAX_TURNS)),
+      PROTOCOL_MAX_TURNS_LIMIT
+    );
+    
+    switch (config.protocol) {
+      case 'round_robin':
+        if (participants.length < 1) {
+          throw httpError('round_robin needs at least one participant');
+        }
+        break;
+      case 'debate':
+        if (!config.moderator) {
+          throw httpError('debate needs a moderator');
+        }
+        if (participants.length < 2) {
+          throw httpError('debate needs at least two participants besides the moderator');
+        }
+        break;
+      case 'delegation':
+        if (!config.moderator) {
+          throw httpError('delegation needs a moderator to act as lead');
+        }
+        if (participants.length < 1) {
+          throw httpError('delegation needs at least one participant to delegate to');
+        }
+        break;
+      case 'voting':
+        if (participants.length < 2) {
+          throw httpError('voting needs at least two participants');
+        }
+        if (config.options !== undefined && (!Array.isArray(config.options) || config.options.length < 2)) {
+          throw httpError('options must list at least two choices');
+        }
+        break;
+    }
+    
+    const threshold = config.consensusThreshold ?? PROTOCOL_CONSENSUS_THRESHOLD;
+    if (threshold <= 0 || threshold > 1) {
+      throw httpError('consensusThreshold must be between 0 and 1');
+    }
+    
+    return {
+      id: uuid(),
+      sessionId,
+      protocol: config.protocol,
+      topic: config.topic,
+      participants,
+      moderator: config.moderator,
+      summarizer: config.summarizer || config.moderator || participants[0],
+      roles: config.roles || {},
+      maxTurns,
+      stopPhrase: config.stopPhrase || (config.protocol === 'debate' ? 'CONCLUDE' : undefined),
+      options: config.protocol === 'voting' ? (config.options || ['yes', 'no']) : undefined,
+      consensusThreshold: config.protocol === 'voting' ? threshold : undefined,
+      status: 'running',
+      turns: 0,
+      subtasks: config.protocol === 'delegation' ? [] : undefined,
+      voteRounds: config.protocol === 'voting' ? [] : undefined,
+      startedAt: new Date().toISOString()
+    };
+  }
+  
+  /**
+   * Run a protocol to its end and post the final summary
+   */
+  private async executeProtocol(run: ProtocolRun, signal: AbortSignal): Promise<void> {
+    let status: ProtocolRun['status'] = 'completed';
+    
+    try {
+      switch (run.protocol) {
+        case 'round_robin':
+          run.stopReason = await this.runRoundRobin(run, signal);
+          break;
+        case 'debate':
+          run.stopReason = await this.runDebate(run, signal);
+          break;
+        case 'delegation':
+          run.stopReason = await this.runDelegation(run, signal);
+          break;
+        case 'voting':
+          run.stopReason = await this.runVoting(run, signal);
+          break;
+      }
+    } catch (error: any) {
+      if (signal.aborted) {
+        status = 'stopped';
+        run.stopReason = 'stopped';
+      } else {
+        console.error(`❌ Protocol ${run.id} failed:`, error);
+        status = 'failed';
+        run.stopReason = 'error';
+        run.error = error.message;
+      }
+    }
+    
+    // The run counts as running until its summary is posted
+    await this.summarizeProtocol(run, status);
+    run.status = status;
+    run.finishedAt = new Date().toISOString();
+    this.runningProtocols.delete(run.sessionId);
+    
+    console.log(`✅ Protocol ${run.id} ${run.status} after ${run.turns} turns (${run.stopReason})`);
+    this.emitToSession(run.sessionId, 'protocol-completed', run);
+  }
+  
+  /**
+   * Participants speak in a fixed order, each seeing the conversation so far,
+   * until one of them says the stop phrase or the turn budget runs out
+   */
+  private async runRoundRobin(run: ProtocolRun, signal: AbortSignal): Promise<ProtocolStopReason> {
+    for (let index = 0; run.turns < run.maxTurns; index++) {
+      const agentId = run.participants[index % run.participants.length];
+      const next = run.participants[(index + 1) % run.participants.length];
+      
+      const message = await this.takeTurn(run, signal, agentId, this.buildTurnPrompt(run, agentId, [
+        `Continue the discussion from where it stands${run.participants.length > 1 ? `; ${next} speaks after you` : ''}.`,
+        run.stopPhrase ? `When the work is complete, include "${run.stopPhrase}" in your reply.` : ''
+      ]), 'broadcast', 'broadcast');
       
-      this.activeSessions.get(sessionId)!.messages.push(welcomeMessage);
-      this.io.to(sessionId).emit('message', welcomeMessage);
+      if (this.saysStopPhrase(run, message.content)) return 'stop_condition';
     }
     
-    return { sessionId };
+    return 'max_turns';
+  }
+  
+  /**
+   * The moderator frames the question, the debaters argue in rounds, and after
+   * each round the moderator either concludes or asks a follow-up
+   */
+  private async runDebate(run: ProtocolRun, signal: AbortSignal): Promise<ProtocolStopReason> {
+    const moderator = run.moderator!;
+    
+    await this.takeTurn(run, signal, moderator, this.buildTurnPrompt(run, moderator, [
+      `You moderate a debate between ${run.participants.join(', ')}.`,
+      'Frame the question and ask the debaters for their opening positions.'
+    ]), 'broadcast', 'broadcast');
+    
+    // A round is every debater plus the moderator's ruling
+    while (run.turns + run.participants.length + 1 <= run.maxTurns) {
+      for (const agentId of run.participants) {
+        await this.takeTurn(run, signal, agentId, this.buildTurnPrompt(run, agentId, [
+          `You are a debater; the moderator is ${moderator}.`,
+          'State or defend your position and respond directly to the other debaters\' arguments.'
+        ]), 'broadcast', 'broadcast');
+      }
+      
+      const ruling = await this.takeTurn(run, signal, moderator, this.buildTurnPrompt(run, moderator, [
+        'You moderate this debate. Decide whether it has reached a conclusion.',
+        `If it has, reply with "${run.stopPhrase}" followed by your verdict and its reasons. Otherwise ask the debaters one follow-up question.`
+      ]), 'broadcast', 'broadcast');
+      
+      if (this.saysStopPhrase(run, ruling.content)) return 'stop_condition';
+    }
+    
+    return 'max_turns';
+  }
+  
+  /**
+   * The lead splits the task into sub-tasks for the other participants, reviews
+   * their results and either delegates more work or gives the final answer
+   */
+  private async runDelegation(run: ProtocolRun, signal: AbortSignal): Promise<ProtocolStopReason> {
+    const lead = run.moderator!;
+    const subtasks = run.subtasks!;
+    
+    while (run.turns < run.maxTurns) {
+      const plan = await this.takeTurn(run, signal, lead, this.buildTurnPrompt(run, lead, [
+        `You lead this task and can delegate sub-tasks to: ${run.participants.map(agentId => this.describeParticipant(run, agentId)).join(', ')}.`,
+        subtasks.length > 0
+          ? `Sub-task results so far:\n${subtasks.map(formatSubtask).join('\n')}`
+          : 'No sub-tasks have been delegated yet.',
+        'Reply with JSON only: {"subtasks":[{"assignee":"<agent id>","task":"<what to do>"}]} to delegate work,',
+        'or {"final":"<answer>"} when the results are enough to complete the task.'
+      ]), 'broadcast', 'broadcast');
+      
+      const decision = extractJson(plan.content);
+      
+      if (!decision || typeof decision.final === 'string' || !Array.isArray(decision.subtasks) || decision.subtasks.length === 0) {
+        // Anything other than a delegation is the lead's answer
+        run.result = typeof decision?.final === 'string' ? decision.final : plan.content;
+        return 'completed';
+      }
+      
+      if (this.saysStopPhrase(run, plan.content)) return 'stop_condition';
+      
+      const batch: ProtocolSubtask[] = decision.subtasks.map((entry: any, index: number) => ({
+        id: `subtask-${subtasks.length + index + 1}`,
+        assignee: String(entry?.assignee || ''),
+        task: String(entry?.task || ''),
+        status: 'pending',
+        createdTurn: run.turns
+      }));
+      subtasks.push(...batch);
+      
+      for (const subtask of batch) {
+        if (!run.participants.includes(subtask.assignee) || !subtask.task) {
+          subtask.status = 'failed';
+          subtask.result = subtask.task
+            ? `${subtask.assignee || 'Nobody'} is not a participant`
+            : 'The sub-task has no description';
+          this.emitToSession(run.sessionId, 'protocol-subtask', { runId: run.id, subtask });
+          continue;
+        }
+        
+        if (run.turns >= run.maxTurns) {
+          subtask.status = 'skipped';
+          subtask.result = 'Turn budget exhausted';
+          continue;
+        }
+        
+        const request = this.appendMessage(run.sessionId, {
+          from: lead,
+          to: subtask.assignee,
+          content: subtask.task,
+          type: 'request',
+          metadata: { protocol: run.protocol, runId: run.id, subtaskId: subtask.id }
+        });
+        subtask.status = 'in_progress';
+        subtask.requestMessageId = request.id;
+        this.emitToSession(run.sessionId, 'protocol-subtask', { runId: run.id, subtask });
+        
+        const response = await this.takeTurn(run, signal, subtask.assignee, this.buildTurnPrompt(run, subtask.assignee, [
+          `${lead} delegated this sub-task to you: ${subtask.task}`,
+          'Complete it and reply with your result.'
+        ]), lead, 'response', { subtaskId: subtask.id, replyTo: request.id });
+        
+        subtask.status = 'completed';
+        subtask.result = response.content;
+        subtask.responseMessageId = response.id;
+        this.emitToSession(run.sessionId, 'protocol-subtask', { runId: run.id, subtask });
+      }
+    }
+    
+    return 'max_turns';
+  }
+  
+  /**
+   * Participants vote in rounds, seeing the previous round's votes and reasons,
+   * until one choice reaches the consensus threshold
+   */
+  private async runVoting(run: ProtocolRun, signal: AbortSignal): Promise<ProtocolStopReason> {
+    const rounds = run.voteRounds!;
+    const options = run.options!;
+    
+    // Only start a round every participant can finish
+    while (run.turns + run.participants.length <= run.maxTurns) {
+      const previous = rounds[rounds.length - 1];
+      const round: ProtocolVoteRound = { round: rounds.length + 1, votes: [], tally: {} };
+      rounds.push(round);
+      
+      for (const agentId of run.participants) {
+        const message = await this.takeTurn(run, signal, agentId, this.buildTurnPrompt(run, agentId, [
+          `Vote on: ${run.topic}`,
+          `Choices: ${options.map(option => `"${option}"`).join(', ')}.`,
+          previous
+            ? `Round ${previous.round} had no consensus. Votes were:\n${previous.votes.map(vote => `- ${vote.agentId}: ${vote.choice ?? 'abstained'}${vote.reason ? ` (${vote.reason})` : ''}`).join('\n')}`
+            : '',
+          'Reply with JSON only: {"vote":"<choice>","reason":"<one sentence>"}'
+        ], false), 'broadcast', 'broadcast', { round: round.round });
+        
+        round.votes.push({ agentId, ...parseVote(message.content, options) });
+      }
+      
+      for (const vote of round.votes) {
+        if (vote.choice) {
+          round.tally[vote.choice] = (round.tally[vote.choice] || 0) + 1;
+        }
+      }
+      
+      const ranked = Object.entries(round.tally).sort((a, b) => b[1] - a[1]);
+      const [top, second] = ranked;
+      
+      if (top && top[1] / run.participants.length >= run.consensusThreshold! && (!second || second[1] < top[1])) {
+        round.consensus = top[0];
+        run.result = top[0];
+      }
+      
+      this.emitToSession(run.sessionId, 'protocol-vote', { runId: run.id, round });
+      
+      if (round.consensus) return 'consensus';
+    }
+    
+    return rounds.length > 0 ? 'no_consensus' : 'max_turns';
+  }
+  
+  /**
+   * Have an agent take one turn of a protocol and post its reply to the session
+   */
+  private async takeTurn(
+    run: ProtocolRun,
+    signal: AbortSignal,
+    agentId: string,
+    prompt: string,
+    to: string,
+    type: MessageType,
+    metadata: Record<string, any> = {}
+  ): Promise<Message> {
+    if (signal.aborted) {
+      throw httpError('Protocol stopped', 499);
+    }
+    
+    run.turns++;
+    const turn = run.turns;
+    
+    const response = await agentService.executeAgent(agentId, prompt, {
+      sessionId: run.sessionId,
+      guild_id: this.activeSessions.get(run.sessionId)?.guildId,
+      source: 'protocol',
+      protocol: run.protocol,
+      protocol_run_id: run.id,
+      turn
+    }, { signal });
+    
+    const message = this.appendMessage(run.sessionId, {
+      from: agentId,
+      to,
+      content: response.output,
+      type,
+      metadata: { ...metadata, protocol: run.protocol, runId: run.id, turn, role: run.roles[agentId] }
+    });
+    
+    this.emitToSession(run.sessionId, 'protocol-turn', { runId: run.id, turn, maxTurns: run.maxTurns, message });
+    
+    return message;
+  }
+  
+  /**
+   * Prompt for one turn: the agent's role, the topic, the recent transcript of
+   * this run and the turn-specific instructions
+   */
+  private buildTurnPrompt(run: ProtocolRun, agentId: string, instructions: string[], includeTranscript: boolean = true): string {
+    const transcript = includeTranscript
+      ? this.getSessionHistory(run.sessionId)
+        .filter(message => message.metadata?.runId === run.id && message.from !== 'system')
+        .slice(-PROTOCOL_TRANSCRIPT_MESSAGES)
+        .map(message => `[${message.from}] ${message.content}`)
+        .join('\n\n')
+      : '';
+    
+    return [
+      `You are ${this.describeParticipant(run, agentId)} in a ${PROTOCOL_LABELS[run.protocol]}.`,
+      `Topic: ${run.topic}`,
+      transcript ? `Conversation so far:\n${transcript}` : '',
+      `This is turn ${run.turns + 1} of at most ${run.maxTurns}.`,
+      ...instructions
+    ].filter(Boolean).join('\n\n');
+  }
+  
+  private describeParticipant(run: ProtocolRun, agentId: string): string {
+    return run.roles[agentId] ? `${agentId} (${run.roles[agentId]})` : agentId;
+  }
+  
+  private saysStopPhrase(run: ProtocolRun, content: string): boolean {
+    return Boolean(run.stopPhrase) && content.toLowerCase().includes(run.stopPhrase!.toLowerCase());
+  }
+  
+  /**
+   * Post the final summary message of a run. Completed runs are summarized by the
+   * summarizer agent; stopped and failed runs get a factual summary without one.
+   */
+  private async summarizeProtocol(run: ProtocolRun, status: ProtocolRun['status']): Promise<void> {
+    const facts = describeOutcome(run);
+    let summary = facts;
+    let from = 'system';
+    
+    if (status === 'completed' && run.summarizer) {
+      try {
+        const response = await agentService.executeAgent(run.summarizer, this.buildTurnPrompt(run, run.summarizer, [
+          `The ${PROTOCOL_LABELS[run.protocol]} has ended. Outcome: ${facts}`,
+          'Write the final summary for the session: what was decided or produced, the key arguments or results, and any open questions.'
+        ]), {
+          sessionId: run.sessionId,
+          guild_id: this.activeSessions.get(run.sessionId)?.guildId,
+          source: 'protocol',
+          protocol: run.protocol,
+          protocol_run_id: run.id
+        });
+        
+        summary = response.output;
+        from = run.summarizer;
+      } catch (error: any) {
+        console.warn(`⚠️ Failed to summarize protocol ${run.id}: ${error.message}`);
+      }
+    }
+    
+    const message = this.appendMessage(run.sessionId, {
+      from,
+      to: 'broadcast',
+      content: summary,
+      type: 'summary',
+      metadata: {
+        protocol: run.protocol,
+        runId: run.id,
+        final: true,
+        status,
+        stopReason: run.stopReason,
+        turns: run.turns
+      }
+    });
+    
+    run.summary = summary;
+    run.summaryMessageId = message.id;
+  }
+  
+  /**
+   * Add a message to a session's history, store it and broadcast it to the participants
+   */
+  private appendMessage(sessionId: string, data: Omit<Message, 'id' | 'sessionId' | 'timestamp' | 'sequence'>): Message {
+    const session = this.activeSessions.get(sessionId);
+    
+    const message: Message = {
+      id: uuid(),
+      sessionId,
+      ...data,
+      metadata: data.metadata || {},
+      timestamp: new Date().toISOString(),
+      sequence: session ? ++session.sequence : undefined
+    };
+    
+    if (session) {
+      session.messages.push(message);
+      session.lastActivity = new Date();
+      this.saveMessage(message);
+    }
+    
+    this.emitToSession(sessionId, 'message', message);
+    
+    return message;
+  }
+  
+  /**
+   * Emit an event to every socket in a session, within the session's guild namespace
+   */
+  private emitToSession(sessionId: string, event: string, payload: any): void {
+    const guildId = this.activeSessions.get(sessionId)?.guildId;
+    const namespace = guildId ? this.guildNamespaces.get(guildId) : undefined;
+    
+    // Nobody can be listening before a client has connected to the guild
+    namespace?.to(sessionId).emit(event, payload);
+  }
+  
+  /**
+   * Tell a client its event was rejected, as an 'error' event and through the
+   * event's acknowledgement if it has one
+   */
+  private rejectEvent(
+    socket: Socket,
+    event: string,
+    code: SocketErrorCode,
+    message: string,
+    sessionId?: string,
+    ack?: (response: { error?: string; code?: string }) => void
+  ): void {
+    console.warn(`🔒 Rejected ${event} from user ${socket.data.user?.id} in guild ${socket.data.guildId}: ${message}`);
+    socket.emit('error', { message, code, event, sessionId });
+    ack?.({ error: message, code });
+  }
+  
+  /**
+   * Reject events sent after the token the socket authenticated with has expired;
+   * the client reconnects with a fresh one
+   */
+  private checkToken(
+    socket: Socket,
+    event: string,
+    sessionId?: string,
+    ack?: (response: { error?: string; code?: string }) => void
+  ): boolean {
+    const expiresAt = socket.data.user?.expiresAt;
+    
+    if (expiresAt && expiresAt <= Date.now()) {
+      this.rejectEvent(socket, event, 'UNAUTHORIZED', 'Authentication token has expired', sessionId, ack);
+      return false;
+    }
+    
+    return true;
   }
   
   /**
@@ -322,14 +1136,174 @@ class CommunicationService {
     
     return {
       sessionId,
+      guildId: session.guildId,
       agents: Array.from(session.agents),
-      messageCount: session.messages.length,
+      messageCount: session.sequence,
       metadata: session.metadata,
       startTime: session.startTime.toISOString(),
-      lastActivity: session.lastActivity.toISOString()
+      lastActivity: session.lastActivity.toISOString(),
+      status: 'active'
+    };
+  }
+  
+  /**
+   * Get session details of an active or stored session
+   */
+  async getSessionDetails(sessionId: string): Promise<SessionDetails | null> {
+    const active = this.getSession(sessionId);
+    if (active) return active;
+    
+    const record = await this.loadSessionRecord(sessionId);
+    return record ? toSessionDetails(record) : null;
+  }
+  
+  /**
+   * List stored sessions, most recently active first
+   */
+  async listSessions(
+    filter: { status?: 'active' | 'closed'; agentId?: string; guildId?: string } = {},
+    limit: number = 50,
+    offset: number = 0
+  ): Promise<{ sessions: SessionDetails[]; total: number }> {
+    if (supabase) {
+      let query = supabase
+        .from('communication_sessions')
+        .select('*', { count: 'exact' })
+        .order('last_activity', { ascending: false })
+        .range(offset, offset + limit - 1);
+      
+      if (filter.status) query = query.eq('status', filter.status);
+      if (filter.agentId) query = query.contains('agents', [filter.agentId]);
+      if (filter.guildId) query = query.eq('guild_id', filter.guildId);
+      
+      const { data, error, count } = await query;
+      if (error) throw error;
+      
+      return {
+        sessions: (data || []).map((row: any) => toSessionDetails(row as SessionRecord)),
+        total: count || 0
+      };
+    }
+    
+    const records = Object.values(sessionRegistry)
+      .filter(record => !filter.status || record.status === filter.status)
+      .filter(record => !filter.agentId || record.agents.includes(filter.agentId))
+      .filter(record => !filter.guildId || record.guild_id === filter.guildId)
+      .sort((a, b) => b.last_activity.localeCompare(a.last_activity));
+    
+    return {
+      sessions: records.slice(offset, offset + limit).map(toSessionDetails),
+      total: records.length
     };
   }
   
+  /**
+   * Page through a session's stored messages in the order they were sent
+   */
+  async listMessages(
+    sessionId: string,
+    limit: number = 100,
+    offset: number = 0
+  ): Promise<{ messages: Message[]; total: number }> {
+    if (supabase) {
+      const { data, error, count } = await supabase
+        .from('communication_messages')
+        .select('message', { count: 'exact' })
+        .eq('session_id', sessionId)
+        .order('sequence', { ascending: true })
+        .range(offset, offset + limit - 1);
+      
+      if (error) throw error;
+      
+      return {
+        messages: (data || []).map((row: any) => row.message as Message),
+        total: count || 0
+      };
+    }
+    
+    const messages = messageRegistry[sessionId] || [];
+    return { messages: messages.slice(offset, offset + limit), total: messages.length };
+  }
+  
+  /**
+   * Export a session and its full transcript as JSON or Markdown
+   */
+  async exportSession(sessionId: string, format: 'json' | 'markdown'): Promise<string | null> {
+    const session = await this.getSessionDetails(sessionId);
+    if (!session) return null;
+    
+    const messages = await this.loadAllMessages(sessionId);
+    
+    if (format === 'json') {
+      return JSON.stringify({
+        session,
+        protocolRuns: this.listProtocolRuns(sessionId),
+        messages,
+        exportedAt: new Date().toISOString()
+      }, null, 2);
+    }
+    
+    const lines = [
+      `# Agent communication session ${sessionId}`,
+      '',
+      `- Status: ${session.status}`,
+      `- Agents: ${session.agents.join(', ') || 'none'}`,
+      `- Started: ${session.startTime}`,
+      `- Last activity: ${session.lastActivity}`,
+      ...(session.closedAt ? [`- Closed: ${session.closedAt}`] : []),
+      `- Messages: ${messages.length}`,
+      `- Exported: ${new Date().toISOString()}`,
+      '',
+      '## Transcript',
+      ''
+    ];
+    
+    for (const message of messages) {
+      lines.push(`### ${message.timestamp} · ${message.from} → ${message.to} (${message.type})`, '', message.content, '');
+    }
+    
+    return lines.join('\n');
+  }
+  
+  /**
+   * Replay a session's messages with the gaps between them as they were
+   * originally sent, divided by `speed` and capped at `maxGapMs`. Resolves
+   * with the number of messages replayed once done or aborted.
+   */
+  async replaySession(
+    sessionId: string,
+    options: { speed?: number; maxGapMs?: number; signal?: AbortSignal },
+    onMessage: (message: Message, offsetMs: number) => void
+  ): Promise<number> {
+    const messages = await this.loadAllMessages(sessionId);
+    const speed = options.speed && options.speed > 0 ? options.speed : 1;
+    let offsetMs = 0;
+    let replayed = 0;
+    
+    for (let index = 0; index < messages.length; index++) {
+      if (index > 0) {
+        const gap = new Date(messages[index].timestamp).getTime() - new Date(messages[index - 1].timestamp).getTime();
+        const delay = Math.min(Math.max(0, gap) / speed, options.maxGapMs ?? Infinity);
+        
+        await new Promise<void>(resolve => {
+          const timer = setTimeout(resolve, delay);
+          options.signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            resolve();
+          }, { once: true });
+        });
+        offsetMs += delay;
+      }
+      
+      if (options.signal?.aborted) break;
+      
+      onMessage(messages[index], Math.round(offsetMs));
+      replayed++;
+    }
+    
+    return replayed;
+  }
+  
   /**
    * Get session history
    */
@@ -342,35 +1316,32 @@ class CommunicationService {
   }
   
   /**
-   * Close a communication session
+   * Close a communication session. Its transcript stays stored.
    */
   async closeSession(sessionId: string): Promise<boolean> {
     const session = this.activeSessions.get(sessionId);
     
     if (!session) return false;
     
+    this.stopProtocol(sessionId, 'Session closed');
+    
     // Send session closed message
-    if (this.io) {
-      const closedMessage: Message = {
-        id: uuid(),
-        sessionId,
-        from: 'system',
-        to: 'broadcast',
-        content: `Communication session closed after ${session.messages.length} messages`,
-        type: 'system',
-        timestamp: new Date().toISOString()
-      };
-      
-      session.messages.push(closedMessage);
-      this.io.to(sessionId).emit('message', closedMessage);
-      
-      // Notify all participants that the session is closed
-      this.io.to(sessionId).emit('session-closed', {
-        sessionId,
-        timestamp: new Date().toISOString(),
-        messageCount: session.messages.length
-      });
-    }
+    this.appendMessage(sessionId, {
+      from: 'system',
+      to: 'broadcast',
+      content: `Communication session closed after ${session.sequence} messages`,
+      type: 'system'
+    });
+    
+    // Notify all participants that the session is closed
+    this.emitToSession(sessionId, 'session-closed', {
+      sessionId,
+      timestamp: new Date().toISOString(),
+      messageCount: session.sequence
+    });
+    
+    session.closedAt = new Date();
+    await this.saveSession(sessionId);
     
     // Remove from active sessions
     this.activeSessions.delete(sessionId);
@@ -380,6 +1351,120 @@ class CommunicationService {
     return true;
   }
   
+  /**
+   * Make a stored session active again, with its most recent messages in memory.
+   * Returns false if there is no such session.
+   */
+  private async resumeSession(sessionId: string): Promise<boolean> {
+    try {
+      const record = await this.loadSessionRecord(sessionId);
+      if (!record) return false;
+      
+      const { messages } = await this.listMessages(
+        sessionId,
+        SESSION_RELOAD_MESSAGES,
+        Math.max(0, record.message_count - SESSION_RELOAD_MESSAGES)
+      );
+      
+      this.activeSessions.set(sessionId, {
+        guildId: record.guild_id || undefined,
+        agents: new Set(record.agents),
+        messages,
+        metadata: record.metadata || {},
+        startTime: new Date(record.started_at),
+        lastActivity: new Date(),
+        sequence: record.message_count
+      });
+      
+      console.log(`🔄 Resumed stored communication session ${sessionId} (${record.message_count} messages)`);
+      return true;
+    } catch (error) {
+      console.error(`❌ Failed to resume communication session ${sessionId}:`, error);
+      return false;
+    }
+  }
+  
+  private async loadSessionRecord(sessionId: string): Promise<SessionRecord | null> {
+    if (supabase) {
+      const { data, error } = await supabase
+        .from('communication_sessions')
+        .select('*')
+        .eq('id', sessionId)
+        .maybeSingle();
+      
+      if (error) throw error;
+      return (data as any as SessionRecord) || null;
+    }
+    
+    return sessionRegistry[sessionId] || null;
+  }
+  
+  private async loadAllMessages(sessionId: string): Promise<Message[]> {
+    const pageSize = 1000;
+    const messages: Message[] = [];
+    
+    for (let offset = 0; ; offset += pageSize) {
+      const page = await this.listMessages(sessionId, pageSize, offset);
+      messages.push(...page.messages);
+      
+      if (page.messages.length < pageSize) return messages;
+    }
+  }
+  
+  /**
+   * Store the current state of an active session
+   */
+  private async saveSession(sessionId: string): Promise<void> {
+    const session = this.activeSessions.get(sessionId);
+    if (!session) return;
+    
+    const record: SessionRecord = {
+      id: sessionId,
+      guild_id: session.guildId || null,
+      agents: Array.from(session.agents),
+      metadata: session.metadata,
+      status: session.closedAt ? 'closed' : 'active',
+      message_count: session.sequence,
+      started_at: session.startTime.toISOString(),
+      last_activity: session.lastActivity.toISOString(),
+      closed_at: session.closedAt?.toISOString() || null
+    };
+    
+    if (supabase) {
+      const { error } = await supabase.from('communication_sessions').upsert({ ...record });
+      
+      if (error) {
+        console.error(`❌ Failed to store communication session ${sessionId}:`, error);
+      }
+      return;
+    }
+    
+    sessionRegistry[sessionId] = record;
+  }
+  
+  private async saveMessage(message: Message): Promise<void> {
+    if (supabase) {
+      // The session row must exist before its messages
+      await this.saveSession(message.sessionId);
+      
+      const { error } = await supabase.from('communication_messages').insert({
+        id: message.id,
+        session_id: message.sessionId,
+        sequence: message.sequence,
+        message,
+        created_at: message.timestamp
+      });
+      
+      if (error) {
+        console.error(`❌ Failed to store message ${message.id}:`, error);
+      }
+      return;
+    }
+    
+    (messageRegistry[message.sessionId] = messageRegistry[message.sessionId] || []).push(message);
+    await this.saveSession(message.sessionId);
+  }
+  
   /**
    * Clean up inactive sessions
    */
@@ -404,7 +1489,15 @@ const communicationService = new CommunicationService();
 export default communicationService;
 
 // Type definitions
-export type MessageType = 'request' | 'response' | 'broadcast' | 'system';
+export type MessageType = 'request' | 'response' | 'broadcast' | 'system' | 'summary';
+
+export type SocketErrorCode =
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'INVALID_REQUEST'
+  | 'INVALID_STREAM_REQUEST'
+  | 'NOT_IN_SESSION'
+  | 'SESSION_NOT_FOUND';
 
 export interface Message {
   id: string;
@@ -415,13 +1508,120 @@ export interface Message {
   type: MessageType;
   metadata?: Record<string, any>;
   timestamp: string;
+  // Position in the session's transcript, starting at 1
+  sequence?: number;
 }
 
 export interface SessionDetails {
   sessionId: string;
+  guildId?: string;
   agents: string[];
   messageCount: number;
   metadata: Record<string, any>;
   startTime: string;
   lastActivity: string;
-}
\ No newline at end of file
+  status: 'active' | 'closed';
+  closedAt?: string;
+}
+
+// Row of the communication_sessions table
+export interface SessionRecord {
+  id: string;
+  guild_id: string | null;
+  agents: string[];
+  metadata: Record<string, any>;
+  status: 'active' | 'closed';
+  message_count: number;
+  started_at: string;
+  last_activity: string;
+  closed_at: string | null;
+}
+
+interface ActiveSession {
+  // Guild whose namespace the session is joined over
+  guildId?: string;
+  agents: Set<string>;
+  // Recent messages; the full transcript is in the store
+  messages: Message[];
+  metadata: Record<string, any>;
+  startTime: Date;
+  lastActivity: Date;
+  // Number of messages sent in the session so far
+  sequence: number;
+  closedAt?: Date;
+}
+export type ProtocolType = 'round_robin' | 'debate' | 'delegation' | 'voting';
+
+export type ProtocolStopReason =
+  | 'stop_condition'
+  | 'max_turns'
+  | 'completed'
+  | 'consensus'
+  | 'no_consensus'
+  | 'stopped'
+  | 'error';
+
+export interface ProtocolConfig {
+  protocol: ProtocolType;
+  // The question, task or proposal the participants work on
+  topic: string;
+  // Agents in speaking order
+  participants: string[];
+  // Debate moderator, or the lead who delegates sub-tasks
+  moderator?: string;
+  // Writes the final summary; defaults to the moderator, then the first participant
+  summarizer?: string;
+  // Role of each agent, e.g. { "agent-1": "researcher" }
+  roles?: Record<string, string>;
+  maxTurns?: number;
+  // Ends the run when a turn contains it (debate default: CONCLUDE)
+  stopPhrase?: string;
+  // Voting choices (default yes/no) and the share of votes that is consensus
+  options?: string[];
+  consensusThreshold?: number;
+}
+
+export interface ProtocolSubtask {
+  id: string;
+  assignee: string;
+  task: string;
+  status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'skipped';
+  result?: string;
+  createdTurn: number;
+  requestMessageId?: string;
+  responseMessageId?: string;
+}
+
+export interface ProtocolVoteRound {
+  round: number;
+  votes: Array<{ agentId: string; choice: string | null; reason?: string }>;
+  tally: Record<string, number>;
+  consensus?: string;
+}
+
+export interface ProtocolRun {
+  id: string;
+  sessionId: string;
+  protocol: ProtocolType;
+  topic: string;
+  participants: string[];
+  moderator?: string;
+  summarizer?: string;
+  roles: Record<string, string>;
+  maxTurns: number;
+  stopPhrase?: string;
+  options?: string[];
+  consensusThreshold?: number;
+  status: 'running' | 'completed' | 'stopped' | 'failed';
+  stopReason?: ProtocolStopReason;
+  turns: number;
+  subtasks?: ProtocolSubtask[];
+  voteRounds?: ProtocolVoteRound[];
+  // Delegation's final answer or the winning vote
+  result?: string;
+  summary?: string;
+  summaryMessageId?: string;
+  error?: string;
+  startedAt: string;
+  finishedAt?: string;
+}
@@ -0,0 +1,863 @@
+import { createClient } from '@supabase/supabase-js';
+import { v4 as uuidv4 } from 'uuid';
+import axios from 'axios';
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import dotenv from 'dotenv';
+import timerService from './timerService';
+import templateService from './templateService';
+import { httpError } from '../utils/httpError';
+
+// Load environment variables
+dotenv.config();
+
+// Initialize Supabase
+const supabaseUrl = process.env.SUPABASE_URL as string;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY as string;
+let supabase: ReturnType<typeof createClient> | undefined;
+
+if (supabaseUrl && supabaseKey && !supabaseUrl.includes('your_') && !supabaseKey.includes('your_')) {
+  supabase = createClient(supabaseUrl, supabaseKey);
+  console.log('✅ Delivery service initialized with Supabase database');
+} else {
+  console.log('⚠️ Delivery service initialized without database persistence');
+}
+
+// Attempts per delivery before it fails for good
+const OUTBOUND_MAX_ATTEMPTS = parseInt(process.env.OUTBOUND_MAX_ATTEMPTS || '6');
+const MAX_ATTEMPTS_LIMIT = 20;
+
+// Retry backoff: doubles from the base delay up to the cap, plus up to 20% jitter
+const OUTBOUND_RETRY_BASE_MS = parseInt(process.env.OUTBOUND_RETRY_BASE_MS || '1000');
+const RETRY_MAX_MS = 10 * 60 * 1000;
+
+// How long a destination gets to answer one attempt
+const OUTBOUND_TIMEOUT_MS = parseInt(process.env.OUTBOUND_TIMEOUT_MS || '10000');
+
+// Consecutive failures that open a destination's circuit, and how long it stays open
+const OUTBOUND_CIRCUIT_FAILURE_THRESHOLD = parseInt(process.env.OUTBOUND_CIRCUIT_FAILURE_THRESHOLD || '5');
+const OUTBOUND_CIRCUIT_COOLDOWN_MS = parseInt(process.env.OUTBOUND_CIRCUIT_COOLDOWN_MS || '60000');
+
+// Signs payloads of deliveries that don't name a workflow secret to sign with
+const OUTBOUND_SIGNING_SECRET = process.env.OUTBOUND_SIGNING_SECRET || '';
+
+// Lets deliveries reach loopback and private networks, for local development only
+const OUTBOUND_ALLOW_PRIVATE_DESTINATIONS = process.env.OUTBOUND_ALLOW_PRIVATE_DESTINATIONS === 'true';
+
+// Deliveries kept in memory; pending ones are never dropped
+const DELIVERY_HISTORY_LIMIT = 1000;
+
+// How much of each response body an attempt keeps
+const RESPONSE_PREVIEW_LENGTH = 2000;
+
+// Statuses that say the destination may accept the same request later
+const RETRYABLE_STATUSES = new Set([408, 425, 429]);
+
+// Request headers never returned by the API
+const REDACTED_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'x-api-key'];
+
+// Addresses deliveries may not reach: this host, private and shared networks,
+// link-local (cloud metadata endpoints), multicast and reserved ranges
+const BLOCKED_ADDRESSES = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 127], ['::ffff:0:0', 96], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address as string, prefix as number, 'ipv6'));
+
+// Marks attempts refused because the destination resolved to a blocked address
+const BLOCKED_DESTINATION = 'EBLOCKEDDESTINATION';
+
+function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address);
+  return family !== 0 && BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+function blockedDestinationError(hostname: string, address: string): Error {
+  const error: any = httpError(`Deliveries to ${hostname} are not allowed: it resolves to the private address ${address}`);
+  error.code = BLOCKED_DESTINATION;
+  return error;
+}
+
+/**
+ * DNS lookup for outbound connections that refuses private addresses. It runs
+ * when the connection is made, so a hostname can't pass the check at enqueue
+ * time and then be pointed at an internal address.
+ */
+const guardedLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (error, address, family) => {
+    if (error) return callback(error, address, family);
+
+    const addresses = Array.isArray(address) ? address.map(entry => entry.address) : [address];
+    const blocked = addresses.find(isBlockedAddress);
+    if (blocked) return callback(blockedDestinationError(hostname, blocked), address, family);
+
+    callback(null, address, family);
+  });
+};
+
+const httpAgent = new http.Agent({ lookup: guardedLookup });
+const httpsAgent = new https.Agent({ lookup: guardedLookup });
+
+/**
+ * Reject URLs whose host is, or resolves to, a private address. Connections
+ * skip DNS for IP literals, so those are only checked here; a hostname that
+ * can't be resolved yet is left to the attempts.
+ */
+async function checkDestination(url: URL): Promise<void> {
+  if (OUTBOUND_ALLOW_PRIVATE_DESTINATIONS) return;
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(hostname)) {
+    if (isBlockedAddress(hostname)) throw blockedDestinationError(hostname, hostname);
+    return;
+  }
+
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(hostname, { all: true });
+  } catch {
+    return;
+  }
+
+  const blocked = addresses.find(entry => isBlockedAddress(entry.address));
+  if (blocked) throw blockedDestinationError(hostname, blocked.address);
+}
+
+/**
+ * Attempts a delivery gets, between 1 and MAX_ATTEMPTS_LIMIT
+ */
+function attemptLimit(requested?: number): number {
+  return Math.min(Math.max(1, requested || OUTBOUND_MAX_ATTEMPTS), MAX_ATTEMPTS_LIMIT);
+}
+
+/**
+ * Delay before the next attempt, or the one a 429/503 response asked for
+ */
+export function retryDelay(attempts: number, retryAfter?: string): number {
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const requested = Number.isFinite(seconds) ? seconds * 1000 : new Date(retryAfter).getTime() - Date.now();
+    if (requested > 0) return Math.min(requested, RETRY_MAX_MS);
+  }
+
+  const backoff = Math.min(OUTBOUND_RETRY_BASE_MS * Math.pow(2, attempts - 1), RETRY_MAX_MS);
+  return Math.round(backoff * (1 + Math.random() * 0.2));
+}
+
+/**
+ * Outbound delivery queue for webhook and notification actions. Each delivery
+ * is retried with exponential backoff until the destination accepts it or it
+ * runs out of attempts; a destination that keeps failing gets its circuit
+ * opened so queued deliveries wait instead of piling onto it. Payloads are
+ * signed with HMAC-SHA256 and carry an idempotency key, and an idempotency key
+ * is only ever delivered once.
+ */
+class DeliveryService {
+  private deliveries: Map<string, OutboundDelivery> = new Map();
+  private idempotencyKeys: Map<string, string> = new Map();
+  private circuits: Map<string, CircuitState> = new Map();
+  private inFlight: Set<string> = new Set();
+  private enqueuing: Map<string, Promise<OutboundDelivery>> = new Map();
+
+  /**
+   * Re-arm deliveries that were still pending when the orchestrator stopped
+   */
+  async initialize(): Promise<void> {
+    if (!supabase) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('outbound_deliveries')
+        .select('delivery')
+        .eq('status', 'pending');
+
+      if (error) {
+        console.error('❌ Failed to load pending outbound deliveries:', error);
+        return;
+      }
+
+      (data || []).forEach(row => {
+        const delivery = row.delivery as unknown as OutboundDelivery;
+        this.remember(delivery);
+        this.schedule(delivery, new Date(delivery.nextAttemptAt || Date.now()));
+      });
+
+      if (data && data.length > 0) {
+        console.log(`📮 Resuming ${data.length} pending outbound deliveries`);
+      }
+    } catch (error) {
+      console.error('❌ Error loading pending outbound deliveries:', error);
+    }
+  }
+
+  /**
+   * Queue a delivery and make its first attempt right away. Resolves once that
+   * attempt is done (or deferred by an open circuit); later attempts happen in
+   * the background. A key that was already delivered, or is still being
+   * retried, returns the existing delivery without sending anything; a failed
+   * one is queued again. Deliveries may not go to private addresses.
+   */
+  async enqueue(request: OutboundDeliveryRequest): Promise<OutboundDelivery> {
+    let url: URL;
+    try {
+      url = new URL(request.url);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error();
+    } catch {
+      throw httpError(`Invalid delivery URL: ${request.url}`);
+    }
+
+    await checkDestination(url);
+
+    if (request.signingSecret && !templateService.loadSecrets()[request.signingSecret]) {
+      throw httpError(`Signing secret ${request.signingSecret} is not configured`);
+    }
+
+    const idempotencyKey = request.idempotencyKey || uuidv4();
+
+    // Concurrent requests with the same key share the first one's delivery
+    const enqueuing = this.enqueuing.get(idempotencyKey);
+    if (enqueuing) return enqueuing;
+
+    const queued = this.queue(request, idempotencyKey, url.origin);
+    this.enqueuing.set(idempotencyKey, queued);
+
+    try {
+      return await queued;
+    } finally {
+      this.enqueuing.delete(idempotencyKey);
+    }
+  }
+
+  private async queue(request: OutboundDeliveryRequest, idempotencyKey: string, destination: string): Promise<OutboundDelivery> {
+    const existing = await this.findByIdempotencyKey(idempotencyKey);
+
+    if (existing && existing.status !== 'failed') {
+      console.log(`📮 Delivery ${existing.id} already ${existing.status} for idempotency key ${idempotencyKey}`);
+      return existing;
+    }
+
+    if (existing) {
+      // Earlier attempts stay in its history
+      existing.status = 'pending';
+      existing.maxAttempts = existing.attempts.length + attemptLimit(request.maxAttempts);
+      existing.nextAttemptAt = new Date().toISOString();
+      existing.updatedAt = existing.nextAttemptAt;
+
+      const current = await this.reopen(existing);
+      if (current !== existing) {
+        console.log(`📮 Delivery ${existing.id} was already queued again for idempotency key ${idempotencyKey}`);
+        this.remember(current);
+        return current;
+      }
+
+      this.remember(existing);
+      await this.attempt(existing);
+      return existing;
+    }
+
+    const body = typeof request.payload === 'string' ? request.payload : JSON.stringify(request.payload ?? {});
+    const headers: Record<string, string> = { ...(request.headers || {}) };
+    if (!Object.keys(headers).some(name => name.toLowerCase() === 'content-type')) {
+      headers['Content-Type'] = typeof request.payload === 'string' ? 'text/plain' : 'application/json';
+    }
+    const now = new Date().toISOString();
+
+    const delivery: OutboundDelivery = {
+      id: uuidv4(),
+      idempotencyKey,
+      kind: request.kind || 'webhook',
+      url: request.url,
+      destination,
+      method: (request.method || 'POST').toUpperCase(),
+      headers,
+      body,
+      signingSecret: request.signingSecret,
+      executionId: request.executionId,
+      flowId: request.flowId,
+      nodeId: request.nodeId,
+      requestedBy: request.requestedBy,
+      status: 'pending',
+      maxAttempts: attemptLimit(request.maxAttempts),
+      attempts: [],
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const claimed = await this.claim(delivery);
+    if (claimed) {
+      console.log(`📮 Delivery ${claimed.id} already ${claimed.status} for idempotency key ${idempotencyKey}`);
+      this.remember(claimed);
+      return claimed;
+    }
+
+    this.remember(delivery);
+    await this.attempt(delivery);
+
+    return delivery;
+  }
+
+  async getDelivery(deliveryId: string): Promise<OutboundDelivery | null> {
+    const cached = this.deliveries.get(deliveryId);
+    if (cached) return cached;
+
+    if (supabase) {
+      try {
+        const { data, error } = await supabase
+          .from('outbound_deliveries')
+          .select('delivery')
+          .eq('id', deliveryId)
+          .maybeSingle();
+
+        if (error) {
+          console.error('❌ Failed to retrieve outbound delivery:', error);
+        } else if (data) {
+          return (data as any).delivery as OutboundDelivery;
+        }
+      } catch (error) {
+        console.error('❌ Error retrieving outbound delivery:', error);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Deliveries, newest first, e.g. every delivery made by one execution
+   */
+  async listDeliveries(filter: OutboundDeliveryFilter = {}): Promise<OutboundDelivery[]> {
+    const limit = Math.min(filter.limit || 50, 500);
+
+    if (supabase) {
+      try {
+        let query = supabase
+          .from('outbound_deliveries')
+          .select('delivery')
+          .order('created_at', { ascending: false })
+          .limit(limit);
+
+        if (filter.executionId) query = query.eq('execution_id', filter.executionId);
+        if (filter.status) query = query.eq('status', filter.status);
+        if (filter.visibleTo) {
+          const { userId, flowIds } = filter.visibleTo;
+          query = query.or(
+            flowIds.length > 0 ? `requested_by.eq.${userId},flow_id.in.(${flowIds.join(',')})` : `requested_by.eq.${userId}`
+          );
+        }
+
+        const { data, error } = await query;
+
+        if (error) {
+          console.error('❌ Failed to list outbound deliveries:', error);
+        } else if (data) {
+          return data.map(row => (row as any).delivery as OutboundDelivery);
+        }
+      } catch (error) {
+        console.error('❌ Error listing outbound deliveries:', error);
+      }
+    }
+
+    return Array.from(this.deliveries.values())
+      .filter(delivery =>
+        (!filter.executionId || delivery.executionId === filter.executionId) &&
+        (!filter.status || delivery.status === filter.status) &&
+        (!filter.visibleTo || delivery.requestedBy === filter.visibleTo.userId ||
+          (delivery.flowId !== undefined && filter.visibleTo.flowIds.includes(delivery.flowId)))
+      )
+      .reverse()
+      .slice(0, limit);
+  }
+
+  /**
+   * Queue a failed delivery again with a fresh set of attempts
+   */
+  async retryDelivery(deliveryId: string): Promise<OutboundDelivery> {
+    const delivery = await this.getDelivery(deliveryId);
+
+    if (!delivery) {
+      throw httpError(`Outbound delivery not found: ${deliveryId}`, 404);
+    }
+
+    if (delivery.status !== 'failed') {
+      throw httpError(`Only failed deliveries can be retried (status: ${delivery.status})`, 409);
+    }
+
+    return this.enqueue({ ...this.toRequest(delivery), maxAttempts: OUTBOUND_MAX_ATTEMPTS });
+  }
+
+  /**
+   * Circuit breaker state of every destination delivered to
+   */
+  getCircuits(): CircuitState[] {
+    return Array.from(this.circuits.values()).map(circuit => ({ ...circuit }));
+  }
+
+  /**
+   * A delivery as the API returns it, without credentials in its headers
+   */
+  describe(delivery: OutboundDelivery): OutboundDelivery {
+    const headers = Object.fromEntries(
+      Object.entries(delivery.headers).map(([name, value]) =>
+        [name, REDACTED_HEADERS.includes(name.toLowerCase()) ? '[REDACTED]' : value]
+      )
+    );
+
+    return templateService.redactSecrets({ ...delivery, headers });
+  }
+
+  private toRequest(delivery: OutboundDelivery): OutboundDeliveryRequest {
+    return {
+      url: delivery.url,
+      method: delivery.method,
+      headers: delivery.headers,
+      payload: delivery.body,
+      kind: delivery.kind,
+      idempotencyKey: delivery.idempotencyKey,
+      signingSecret: delivery.signingSecret,
+      executionId: delivery.executionId,
+      flowId: delivery.flowId,
+      nodeId: delivery.nodeId,
+      requestedBy: delivery.requestedBy
+    };
+  }
+
+  private schedule(delivery: OutboundDelivery, at: Date): void {
+    timerService.schedule(`outbound-delivery:${delivery.id}`, at, () => this.attempt(delivery));
+  }
+
+  /**
+   * Make one attempt unless the destination's circuit is open, then record
+   * success, schedule a retry or fail the delivery
+   */
+  private async attempt(delivery: OutboundDelivery): Promise<void> {
+    if (delivery.status !== 'pending' || this.inFlight.has(delivery.id)) return;
+
+    let headers: Record<string, string>;
+    try {
+      headers = this.signedHeaders(delivery);
+    } catch (error: any) {
+      // The signing secret was removed since the delivery was queued
+      delivery.attempts.push({
+        attempt: delivery.attempts.length + 1,
+        startedAt: new Date().toISOString(),
+        durationMs: 0,
+        error: error.message,
+        outcome: 'failed'
+      });
+      delivery.status = 'failed';
+      delivery.lastError = error.message;
+      delivery.updatedAt = new Date().toISOString();
+      delete delivery.nextAttemptAt;
+      await this.save(delivery);
+      return;
+    }
+
+    const circuit = this.getCircuit(delivery.destination);
+    const now = Date.now();
+
+    if (circuit.state === 'open' && now < new Date(circuit.openUntil as string).getTime()) {
+      // Wait out the cooldown without spending an attempt
+      delivery.nextAttemptAt = circuit.openUntil;
+      await this.save(delivery);
+      this.schedule(delivery, new Date(circuit.openUntil as string));
+      return;
+    }
+
+    if (circuit.state === 'open') {
+      circuit.state = 'half_open';
+    }
+
+    if (circuit.state === 'half_open') {
+      if (circuit.probing) {
+        // Another delivery is testing the destination; check back shortly
+        delivery.nextAttemptAt = new Date(now + OUTBOUND_RETRY_BASE_MS).toISOString();
+        this.schedule(delivery, new Date(delivery.nextAttemptAt));
+        return;
+      }
+      circuit.probing = true;
+    }
+
+    this.inFlight.add(delivery.id);
+    const attempt: DeliveryAttempt = {
+      attempt: delivery.attempts.length + 1,
+      startedAt: new Date(now).toISOString(),
+      durationMs: 0,
+      outcome: 'failed'
+    };
+    let retryAfter: string | undefined;
+
+    try {
+      await checkDestination(new URL(delivery.url));
+
+      const response = await axios.request({
+        url: delivery.url,
+        method: delivery.method as any,
+        headers,
+        data: delivery.method === 'GET' ? undefined : delivery.body,
+        timeout: OUTBOUND_TIMEOUT_MS,
+        maxRedirects: 0,
+        responseType: 'text',
+        transformResponse: data => data,
+        validateStatus: () => true,
+        // A proxy would resolve the destination itself, past the address check
+        ...(OUTBOUND_ALLOW_PRIVATE_DESTINATIONS ? {} : { httpAgent, httpsAgent, proxy: false as const })
+      });
+
+      attempt.statusCode = response.status;
+      attempt.responseBody = String(response.data ?? '').slice(0, RESPONSE_PREVIEW_LENGTH);
+
+      if (response.status >= 200 && response.status < 300) {
+        attempt.outcome = 'delivered';
+      } else if (response.status >= 500 || RETRYABLE_STATUSES.has(response.status)) {
+        attempt.outcome = 'retry';
+        attempt.error = `Destination responded with ${response.status}`;
+        retryAfter = response.headers['retry-after'];
+      } else {
+        // The destination is up but refuses this request; sending it again won't help
+        attempt.error = `Destination responded with ${response.status}`;
+      }
+    } catch (error: any) {
+      // Timeouts, refused connections and DNS failures; blocked destinations fail for good
+      attempt.outcome = error.code === BLOCKED_DESTINATION || error.cause?.code === BLOCKED_DESTINATION ? 'failed' : 'retry';
+      attempt.error = templateService.redactSecrets(error.message || 'Delivery failed');
+    } finally {
+      attempt.durationMs = Date.now() - now;
+      this.inFlight.delete(delivery.id);
+    }
+
+    this.recordCircuitResult(circuit, attempt);
+
+    delivery.attempts.push(attempt);
+    delivery.lastStatusCode = attempt.statusCode;
+    delivery.updatedAt = new Date().toISOString();
+
+    if (attempt.outcome === 'delivered') {
+      delivery.status = 'delivered';
+      delivery.deliveredAt = delivery.updatedAt;
+      delete delivery.lastError;
+      delete delivery.nextAttemptAt;
+      console.log(`📮 Delivered ${delivery.kind} ${delivery.id} to ${delivery.destination} (attempt ${attempt.attempt})`);
+    } else if (attempt.outcome === 'retry' && delivery.attempts.length < delivery.maxAttempts) {
+      const delayMs = retryDelay(delivery.attempts.length, retryAfter);
+      delivery.lastError = attempt.error;
+      delivery.nextAttemptAt = new Date(Date.now() + delayMs).toISOString();
+      console.warn(`⚠️ Delivery ${delivery.id} to ${delivery.destination} failed (attempt ${attempt.attempt}/${delivery.maxAttempts}), retrying in ${delayMs}ms: ${attempt.error}`);
+    } else {
+      delivery.status = 'failed';
+      delivery.lastError = attempt.error;
+      delete delivery.nextAttemptAt;
+      console.error(`❌ Delivery ${delivery.id} to ${delivery.destination} failed after ${delivery.attempts.length} attempts: ${attempt.error}`);
+    }
+
+    await this.save(delivery);
+
+    if (delivery.status === 'pending') {
+      this.schedule(delivery, new Date(delivery.nextAttemptAt as string));
+    }
+  }
+
+  /**
+   * Headers for one attempt. The signature covers `<timestamp>.<body>` and is
+   * computed afresh for every attempt, so retries stay within the receiver's
+   * timestamp tolerance; the delivery id doubles as the receiver's nonce.
+   */
+  private signedHeaders(delivery: OutboundDelivery): Record<string, string> {
+    const headers: Record<string, string> = {
+      ...delivery.headers,
+      'Idempotency-Key': delivery.idempotencyKey,
+      'X-Webhook-Id': delivery.id
+    };
+
+    let secret = OUTBOUND_SIGNING_SECRET;
+    if (delivery.signingSecret) {
+      secret = templateService.loadSecrets()[delivery.signingSecret];
+      if (!secret) {
+        throw new Error(`Signing secret ${delivery.signingSecret} is not configured`);
+      }
+    }
+
+    if (secret) {
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      const signature = crypto
+        .createHmac('sha256', secret)
+        .update(`${timestamp}.${delivery.body}`, 'utf8')
+        .digest('hex');
+
+      headers['X-Webhook-Timestamp'] = timestamp;
+      headers['X-Webhook-Signature'] = `sha256=${signature}`;
+    }
+
+    return headers;
+  }
+
+  private getCircuit(destination: string): CircuitState {
+    let circuit = this.circuits.get(destination);
+
+    if (!circuit) {
+      circuit = { destination, state: 'closed', consecutiveFailures: 0, probing: false };
+      this.circuits.set(destination, circuit);
+    }
+
+    return circuit;
+  }
+
+  /**
+   * Close the circuit on success; open it after too many consecutive failures,
+   * or at once when the probe of a half-open circuit fails. Refusals (4xx) show
+   * the destination is up, so they count as successes here.
+   */
+  private recordCircuitResult(circuit: CircuitState, attempt: DeliveryAttempt): void {
+    const wasProbe = circuit.state === 'half_open';
+    circuit.probing = false;
+
+    if (attempt.outcome !== 'retry') {
+      if (circuit.state !== 'closed') {
+        console.log(`🔌 Circuit for ${circuit.destination} closed`);
+      }
+      circuit.state = 'closed';
+      circuit.consecutiveFailures = 0;
+      delete circuit.openUntil;
+      return;
+    }
+
+    circuit.consecutiveFailures++;
+    circuit.lastFailureAt = new Date().toISOString();
+
+    if (wasProbe || circuit.consecutiveFailures >= OUTBOUND_CIRCUIT_FAILURE_THRESHOLD) {
+      circuit.state = 'open';
+      circuit.openUntil = new Date(Date.now() + OUTBOUND_CIRCUIT_COOLDOWN_MS).toISOString();
+      console.warn(`🔌 Circuit for ${circuit.destination} opened after ${circuit.consecutiveFailures} consecutive failures`);
+    }
+  }
+
+  private async findByIdempotencyKey(key: string): Promise<OutboundDelivery | null> {
+    const id = this.idempotencyKeys.get(key);
+    if (id && this.deliveries.has(id)) {
+      return this.deliveries.get(id) as OutboundDelivery;
+    }
+
+    if (supabase) {
+      try {
+        const { data, error } = await supabase
+          .from('outbound_deliveries')
+          .select('delivery')
+          .eq('idempotency_key', key)
+          .maybeSingle();
+
+        if (error) {
+          console.error('❌ Failed to look up idempotency key:', error);
+        } else if (data) {
+          const delivery = (data as any).delivery as OutboundDelivery;
+          this.remember(delivery);
+          return delivery;
+        }
+      } catch (error) {
+        console.error('❌ Error looking up idempotency key:', error);
+      }
+    }
+
+    return null;
+  }
+
+  private remember(delivery: OutboundDelivery): void {
+    this.deliveries.delete(delivery.id);
+    this.deliveries.set(delivery.id, delivery);
+    this.idempotencyKeys.set(delivery.idempotencyKey, delivery.id);
+
+    for (const [id, stored] of this.deliveries) {
+      if (this.deliveries.size <= DELIVERY_HISTORY_LIMIT) break;
+      if (stored.status === 'pending') continue;
+      this.deliveries.delete(id);
+      this.idempotencyKeys.delete(stored.idempotencyKey);
+    }
+  }
+
+  /**
+   * Store a new delivery unless another orchestrator instance stored one with
+   * the same idempotency key first; that delivery is returned instead
+   */
+  private async claim(delivery: OutboundDelivery): Promise<OutboundDelivery | null> {
+    if (!supabase) return null;
+
+    try {
+      const { error } = await supabase
+        .from('outbound_deliveries')
+        .insert(this.toRow(delivery) as any);
+
+      if (error?.code === '23505') {
+        const claimed = await this.findByIdempotencyKey(delivery.idempotencyKey);
+        if (!claimed) {
+          throw httpError(`A delivery with idempotency key ${delivery.idempotencyKey} is already queued`, 409);
+        }
+        return claimed;
+      }
+
+      if (error) {
+        console.error('❌ Failed to store outbound delivery in database:', error);
+      }
+    } catch (error: any) {
+      if (error.status) throw error;
+      console.error('❌ Error storing outbound delivery in database:', error);
+    }
+
+    return null;
+  }
+
+  /**
+   * Store a failed delivery as pending again, unless another orchestrator
+   * instance already did; the delivery as it stands then is returned instead
+   */
+  private async reopen(delivery: OutboundDelivery): Promise<OutboundDelivery> {
+    if (!supabase) return delivery;
+
+    try {
+      const { data, error } = await supabase
+        .from('outbound_deliveries')
+        .update(this.toRow(delivery) as any)
+        .eq('id', delivery.id)
+        .eq('status', 'failed')
+        .select('id');
+
+      if (error) {
+        console.error('❌ Failed to store outbound delivery in database:', error);
+      } else if (data && data.length === 0) {
+        const { data: current } = await supabase
+          .from('outbound_deliveries')
+          .select('delivery')
+          .eq('id', delivery.id)
+          .maybeSingle();
+
+        if (current) return (current as any).delivery as OutboundDelivery;
+      }
+    } catch (error) {
+      console.error('❌ Error storing outbound delivery in database:', error);
+    }
+
+    return delivery;
+  }
+
+  private toRow(delivery: OutboundDelivery) {
+    return {
+      id: delivery.id,
+      idempotency_key: delivery.idempotencyKey,
+      execution_id: delivery.executionId || null,
+      flow_id: delivery.flowId || null,
+      node_id: delivery.nodeId || null,
+      requested_by: delivery.requestedBy || null,
+      kind: delivery.kind,
+      destination: delivery.destination,
+      status: delivery.status,
+      attempts: delivery.attempts.length,
+      next_attempt_at: delivery.nextAttemptAt || null,
+      last_error: delivery.lastError || null,
+      delivery,
+      created_at: delivery.createdAt,
+      updated_at: delivery.updatedAt
+    };
+  }
+
+  private async save(delivery: OutboundDelivery): Promise<void> {
+    if (!supabase) return;
+
+    try {
+      const { error } = await supabase
+        .from('outbound_deliveries')
+        .upsert(this.toRow(delivery) as any);
+
+      if (error) {
+        console.error('❌ Failed to store outbound delivery in database:', error);
+      }
+    } catch (error) {
+      console.error('❌ Error storing outbound delivery in database:', error);
+    }
+  }
+}
+
+// Create singleton instance
+const deliveryService = new DeliveryService();
+
+export default deliveryService;
+
+// Types
+export type OutboundDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface OutboundDeliveryRequest {
+  url: string;
+  method?: string;
+  headers?: Record<string, string>;
+  // Objects are sent as JSON, strings as they are
+  payload?: any;
+  kind?: 'webhook' | 'notification';
+  // Requests with the same key are delivered at most once
+  idempotencyKey?: string;
+  // Name of the workflow secret to sign with instead of OUTBOUND_SIGNING_SECRET
+  signingSecret?: string;
+  maxAttempts?: number;
+  executionId?: string;
+  flowId?: string;
+  nodeId?: string;
+  // User who queued it through the API rather than a workflow
+  requestedBy?: string;
+}
+
+export interface OutboundDeliveryFilter {
+  executionId?: string;
+  status?: OutboundDeliveryStatus;
+  // Only deliveries a user queued or that these workflows made
+  visibleTo?: { userId: string; flowIds: string[] };
+  limit?: number;
+}
+
+export interface DeliveryAttempt {
+  attempt: number;
+  startedAt: string;
+  durationMs: number;
+  statusCode?: number;
+  // Start of the response body
+  responseBody?: string;
+  error?: string;
+  // `retry` means another attempt was (or would have been) scheduled
+  outcome: 'delivered' | 'retry' | 'failed';
+}
+
+export interface OutboundDelivery {
+  id: string;
+  idempotencyKey: string;
+  kind: 'webhook' | 'notification';
+  url: string;
+  // Origin of the URL; circuit breakers are kept per destination
+  destination: string;
+  method: string;
+  headers: Record<string, string>;
+  body: string;
+  signingSecret?: string;
+  executionId?: string;
+  flowId?: string;
+  nodeId?: string;
+  requestedBy?: string;
+  status: OutboundDeliveryStatus;
+  maxAttempts: number;
+  attempts: DeliveryAttempt[];
+  lastStatusCode?: number;
+  lastError?: string;
+  nextAttemptAt?: string;
+  deliveredAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CircuitState {
+  destination: string;
+  state: 'closed' | 'open' | 'half_open';
+  consecutiveFailures: number;
+  // One delivery at a time tests a half-open circuit
+  probing: boolean;
+  openUntil?: string;
+  lastFailureAt?: string;
+}
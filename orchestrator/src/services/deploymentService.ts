@@ -1,17 +1,106 @@
 import axios from 'axios';
+import crypto from 'crypto';
 import { v4 as uuid } from 'uuid';
 import { createClient } from '@supabase/supabase-js';
+import eventService from './eventService';
+import { httpError } from '../utils/httpError';
 
 // Environment variables
 const API_BASE_URL = process.env.API_BASE_URL || '';
 const SUPABASE_URL = process.env.SUPABASE_URL || '';
 const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
 
+// Most versions returned when listing a guild's deployment history
+const DEPLOYMENT_VERSION_LIST_LIMIT = 200;
+
+// Row fields that belong to the database rather than to what a deployment restores
+const VOLATILE_FIELDS = ['created_at', 'updated_at', 'guild_id', 'user_id'];
+
+const DEFAULT_AGENT_PERSONALITY = 'Professional, intelligent, and focused on delivering exceptional results';
+
+/**
+ * JSON with object keys sorted, so equal snapshots serialize identically
+ */
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .filter(key => value[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function deepFreeze<T>(value: T): T {
+  if (value !== null && typeof value === 'object' && !Object.isFrozen(value)) {
+    Object.freeze(value);
+    Object.values(value as any).forEach(deepFreeze);
+  }
+  return value;
+}
+
+/**
+ * A database row without the fields that don't belong in a snapshot
+ */
+function snapshotRow(row: Record<string, any>): Record<string, any> {
+  const copy = { ...row };
+  for (const field of VOLATILE_FIELDS) delete copy[field];
+  return copy;
+}
+
+/**
+ * Top-level fields whose values differ between two records
+ */
+function diffFields(before: Record<string, any> = {}, after: Record<string, any> = {}): DeploymentFieldChange[] {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const changes: DeploymentFieldChange[] = [];
+
+  for (const field of fields) {
+    if (VOLATILE_FIELDS.includes(field)) continue;
+    if (canonicalJson(before?.[field]) !== canonicalJson(after?.[field])) {
+      changes.push({ field, before: before?.[field], after: after?.[field] });
+    }
+  }
+  return changes;
+}
+
+function diffCollection(
+  before: Record<string, any>[] = [],
+  after: Record<string, any>[] = [],
+  keyOf: (item: Record<string, any>) => string
+): DeploymentCollectionDiff {
+  const previous = new Map(before.map(item => [keyOf(item), item]));
+  const next = new Map(after.map(item => [keyOf(item), item]));
+  const diff: DeploymentCollectionDiff = { added: [], removed: [], changed: [] };
+
+  for (const [key, item] of next) {
+    const old = previous.get(key);
+    if (!old) {
+      diff.added.push({ key, name: item.name });
+      continue;
+    }
+    const fields = diffFields(old, item);
+    if (fields.length > 0) {
+      diff.changed.push({ key, name: item.name, fields });
+    }
+  }
+  for (const [key, item] of previous) {
+    if (!next.has(key)) diff.removed.push({ key, name: item.name });
+  }
+  return diff;
+}
+
 /**
  * Service for managing deployments
  */
 class DeploymentService {
   private supabase: any;
+  // Without Supabase, deployed guilds and their versions only live in memory
+  private guildStates: Map<string, DeploymentSnapshot> = new Map();
+  private versions: Map<string, DeploymentVersion[]> = new Map();
 
   constructor() {
     // Initialize Supabase client if configured
@@ -25,14 +114,23 @@ class DeploymentService {
   }
 
   /**
-   * Deploy a guild
+   * Deploy a guild. With `options.guildId` the blueprint is redeployed to that
+   * existing guild as its next version; otherwise a new guild is created at
+   * version 1.
    */
   async deployGuild(
     blueprint: any,
     simulationResults: any,
-    credentials: Record<string, string>
+    credentials: Record<string, string>,
+    options: DeployOptions = {}
   ): Promise<DeploymentResult> {
     try {
+      if (options.guildId) {
+        return this.publishDeploymentFinished(
+          await this.redeployGuild(options.guildId, blueprint, simulationResults, credentials, options.deployedBy)
+        );
+      }
+      
       console.log('🚀 Deploying guild from blueprint...');
       
       // Try to use the edge function if available
@@ -55,7 +153,7 @@ class DeploymentService {
           }
           
           console.log('✅ Guild deployed via edge function:', response.data.deployment.id);
-          return {
+          return this.publishDeploymentFinished(await this.recordFirstVersion({
             deploymentId: response.data.deployment.id,
             guild: response.data.deployment.guild,
             agents: response.data.deployment.agents,
@@ -63,7 +161,7 @@ class DeploymentService {
             status: response.data.deployment.status,
             createdAt: response.data.deployment.createdAt,
             details: response.data.deployment.details
-          };
+          }, blueprint, options.deployedBy));
         } catch (error) {
           console.error('❌ Edge function deployment failed:', error);
           console.log('⚠️ Falling back to direct database deployment');
@@ -71,13 +169,46 @@ class DeploymentService {
       }
       
       // Fallback to direct database operations
-      return await this.deployGuildToDB(blueprint, simulationResults, credentials);
+      return this.publishDeploymentFinished(await this.recordFirstVersion(
+        await this.deployGuildToDB(blueprint, simulationResults, credentials),
+        blueprint,
+        options.deployedBy
+      ));
     } catch (error: any) {
       console.error('❌ Deployment failed:', error);
-      throw new Error(`Guild deployment failed: ${error.message}`);
+      
+      eventService.publish('deployment.failed', {
+        blueprintId: blueprint?.id,
+        guildId: options.guildId,
+        error: error.message
+      }, { source: 'deployment', guildId: options.guildId }).catch(publishError =>
+        console.error('❌ Failed to publish deployment event:', publishError)
+      );
+      
+      throw httpError(`Guild deployment failed: ${error.message}`, error.status || 500);
     }
   }
 
+  /**
+   * Announce a finished deployment on the event bus
+   */
+  private publishDeploymentFinished(result: DeploymentResult): DeploymentResult {
+    eventService.publish('deployment.finished', {
+      deploymentId: result.deploymentId,
+      guildId: result.guild?.id,
+      guildName: result.guild?.name,
+      status: result.status,
+      version: result.version,
+      agentCount: result.agents?.length || 0,
+      workflowCount: result.workflows?.length || 0,
+      createdAt: result.createdAt
+    }, { source: 'deployment', guildId: result.guild?.id }).catch(error =>
+      console.error('❌ Failed to publish deployment event:', error)
+    );
+    
+    return result;
+  }
+
   /**
    * Deploy guild directly to database
    */
@@ -96,18 +227,7 @@ class DeploymentService {
       // Create the guild
       const { data: guild, error: guildError } = await this.supabase
         .from('guilds')
-        .insert({
-          name: blueprint.suggested_structure.guild_name,
-          description: blueprint.interpretation,
-          purpose: blueprint.suggested_structure.guild_purpose,
-          status: 'active',
-          metadata: {
-            blueprint_id: blueprint.id,
-            simulation_results: simulationResults,
-            deployment_timestamp: new Date().toISOString(),
-            credentials_configured: Object.keys(credentials).length > 0
-          }
-        })
+        .insert(this.guildFields(blueprint, simulationResults, credentials))
         .select()
         .single();
         
@@ -123,20 +243,14 @@ class DeploymentService {
       
       for (const agentBlueprint of blueprint.suggested_structure.agents) {
         try {
+          const fields = this.agentFields(agentBlueprint);
           const { data: agent, error: agentError } = await this.supabase
             .from('agents')
             .insert({
-              name: agentBlueprint.name,
-              role: agentBlueprint.role,
-              description: agentBlueprint.description,
+              ...fields,
               guild_id: guild.id,
-              personality: 'Professional, intelligent, and focused on delivering exceptional results',
-              instructions: `You are ${agentBlueprint.name}, an AI agent serving as a ${agentBlueprint.role}. Your primary responsibility: ${agentBlueprint.description}`,
-              tools: JSON.stringify(agentBlueprint.tools_needed.map((tool: string) => ({
-                id: tool.toLowerCase().replace(/\s+/g, '_'),
-                name: tool,
-                type: 'api'
-              }))),
+              personality: DEFAULT_AGENT_PERSONALITY,
+              tools: JSON.stringify(fields.tools),
               status: 'active'
             })
             .select()
@@ -193,30 +307,7 @@ class DeploymentService {
         }
       }
       
-      // Store credentials if provided
-      if (Object.keys(credentials).length > 0) {
-        for (const [key, value] of Object.entries(credentials)) {
-          if (!value) continue;
-          
-          try {
-            const { error: credentialError } = await this.supabase
-              .from('credentials')
-              .insert({
-                guild_id: guild.id,
-                service_name: key.split('_')[0],
-                credential_type: key,
-                encrypted_value: value, // Note: In production, this should be encrypted
-                is_active: true
-              });
-              
-            if (credentialError) {
-              console.warn(`⚠️ Failed to store credential ${key}:`, credentialError);
-            }
-          } catch (error) {
-            console.warn(`⚠️ Error storing credential ${key}:`, error);
-          }
-        }
-      }
+      await this.storeCredentials(guild.id, credentials);
       
       return {
         deploymentId: guild.id,
@@ -238,6 +329,549 @@ class DeploymentService {
     }
   }
 
+  /**
+   * Store the credentials a guild was deployed with
+   */
+  private async storeCredentials(guildId: string, credentials: Record<string, string>): Promise<void> {
+    if (!this.supabase) return;
+    
+    for (const [key, value] of Object.entries(credentials)) {
+      if (!value) continue;
+      
+      try {
+        const { error: credentialError } = await this.supabase
+          .from('credentials')
+          .insert({
+            guild_id: guildId,
+            service_name: key.split('_')[0],
+            credential_type: key,
+            encrypted_value: value, // Note: In production, this should be encrypted
+            is_active: true
+          });
+          
+        if (credentialError) {
+          console.warn(`⚠️ Failed to store credential ${key}:`, credentialError);
+        }
+      } catch (error) {
+        console.warn(`⚠️ Error storing credential ${key}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Guild settings described by a blueprint
+   */
+  private guildFields(blueprint: any, simulationResults: any, credentials: Record<string, string>) {
+    return {
+      name: blueprint.suggested_structure.guild_name,
+      description: blueprint.interpretation,
+      purpose: blueprint.suggested_structure.guild_purpose,
+      status: 'active',
+      metadata: {
+        blueprint_id: blueprint.id,
+        simulation_results: simulationResults,
+        deployment_timestamp: new Date().toISOString(),
+        credentials_configured: Object.keys(credentials).length > 0
+      }
+    };
+  }
+
+  /**
+   * Agent settings described by one of a blueprint's agents
+   */
+  private agentFields(agentBlueprint: any) {
+    return {
+      name: agentBlueprint.name,
+      role: agentBlueprint.role,
+      description: agentBlueprint.description,
+      instructions: `You are ${agentBlueprint.name}, an AI agent serving as a ${agentBlueprint.role}. Your primary responsibility: ${agentBlueprint.description}`,
+      tools: (agentBlueprint.tools_needed || []).map((tool: string) => ({
+        id: tool.toLowerCase().replace(/\s+/g, '_'),
+        name: tool,
+        type: 'api'
+      }))
+    };
+  }
+
+  /**
+   * Record a newly created guild as version 1. A deployment that can't be
+   * versioned still succeeded, so failures are only logged.
+   */
+  private async recordFirstVersion(
+    result: DeploymentResult,
+    blueprint: any,
+    deployedBy?: DeploymentActor
+  ): Promise<DeploymentResult> {
+    const guildId = result.guild?.id;
+    if (!guildId) return result;
+    
+    try {
+      const meta = { deploymentId: result.deploymentId, source: 'deploy' as const, deployedBy };
+      
+      if (!this.supabase) {
+        this.guildStates.set(guildId, deepFreeze(JSON.parse(JSON.stringify({
+          guild: this.snapshotGuild(result.guild),
+          blueprint: blueprint || null,
+          agents: (result.agents || []).map(snapshotRow),
+          workflows: (result.workflows || []).map(snapshotRow),
+          channels: []
+        }))));
+      }
+      
+      const snapshot = await this.captureSnapshot(guildId, blueprint);
+      const version = this.buildVersion(guildId, 1, snapshot, meta);
+      
+      if (this.supabase) {
+        const { error } = await this.supabase
+          .from('guild_deployment_versions')
+          .insert(this.toVersionRow(version));
+          
+        if (error) {
+          throw new Error(error.message);
+        }
+      } else {
+        this.versions.set(guildId, [version]);
+      }
+      
+      console.log(`🏷️ Recorded version 1 of guild ${guildId}`);
+      return { ...result, version: 1 };
+    } catch (error: any) {
+      console.warn(`⚠️ Failed to record deployment version of guild ${guildId}:`, error.message);
+      return result;
+    }
+  }
+
+  /**
+   * Deploy a blueprint to an existing guild as its next version. Agents and
+   * workflows are matched to the guild's current ones by name and keep their
+   * ids; ones the blueprint no longer has are removed.
+   */
+  private async redeployGuild(
+    guildId: string,
+    blueprint: any,
+    simulationResults: any,
+    credentials: Record<string, string>,
+    deployedBy?: DeploymentActor
+  ): Promise<DeploymentResult> {
+    if (!blueprint?.suggested_structure) {
+      throw httpError('Blueprint has no suggested structure');
+    }
+    
+    console.log(`🚀 Redeploying guild ${guildId} from blueprint...`);
+    
+    const current = await this.captureSnapshot(guildId);
+    let latest = await this.latestVersion(guildId);
+    
+    // Guilds deployed before versioning get their current state as version 1,
+    // so the redeploy can be rolled back
+    if (!latest) {
+      latest = await this.applySnapshot(guildId, current, { deploymentId: guildId, source: 'deploy', expectedVersion: 0 });
+    }
+    
+    const existingAgents = new Map(current.agents.map(agent => [agent.name, agent]));
+    const existingWorkflows = new Map(current.workflows.map(workflow => [workflow.name, workflow]));
+    
+    const agents = (blueprint.suggested_structure.agents || []).map((agentBlueprint: any) => {
+      const existing = existingAgents.get(agentBlueprint.name);
+      return {
+        ...existing,
+        ...this.agentFields(agentBlueprint),
+        id: existing?.id || uuid(),
+        personality: existing?.personality || DEFAULT_AGENT_PERSONALITY,
+        status: existing?.status || 'active'
+      };
+    });
+    
+    const workflows = (blueprint.suggested_structure.workflows || []).map((workflowBlueprint: any) => {
+      const existing = existingWorkflows.get(workflowBlueprint.name);
+      return {
+        ...existing,
+        id: existing?.id || uuid(),
+        name: workflowBlueprint.name,
+        description: workflowBlueprint.description,
+        trigger: {
+          type: workflowBlueprint.trigger_type,
+          config: existing?.trigger?.config || {}
+        },
+        status: existing?.status || 'active'
+      };
+    });
+    
+    const fields = this.guildFields(blueprint, simulationResults, credentials);
+    const snapshot: DeploymentSnapshot = {
+      guild: { ...current.guild, ...fields, metadata: { ...current.guild.metadata, ...fields.metadata } },
+      blueprint,
+      agents,
+      workflows,
+      channels: current.channels
+    };
+    
+    const version = await this.applySnapshot(guildId, snapshot, {
+      deploymentId: uuid(),
+      source: 'deploy',
+      deployedBy,
+      expectedVersion: latest.version
+    });
+    
+    await this.storeCredentials(guildId, credentials);
+    
+    console.log(`✅ Guild ${guildId} redeployed as version ${version.version}`);
+    
+    return {
+      deploymentId: version.deploymentId,
+      guild: version.snapshot.guild,
+      agents: version.snapshot.agents,
+      workflows: version.snapshot.workflows,
+      status: 'deployed',
+      createdAt: version.createdAt,
+      version: version.version,
+      details: {
+        agentsCreated: agents.filter((agent: any) => !current.agents.some(old => old.id === agent.id)).length,
+        workflowsCreated: workflows.filter((workflow: any) => !current.workflows.some(old => old.id === workflow.id)).length,
+        failedAgents: 0,
+        failedWorkflows: 0
+      }
+    };
+  }
+
+  /**
+   * A guild's deployment history, newest first, without the snapshots
+   */
+  async listVersions(guildId: string, limit: number = 50): Promise<DeploymentVersionSummary[]> {
+    const versions = await this.loadVersions(guildId, Math.min(Math.max(limit, 1), DEPLOYMENT_VERSION_LIST_LIMIT));
+    const current = versions[0]?.version;
+    
+    return versions.map(version => this.summarizeVersion(version, current));
+  }
+
+  /**
+   * One version of a guild, including its snapshot
+   */
+  async getVersion(guildId: string, versionNumber: number): Promise<DeploymentVersion> {
+    if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+      throw httpError(`Invalid deployment version: ${versionNumber}`);
+    }
+    
+    if (!this.supabase) {
+      const version = this.versions.get(guildId)?.find(item => item.version === versionNumber);
+      if (!version) {
+        throw httpError(`Version ${versionNumber} of guild ${guildId} not found`, 404);
+      }
+      return version;
+    }
+    
+    const { data, error } = await this.supabase
+      .from('guild_deployment_versions')
+      .select('*')
+      .eq('guild_id', guildId)
+      .eq('version', versionNumber)
+      .maybeSingle();
+      
+    if (error) {
+      throw new Error(`Failed to load version ${versionNumber} of guild ${guildId}: ${error.message}`);
+    }
+    if (!data) {
+      throw httpError(`Version ${versionNumber} of guild ${guildId} not found`, 404);
+    }
+    
+    return this.fromVersionRow(data);
+  }
+
+  /**
+   * What changed between two versions of a guild. Defaults to the current
+   * version and the one before it.
+   */
+  async diffVersions(guildId: string, from?: number, to?: number): Promise<DeploymentDiff> {
+    if (to === undefined) {
+      const latest = await this.latestVersion(guildId);
+      if (!latest) {
+        throw httpError(`Guild ${guildId} has no deployment versions`, 404);
+      }
+      to = latest.version;
+    }
+    if (from === undefined) {
+      from = to - 1;
+      if (from < 1) {
+        throw httpError(`Version ${to} of guild ${guildId} has no earlier version to compare with`, 409);
+      }
+    }
+    
+    const [before, after] = await Promise.all([this.getVersion(guildId, from), this.getVersion(guildId, to)]);
+    const channelKey = (channel: Record<string, any>) => `${channel.type}:${channel.name}`;
+    
+    const diff: DeploymentDiff = {
+      guildId,
+      from: before.version,
+      to: after.version,
+      changed: before.checksum !== after.checksum,
+      guild: diffFields(before.snapshot.guild, after.snapshot.guild),
+      blueprint: diffFields(before.snapshot.blueprint || {}, after.snapshot.blueprint || {}),
+      agents: diffCollection(before.snapshot.agents, after.snapshot.agents, agent => agent.id),
+      workflows: diffCollection(before.snapshot.workflows, after.snapshot.workflows, workflow => workflow.id),
+      channels: diffCollection(before.snapshot.channels, after.snapshot.channels, channelKey)
+    };
+    
+    return diff;
+  }
+
+  /**
+   * Restore an earlier version of a guild, by default the one before the
+   * current version. The restored state is recorded as a new version; the
+   * guild and the history are updated together or not at all.
+   */
+  async rollbackGuild(
+    guildId: string,
+    options: { version?: number; deployedBy?: DeploymentActor } = {}
+  ): Promise<DeploymentRollback> {
+    const current = await this.latestVersion(guildId);
+    if (!current) {
+      throw httpError(`Guild ${guildId} has no deployment versions`, 404);
+    }
+    
+    const targetNumber = options.version ?? current.version - 1;
+    if (targetNumber < 1) {
+      throw httpError(`Guild ${guildId} has no earlier version to roll back to`, 409);
+    }
+    if (targetNumber === current.version) {
+      throw httpError(`Version ${targetNumber} is already the current version of guild ${guildId}`, 409);
+    }
+    
+    const target = await this.getVersion(guildId, targetNumber);
+    
+    console.log(`⏪ Rolling guild ${guildId} back from version ${current.version} to version ${target.version}`);
+    
+    const version = await this.applySnapshot(guildId, target.snapshot, {
+      deploymentId: uuid(),
+      source: 'rollback',
+      restoredFrom: target.version,
+      deployedBy: options.deployedBy,
+      expectedVersion: current.version
+    });
+    
+    eventService.publish('deployment.rolled_back', {
+      guildId,
+      version: version.version,
+      restoredFrom: target.version,
+      previousVersion: current.version,
+      deployedBy: version.deployedBy?.id
+    }, { source: 'deployment', guildId }).catch(error =>
+      console.error('❌ Failed to publish deployment event:', error)
+    );
+    
+    return {
+      guildId,
+      version: this.summarizeVersion(version, version.version),
+      restoredFrom: target.version,
+      previousVersion: current.version
+    };
+  }
+
+  /**
+   * The current state of a guild. Without a blueprint, the one of its latest
+   * version is kept.
+   */
+  private async captureSnapshot(guildId: string, blueprint?: any): Promise<DeploymentSnapshot> {
+    if (!this.supabase) {
+      const state = this.guildStates.get(guildId);
+      if (!state) {
+        throw httpError(`Guild ${guildId} not found`, 404);
+      }
+      return blueprint === undefined ? state : { ...state, blueprint };
+    }
+    
+    const { data: guild, error: guildError } = await this.supabase
+      .from('guilds')
+      .select('*')
+      .eq('id', guildId)
+      .maybeSingle();
+      
+    if (guildError) {
+      throw new Error(`Failed to load guild ${guildId}: ${guildError.message}`);
+    }
+    if (!guild) {
+      throw httpError(`Guild ${guildId} not found`, 404);
+    }
+    
+    const [agents, workflows, channels] = await Promise.all(
+      ['agents', 'workflows', 'guild_channels'].map(async (table): Promise<Record<string, any>[]> => {
+        const { data, error } = await this.supabase
+          .from(table)
+          .select('*')
+          .eq('guild_id', guildId)
+          .order('created_at', { ascending: true });
+          
+        if (error) {
+          throw new Error(`Failed to load ${table} of guild ${guildId}: ${error.message}`);
+        }
+        return (data || []).map(snapshotRow);
+      })
+    );
+    
+    return {
+      guild: this.snapshotGuild(guild),
+      blueprint: blueprint === undefined ? (await this.latestVersion(guildId))?.snapshot.blueprint ?? null : blueprint,
+      agents,
+      workflows,
+      channels: channels.map(channel => ({
+        type: channel.type,
+        name: channel.name,
+        config: channel.config,
+        status: channel.status,
+        url: channel.url
+      }))
+    };
+  }
+
+  /**
+   * Replace a guild's state with a snapshot and record it as the version after
+   * `expectedVersion`, atomically. Fails with 409 if another deployment of the
+   * guild got there first.
+   */
+  private async applySnapshot(
+    guildId: string,
+    snapshot: DeploymentSnapshot,
+    meta: DeploymentVersionMeta & { expectedVersion: number }
+  ): Promise<DeploymentVersion> {
+    const concurrent = () => httpError(`Guild ${guildId} was deployed concurrently; reload its versions and try again`, 409);
+    const version = this.buildVersion(guildId, meta.expectedVersion + 1, snapshot, meta);
+    
+    if (!this.supabase) {
+      if (!this.guildStates.has(guildId)) {
+        throw httpError(`Guild ${guildId} not found`, 404);
+      }
+      const versions = this.versions.get(guildId) || [];
+      if ((versions[versions.length - 1]?.version || 0) !== meta.expectedVersion) {
+        throw concurrent();
+      }
+      this.guildStates.set(guildId, version.snapshot);
+      this.versions.set(guildId, [...versions, version]);
+      return version;
+    }
+    
+    const { data, error } = await this.supabase.rpc('apply_guild_deployment', {
+      p_guild_id: guildId,
+      p_snapshot: version.snapshot,
+      p_version: { ...this.toVersionRow(version), expected_version: meta.expectedVersion }
+    });
+    
+    if (error) {
+      if (error.code === 'P0002') {
+        throw httpError(`Guild ${guildId} not found`, 404);
+      }
+      if (error.code === '40001' || error.code === '23505') {
+        throw concurrent();
+      }
+      throw new Error(`Failed to deploy version ${version.version} of guild ${guildId}: ${error.message}`);
+    }
+    
+    return this.fromVersionRow(Array.isArray(data) ? data[0] : data);
+  }
+
+  /**
+   * Versions of a guild, newest first
+   */
+  private async loadVersions(guildId: string, limit: number): Promise<DeploymentVersion[]> {
+    if (!this.supabase) {
+      return [...(this.versions.get(guildId) || [])].reverse().slice(0, limit);
+    }
+    
+    const { data, error } = await this.supabase
+      .from('guild_deployment_versions')
+      .select('*')
+      .eq('guild_id', guildId)
+      .order('version', { ascending: false })
+      .limit(limit);
+      
+    if (error) {
+      throw new Error(`Failed to load deployment versions of guild ${guildId}: ${error.message}`);
+    }
+    
+    return (data || []).map((row: any) => this.fromVersionRow(row));
+  }
+
+  private async latestVersion(guildId: string): Promise<DeploymentVersion | null> {
+    return (await this.loadVersions(guildId, 1))[0] || null;
+  }
+
+  private snapshotGuild(guild: Record<string, any>): Record<string, any> {
+    return {
+      id: guild.id,
+      name: guild.name,
+      description: guild.description,
+      purpose: guild.purpose,
+      status: guild.status,
+      metadata: guild.metadata || {}
+    };
+  }
+
+  private buildVersion(
+    guildId: string,
+    versionNumber: number,
+    snapshot: DeploymentSnapshot,
+    meta: DeploymentVersionMeta
+  ): DeploymentVersion {
+    // Snapshots are copied and frozen so later changes can't reach them
+    const frozen: DeploymentSnapshot = deepFreeze(JSON.parse(JSON.stringify(snapshot)));
+    
+    return deepFreeze({
+      id: uuid(),
+      guildId,
+      version: versionNumber,
+      deploymentId: meta.deploymentId,
+      source: meta.source,
+      restoredFrom: meta.restoredFrom,
+      checksum: crypto.createHash('sha256').update(canonicalJson(frozen)).digest('hex'),
+      deployedBy: meta.deployedBy ? { id: meta.deployedBy.id, email: meta.deployedBy.email } : null,
+      createdAt: new Date().toISOString(),
+      snapshot: frozen
+    });
+  }
+
+  private summarizeVersion(version: DeploymentVersion, currentVersion?: number): DeploymentVersionSummary {
+    const { snapshot, ...summary } = version;
+    
+    return {
+      ...summary,
+      current: version.version === currentVersion,
+      counts: {
+        agents: snapshot.agents.length,
+        workflows: snapshot.workflows.length,
+        channels: snapshot.channels.length
+      }
+    };
+  }
+
+  private toVersionRow(version: DeploymentVersion): Record<string, any> {
+    return {
+      id: version.id,
+      guild_id: version.guildId,
+      version: version.version,
+      deployment_id: version.deploymentId,
+      source: version.source,
+      restored_from: version.restoredFrom ?? null,
+      checksum: version.checksum,
+      snapshot: version.snapshot,
+      deployed_by: version.deployedBy?.id ?? null,
+      deployed_by_email: version.deployedBy?.email ?? null,
+      created_at: version.createdAt
+    };
+  }
+
+  private fromVersionRow(row: any): DeploymentVersion {
+    return deepFreeze({
+      id: row.id,
+      guildId: row.guild_id,
+      version: row.version,
+      deploymentId: row.deployment_id,
+      source: row.source,
+      restoredFrom: row.restored_from ?? undefined,
+      checksum: row.checksum,
+      deployedBy: row.deployed_by ? { id: row.deployed_by, email: row.deployed_by_email ?? undefined } : null,
+      createdAt: row.created_at,
+      snapshot: row.snapshot
+    });
+  }
+
   /**
    * Get deployment status
    */
@@ -552,6 +1186,8 @@ export interface DeploymentResult {
   workflows: any[];
   status: string;
   createdAt: string;
+  // Deployment version of the guild, when it could be recorded
+  version?: number;
   details: {
     agentsCreated: number;
     workflowsCreated: number;
@@ -596,4 +1232,90 @@ export interface MultiChannelDeploymentResult {
   })[];
   status: string;
   createdAt: string;
-}
\ No newline at end of file
+}
+
+export interface DeploymentActor {
+  id: string;
+  email?: string;
+}
+
+export interface DeployOptions {
+  // Redeploy to this existing guild instead of creating a new one
+  guildId?: string;
+  deployedBy?: DeploymentActor;
+}
+
+/**
+ * Everything a deployment version restores
+ */
+export interface DeploymentSnapshot {
+  guild: Record<string, any>;
+  blueprint: any;
+  agents: Record<string, any>[];
+  workflows: Record<string, any>[];
+  channels: Record<string, any>[];
+}
+
+interface DeploymentVersionMeta {
+  deploymentId: string;
+  source: 'deploy' | 'rollback';
+  restoredFrom?: number;
+  deployedBy?: DeploymentActor;
+}
+
+export interface DeploymentVersion {
+  id: string;
+  guildId: string;
+  // Numbered from 1 per guild; the highest is the current version
+  version: number;
+  deploymentId: string;
+  source: 'deploy' | 'rollback';
+  // For rollbacks, the version whose snapshot was restored
+  restoredFrom?: number;
+  // sha256 of the snapshot; equal checksums mean identical deployments
+  checksum: string;
+  deployedBy: DeploymentActor | null;
+  createdAt: string;
+  snapshot: DeploymentSnapshot;
+}
+
+export interface DeploymentVersionSummary extends Omit<DeploymentVersion, 'snapshot'> {
+  current: boolean;
+  counts: {
+    agents: number;
+    workflows: number;
+    channels: number;
+  };
+}
+
+export interface DeploymentFieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+export interface DeploymentCollectionDiff {
+  added: { key: string; name?: string }[];
+  removed: { key: string; name?: string }[];
+  changed: { key: string; name?: string; fields: DeploymentFieldChange[] }[];
+}
+
+export interface DeploymentDiff {
+  guildId: string;
+  from: number;
+  to: number;
+  changed: boolean;
+  guild: DeploymentFieldChange[];
+  blueprint: DeploymentFieldChange[];
+  agents: DeploymentCollectionDiff;
+  workflows: DeploymentCollectionDiff;
+  channels: DeploymentCollectionDiff;
+}
+
+export interface DeploymentRollback {
+  guildId: string;
+  // The new version holding the restored state
+  version: DeploymentVersionSummary;
+  restoredFrom: number;
+  previousVersion: number;
+}
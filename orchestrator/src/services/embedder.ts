@@ -0,0 +1,255 @@
+import axios from 'axios';
+import OpenAI from 'openai';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+const MEMORY_EMBEDDER = (process.env.MEMORY_EMBEDDER || 'auto').toLowerCase();
+const MEMORY_EMBEDDING_MODEL = process.env.MEMORY_EMBEDDING_MODEL || '';
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY || '';
+const GEMINI_API_KEY = process.env.GEMINI_API_KEY || '';
+
+const LOCAL_EMBEDDING_DIMENSIONS = 512;
+
+// Remote providers accept batches up to roughly this size
+const MAX_BATCH_SIZE = 96;
+
+/**
+ * Turns text into vectors. Vectors from different embedders (or models) are
+ * not comparable, so each embedder has an `id` stored alongside its vectors.
+ */
+export interface Embedder {
+  readonly id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Words too common to say anything about a memory
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'did', 'do', 'does', 'for', 'from',
+  'had', 'has', 'have', 'he', 'her', 'his', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my',
+  'of', 'on', 'or', 'our', 'she', 'so', 'that', 'the', 'their', 'them', 'they', 'this', 'to', 'us',
+  'was', 'we', 'were', 'what', 'when', 'which', 'who', 'will', 'with', 'would', 'you', 'your'
+]);
+
+// Multi-word expressions folded into a single word before tokenizing
+const PHRASES: Array<[RegExp, string]> = [
+  [/\bmoney back\b/g, 'refund'],
+  [/\bcharged twice\b/g, 'overcharge'],
+  [/\bsign(?:ed)? in\b/g, 'login'],
+  [/\blog(?:ged)? in\b/g, 'login'],
+  [/\bcall back\b/g, 'callback']
+];
+
+/**
+ * Groups of words that mean roughly the same thing in agent conversations.
+ * Each group adds a shared feature, so "refund complaint" and "unhappy,
+ * wants their money back" land near each other without sharing a word.
+ */
+const CONCEPT_GROUPS: string[][] = [
+  ['refund', 'reimburse', 'reimbursement', 'chargeback', 'repay', 'compensation', 'compensate', 'return'],
+  ['complaint', 'complain', 'unhappy', 'dissatisfied', 'angry', 'frustrated', 'upset', 'disappointed', 'annoyed', 'grievance', 'escalate', 'escalation'],
+  ['problem', 'issue', 'bug', 'error', 'broken', 'fail', 'failure', 'crash', 'defect', 'glitch', 'outage', 'fault'],
+  ['cancel', 'cancellation', 'terminate', 'unsubscribe', 'churn', 'quit', 'stop'],
+  ['order', 'purchase', 'buy', 'bought', 'checkout', 'transaction', 'item', 'product'],
+  ['payment', 'pay', 'paid', 'billing', 'bill', 'invoice', 'charge', 'overcharge', 'fee', 'price', 'cost', 'subscription'],
+  ['delivery', 'deliver', 'shipping', 'ship', 'shipment', 'package', 'parcel', 'courier', 'tracking', 'arrive'],
+  ['customer', 'client', 'user', 'buyer', 'shopper', 'consumer'],
+  ['meeting', 'call', 'callback', 'appointment', 'schedule', 'calendar', 'demo', 'session'],
+  ['urgent', 'asap', 'immediately', 'critical', 'emergency', 'priority', 'deadline'],
+  ['account', 'login', 'password', 'credential', 'profile', 'username', 'locked'],
+  ['happy', 'satisfied', 'great', 'excellent', 'love', 'pleased', 'delighted', 'thanks', 'thank'],
+  ['help', 'support', 'assist', 'assistance', 'question', 'inquiry', 'ask', 'request'],
+  ['lead', 'prospect', 'opportunity', 'deal', 'pipeline', 'signup'],
+  ['email', 'mail', 'message', 'inbox', 'newsletter', 'notification']
+];
+
+const SUFFIXES = ['ations', 'ation', 'ments', 'ment', 'ness', 'ings', 'ing', 'ied', 'ies', 'ed', 'ly', 'es', 's'];
+
+/**
+ * Crude suffix stripping so "refunded", "refunds" and "refunding" share a stem
+ */
+function stem(word: string): string {
+  for (const suffix of SUFFIXES) {
+    if (word.length - suffix.length >= 3 && word.endsWith(suffix)) {
+      const base = word.slice(0, -suffix.length);
+      return suffix === 'ied' || suffix === 'ies' ? `${base}y` : base;
+    }
+  }
+  return word;
+}
+
+function tokenize(text: string): string[] {
+  let normalized = text.toLowerCase();
+  PHRASES.forEach(([pattern, replacement]) => {
+    normalized = normalized.replace(pattern, replacement);
+  });
+
+  return normalized
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length >= 2 && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+// Stem -> concept group index
+const CONCEPT_INDEX: Map<string, number> = new Map();
+CONCEPT_GROUPS.forEach((group, index) => {
+  group.forEach(word => tokenize(word).forEach(token => CONCEPT_INDEX.set(token, index)));
+});
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function hash(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+export function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((total, value) => total + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
+
+/**
+ * Deterministic embedder that runs in-process: hashed word, concept and
+ * character trigram features. No network access, so it is what tests use
+ * and what remote embedders fall back to.
+ */
+export class LocalEmbedder implements Embedder {
+  readonly id = `local:${LOCAL_EMBEDDING_DIMENSIONS}`;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  embedOne(text: string): number[] {
+    const vector = new Array(LOCAL_EMBEDDING_DIMENSIONS).fill(0);
+    const add = (feature: string, weight: number) => {
+      const h = hash(feature);
+      // The sign bit keeps colliding features from always adding up
+      vector[h % LOCAL_EMBEDDING_DIMENSIONS] += (h & 0x80000000 ? -1 : 1) * weight;
+    };
+
+    const tokens = tokenize(text || '');
+
+    tokens.forEach((token, index) => {
+      add(`w:${token}`, 1);
+
+      const concept = CONCEPT_INDEX.get(token);
+      if (concept !== undefined) add(`c:${concept}`, 1.5);
+
+      // Trigrams catch spelling variants the stemmer misses
+      const padded = `#${token}#`;
+      const trigramCount = Math.max(1, padded.length - 2);
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`t:${padded.slice(i, i + 3)}`, 0.5 / trigramCount);
+      }
+
+      if (index > 0) add(`b:${tokens[index - 1]}_${token}`, 0.5);
+    });
+
+    return normalizeVector(vector);
+  }
+}
+
+/**
+ * OpenAI embeddings API (text-embedding-3-small by default)
+ */
+export class OpenAIEmbedder implements Embedder {
+  readonly id: string;
+  private client: OpenAI;
+
+  constructor(apiKey: string, private model: string = 'text-embedding-3-small') {
+    this.client = new OpenAI({ apiKey });
+    this.id = `openai:${model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+
+    for (let start = 0; start < texts.length; start += MAX_BATCH_SIZE) {
+      const batch = texts.slice(start, start + MAX_BATCH_SIZE).map(text => text || ' ');
+      const response = await this.client.embeddings.create({ model: this.model, input: batch });
+      response.data
+        .sort((a, b) => a.index - b.index)
+        .forEach(item => vectors.push(normalizeVector(item.embedding)));
+    }
+
+    return vectors;
+  }
+}
+
+/**
+ * Gemini embeddings API (text-embedding-004 by default)
+ */
+export class GeminiEmbedder implements Embedder {
+  readonly id: string;
+
+  constructor(private apiKey: string, private model: string = 'text-embedding-004') {
+    this.id = `gemini:${model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+
+    for (let start = 0; start < texts.length; start += MAX_BATCH_SIZE) {
+      const batch = texts.slice(start, start + MAX_BATCH_SIZE);
+      const response = await axios.post(
+        `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:batchEmbedContents`,
+        {
+          requests: batch.map(text => ({
+            model: `models/${this.model}`,
+            content: { parts: [{ text: text || ' ' }] }
+          }))
+        },
+        { params: { key: this.apiKey }, timeout: 30000 }
+      );
+
+      (response.data.embeddings || []).forEach((embedding: { values: number[] }) =>
+        vectors.push(normalizeVector(embedding.values))
+      );
+    }
+
+    if (vectors.length !== texts.length) {
+      throw new Error(`Gemini returned ${vectors.length} embeddings for ${texts.length} texts`);
+    }
+
+    return vectors;
+  }
+}
+
+function isConfigured(key: string): boolean {
+  return Boolean(key) && !key.includes('your_');
+}
+
+/**
+ * Pick the embedder from MEMORY_EMBEDDER (auto | local | openai | gemini).
+ * `auto` uses the first provider with an API key and the local embedder otherwise.
+ */
+export function createEmbedder(): Embedder {
+  const model = MEMORY_EMBEDDING_MODEL || undefined;
+  const useOpenAI = MEMORY_EMBEDDER === 'openai' || (MEMORY_EMBEDDER === 'auto' && isConfigured(OPENAI_API_KEY));
+  const useGemini = MEMORY_EMBEDDER === 'gemini' || (MEMORY_EMBEDDER === 'auto' && isConfigured(GEMINI_API_KEY));
+
+  if (useOpenAI) {
+    if (isConfigured(OPENAI_API_KEY)) {
+      console.log(`🧭 Memory embeddings via OpenAI (${model || 'text-embedding-3-small'})`);
+      return new OpenAIEmbedder(OPENAI_API_KEY, model);
+    }
+    console.warn('⚠️ OPENAI_API_KEY not set for memory embeddings - using local embedder');
+  } else if (useGemini) {
+    if (isConfigured(GEMINI_API_KEY)) {
+      console.log(`🧭 Memory embeddings via Gemini (${model || 'text-embedding-004'})`);
+      return new GeminiEmbedder(GEMINI_API_KEY, model);
+    }
+    console.warn('⚠️ GEMINI_API_KEY not set for memory embeddings - using local embedder');
+  } else {
+    console.log('🧭 Memory embeddings via local embedder');
+  }
+
+  return new LocalEmbedder();
+}
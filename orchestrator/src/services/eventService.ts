@@ -0,0 +1,859 @@
+import { createClient } from '@supabase/supabase-js';
+import { v4 as uuidv4 } from 'uuid';
+import dotenv from 'dotenv';
+import workflowService from './workflowService';
+import approvalService from './approvalService';
+import expressionService from './expressionService';
+import timerService from './timerService';
+import authService from './authService';
+import { WorkflowNode, WorkflowEdge, ExecutionContext } from '../types/workflow';
+import { httpError } from '../utils/httpError';
+
+// Load environment variables
+dotenv.config();
+
+// Initialize Supabase
+const supabaseUrl = process.env.SUPABASE_URL as string;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY as string;
+let supabase: ReturnType<typeof createClient> | undefined;
+
+if (supabaseUrl && supabaseKey && !supabaseUrl.includes('your_') && !supabaseKey.includes('your_')) {
+  supabase = createClient(supabaseUrl, supabaseKey);
+  console.log('✅ Event service initialized with Supabase database');
+} else {
+  console.log('⚠️ Event service initialized without database persistence');
+}
+
+// Delivery attempts per subscriber before an event is dead-lettered
+const EVENT_DELIVERY_MAX_ATTEMPTS = parseInt(process.env.EVENT_DELIVERY_MAX_ATTEMPTS || '5');
+
+// Redelivery backoff: doubles from the base delay up to the cap
+const DELIVERY_RETRY_BASE_MS = 1000;
+const DELIVERY_RETRY_MAX_MS = 5 * 60 * 1000;
+
+// Events caused by workflows started from events stop cascading past this depth
+const MAX_EVENT_CHAIN_DEPTH = parseInt(process.env.EVENT_MAX_CHAIN_DEPTH || '8');
+
+// Recent events and deliveries kept in memory
+const EVENT_HISTORY_LIMIT = 500;
+const DELIVERY_HISTORY_LIMIT = 1000;
+
+const TOPIC_SEGMENT = /^[A-Za-z0-9_\-:]+$/;
+
+// Topics the orchestrator publishes itself; API callers other than admins can't
+const RESERVED_TOPIC_PREFIXES = ['workflow', 'deployment', 'approval', 'webhook'];
+
+/**
+ * Whether a topic is one of the orchestrator's own lifecycle events
+ */
+export function isReservedTopic(topic: string): boolean {
+  return typeof topic === 'string' && RESERVED_TOPIC_PREFIXES.includes(topic.split('.')[0]);
+}
+
+/**
+ * Check a topic or subscription pattern. Topics are dot-separated segments;
+ * patterns may also use `*` (exactly one segment) and `#` (any number of segments).
+ */
+function validateTopic(topic: string, allowWildcards: boolean): void {
+  if (typeof topic !== 'string' || topic.length === 0 || topic.length > 255) {
+    throw httpError('Event topic is required');
+  }
+
+  for (const segment of topic.split('.')) {
+    const wildcard = segment === '*' || segment === '#';
+
+    if (wildcard && !allowWildcards) {
+      throw httpError(`Invalid event topic "${topic}": wildcards are only allowed in subscriptions`);
+    }
+
+    if (!wildcard && !TOPIC_SEGMENT.test(segment)) {
+      throw httpError(`Invalid event topic "${topic}"`);
+    }
+  }
+}
+
+/**
+ * Match a topic against a subscription pattern
+ */
+function topicMatches(pattern: string, topic: string): boolean {
+  const patternParts = pattern.split('.');
+  const topicParts = topic.split('.');
+
+  const match = (i: number, j: number): boolean => {
+    if (i === patternParts.length) return j === topicParts.length;
+
+    if (patternParts[i] === '#') {
+      return match(i + 1, j) || (j < topicParts.length && match(i, j + 1));
+    }
+
+    if (j === topicParts.length) return false;
+
+    return (patternParts[i] === '*' || patternParts[i] === topicParts[j]) && match(i + 1, j + 1);
+  };
+
+  return match(0, 0);
+}
+
+/**
+ * Read a dot path from a payload without walking into the prototype chain
+ */
+function readPath(value: any, path: string): any {
+  return path.split('.').reduce((current, key) => {
+    if (current === null || current === undefined || typeof current !== 'object') return undefined;
+    return Object.prototype.hasOwnProperty.call(current, key) ? current[key] : undefined;
+  }, value);
+}
+
+/**
+ * Check a payload against a filter: every path must equal its expected value,
+ * match one of the values of an array, or match a nested filter object
+ */
+function payloadMatches(filter: Record<string, any>, payload: any): boolean {
+  return Object.entries(filter).every(([path, expected]) => {
+    const actual = readPath(payload, path);
+
+    if (Array.isArray(expected)) {
+      return expected.some(value => value === actual);
+    }
+
+    if (expected !== null && typeof expected === 'object') {
+      return actual !== null && typeof actual === 'object' && payloadMatches(expected, actual);
+    }
+
+    return actual === expected;
+  });
+}
+
+/**
+ * Orchestrator event bus: publish/subscribe with topic wildcards, payload
+ * filters and at-least-once delivery. Every matching subscriber gets its own
+ * delivery record, which is retried with backoff until it succeeds or is
+ * dead-lettered. Workflow subscriptions are persisted so their pending
+ * deliveries survive a restart; in-process handlers live as long as the process.
+ */
+class EventService {
+  private subscriptions: Map<string, EventSubscription> = new Map();
+  private handlers: Map<string, EventHandler> = new Map();
+  private deliveries: Map<string, EventDelivery> = new Map();
+  private recentEvents: EventEnvelope[] = [];
+  private inFlight: Set<string> = new Set();
+
+  constructor() {
+    // Publish the lifecycle of every workflow execution to its guild
+    workflowService.onExecutionFinished(context => {
+      this.publishExecutionFinished(context).catch(error =>
+        console.error('❌ Failed to publish execution lifecycle event:', error)
+      );
+    });
+
+    // Approval requests and decisions, e.g. `approval.requested` or `approval.approved`
+    approvalService.onChange((approval, change) => {
+      authService.workflowGuild(approval.flowId)
+        .then(guildId => this.publish(`approval.${change}`, approval, { source: 'approval', guildId: guildId || undefined }))
+        .catch(error => console.error('❌ Failed to publish approval event:', error));
+    });
+
+    console.log('📣 Event Service initialized');
+  }
+
+  /**
+   * Load persisted subscriptions, subscribe workflows with event triggers and
+   * redeliver events that were still pending when the orchestrator stopped
+   */
+  async initialize(): Promise<void> {
+    if (!supabase) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('event_subscriptions')
+        .select('*')
+        .eq('status', 'active');
+
+      if (error) {
+        console.error('❌ Failed to load event subscriptions:', error);
+      } else {
+        (data || []).forEach(row => {
+          const subscription = row.config as EventSubscription;
+          this.subscriptions.set(subscription.id, subscription);
+        });
+      }
+    } catch (error) {
+      console.error('❌ Error loading event subscriptions:', error);
+    }
+
+    await this.syncWorkflowTriggers();
+
+    try {
+      const { data, error } = await supabase
+        .from('event_deliveries')
+        .select('*')
+        .eq('status', 'pending');
+
+      if (error) {
+        console.error('❌ Failed to load pending event deliveries:', error);
+      } else {
+        (data || []).forEach(row => {
+          const delivery = row.delivery as EventDelivery;
+          this.rememberDelivery(delivery);
+          this.scheduleDelivery(delivery, new Date(delivery.nextAttemptAt || Date.now()));
+        });
+
+        if (data && data.length > 0) {
+          console.log(`📣 Redelivering ${data.length} pending events`);
+        }
+      }
+    } catch (error) {
+      console.error('❌ Error loading pending event deliveries:', error);
+    }
+  }
+
+  /**
+   * Publish an event to every matching subscriber. Workflows only receive
+   * events of their own guild.
+   */
+  async publish(
+    topic: string,
+    payload: any = {},
+    options: { source?: string; chainDepth?: number; metadata?: Record<string, any>; guildId?: string } = {}
+  ): Promise<PublishResult> {
+    validateTopic(topic, false);
+
+    const event: EventEnvelope = {
+      id: uuidv4(),
+      topic,
+      payload,
+      source: options.source || 'api',
+      guildId: options.guildId,
+      chainDepth: options.chainDepth || 0,
+      metadata: options.metadata,
+      timestamp: new Date().toISOString()
+    };
+
+    this.recentEvents.unshift(event);
+    this.recentEvents.splice(EVENT_HISTORY_LIMIT);
+
+    if (supabase) {
+      try {
+        const { error } = await supabase
+          .from('events')
+          .insert({
+            id: event.id,
+            topic: event.topic,
+            source: event.source,
+            payload: event.payload,
+            created_at: event.timestamp
+          });
+
+        if (error) {
+          console.error('❌ Failed to store event in database:', error);
+        }
+      } catch (error) {
+        console.error('❌ Error storing event in database:', error);
+      }
+    }
+
+    const matching = Array.from(this.subscriptions.values()).filter(subscription =>
+      this.subscriptionMatches(subscription, event)
+    );
+
+    const deliveries: EventDelivery[] = [];
+
+    for (const subscription of matching) {
+      // Workflow-started events can't keep starting workflows forever
+      if (subscription.target.type === 'workflow' && event.chainDepth >= MAX_EVENT_CHAIN_DEPTH) {
+        console.warn(`⚠️ Event ${event.id} (${topic}) reached chain depth ${event.chainDepth}, not starting workflow ${subscription.target.flowId}`);
+        continue;
+      }
+
+      const delivery: EventDelivery = {
+        id: uuidv4(),
+        eventId: event.id,
+        subscriptionId: subscription.id,
+        event,
+        status: 'pending',
+        attempts: 0,
+        maxAttempts: subscription.maxAttempts || EVENT_DELIVERY_MAX_ATTEMPTS,
+        nextAttemptAt: event.timestamp,
+        createdAt: event.timestamp
+      };
+
+      // Persist before dispatching so a crash can't lose the delivery
+      await this.saveDelivery(delivery, subscription);
+      deliveries.push(delivery);
+    }
+
+    deliveries.forEach(delivery => this.scheduleDelivery(delivery, new Date()));
+
+    if (deliveries.length > 0) {
+      console.log(`📣 Event ${topic} published to ${deliveries.length} subscribers`);
+    }
+
+    return { eventId: event.id, topic, deliveries: deliveries.length };
+  }
+
+  /**
+   * Subscribe an in-process handler to a topic pattern
+   */
+  subscribe(
+    pattern: string,
+    handler: EventHandler,
+    options: { filter?: Record<string, any>; condition?: string; maxAttempts?: number } = {}
+  ): string {
+    validateTopic(pattern, true);
+
+    const subscription: EventSubscription = {
+      id: uuidv4(),
+      pattern,
+      filter: options.filter,
+      condition: options.condition,
+      target: { type: 'handler' },
+      maxAttempts: options.maxAttempts,
+      status: 'active',
+      createdAt: new Date().toISOString()
+    };
+
+    this.validateCondition(subscription.condition);
+    this.subscriptions.set(subscription.id, subscription);
+    this.handlers.set(subscription.id, handler);
+
+    return subscription.id;
+  }
+
+  /**
+   * Start a workflow for every event of its guild matching a topic pattern
+   */
+  async subscribeWorkflow(
+    flowId: string,
+    input: WorkflowSubscriptionInput,
+    options: { guildId?: string } = {}
+  ): Promise<EventSubscription> {
+    // `eventType` is what the canvas' event trigger calls the topic
+    const pattern = input.topic || input.eventType;
+    validateTopic(pattern as string, true);
+    this.validateCondition(input.condition);
+
+    const subscription: EventSubscription = {
+      id: input.id || uuidv4(),
+      pattern: pattern as string,
+      filter: input.filter,
+      condition: input.condition,
+      target: {
+        type: 'workflow',
+        flowId,
+        guildId: options.guildId,
+        nodes: input.nodes,
+        edges: input.edges,
+        context: input.context
+      },
+      maxAttempts: input.maxAttempts,
+      status: 'active',
+      createdAt: new Date().toISOString()
+    };
+
+    this.subscriptions.set(subscription.id, subscription);
+    await this.saveSubscription(subscription);
+
+    console.log(`📣 Workflow ${flowId} subscribed to ${subscription.pattern}`);
+    return subscription;
+  }
+
+  /**
+   * Remove a subscription; pending deliveries to it are dead-lettered when they come due
+   */
+  async unsubscribe(subscriptionId: string): Promise<boolean> {
+    const subscription = this.subscriptions.get(subscriptionId);
+    if (!subscription) return false;
+
+    this.subscriptions.delete(subscriptionId);
+    this.handlers.delete(subscriptionId);
+
+    if (supabase && subscription.target.type === 'workflow') {
+      try {
+        const { error } = await supabase
+          .from('event_subscriptions')
+          .delete()
+          .eq('id', subscriptionId);
+
+        if (error) {
+          console.error('❌ Failed to delete event subscription from database:', error);
+        }
+      } catch (error) {
+        console.error('❌ Error deleting event subscription from database:', error);
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * List subscriptions, optionally only those that start a given workflow or
+   * one of `flowIds`
+   */
+  getSubscriptions(flowId?: string, flowIds?: string[]): EventSubscription[] {
+    return Array.from(this.subscriptions.values()).filter(subscription =>
+      (!flowId || (subscription.target.type === 'workflow' && subscription.target.flowId === flowId)) &&
+      (!flowIds || (subscription.target.type === 'workflow' && flowIds.includes(subscription.target.flowId)))
+    );
+  }
+
+  /**
+   * A subscription by ID
+   */
+  getSubscription(subscriptionId: string): EventSubscription | null {
+    return this.subscriptions.get(subscriptionId) || null;
+  }
+
+  /**
+   * Recently published events, newest first
+   */
+  getRecentEvents(options: { topic?: string; guildId?: string; limit?: number } = {}): EventEnvelope[] {
+    return this.recentEvents
+      .filter(event => !options.topic || topicMatches(options.topic, event.topic))
+      .filter(event => !options.guildId || event.guildId === options.guildId)
+      .slice(0, options.limit || 50);
+  }
+
+  /**
+   * Delivery records, newest first (use status `dead` for the dead-letter queue)
+   */
+  async getDeliveries(filter: EventDeliveryFilter = {}): Promise<EventDelivery[]> {
+    const limit = filter.limit || 50;
+
+    if (supabase) {
+      try {
+        let query = supabase
+          .from('event_deliveries')
+          .select('*')
+          .order('created_at', { ascending: false })
+          .limit(limit);
+
+        if (filter.status) query = query.eq('status', filter.status);
+        if (filter.eventId) query = query.eq('event_id', filter.eventId);
+        if (filter.subscriptionIds) query = query.in('subscription_id', filter.subscriptionIds);
+
+        const { data, error } = await query;
+
+        if (error) {
+          console.error('❌ Failed to retrieve event deliveries from database:', error);
+        } else if (data) {
+          return data.map(row => row.delivery as EventDelivery);
+        }
+      } catch (error) {
+        console.error('❌ Error retrieving event deliveries from database:', error);
+      }
+    }
+
+    return Array.from(this.deliveries.values())
+      .filter(delivery =>
+        (!filter.status || delivery.status === filter.status) &&
+        (!filter.eventId || delivery.eventId === filter.eventId) &&
+        (!filter.subscriptionIds || filter.subscriptionIds.includes(delivery.subscriptionId))
+      )
+      .reverse()
+      .slice(0, limit);
+  }
+
+  /**
+   * A recent delivery record
+   */
+  async getDelivery(deliveryId: string): Promise<EventDelivery | null> {
+    const [delivery] = (await this.getDeliveries({ limit: DELIVERY_HISTORY_LIMIT }))
+      .filter(candidate => candidate.id === deliveryId);
+
+    return delivery || null;
+  }
+
+  /**
+   * Put a dead-lettered delivery back in the queue
+   */
+  async retryDelivery(deliveryId: string): Promise<EventDelivery> {
+    const delivery = await this.getDelivery(deliveryId);
+
+    if (!delivery) {
+      throw httpError(`Event delivery not found: ${deliveryId}`, 404);
+    }
+
+    if (delivery.status !== 'dead') {
+      throw httpError(`Only dead-lettered deliveries can be retried (status: ${delivery.status})`);
+    }
+
+    delivery.status = 'pending';
+    delivery.attempts = 0;
+    delivery.nextAttemptAt = new Date().toISOString();
+
+    this.rememberDelivery(delivery);
+    await this.saveDelivery(delivery);
+    this.scheduleDelivery(delivery, new Date());
+
+    return delivery;
+  }
+
+  /**
+   * Subscribe every active workflow whose trigger is an event trigger
+   */
+  private async syncWorkflowTriggers(): Promise<void> {
+    if (!supabase) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('workflows')
+        .select('id, guild_id, trigger, status')
+        .eq('status', 'active');
+
+      if (error) {
+        console.error('❌ Failed to load event-triggered workflows:', error);
+        return;
+      }
+
+      let subscribed = 0;
+
+      for (const workflow of data || []) {
+        const trigger = workflow.trigger as { type?: string; config?: Record<string, any> } | null;
+        if (trigger?.type !== 'event') continue;
+
+        const topic = trigger.config?.topic || trigger.config?.eventType;
+        if (!topic) {
+          console.warn(`⚠️ Workflow ${workflow.id} has an event trigger without a topic`);
+          continue;
+        }
+
+        try {
+          // Stable IDs keep redeliveries pointing at the same subscription across restarts
+          await this.subscribeWorkflow(workflow.id as string, {
+            id: `workflow-trigger-${workflow.id}`,
+            topic,
+            filter: trigger.config?.filter || trigger.config?.filters,
+            condition: trigger.config?.condition
+          }, { guildId: workflow.guild_id as string });
+          subscribed++;
+        } catch (error: any) {
+          console.warn(`⚠️ Skipping event trigger of workflow ${workflow.id}: ${error.message}`);
+        }
+      }
+
+      console.log(`📣 Subscribed ${subscribed} event-triggered workflows`);
+    } catch (error) {
+      console.error('❌ Error loading event-triggered workflows:', error);
+    }
+  }
+
+  private subscriptionMatches(subscription: EventSubscription, event: EventEnvelope): boolean {
+    if (subscription.status !== 'active' || !topicMatches(subscription.pattern, event.topic)) {
+      return false;
+    }
+
+    // A guild's workflows don't see other guilds' events
+    if (subscription.target.type === 'workflow' && (subscription.target.guildId || event.guildId) &&
+        subscription.target.guildId !== event.guildId) {
+      return false;
+    }
+
+    if (subscription.filter && !payloadMatches(subscription.filter, event.payload)) {
+      return false;
+    }
+
+    if (subscription.condition) {
+      try {
+        return expressionService.evaluateBoolean(subscription.condition, { ...event });
+      } catch (error: any) {
+        console.warn(`⚠️ Condition of subscription ${subscription.id} failed: ${error.message}`);
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private validateCondition(condition?: string): void {
+    if (!condition) return;
+
+    const result = expressionService.validate(condition);
+    if (!result.valid) {
+      throw httpError(`Invalid subscription condition: ${result.errors[0]?.message}`);
+    }
+  }
+
+  private scheduleDelivery(delivery: EventDelivery, at: Date): void {
+    timerService.schedule(`event-delivery:${delivery.id}`, at, () => this.attemptDelivery(delivery));
+  }
+
+  /**
+   * Make one delivery attempt, then record success, schedule a retry or dead-letter it
+   */
+  private async attemptDelivery(delivery: EventDelivery): Promise<void> {
+    if (delivery.status !== 'pending' || this.inFlight.has(delivery.id)) return;
+
+    const subscription = this.subscriptions.get(delivery.subscriptionId);
+
+    if (!subscription) {
+      delivery.status = 'dead';
+      delivery.lastError = 'Subscription no longer exists';
+      await this.saveDelivery(delivery);
+      return;
+    }
+
+    this.inFlight.add(delivery.id);
+    delivery.attempts++;
+    delivery.lastAttemptAt = new Date().toISOString();
+
+    try {
+      delivery.result = await this.invokeSubscriber(subscription, delivery.event);
+      delivery.status = 'delivered';
+      delivery.deliveredAt = new Date().toISOString();
+      delete delivery.nextAttemptAt;
+    } catch (error: any) {
+      delivery.lastError = error.message;
+
+      if (delivery.attempts >= delivery.maxAttempts) {
+        delivery.status = 'dead';
+        delete delivery.nextAttemptAt;
+
+        console.error(`❌ Event ${delivery.event.topic} dead-lettered for subscription ${subscription.id} after ${delivery.attempts} attempts: ${error.message}`);
+      } else {
+        const delayMs = Math.min(DELIVERY_RETRY_BASE_MS * Math.pow(2, delivery.attempts - 1), DELIVERY_RETRY_MAX_MS);
+        delivery.nextAttemptAt = new Date(Date.now() + delayMs).toISOString();
+
+        console.warn(`⚠️ Delivery of ${delivery.event.topic} to ${subscription.id} failed (attempt ${delivery.attempts}/${delivery.maxAttempts}), retrying in ${delayMs}ms`);
+      }
+    } finally {
+      this.inFlight.delete(delivery.id);
+    }
+
+    await this.saveDelivery(delivery);
+
+    if (delivery.status === 'pending') {
+      this.scheduleDelivery(delivery, new Date(delivery.nextAttemptAt as string));
+    }
+  }
+
+  private async invokeSubscriber(subscription: EventSubscription, event: EventEnvelope): Promise<any> {
+    const { target } = subscription;
+
+    if (target.type === 'handler') {
+      const handler = this.handlers.get(subscription.id);
+      if (!handler) {
+        throw new Error(`No handler registered for subscription ${subscription.id}`);
+      }
+      return handler(event);
+    }
+
+    const { nodes, edges } = await this.resolveWorkflowGraph(target);
+
+    const { executionId } = await workflowService.executeWorkflow(target.flowId, nodes, edges, {
+      ...target.context,
+      triggerType: 'event',
+      triggerSource: subscription.id,
+      event
+    });
+
+    return { executionId };
+  }
+
+  /**
+   * The graph to execute: the one saved with the subscription, or the workflow's current graph
+   */
+  private async resolveWorkflowGraph(
+    target: WorkflowSubscriptionTarget
+  ): Promise<{ nodes: WorkflowNode[]; edges: WorkflowEdge[] }> {
+    if (target.nodes && target.nodes.length > 0) {
+      return { nodes: target.nodes, edges: target.edges || [] };
+    }
+
+    if (supabase) {
+      const { data, error } = await supabase
+        .from('workflows')
+        .select('nodes, edges')
+        .eq('id', target.flowId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to load workflow ${target.flowId}: ${error.message}`);
+      }
+
+      if (data && Array.isArray(data.nodes) && data.nodes.length > 0) {
+        return { nodes: data.nodes as WorkflowNode[], edges: (data.edges || []) as WorkflowEdge[] };
+      }
+    }
+
+    throw new Error(`Workflow ${target.flowId} not found or has no nodes`);
+  }
+
+  /**
+   * Publish `workflow.execution.completed` or `workflow.execution.failed`
+   */
+  private async publishExecutionFinished(context: ExecutionContext): Promise<void> {
+    const lastError = [...context.logs].reverse().find(log => log.level === 'error');
+    const triggeringEvent = context.variables.event as EventEnvelope | undefined;
+    const guildId = await authService.workflowGuild(context.flowId);
+
+    await this.publish(
+      `workflow.execution.${context.status}`,
+      {
+        executionId: context.id,
+        flowId: context.flowId,
+        status: context.status,
+        startTime: context.startTime,
+        endTime: context.endTime,
+        durationMs: context.endTime ? context.endTime.getTime() - new Date(context.startTime).getTime() : undefined,
+        triggerType: context.variables.triggerType,
+        error: context.status === 'failed' ? lastError?.message : undefined
+      },
+      {
+        source: 'workflow',
+        chainDepth: triggeringEvent?.chainDepth !== undefined ? triggeringEvent.chainDepth + 1 : 0,
+        guildId: guildId || undefined
+      }
+    );
+  }
+
+  private rememberDelivery(delivery: EventDelivery): void {
+    this.deliveries.delete(delivery.id);
+    this.deliveries.set(delivery.id, delivery);
+
+    // Drop the oldest settled deliveries once the history is full
+    for (const [id, candidate] of this.deliveries) {
+      if (this.deliveries.size <= DELIVERY_HISTORY_LIMIT) break;
+      if (candidate.status !== 'pending') this.deliveries.delete(id);
+    }
+  }
+
+  private async saveDelivery(delivery: EventDelivery, subscription?: EventSubscription): Promise<void> {
+    this.rememberDelivery(delivery);
+
+    // Handler subscriptions don't outlive the process, so neither do their deliveries
+    const owner = subscription || this.subscriptions.get(delivery.subscriptionId);
+    if (!supabase || owner?.target.type === 'handler') return;
+
+    try {
+      const { error } = await supabase
+        .from('event_deliveries')
+        .upsert({
+          id: delivery.id,
+          event_id: delivery.eventId,
+          subscription_id: delivery.subscriptionId,
+          status: delivery.status,
+          attempts: delivery.attempts,
+          next_attempt_at: delivery.nextAttemptAt || null,
+          last_error: delivery.lastError || null,
+          delivery,
+          created_at: delivery.createdAt,
+          updated_at: new Date().toISOString()
+        });
+
+      if (error) {
+        console.error('❌ Failed to store event delivery in database:', error);
+      }
+    } catch (error) {
+      console.error('❌ Error storing event delivery in database:', error);
+    }
+  }
+
+  private async saveSubscription(subscription: EventSubscription): Promise<void> {
+    if (!supabase) return;
+
+    try {
+      const { error } = await supabase
+        .from('event_subscriptions')
+        .upsert({
+          id: subscription.id,
+          pattern: subscription.pattern,
+          workflow_id: subscription.target.type === 'workflow' ? subscription.target.flowId : null,
+          status: subscription.status,
+          config: subscription,
+          created_at: subscription.createdAt
+        });
+
+      if (error) {
+        console.error('❌ Failed to store event subscription in database:', error);
+      }
+    } catch (error) {
+      console.error('❌ Error storing event subscription in database:', error);
+    }
+  }
+}
+
+// Create singleton instance
+const eventService = new EventService();
+export default eventService;
+
+// Types
+export interface EventEnvelope {
+  id: string;
+  topic: string;
+  payload: any;
+  source: string;
+  // Guild the event belongs to; only that guild's workflows receive it
+  guildId?: string;
+  // How many event-triggered workflow runs led to this event
+  chainDepth: number;
+  metadata?: Record<string, any>;
+  timestamp: string;
+}
+
+export type EventHandler = (event: EventEnvelope) => any | Promise<any>;
+
+export interface WorkflowSubscriptionTarget {
+  type: 'workflow';
+  flowId: string;
+  // The workflow's guild, whose events it receives
+  guildId?: string;
+  nodes?: WorkflowNode[];
+  edges?: WorkflowEdge[];
+  context?: Record<string, any>;
+}
+
+export interface EventSubscription {
+  id: string;
+  pattern: string;
+  filter?: Record<string, any>;
+  // Expression evaluated against the event (topic, payload, source, ...)
+  condition?: string;
+  target: WorkflowSubscriptionTarget | { type: 'handler' };
+  maxAttempts?: number;
+  status: 'active' | 'paused';
+  createdAt: string;
+}
+
+export interface WorkflowSubscriptionInput {
+  id?: string;
+  topic?: string;
+  eventType?: string;
+  filter?: Record<string, any>;
+  condition?: string;
+  maxAttempts?: number;
+  nodes?: WorkflowNode[];
+  edges?: WorkflowEdge[];
+  context?: Record<string, any>;
+}
+
+export type EventDeliveryStatus = 'pending' | 'delivered' | 'dead';
+
+export interface EventDeliveryFilter {
+  status?: EventDeliveryStatus;
+  eventId?: string;
+  // Only deliveries to these subscriptions
+  subscriptionIds?: string[];
+  limit?: number;
+}
+
+export interface EventDelivery {
+  id: string;
+  eventId: string;
+  subscriptionId: string;
+  event: EventEnvelope;
+  status: EventDeliveryStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt?: string;
+  lastAttemptAt?: string;
+  deliveredAt?: string;
+  lastError?: string;
+  result?: any;
+  createdAt: string;
+}
+
+export interface PublishResult {
+  eventId: string;
+  topic: string;
+  deliveries: number;
+}
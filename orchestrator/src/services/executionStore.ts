@@ -0,0 +1,252 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { ExecutionContext, ExecutionRecord, ExecutionStatus } from '../types/workflow';
+
+// Load environment variables
+dotenv.config();
+
+const EXECUTION_STORE = (process.env.EXECUTION_STORE || 'memory').toLowerCase();
+const EXECUTION_STORE_DIR = process.env.EXECUTION_STORE_DIR || path.join(process.cwd(), 'data', 'executions');
+const SUPABASE_URL = process.env.SUPABASE_URL || '';
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+/**
+ * Persistence backend for workflow executions
+ */
+export interface ExecutionStore {
+  readonly name: string;
+  save(record: ExecutionRecord): Promise<void>;
+  load(executionId: string): Promise<ExecutionRecord | null>;
+  listByStatus(statuses: ExecutionStatus[]): Promise<ExecutionRecord[]>;
+  delete(executionId: string): Promise<boolean>;
+}
+
+/**
+ * Keeps executions in process memory (lost on restart)
+ */
+export class InMemoryExecutionStore implements ExecutionStore {
+  readonly name = 'memory';
+  private records: Record<string, string> = {};
+
+  async save(record: ExecutionRecord): Promise<void> {
+    // Store serialized copies so callers can't mutate persisted state
+    this.records[record.context.id] = JSON.stringify(record);
+  }
+
+  async load(executionId: string): Promise<ExecutionRecord | null> {
+    const json = this.records[executionId];
+    return json ? reviveRecord(JSON.parse(json)) : null;
+  }
+
+  async listByStatus(statuses: ExecutionStatus[]): Promise<ExecutionRecord[]> {
+    return Object.values(this.records)
+      .map(json => reviveRecord(JSON.parse(json)))
+      .filter(record => statuses.includes(record.context.status));
+  }
+
+  async delete(executionId: string): Promise<boolean> {
+    if (!this.records[executionId]) return false;
+    delete this.records[executionId];
+    return true;
+  }
+}
+
+/**
+ * Stores one JSON document per execution in a local directory
+ */
+export class FileExecutionStore implements ExecutionStore {
+  readonly name = 'file';
+
+  constructor(private directory: string) {}
+
+  private filePath(executionId: string): string {
+    // Execution IDs are UUIDs, but never let one escape the store directory
+    return path.join(this.directory, `${path.basename(executionId)}.json`);
+  }
+
+  async save(record: ExecutionRecord): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Write to a temp file first so a crash mid-write can't corrupt the checkpoint
+    const target = this.filePath(record.context.id);
+    const temp = `${target}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(record));
+    await fs.rename(temp, target);
+  }
+
+  async load(executionId: string): Promise<ExecutionRecord | null> {
+    try {
+      const json = await fs.readFile(this.filePath(executionId), 'utf8');
+      return reviveRecord(JSON.parse(json));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async listByStatus(statuses: ExecutionStatus[]): Promise<ExecutionRecord[]> {
+    let files: string[];
+
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const records: ExecutionRecord[] = [];
+
+    for (const file of files.filter(f => f.endsWith('.json'))) {
+      try {
+        const json = await fs.readFile(path.join(this.directory, file), 'utf8');
+        const record = reviveRecord(JSON.parse(json));
+
+        if (statuses.includes(record.context.status)) {
+          records.push(record);
+        }
+      } catch (error) {
+        console.error(`❌ Failed to read execution checkpoint ${file}:`, error);
+      }
+    }
+
+    return records;
+  }
+
+  async delete(executionId: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.filePath(executionId));
+      return true;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+}
+
+/**
+ * Stores executions in the Postgres `workflow_executions` table through Supabase
+ */
+export class SupabaseExecutionStore implements ExecutionStore {
+  readonly name = 'supabase';
+
+  constructor(private supabase: SupabaseClient) {}
+
+  async save(record: ExecutionRecord): Promise<void> {
+    const { error } = await this.supabase
+      .from('workflow_executions')
+      .upsert({
+        id: record.context.id,
+        flow_id: record.context.flowId,
+        status: record.context.status,
+        context: record.context,
+        nodes: record.nodes,
+        edges: record.edges,
+        updated_at: record.updatedAt
+      });
+
+    if (error) {
+      throw new Error(`Failed to save execution: ${error.message}`);
+    }
+  }
+
+  async load(executionId: string): Promise<ExecutionRecord | null> {
+    const { data, error } = await this.supabase
+      .from('workflow_executions')
+      .select('*')
+      .eq('id', executionId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load execution: ${error.message}`);
+    }
+
+    return data ? this.fromRow(data) : null;
+  }
+
+  async listByStatus(statuses: ExecutionStatus[]): Promise<ExecutionRecord[]> {
+    const { data, error } = await this.supabase
+      .from('workflow_executions')
+      .select('*')
+      .in('status', statuses);
+
+    if (error) {
+      throw new Error(`Failed to list executions: ${error.message}`);
+    }
+
+    return (data || []).map(row => this.fromRow(row));
+  }
+
+  async delete(executionId: string): Promise<boolean> {
+    const { error, count } = await this.supabase
+      .from('workflow_executions')
+      .delete({ count: 'exact' })
+      .eq('id', executionId);
+
+    if (error) {
+      throw new Error(`Failed to delete execution: ${error.message}`);
+    }
+
+    return (count || 0) > 0;
+  }
+
+  private fromRow(row: any): ExecutionRecord {
+    return reviveRecord({
+      context: row.context,
+      nodes: row.nodes || [],
+      edges: row.edges || [],
+      updatedAt: row.updated_at
+    });
+  }
+}
+
+/**
+ * Convert the ISO strings produced by JSON serialization back into Dates
+ */
+function reviveRecord(record: ExecutionRecord): ExecutionRecord {
+  const context = record.context as ExecutionContext;
+
+  context.startTime = new Date(context.startTime);
+  if (context.endTime) context.endTime = new Date(context.endTime);
+  if (context.resumedAt) context.resumedAt = context.resumedAt.map(date => new Date(date));
+
+  Object.values(context.nodes).forEach(state => {
+    if (state.startTime) state.startTime = new Date(state.startTime);
+    if (state.endTime) state.endTime = new Date(state.endTime);
+    if (state.waitUntil) state.waitUntil = new Date(state.waitUntil);
+    if (state.deadline) state.deadline = new Date(state.deadline);
+  });
+
+  context.logs.forEach(log => {
+    log.timestamp = new Date(log.timestamp);
+  });
+
+  return record;
+}
+
+/**
+ * Create the execution store selected by EXECUTION_STORE (memory | file | supabase)
+ */
+export function createExecutionStore(): ExecutionStore {
+  switch (EXECUTION_STORE) {
+    case 'file':
+      console.log(`💾 Workflow executions persisted to ${EXECUTION_STORE_DIR}`);
+      return new FileExecutionStore(EXECUTION_STORE_DIR);
+
+    case 'supabase':
+    case 'postgres':
+      if (SUPABASE_URL && SUPABASE_SERVICE_ROLE_KEY &&
+          !SUPABASE_URL.includes('your_') && !SUPABASE_SERVICE_ROLE_KEY.includes('your_')) {
+        console.log('💾 Workflow executions persisted to Supabase');
+        return new SupabaseExecutionStore(createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY));
+      }
+
+      console.warn('⚠️ Supabase not configured for execution store - using in-memory storage');
+      return new InMemoryExecutionStore();
+
+    default:
+      console.log('⚠️ Workflow executions kept in memory only (set EXECUTION_STORE to persist them)');
+      return new InMemoryExecutionStore();
+  }
+}
@@ -0,0 +1,769 @@
+/**
+ * Sandboxed expression language for workflow condition nodes.
+ *
+ * Expressions are tokenized and parsed into an AST that is interpreted
+ * against a plain variable scope, so user text never reaches `eval` or
+ * `new Function`. Only whitelisted helper functions can be called and
+ * prototype properties are never readable.
+ *
+ * Syntax overview:
+ *   score >= 0.8 && status == 'approved'
+ *   `action-1700000_output`.data.items[0].email
+ *   $['agent-42_output'].status in ['completed', 'completed_fallback']
+ *   contains(lower(subject), 'refund') or not isEmpty(tags)
+ *   count(rows) > 10 ? 'bulk' : 'single'
+ */
+
+// Guard rails so a single expression can't tie up the orchestrator
+const MAX_EXPRESSION_LENGTH = 4000;
+const MAX_NESTING_DEPTH = 64;
+const MAX_CACHED_EXPRESSIONS = 500;
+
+// Properties that would expose the prototype chain
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+type TokenType = 'number' | 'string' | 'identifier' | 'operator' | 'punctuation' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+type ExpressionNode =
+  | { type: 'literal'; value: any; position: number }
+  | { type: 'identifier'; name: string; position: number }
+  | { type: 'root'; position: number }
+  | { type: 'member'; object: ExpressionNode; property: ExpressionNode; position: number }
+  | { type: 'call'; name: string; args: ExpressionNode[]; position: number }
+  | { type: 'array'; elements: ExpressionNode[]; position: number }
+  | { type: 'unary'; operator: string; argument: ExpressionNode; position: number }
+  | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode; position: number }
+  | { type: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode; position: number };
+
+export interface ExpressionIssue {
+  message: string;
+  // Zero-based character offset into the expression
+  position: number;
+}
+
+export interface ExpressionValidationResult {
+  valid: boolean;
+  errors: ExpressionIssue[];
+  // Root variable names the expression reads
+  identifiers: string[];
+}
+
+// Keyword aliases for the symbolic operators
+const KEYWORD_OPERATORS: Record<string, string> = {
+  and: '&&',
+  or: '||',
+  not: '!',
+  in: 'in'
+};
+
+const KEYWORD_LITERALS: Record<string, any> = {
+  true: true,
+  false: false,
+  null: null
+};
+
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '<', '>', '+', '-', '*', '/', '%', '!', '?', ':'];
+
+// Binary operator precedence, lowest first
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3, '!=': 3, '===': 3, '!==': 3,
+  '<': 4, '<=': 4, '>': 4, '>=': 4, 'in': 4,
+  '+': 5, '-': 5,
+  '*': 6, '/': 6, '%': 6
+};
+
+/**
+ * Whitelisted helper functions available to expressions
+ */
+const HELPERS: Record<string, { arity: [number, number]; fn: (...args: any[]) => any }> = {
+  // Strings
+  lower: { arity: [1, 1], fn: (s) => toText(s).toLowerCase() },
+  upper: { arity: [1, 1], fn: (s) => toText(s).toUpperCase() },
+  trim: { arity: [1, 1], fn: (s) => toText(s).trim() },
+  startsWith: { arity: [2, 2], fn: (s, prefix) => toText(s).startsWith(toText(prefix)) },
+  endsWith: { arity: [2, 2], fn: (s, suffix) => toText(s).endsWith(toText(suffix)) },
+  split: { arity: [2, 2], fn: (s, separator) => toText(s).split(toText(separator)) },
+  replace: { arity: [3, 3], fn: (s, search, replacement) => toText(s).split(toText(search)).join(toText(replacement)) },
+
+  // Strings and arrays
+  contains: { arity: [2, 2], fn: (haystack, needle) => membership(needle, haystack) },
+  length: { arity: [1, 1], fn: (value) => sizeOf(value) },
+  isEmpty: { arity: [1, 1], fn: (value) => sizeOf(value) === 0 },
+
+  // Arrays
+  count: { arity: [1, 1], fn: (value) => (Array.isArray(value) ? value.length : 0) },
+  first: { arity: [1, 1], fn: (value) => (Array.isArray(value) ? value[0] : undefined) },
+  last: { arity: [1, 1], fn: (value) => (Array.isArray(value) ? value[value.length - 1] : undefined) },
+  join: { arity: [1, 2], fn: (value, separator = ',') => (Array.isArray(value) ? value.map(toText).join(toText(separator)) : toText(value)) },
+  sum: { arity: [1, 1], fn: (value) => numbersOf(value).reduce((total, n) => total + n, 0) },
+  min: { arity: [1, 1], fn: (value) => { const numbers = numbersOf(value); return numbers.length ? Math.min(...numbers) : null; } },
+  max: { arity: [1, 1], fn: (value) => { const numbers = numbersOf(value); return numbers.length ? Math.max(...numbers) : null; } },
+  avg: { arity: [1, 1], fn: (value) => { const numbers = numbersOf(value); return numbers.length ? numbers.reduce((t, n) => t + n, 0) / numbers.length : null; } },
+  pluck: { arity: [2, 2], fn: (value, key) => (Array.isArray(value) ? value.map(item => readProperty(item, key)) : []) },
+
+  // Objects and values
+  keys: { arity: [1, 1], fn: (value) => (isPlainObject(value) ? Object.keys(value) : []) },
+  exists: { arity: [1, 1], fn: (value) => value !== undefined && value !== null },
+  coalesce: { arity: [1, 10], fn: (...values) => values.find(value => value !== undefined && value !== null) ?? null },
+  number: { arity: [1, 1], fn: (value) => { const n = Number(value); return Number.isNaN(n) ? null : n; } },
+  string: { arity: [1, 1], fn: (value) => toText(value) },
+  boolean: { arity: [1, 1], fn: (value) => truthy(value) },
+  abs: { arity: [1, 1], fn: (value) => Math.abs(Number(value)) },
+  round: { arity: [1, 2], fn: (value, digits = 0) => { const factor = Math.pow(10, Number(digits)); return Math.round(Number(value) * factor) / factor; } },
+  typeOf: { arity: [1, 1], fn: (value) => (value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value) }
+};
+
+function toText(value: any): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function truthy(value: any): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return Boolean(value);
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function sizeOf(value: any): number {
+  if (value === undefined || value === null) return 0;
+  if (typeof value === 'string' || Array.isArray(value)) return value.length;
+  if (isPlainObject(value)) return Object.keys(value).length;
+  return 0;
+}
+
+function numbersOf(value: any): number[] {
+  if (!Array.isArray(value)) return [];
+  return value.map(Number).filter(n => !Number.isNaN(n));
+}
+
+function deepEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+
+  // Compare numbers with numeric strings the way users expect from JSON payloads
+  if (typeof a === 'number' && typeof b === 'string' && b.trim() !== '') return a === Number(b);
+  if (typeof a === 'string' && typeof b === 'number' && a.trim() !== '') return Number(a) === b;
+
+  if (a && b && typeof a === 'object' && typeof b === 'object') {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+
+  return false;
+}
+
+function membership(needle: any, haystack: any): boolean {
+  if (Array.isArray(haystack)) return haystack.some(item => deepEqual(item, needle));
+  if (typeof haystack === 'string') return haystack.includes(toText(needle));
+  if (isPlainObject(haystack)) return Object.prototype.hasOwnProperty.call(haystack, toText(needle));
+  return false;
+}
+
+/**
+ * Read an own property, never anything from the prototype chain
+ */
+function readProperty(target: any, key: any): any {
+  if (target === undefined || target === null) return undefined;
+
+  const name = typeof key === 'number' ? key : toText(key);
+
+  if (typeof name === 'string' && BLOCKED_PROPERTIES.has(name)) return undefined;
+
+  if (typeof target === 'string' || Array.isArray(target)) {
+    if (name === 'length') return target.length;
+    const index = typeof name === 'number' ? name : Number(name);
+    return Number.isInteger(index) && index >= 0 ? target[index] : undefined;
+  }
+
+  if (typeof target === 'object' && Object.prototype.hasOwnProperty.call(target, name)) {
+    return target[name as string];
+  }
+
+  return undefined;
+}
+
+function compare(operator: string, left: any, right: any): boolean {
+  // Coerce numeric strings when compared against numbers
+  if (typeof left === 'number' && typeof right === 'string' && right.trim() !== '') right = Number(right);
+  if (typeof left === 'string' && typeof right === 'number' && left.trim() !== '') left = Number(left);
+
+  const comparable =
+    (typeof left === 'number' && typeof right === 'number') ||
+    (typeof left === 'string' && typeof right === 'string');
+
+  if (!comparable) return false;
+
+  switch (operator) {
+    case '<': return left < right;
+    case '<=': return left <= right;
+    case '>': return left > right;
+    default: return left >= right;
+  }
+}
+
+function createExpressionError(message: string, position: number): Error {
+  const error: any = new Error(`${message} (at position ${position})`);
+  error.code = 'EXPRESSION_ERROR';
+  error.position = position;
+  error.reason = message;
+  return error;
+}
+
+/**
+ * Split an expression into tokens
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    // Numbers
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[index + 1] || ''))) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(index))!;
+      tokens.push({ type: 'number', value: match[0], position: index });
+      index += match[0].length;
+      continue;
+    }
+
+    // Strings
+    if (char === '"' || char === "'") {
+      const start = index;
+      let value = '';
+      index++;
+
+      while (index < source.length && source[index] !== char) {
+        if (source[index] === '\\' && index + 1 < source.length) {
+          const escaped = source[index + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          index += 2;
+        } else {
+          value += source[index++];
+        }
+      }
+
+      if (index >= source.length) {
+        throw createExpressionError('Unterminated string literal', start);
+      }
+
+      index++;
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    // Backtick-quoted identifiers allow any variable name, e.g. `action-17_output`
+    if (char === '`') {
+      const start = index;
+      const end = source.indexOf('`', index + 1);
+
+      if (end === -1) {
+        throw createExpressionError('Unterminated quoted identifier', start);
+      }
+
+      const name = source.slice(index + 1, end);
+      if (!name) {
+        throw createExpressionError('Empty quoted identifier', start);
+      }
+
+      tokens.push({ type: 'identifier', value: name, position: start });
+      index = end + 1;
+      continue;
+    }
+
+    // Identifiers and keywords
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(index))!;
+      tokens.push({ type: 'identifier', value: match[0], position: index });
+      index += match[0].length;
+      continue;
+    }
+
+    // Operators, longest match first
+    const operator = OPERATORS.find(op => source.startsWith(op, index));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, position: index });
+      index += operator.length;
+      continue;
+    }
+
+    if ('()[],.'.includes(char)) {
+      tokens.push({ type: 'punctuation', value: char, position: index });
+      index++;
+      continue;
+    }
+
+    throw createExpressionError(`Unexpected character '${char}'`, index);
+  }
+
+  tokens.push({ type: 'eof', value: '', position: source.length });
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser producing an expression AST
+ */
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const expression = this.parseConditional();
+    const next = this.peek();
+
+    if (next.type !== 'eof') {
+      throw createExpressionError(`Unexpected '${next.value}'`, next.position);
+    }
+
+    return expression;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private advance(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isOperator(value: string): boolean {
+    const token = this.peek();
+    if (token.type === 'operator' && token.value === value) return true;
+    return token.type === 'identifier' && KEYWORD_OPERATORS[token.value] === value;
+  }
+
+  private isPunctuation(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'punctuation' && token.value === value;
+  }
+
+  private expectPunctuation(value: string): Token {
+    const token = this.peek();
+
+    if (token.type !== 'punctuation' || token.value !== value) {
+      const found = token.type === 'eof' ? 'end of expression' : `'${token.value}'`;
+      throw createExpressionError(`Expected '${value}' but found ${found}`, token.position);
+    }
+
+    return this.advance();
+  }
+
+  private enter(position: number): void {
+    if (++this.depth > MAX_NESTING_DEPTH) {
+      throw createExpressionError('Expression is nested too deeply', position);
+    }
+  }
+
+  private parseConditional(): ExpressionNode {
+    const test = this.parseBinary(1);
+
+    if (!this.isOperator('?')) return test;
+
+    const position = this.advance().position;
+    this.enter(position);
+    const consequent = this.parseConditional();
+
+    if (!this.isOperator(':')) {
+      throw createExpressionError(`Expected ':' in conditional expression`, this.peek().position);
+    }
+
+    this.advance();
+    const alternate = this.parseConditional();
+    this.depth--;
+
+    return { type: 'conditional', test, consequent, alternate, position };
+  }
+
+  private currentBinaryOperator(): string | null {
+    const token = this.peek();
+
+    if (token.type === 'operator' && BINARY_PRECEDENCE[token.value] !== undefined) {
+      return token.value;
+    }
+
+    if (token.type === 'identifier') {
+      const keyword = KEYWORD_OPERATORS[token.value];
+      if (keyword && BINARY_PRECEDENCE[keyword] !== undefined) return keyword;
+    }
+
+    return null;
+  }
+
+  private parseBinary(minPrecedence: number): ExpressionNode {
+    let left = this.parseUnary();
+
+    for (;;) {
+      const operator = this.currentBinaryOperator();
+      if (!operator || BINARY_PRECEDENCE[operator] < minPrecedence) break;
+
+      const position = this.advance().position;
+      this.enter(position);
+      const right = this.parseBinary(BINARY_PRECEDENCE[operator] + 1);
+      this.depth--;
+
+      left = { type: 'binary', operator, left, right, position };
+    }
+
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.isOperator('!') || this.isOperator('-') || this.isOperator('+')) {
+      const token = this.advance();
+      const operator = KEYWORD_OPERATORS[token.value] || token.value;
+
+      this.enter(token.position);
+      const argument = this.parseUnary();
+      this.depth--;
+
+      return { type: 'unary', operator, argument, position: token.position };
+    }
+
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  private parsePostfix(node: ExpressionNode): ExpressionNode {
+    for (;;) {
+      if (this.isPunctuation('.')) {
+        const dot = this.advance();
+        const property = this.peek();
+
+        if (property.type !== 'identifier' && property.type !== 'number') {
+          throw createExpressionError('Expected property name after \'.\'', property.position);
+        }
+
+        this.advance();
+        node = {
+          type: 'member',
+          object: node,
+          property: { type: 'literal', value: property.value, position: property.position },
+          position: dot.position
+        };
+      } else if (this.isPunctuation('[')) {
+        const bracket = this.advance();
+        this.enter(bracket.position);
+        const property = this.parseConditional();
+        this.depth--;
+        this.expectPunctuation(']');
+
+        node = { type: 'member', object: node, property, position: bracket.position };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'number':
+        this.advance();
+        return { type: 'literal', value: Number(token.value), position: token.position };
+
+      case 'string':
+        this.advance();
+        return { type: 'literal', value: token.value, position: token.position };
+
+      case 'identifier': {
+        this.advance();
+
+        if (token.value in KEYWORD_LITERALS) {
+          return { type: 'literal', value: KEYWORD_LITERALS[token.value], position: token.position };
+        }
+
+        if (token.value === '$') {
+          return { type: 'root', position: token.position };
+        }
+
+        // Helper function call
+        if (this.isPunctuation('(')) {
+          const helper = HELPERS[token.value];
+          if (!helper) {
+            throw createExpressionError(`Unknown function '${token.value}'`, token.position);
+          }
+
+          this.advance();
+          const args: ExpressionNode[] = [];
+
+          if (!this.isPunctuation(')')) {
+            do {
+              this.enter(token.position);
+              args.push(this.parseConditional());
+              this.depth--;
+            } while (this.isPunctuation(',') && this.advance());
+          }
+
+          this.expectPunctuation(')');
+
+          const [minArgs, maxArgs] = helper.arity;
+          if (args.length < minArgs || args.length > maxArgs) {
+            const expected = minArgs === maxArgs ? `${minArgs}` : `${minArgs}-${maxArgs}`;
+            throw createExpressionError(
+              `Function '${token.value}' expects ${expected} arguments but got ${args.length}`,
+              token.position
+            );
+          }
+
+          return { type: 'call', name: token.value, args, position: token.position };
+        }
+
+        return { type: 'identifier', name: token.value, position: token.position };
+      }
+
+      case 'punctuation':
+        if (token.value === '(') {
+          this.advance();
+          this.enter(token.position);
+          const expression = this.parseConditional();
+          this.depth--;
+          this.expectPunctuation(')');
+          return expression;
+        }
+
+        if (token.value === '[') {
+          this.advance();
+          const elements: ExpressionNode[] = [];
+
+          if (!this.isPunctuation(']')) {
+            do {
+              this.enter(token.position);
+              elements.push(this.parseConditional());
+              this.depth--;
+            } while (this.isPunctuation(',') && this.advance());
+          }
+
+          this.expectPunctuation(']');
+          return { type: 'array', elements, position: token.position };
+        }
+        break;
+
+      case 'eof':
+        throw createExpressionError('Unexpected end of expression', token.position);
+    }
+
+    throw createExpressionError(`Unexpected '${token.value}'`, token.position);
+  }
+}
+
+/**
+ * Service for parsing, validating and evaluating workflow expressions
+ */
+class ExpressionService {
+  private cache: Map<string, ExpressionNode> = new Map();
+
+  /**
+   * Parse an expression, reusing the cached AST when possible
+   */
+  private parse(expression: string): ExpressionNode {
+    if (typeof expression !== 'string' || expression.trim() === '') {
+      throw createExpressionError('Expression is empty', 0);
+    }
+
+    if (expression.length > MAX_EXPRESSION_LENGTH) {
+      throw createExpressionError(`Expression exceeds ${MAX_EXPRESSION_LENGTH} characters`, MAX_EXPRESSION_LENGTH);
+    }
+
+    const cached = this.cache.get(expression);
+    if (cached) return cached;
+
+    const ast = new Parser(tokenize(expression)).parse();
+
+    // Simple bound on the cache; oldest entries go first
+    if (this.cache.size >= MAX_CACHED_EXPRESSIONS) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest !== undefined) this.cache.delete(oldest);
+    }
+    this.cache.set(expression, ast);
+
+    return ast;
+  }
+
+  /**
+   * Check an expression at design time without evaluating it
+   */
+  public validate(expression: string): ExpressionValidationResult {
+    try {
+      const ast = this.parse(expression);
+      const identifiers = new Set<string>();
+      this.collectIdentifiers(ast, identifiers);
+
+      return { valid: true, errors: [], identifiers: Array.from(identifiers) };
+    } catch (error: any) {
+      return {
+        valid: false,
+        errors: [{ message: error.reason || error.message, position: error.position ?? 0 }],
+        identifiers: []
+      };
+    }
+  }
+
+  /**
+   * Evaluate an expression against a variable scope
+   */
+  public evaluate(expression: string, scope: Record<string, any>): any {
+    return this.evaluateNode(this.parse(expression), scope);
+  }
+
+  /**
+   * Evaluate an expression and coerce the result to a boolean
+   */
+  public evaluateBoolean(expression: string, scope: Record<string, any>): boolean {
+    return truthy(this.evaluate(expression, scope));
+  }
+
+  private collectIdentifiers(node: ExpressionNode, identifiers: Set<string>): void {
+    switch (node.type) {
+      case 'identifier':
+        identifiers.add(node.name);
+        break;
+      case 'member':
+        this.collectIdentifiers(node.object, identifiers);
+        // Computed properties may reference variables too
+        if (node.property.type !== 'literal') this.collectIdentifiers(node.property, identifiers);
+        // $['name'] reads a root variable
+        if (node.object.type === 'root' && node.property.type === 'literal') {
+          identifiers.add(String(node.property.value));
+        }
+        break;
+      case 'call':
+        node.args.forEach(arg => this.collectIdentifiers(arg, identifiers));
+        break;
+      case 'array':
+        node.elements.forEach(element => this.collectIdentifiers(element, identifiers));
+        break;
+      case 'unary':
+        this.collectIdentifiers(node.argument, identifiers);
+        break;
+      case 'binary':
+        this.collectIdentifiers(node.left, identifiers);
+        this.collectIdentifiers(node.right, identifiers);
+        break;
+      case 'conditional':
+        this.collectIdentifiers(node.test, identifiers);
+        this.collectIdentifiers(node.consequent, identifiers);
+        this.collectIdentifiers(node.alternate, identifiers);
+        break;
+    }
+  }
+
+  private evaluateNode(node: ExpressionNode, scope: Record<string, any>): any {
+    switch (node.type) {
+      case 'literal':
+        return node.value;
+
+      case 'root':
+        return scope;
+
+      case 'identifier':
+        return readProperty(scope, node.name);
+
+      case 'member':
+        return readProperty(
+          this.evaluateNode(node.object, scope),
+          this.evaluateNode(node.property, scope)
+        );
+
+      case 'array':
+        return node.elements.map(element => this.evaluateNode(element, scope));
+
+      case 'call': {
+        const args = node.args.map(arg => this.evaluateNode(arg, scope));
+
+        try {
+          return HELPERS[node.name].fn(...args);
+        } catch (error: any) {
+          throw createExpressionError(`Function '${node.name}' failed: ${error.message}`, node.position);
+        }
+      }
+
+      case 'unary': {
+        const value = this.evaluateNode(node.argument, scope);
+        if (node.operator === '!') return !truthy(value);
+        if (node.operator === '-') return -Number(value);
+        return Number(value);
+      }
+
+      case 'conditional':
+        return truthy(this.evaluateNode(node.test, scope))
+          ? this.evaluateNode(node.consequent, scope)
+          : this.evaluateNode(node.alternate, scope);
+
+      case 'binary':
+        return this.evaluateBinary(node.operator, node.left, node.right, node.position, scope);
+    }
+  }
+
+  private evaluateBinary(
+    operator: string,
+    leftNode: ExpressionNode,
+    rightNode: ExpressionNode,
+    position: number,
+    scope: Record<string, any>
+  ): any {
+    // Short-circuit boolean logic
+    if (operator === '&&') {
+      return truthy(this.evaluateNode(leftNode, scope)) && truthy(this.evaluateNode(rightNode, scope));
+    }
+    if (operator === '||') {
+      return truthy(this.evaluateNode(leftNode, scope)) || truthy(this.evaluateNode(rightNode, scope));
+    }
+
+    const left = this.evaluateNode(leftNode, scope);
+    const right = this.evaluateNode(rightNode, scope);
+
+    switch (operator) {
+      case '==':
+      case '===':
+        return deepEqual(left, right);
+      case '!=':
+      case '!==':
+        return !deepEqual(left, right);
+      case '<':
+      case '<=':
+      case '>':
+      case '>=':
+        return compare(operator, left, right);
+      case 'in':
+        return membership(left, right);
+      case '+':
+        if (typeof left === 'string' || typeof right === 'string') return toText(left) + toText(right);
+        if (Array.isArray(left) && Array.isArray(right)) return [...left, ...right];
+        return Number(left) + Number(right);
+      case '-':
+        return Number(left) - Number(right);
+      case '*':
+        return Number(left) * Number(right);
+      case '/':
+        if (Number(right) === 0) throw createExpressionError('Division by zero', position);
+        return Number(left) / Number(right);
+      case '%':
+        if (Number(right) === 0) throw createExpressionError('Division by zero', position);
+        return Number(left) % Number(right);
+      default:
+        throw createExpressionError(`Unsupported operator '${operator}'`, position);
+    }
+  }
+}
+
+// Create singleton instance
+const expressionService = new ExpressionService();
+
+export default expressionService;
@@ -0,0 +1,368 @@
+/**
+ * JSONPath queries over webhook payloads.
+ *
+ * Supported syntax:
+ *   $.data.object.amount          child members ($ is optional: data.object.amount)
+ *   $['customer-id']              bracketed names
+ *   $.items[0], $.items[-1]       array indexes, counted from the end when negative
+ *   $.items[1:3], $.items[*]      slices and wildcards
+ *   $..email                      recursive descent
+ *   $.items[0,2], $['a','b']      unions
+ *   $.items[?(@.qty > 2)]         filters: @-relative path, optional comparison
+ *                                 (==, !=, <, <=, >, >=) against a literal
+ *
+ * Paths are parsed once and cached. Prototype properties are never readable.
+ */
+
+const MAX_PATH_LENGTH = 1000;
+const MAX_CACHED_PATHS = 500;
+
+// Properties that would expose the prototype chain
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+type FilterOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+type Selector =
+  | { type: 'name'; name: string }
+  | { type: 'index'; index: number }
+  | { type: 'slice'; start?: number; end?: number; step: number }
+  | { type: 'wildcard' }
+  | { type: 'filter'; path: Segment[]; operator?: FilterOperator; value?: any };
+
+interface Segment {
+  // `..` before the selectors: apply them at every depth
+  descendant: boolean;
+  selectors: Selector[];
+}
+
+const parsedPaths: Map<string, Segment[]> = new Map();
+
+function pathError(path: string, message: string, position: number): Error {
+  return new Error(`Invalid JSONPath "${path}" at ${position}: ${message}`);
+}
+
+class PathParser {
+  private position = 0;
+
+  constructor(private readonly path: string, private readonly root: '$' | '@') {}
+
+  parse(): Segment[] {
+    if (this.path[0] === this.root) {
+      this.position = 1;
+    } else if (this.root === '$' && !/^[.\[]/.test(this.path)) {
+      // A bare `data.object` means `$.data.object`
+      return this.parseSegments(true);
+    }
+
+    return this.parseSegments(false);
+  }
+
+  /**
+   * Filter paths stop at the first character that can't continue them
+   */
+  parseRelative(): Segment[] {
+    this.position = 1;
+    return this.parseSegments(false, true);
+  }
+
+  get offset(): number {
+    return this.position;
+  }
+
+  private parseSegments(implicitRoot: boolean, relative: boolean = false): Segment[] {
+    const segments: Segment[] = [];
+
+    if (implicitRoot) {
+      segments.push({ descendant: false, selectors: [{ type: 'name', name: this.readName() }] });
+    }
+
+    while (this.position < this.path.length) {
+      const char = this.path[this.position];
+
+      if (this.path.startsWith('..', this.position)) {
+        this.position += 2;
+        if (this.path[this.position] === '[') {
+          segments.push({ descendant: true, selectors: this.parseBracket() });
+        } else {
+          segments.push({ descendant: true, selectors: [this.readDotSelector()] });
+        }
+      } else if (char === '.') {
+        this.position++;
+        segments.push({ descendant: false, selectors: [this.readDotSelector()] });
+      } else if (char === '[') {
+        segments.push({ descendant: false, selectors: this.parseBracket() });
+      } else if (relative) {
+        break;
+      } else {
+        throw pathError(this.path, `unexpected "${char}"`, this.position);
+      }
+    }
+
+    return segments;
+  }
+
+  private readDotSelector(): Selector {
+    if (this.path[this.position] === '*') {
+      this.position++;
+      return { type: 'wildcard' };
+    }
+    return { type: 'name', name: this.readName() };
+  }
+
+  private readName(): string {
+    const match = /^[^.\[\]\s()=!<>,'"]+/.exec(this.path.slice(this.position));
+    if (!match) {
+      throw pathError(this.path, 'expected a member name', this.position);
+    }
+    this.position += match[0].length;
+    return match[0];
+  }
+
+  private parseBracket(): Selector[] {
+    this.position++;
+    this.skipSpaces();
+
+    if (this.path[this.position] === '?') {
+      const filter = this.parseFilter();
+      this.expect(']');
+      return [filter];
+    }
+
+    const selectors: Selector[] = [];
+
+    while (true) {
+      this.skipSpaces();
+      selectors.push(this.parseBracketSelector());
+      this.skipSpaces();
+
+      if (this.path[this.position] === ',') {
+        this.position++;
+        continue;
+      }
+      this.expect(']');
+      return selectors;
+    }
+  }
+
+  private parseBracketSelector(): Selector {
+    const char = this.path[this.position];
+
+    if (char === '*') {
+      this.position++;
+      return { type: 'wildcard' };
+    }
+
+    if (char === '\'' || char === '"') {
+      return { type: 'name', name: this.readString() };
+    }
+
+    const match = /^(-?\d*)\s*(?::\s*(-?\d*)\s*(?::\s*(-?\d*))?)?/.exec(this.path.slice(this.position));
+    if (!match || match[0].length === 0) {
+      throw pathError(this.path, 'expected an index, slice, name or *', this.position);
+    }
+    this.position += match[0].length;
+
+    if (!match[0].includes(':')) {
+      if (!/^-?\d+$/.test(match[1])) {
+        throw pathError(this.path, 'expected an index', this.position);
+      }
+      return { type: 'index', index: parseInt(match[1]) };
+    }
+
+    const step = match[3] ? parseInt(match[3]) : 1;
+    if (!(step > 0)) {
+      throw pathError(this.path, 'slice step must be positive', this.position);
+    }
+
+    return {
+      type: 'slice',
+      start: match[1] ? parseInt(match[1]) : undefined,
+      end: match[2] ? parseInt(match[2]) : undefined,
+      step
+    };
+  }
+
+  private parseFilter(): Selector {
+    this.position++;
+    this.expect('(');
+    this.skipSpaces();
+
+    if (this.path[this.position] !== '@') {
+      throw pathError(this.path, 'filters must start with @', this.position);
+    }
+
+    const relative = new PathParser(this.path.slice(this.position), '@');
+    const path = relative.parseRelative();
+    this.position += relative.offset;
+    this.skipSpaces();
+
+    const operator = /^(==|!=|<=|>=|<|>)/.exec(this.path.slice(this.position))?.[1] as FilterOperator | undefined;
+    let value: any;
+
+    if (operator) {
+      this.position += operator.length;
+      this.skipSpaces();
+      value = this.readLiteral();
+      this.skipSpaces();
+    }
+
+    this.expect(')');
+    return { type: 'filter', path, operator, value };
+  }
+
+  private readLiteral(): any {
+    const char = this.path[this.position];
+
+    if (char === '\'' || char === '"') {
+      return this.readString();
+    }
+
+    const match = /^(-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null)/.exec(this.path.slice(this.position));
+    if (!match) {
+      throw pathError(this.path, 'expected a string, number, boolean or null', this.position);
+    }
+    this.position += match[0].length;
+    return JSON.parse(match[0]);
+  }
+
+  private readString(): string {
+    const quote = this.path[this.position++];
+    let value = '';
+
+    while (this.position < this.path.length && this.path[this.position] !== quote) {
+      if (this.path[this.position] === '\\') {
+        this.position++;
+      }
+      value += this.path[this.position++];
+    }
+
+    if (this.position >= this.path.length) {
+      throw pathError(this.path, 'unterminated string', this.position);
+    }
+    this.position++;
+    return value;
+  }
+
+  private expect(char: string): void {
+    this.skipSpaces();
+    if (this.path[this.position] !== char) {
+      throw pathError(this.path, `expected "${char}"`, this.position);
+    }
+    this.position++;
+  }
+
+  private skipSpaces(): void {
+    while (this.path[this.position] === ' ') this.position++;
+  }
+}
+
+/**
+ * Parse a JSONPath, throwing a descriptive error for invalid ones
+ */
+export function parseJsonPath(path: string): Segment[] {
+  const cached = parsedPaths.get(path);
+  if (cached) return cached;
+
+  if (typeof path !== 'string' || path.trim().length === 0) {
+    throw new Error('JSONPath must be a non-empty string');
+  }
+  if (path.length > MAX_PATH_LENGTH) {
+    throw new Error(`JSONPath is longer than ${MAX_PATH_LENGTH} characters`);
+  }
+
+  const segments = new PathParser(path.trim(), '$').parse();
+
+  if (parsedPaths.size >= MAX_CACHED_PATHS) {
+    parsedPaths.delete(parsedPaths.keys().next().value as string);
+  }
+  parsedPaths.set(path, segments);
+
+  return segments;
+}
+
+function readMember(value: any, name: string): any[] {
+  if (value === null || typeof value !== 'object' || BLOCKED_PROPERTIES.has(name)) return [];
+  return Object.prototype.hasOwnProperty.call(value, name) ? [value[name]] : [];
+}
+
+function children(value: any): any[] {
+  if (Array.isArray(value)) return value;
+  if (value !== null && typeof value === 'object') return Object.values(value);
+  return [];
+}
+
+function compare(actual: any, operator: FilterOperator, expected: any): boolean {
+  switch (operator) {
+    case '==': return actual === expected;
+    case '!=': return actual !== expected;
+    case '<': return typeof actual === typeof expected && actual < expected;
+    case '<=': return typeof actual === typeof expected && actual <= expected;
+    case '>': return typeof actual === typeof expected && actual > expected;
+    case '>=': return typeof actual === typeof expected && actual >= expected;
+  }
+}
+
+function select(value: any, selector: Selector): any[] {
+  switch (selector.type) {
+    case 'name':
+      return readMember(value, selector.name);
+    case 'wildcard':
+      return children(value);
+    case 'index': {
+      if (!Array.isArray(value)) return [];
+      const index = selector.index < 0 ? value.length + selector.index : selector.index;
+      return index >= 0 && index < value.length ? [value[index]] : [];
+    }
+    case 'slice': {
+      if (!Array.isArray(value)) return [];
+      const clamp = (index: number) => Math.min(Math.max(index < 0 ? value.length + index : index, 0), value.length);
+      const start = selector.start === undefined ? 0 : clamp(selector.start);
+      const end = selector.end === undefined ? value.length : clamp(selector.end);
+      return value.slice(start, end).filter((_, i) => i % selector.step === 0);
+    }
+    case 'filter':
+      return children(value).filter(item => {
+        const matches = evaluate(item, selector.path);
+        if (!selector.operator) return matches.length > 0;
+        return matches.some(match => compare(match, selector.operator!, selector.value));
+      });
+  }
+}
+
+function descendants(value: any): any[] {
+  const all = [value];
+  for (const child of children(value)) {
+    all.push(...descendants(child));
+  }
+  return all;
+}
+
+function evaluate(value: any, segments: Segment[]): any[] {
+  let current = [value];
+
+  for (const segment of segments) {
+    const inputs = segment.descendant ? current.flatMap(descendants) : current;
+    current = inputs.flatMap(input => segment.selectors.flatMap(selector => select(input, selector)));
+  }
+
+  return current;
+}
+
+/**
+ * Every value a JSONPath selects, in document order
+ */
+export function queryJsonPath(value: any, path: string): any[] {
+  return evaluate(value, parseJsonPath(path));
+}
+
+/**
+ * Whether a path can only ever select a single value (no wildcards, slices,
+ * filters, unions or recursive descent)
+ */
+export function isSingularJsonPath(path: string): boolean {
+  return parseJsonPath(path).every(segment =>
+    !segment.descendant &&
+    segment.selectors.length === 1 &&
+    (segment.selectors[0].type === 'name' || segment.selectors[0].type === 'index')
+  );
+}
@@ -0,0 +1,849 @@
+import { createClient } from '@supabase/supabase-js';
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import dotenv from 'dotenv';
+import { createEmbedder, Embedder, LocalEmbedder } from './embedder';
+import { VectorIndex, cosineSimilarity } from './vectorIndex';
+import { httpError } from '../utils/httpError';
+
+// Load environment variables
+dotenv.config();
+
+// Initialize Supabase
+const supabaseUrl = process.env.SUPABASE_URL as string;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY as string;
+let supabase: ReturnType<typeof createClient> | undefined;
+
+if (supabaseUrl && supabaseKey && !supabaseUrl.includes('your_') && !supabaseKey.includes('your_')) {
+  supabase = createClient(supabaseUrl, supabaseKey);
+  console.log('✅ Knowledge service initialized with Supabase database');
+} else {
+  console.log('⚠️ Knowledge service initialized without database persistence');
+}
+
+// Target chunk length in characters; a chunk only exceeds it when a single sentence does
+const KNOWLEDGE_CHUNK_SIZE = Math.max(200, parseInt(process.env.KNOWLEDGE_CHUNK_SIZE || '1200'));
+
+const KNOWLEDGE_MAX_DOCUMENT_BYTES = parseInt(process.env.KNOWLEDGE_MAX_DOCUMENT_BYTES || String(5 * 1024 * 1024));
+
+// Chunks less similar than this to the query are never returned
+const DEFAULT_MIN_SIMILARITY = 0.15;
+
+export const KNOWLEDGE_FORMATS: KnowledgeFormat[] = ['markdown', 'text', 'csv', 'json'];
+
+const EXTENSION_FORMATS: Record<string, KnowledgeFormat> = {
+  md: 'markdown',
+  markdown: 'markdown',
+  txt: 'text',
+  text: 'text',
+  csv: 'csv',
+  json: 'json'
+};
+
+// In-memory fallback store
+const documentRegistry: Record<string, KnowledgeDocument> = {};
+const versionRegistry: Record<string, KnowledgeDocumentVersion[]> = {};
+
+/**
+ * Guild-level knowledge base. Documents belong to a guild and are shared by all
+ * of its agents; every content change creates a new document version.
+ * Documents are stored (with their version history) in Supabase, while chunks
+ * and their vectors are derived from the current version and rebuilt per guild
+ * on first use after a restart.
+ */
+class KnowledgeService {
+  private embedder: Embedder = createEmbedder();
+  private localEmbedder = new LocalEmbedder();
+  private vectorIndex = new VectorIndex();
+  private chunks: Record<string, Record<string, KnowledgeChunk>> = {};
+  // Guilds whose chunks have been built since startup
+  private loadedGuilds: Map<string, Promise<void>> = new Map();
+
+  constructor() {
+    console.log('📚 Knowledge Service initialized');
+  }
+
+  /**
+   * Add a document to a guild's knowledge base
+   */
+  public async createDocument(guildId: string, input: KnowledgeDocumentInput): Promise<KnowledgeDocument> {
+    if (!guildId) {
+      throw httpError('Guild ID is required');
+    }
+
+    const content = this.normalizeContent(input.content);
+    const format = this.resolveFormat(input.format, input.filename, content);
+    const title = (input.title || input.filename || '').trim() || `Untitled ${format} document`;
+    this.validateContent(content, format);
+
+    await this.ensureGuildLoaded(guildId);
+
+    const now = new Date().toISOString();
+    const document: KnowledgeDocument = {
+      id: uuidv4(),
+      guild_id: guildId,
+      title,
+      format,
+      filename: input.filename,
+      content,
+      checksum: checksum(content),
+      size: Buffer.byteLength(content),
+      version: 1,
+      chunk_count: 0,
+      metadata: input.metadata || {},
+      created_by: input.author,
+      updated_by: input.author,
+      created_at: now,
+      updated_at: now
+    };
+
+    document.chunk_count = await this.indexDocument(document);
+    await this.saveDocument(document, true);
+
+    console.log(`📚 Document "${title}" added to guild ${guildId} (${document.chunk_count} chunks)`);
+    return document;
+  }
+
+  /**
+   * Update a document. A change to its content, format or title creates a new
+   * version; metadata-only changes keep the current version.
+   */
+  public async updateDocument(documentId: string, input: Partial<KnowledgeDocumentInput>): Promise<KnowledgeDocument> {
+    const current = await this.getDocument(documentId);
+    if (!current) {
+      throw httpError(`Document not found: ${documentId}`, 404);
+    }
+
+    await this.ensureGuildLoaded(current.guild_id);
+
+    const content = input.content !== undefined ? this.normalizeContent(input.content) : current.content;
+    const format = input.format || input.filename
+      ? this.resolveFormat(input.format, input.filename, content)
+      : current.format;
+    const title = input.title !== undefined ? input.title.trim() || current.title : current.title;
+    this.validateContent(content, format);
+
+    const changed = content !== current.content || format !== current.format || title !== current.title;
+
+    const document: KnowledgeDocument = {
+      ...current,
+      title,
+      format,
+      filename: input.filename ?? current.filename,
+      content,
+      checksum: checksum(content),
+      size: Buffer.byteLength(content),
+      version: changed ? current.version + 1 : current.version,
+      metadata: input.metadata !== undefined ? input.metadata : current.metadata,
+      updated_by: input.author ?? current.updated_by,
+      updated_at: new Date().toISOString()
+    };
+
+    if (changed) {
+      this.removeChunks(current);
+      document.chunk_count = await this.indexDocument(document);
+    }
+
+    await this.saveDocument(document, changed);
+
+    console.log(`📚 Document ${documentId} updated${changed ? ` to version ${document.version}` : ''}`);
+    return document;
+  }
+
+  /**
+   * Make an earlier version current again (as a new version, so history is kept)
+   */
+  public async restoreVersion(documentId: string, version: number, author?: string): Promise<KnowledgeDocument> {
+    const previous = await this.getVersion(documentId, version);
+    if (!previous) {
+      throw httpError(`Version ${version} of document ${documentId} not found`, 404);
+    }
+
+    return this.updateDocument(documentId, {
+      title: previous.title,
+      format: previous.format,
+      content: previous.content,
+      author
+    });
+  }
+
+  /**
+   * Delete a document with all of its versions
+   */
+  public async deleteDocument(documentId: string): Promise<boolean> {
+    const document = await this.getDocument(documentId);
+    if (!document) return false;
+
+    if (supabase) {
+      const { error } = await supabase
+        .from('knowledge_documents')
+        .delete()
+        .eq('id', documentId);
+
+      if (error) {
+        console.error('❌ Failed to delete knowledge document:', error);
+        throw error;
+      }
+    }
+
+    this.removeChunks(document);
+    delete documentRegistry[documentId];
+    delete versionRegistry[documentId];
+
+    console.log(`🗑️ Document ${documentId} deleted from guild ${document.guild_id}`);
+    return true;
+  }
+
+  public async getDocument(documentId: string): Promise<KnowledgeDocument | null> {
+    if (supabase) {
+      try {
+        const { data, error } = await supabase
+          .from('knowledge_documents')
+          .select('document')
+          .eq('id', documentId)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (data) return (data as any).document;
+      } catch (error) {
+        console.error('❌ Failed to load knowledge document:', error);
+      }
+    }
+
+    return documentRegistry[documentId] || null;
+  }
+
+  /**
+   * A guild's documents, most recently updated first, without their content
+   */
+  public async listDocuments(guildId: string): Promise<KnowledgeDocumentSummary[]> {
+    const documents = await this.loadGuildDocuments(guildId);
+
+    return documents
+      .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+      .map(({ content, ...summary }) => summary);
+  }
+
+  /**
+   * Version history of a document, newest first, without content
+   */
+  public async listVersions(documentId: string): Promise<Omit<KnowledgeDocumentVersion, 'content'>[]> {
+    const versions = await this.loadVersions(documentId);
+    return versions.map(({ content, ...summary }) => summary);
+  }
+
+  public async getVersion(documentId: string, version: number): Promise<KnowledgeDocumentVersion | null> {
+    const versions = await this.loadVersions(documentId);
+    return versions.find(entry => entry.version === version) || null;
+  }
+
+  /**
+   * The chunks of a guild's knowledge base most relevant to a query
+   */
+  public async search(
+    guildId: string,
+    query: string,
+    options: KnowledgeSearchOptions = {}
+  ): Promise<KnowledgeSearchResult[]> {
+    if (!query || !query.trim()) return [];
+
+    await this.ensureGuildLoaded(guildId);
+
+    const chunks = Object.values(this.chunks[guildId] || {}).filter(chunk =>
+      !options.documentIds || options.documentIds.includes(chunk.document_id)
+    );
+    if (chunks.length === 0) return [];
+
+    const minSimilarity = options.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+    const similarities = await this.getSimilarities(guildId, query, chunks);
+
+    return chunks
+      .map(chunk => ({ chunk, similarity: similarities.get(chunk.id) ?? 0 }))
+      .filter(result => result.similarity >= minSimilarity)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, options.limit || 5)
+      .map(({ chunk, similarity }) => ({
+        chunk,
+        similarity,
+        source: {
+          document_id: chunk.document_id,
+          title: chunk.title,
+          version: chunk.version,
+          section: chunk.section,
+          location: chunk.location
+        }
+      }));
+  }
+
+  /**
+   * Human-readable citation for a search result, e.g. `Refund Policy (v3) › Exceptions`
+   */
+  public formatCitation(source: KnowledgeSource): string {
+    return [`${source.title} (v${source.version})`, source.section, source.location]
+      .filter(Boolean)
+      .join(' › ');
+  }
+
+  /**
+   * Cosine similarity of each chunk to the query; falls back to the local
+   * embedder for this search if the configured one is unreachable
+   */
+  private async getSimilarities(guildId: string, query: string, chunks: KnowledgeChunk[]): Promise<Map<string, number>> {
+    try {
+      const missing = chunks.filter(chunk => this.vectorIndex.get(guildId, chunk.id)?.embedderId !== this.embedder.id);
+      if (missing.length > 0) {
+        await this.embedChunks(guildId, missing);
+      }
+
+      const [queryVector] = await this.embedder.embed([query]);
+      const matches = this.vectorIndex.query(guildId, queryVector, this.embedder.id, {
+        ids: chunks.map(chunk => chunk.id)
+      });
+
+      return new Map(matches.map(match => [match.id, match.similarity]));
+    } catch (error) {
+      console.warn(`⚠️ Knowledge embedder ${this.embedder.id} failed, ranking with local embedder: ${error}`);
+
+      const queryVector = this.localEmbedder.embedOne(query);
+      return new Map(chunks.map(chunk => [
+        chunk.id,
+        cosineSimilarity(queryVector, this.localEmbedder.embedOne(this.getEmbeddingText(chunk)))
+      ]));
+    }
+  }
+
+  /**
+   * Chunk a document's current version and add the chunks to its guild's index.
+   * Embedding failures only log: the next search embeds whatever is missing.
+   */
+  private async indexDocument(document: KnowledgeDocument): Promise<number> {
+    const chunks = chunkDocument(document.content, document.format).map((chunk, index) => ({
+      id: `${document.id}:${document.version}:${index}`,
+      document_id: document.id,
+      guild_id: document.guild_id,
+      title: document.title,
+      version: document.version,
+      index,
+      ...chunk
+    }));
+
+    const guildChunks = this.chunks[document.guild_id] = this.chunks[document.guild_id] || {};
+    chunks.forEach(chunk => {
+      guildChunks[chunk.id] = chunk;
+    });
+
+    try {
+      await this.embedChunks(document.guild_id, chunks);
+    } catch (error) {
+      console.warn(`⚠️ Failed to embed document ${document.id}: ${error}`);
+    }
+
+    return chunks.length;
+  }
+
+  private async embedChunks(guildId: string, chunks: KnowledgeChunk[]): Promise<void> {
+    if (chunks.length === 0) return;
+
+    const vectors = await this.embedder.embed(chunks.map(chunk => this.getEmbeddingText(chunk)));
+    chunks.forEach((chunk, index) => {
+      this.vectorIndex.upsert(guildId, { id: chunk.id, vector: vectors[index], embedderId: this.embedder.id });
+    });
+  }
+
+  /**
+   * Title and section are embedded with the text so chunks match queries about their topic
+   */
+  private getEmbeddingText(chunk: KnowledgeChunk): string {
+    return [chunk.title, chunk.section, chunk.text].filter(Boolean).join('\n');
+  }
+
+  private removeChunks(document: KnowledgeDocument): void {
+    const guildChunks = this.chunks[document.guild_id] || {};
+
+    Object.values(guildChunks)
+      .filter(chunk => chunk.document_id === document.id)
+      .forEach(chunk => {
+        delete guildChunks[chunk.id];
+        this.vectorIndex.remove(document.guild_id, chunk.id);
+      });
+  }
+
+  /**
+   * Build a guild's chunks from its stored documents once per process
+   */
+  private ensureGuildLoaded(guildId: string): Promise<void> {
+    let loading = this.loadedGuilds.get(guildId);
+
+    if (!loading) {
+      loading = (async () => {
+        const documents = await this.loadGuildDocuments(guildId);
+        for (const document of documents) {
+          if (!Object.values(this.chunks[guildId] || {}).some(chunk => chunk.document_id === document.id)) {
+            await this.indexDocument(document);
+          }
+        }
+      })();
+
+      // Let a later call retry if loading failed
+      loading.catch(() => this.loadedGuilds.delete(guildId));
+      this.loadedGuilds.set(guildId, loading);
+    }
+
+    return loading;
+  }
+
+  private async loadGuildDocuments(guildId: string): Promise<KnowledgeDocument[]> {
+    if (supabase) {
+      try {
+        const { data, error } = await supabase
+          .from('knowledge_documents')
+          .select('document')
+          .eq('guild_id', guildId);
+
+        if (error) throw error;
+        return (data as any[] || []).map(row => row.document);
+      } catch (error) {
+        console.error('❌ Failed to load knowledge documents:', error);
+      }
+    }
+
+    return Object.values(documentRegistry).filter(document => document.guild_id === guildId);
+  }
+
+  private async loadVersions(documentId: string): Promise<KnowledgeDocumentVersion[]> {
+    if (supabase) {
+      try {
+        const { data, error } = await supabase
+          .from('knowledge_document_versions')
+          .select('version_data')
+          .eq('document_id', documentId)
+          .order('version', { ascending: false });
+
+        if (error) throw error;
+        return (data as any[] || []).map(row => row.version_data);
+      } catch (error) {
+        console.error('❌ Failed to load knowledge document versions:', error);
+      }
+    }
+
+    return [...(versionRegistry[documentId] || [])].sort((a, b) => b.version - a.version);
+  }
+
+  /**
+   * Persist the document and, when its version changed, a snapshot of that version
+   */
+  private async saveDocument(document: KnowledgeDocument, newVersion: boolean): Promise<void> {
+    const version: KnowledgeDocumentVersion = {
+      document_id: document.id,
+      version: document.version,
+      title: document.title,
+      format: document.format,
+      content: document.content,
+      checksum: document.checksum,
+      size: document.size,
+      chunk_count: document.chunk_count,
+      created_by: document.updated_by,
+      created_at: document.updated_at
+    };
+
+    if (supabase) {
+      const { error } = await supabase
+        .from('knowledge_documents')
+        .upsert({
+          id: document.id,
+          guild_id: document.guild_id,
+          title: document.title,
+          version: document.version,
+          document,
+          updated_at: document.updated_at
+        } as any);
+
+      if (error) {
+        console.error('❌ Failed to save knowledge document:', error);
+        throw error;
+      }
+
+      if (newVersion) {
+        const { error: versionError } = await supabase
+          .from('knowledge_document_versions')
+          .insert({
+            document_id: document.id,
+            version: document.version,
+            version_data: version
+          } as any);
+
+        if (versionError) {
+          console.error('❌ Failed to save knowledge document version:', versionError);
+          throw versionError;
+        }
+      }
+    }
+
+    documentRegistry[document.id] = document;
+    if (newVersion) {
+      versionRegistry[document.id] = [...(versionRegistry[document.id] || []), version];
+    }
+  }
+
+  /**
+   * JSON documents may be uploaded as parsed values; everything is stored as text
+   */
+  private normalizeContent(content: any): string {
+    if (content === undefined || content === null) {
+      throw httpError('Document content is required');
+    }
+
+    return typeof content === 'string' ? content : JSON.stringify(content, null, 2);
+  }
+
+  private resolveFormat(format: string | undefined, filename: string | undefined, content: string): KnowledgeFormat {
+    if (format) {
+      const normalized = EXTENSION_FORMATS[format.toLowerCase()] || format.toLowerCase();
+      if (!KNOWLEDGE_FORMATS.includes(normalized as KnowledgeFormat)) {
+        throw httpError(`Unsupported document format: ${format}. Use one of: ${KNOWLEDGE_FORMATS.join(', ')}`);
+      }
+      return normalized as KnowledgeFormat;
+    }
+
+    const extension = filename?.split('.').pop()?.toLowerCase();
+    if (extension && EXTENSION_FORMATS[extension]) {
+      return EXTENSION_FORMATS[extension];
+    }
+
+    const trimmed = content.trim();
+    if (/^[[{]/.test(trimmed)) {
+      try {
+        JSON.parse(trimmed);
+        return 'json';
+      } catch {
+        // Not JSON after all
+      }
+    }
+
+    return /^#{1,6}\s/m.test(content) ? 'markdown' : 'text';
+  }
+
+  private validateContent(content: string, format: KnowledgeFormat): void {
+    if (!content.trim()) {
+      throw httpError('Document content is required');
+    }
+    if (Buffer.byteLength(content) > KNOWLEDGE_MAX_DOCUMENT_BYTES) {
+      throw httpError(`Document is larger than ${KNOWLEDGE_MAX_DOCUMENT_BYTES} bytes`);
+    }
+    if (format === 'json') {
+      try {
+        JSON.parse(content);
+      } catch (error: any) {
+        throw httpError(`Invalid JSON document: ${error.message}`);
+      }
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Chunking
+// ---------------------------------------------------------------------------
+
+interface ChunkDraft {
+  text: string;
+  // Heading path (markdown) the chunk falls under
+  section?: string;
+  // Where in the document the chunk came from, e.g. "rows 2-40" or "$.plans[1]"
+  location?: string;
+}
+
+function chunkDocument(content: string, format: KnowledgeFormat): ChunkDraft[] {
+  switch (format) {
+    case 'markdown':
+      return chunkMarkdown(content);
+    case 'csv':
+      return chunkCsv(content);
+    case 'json':
+      return chunkJson(JSON.parse(content));
+    default:
+      return packBlocks(splitParagraphs(content)).map(text => ({ text }));
+  }
+}
+
+/**
+ * Split on headings so chunks never straddle sections, tracking the heading path
+ */
+function chunkMarkdown(content: string): ChunkDraft[] {
+  const chunks: ChunkDraft[] = [];
+  const headings: string[] = [];
+  let lines: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const section = headings.filter(Boolean).join(' › ') || undefined;
+    packBlocks(splitParagraphs(lines.join('\n'))).forEach(text => chunks.push({ text, section }));
+    lines = [];
+  };
+
+  content.split(/\r?\n/).forEach(line => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+
+    const heading = !inFence && line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      headings.splice(level - 1);
+      headings[level - 1] = heading[2];
+      return;
+    }
+
+    lines.push(line);
+  });
+
+  flush();
+  return chunks;
+}
+
+/**
+ * Each row becomes a `column: value` line so chunks read on their own
+ */
+function chunkCsv(content: string): ChunkDraft[] {
+  const rows = parseCsv(content).filter(row => row.some(cell => cell.trim()));
+  if (rows.length === 0) return [];
+
+  const [header, ...records] = rows;
+  if (records.length === 0) {
+    return [{ text: header.join(', '), location: 'row 1' }];
+  }
+
+  const lines = records.map((record, index) => ({
+    row: index + 2,
+    text: header
+      .map((column, column_index) => `${column || `column ${column_index + 1}`}: ${record[column_index] ?? ''}`)
+      .join('; ')
+  }));
+
+  const chunks: ChunkDraft[] = [];
+  let batch: typeof lines = [];
+  let length = 0;
+
+  const flush = () => {
+    if (batch.length === 0) return;
+    const first = batch[0].row;
+    const last = batch[batch.length - 1].row;
+    chunks.push({
+      text: batch.map(line => line.text).join('\n'),
+      location: first === last ? `row ${first}` : `rows ${first}-${last}`
+    });
+    batch = [];
+    length = 0;
+  };
+
+  lines.forEach(line => {
+    if (length > 0 && length + line.text.length > KNOWLEDGE_CHUNK_SIZE) flush();
+    batch.push(line);
+    length += line.text.length + 1;
+  });
+
+  flush();
+  return chunks;
+}
+
+/**
+ * RFC 4180 CSV: quoted fields may contain commas, quotes ("") and newlines
+ */
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Top-level entries (array items or object keys) become chunks of `path: value` lines
+ */
+function chunkJson(value: any): ChunkDraft[] {
+  const entries: Array<{ path: string; value: any }> = Array.isArray(value)
+    ? value.map((item, index) => ({ path: `$[${index}]`, value: item }))
+    : value && typeof value === 'object'
+      ? Object.entries(value).map(([key, item]) => ({ path: `$${jsonPathKey(key)}`, value: item }))
+      : [{ path: '$', value }];
+
+  const chunks: ChunkDraft[] = [];
+
+  entries.forEach(entry => {
+    const lines = flattenJson(entry.value, entry.path);
+    packBlocks(lines, '\n').forEach(text => chunks.push({ text, location: entry.path }));
+  });
+
+  return chunks;
+}
+
+function flattenJson(value: any, path: string): string[] {
+  if (Array.isArray(value)) {
+    if (value.length === 0) return [`${path}: []`];
+    return value.flatMap((item, index) => flattenJson(item, `${path}[${index}]`));
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value);
+    if (entries.length === 0) return [`${path}: {}`];
+    return entries.flatMap(([key, item]) => flattenJson(item, `${path}${jsonPathKey(key)}`));
+  }
+
+  return [`${path}: ${typeof value === 'string' ? value : JSON.stringify(value)}`];
+}
+
+function jsonPathKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `.${key}` : `[${JSON.stringify(key)}]`;
+}
+
+function splitParagraphs(text: string): string[] {
+  return text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Greedily pack blocks into chunks of up to KNOWLEDGE_CHUNK_SIZE characters,
+ * splitting blocks that are too long on sentence boundaries
+ */
+function packBlocks(blocks: string[], separator: string = '\n\n'): string[] {
+  const pieces = blocks.flatMap(block => block.length <= KNOWLEDGE_CHUNK_SIZE
+    ? [block]
+    : block.match(/[^.!?\n]+(?:[.!?]+|\n|$)\s*/g)?.map(sentence => sentence.trim()).filter(Boolean) || [block]);
+
+  const chunks: string[] = [];
+  let current = '';
+
+  pieces.forEach(piece => {
+    if (current && current.length + separator.length + piece.length > KNOWLEDGE_CHUNK_SIZE) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}${separator}${piece}` : piece;
+  });
+
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+function checksum(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+// Create singleton instance
+const knowledgeService = new KnowledgeService();
+
+export default knowledgeService;
+
+// Types
+export type KnowledgeFormat = 'markdown' | 'text' | 'csv' | 'json';
+
+export interface KnowledgeDocumentInput {
+  title?: string;
+  // Inferred from the filename extension or the content when omitted
+  format?: string;
+  filename?: string;
+  content: any;
+  metadata?: Record<string, any>;
+  author?: string;
+}
+
+export interface KnowledgeDocument {
+  id: string;
+  guild_id: string;
+  title: string;
+  format: KnowledgeFormat;
+  filename?: string;
+  content: string;
+  checksum: string;
+  size: number;
+  version: number;
+  chunk_count: number;
+  metadata: Record<string, any>;
+  created_by?: string;
+  updated_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type KnowledgeDocumentSummary = Omit<KnowledgeDocument, 'content'>;
+
+export interface KnowledgeDocumentVersion {
+  document_id: string;
+  version: number;
+  title: string;
+  format: KnowledgeFormat;
+  content: string;
+  checksum: string;
+  size: number;
+  chunk_count: number;
+  created_by?: string;
+  created_at: string;
+}
+
+export interface KnowledgeChunk {
+  id: string;
+  document_id: string;
+  guild_id: string;
+  title: string;
+  version: number;
+  index: number;
+  text: string;
+  section?: string;
+  location?: string;
+}
+
+export interface KnowledgeSource {
+  document_id: string;
+  title: string;
+  version: number;
+  section?: string;
+  location?: string;
+}
+
+export interface KnowledgeSearchOptions {
+  limit?: number;
+  minSimilarity?: number;
+  documentIds?: string[];
+}
+
+export interface KnowledgeSearchResult {
+  chunk: KnowledgeChunk;
+  similarity: number;
+  source: KnowledgeSource;
+}
@@ -0,0 +1,722 @@
+import { createClient } from '@supabase/supabase-js';
+import axios from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import dotenv from 'dotenv';
+import memoryService, { Memory } from './memoryService';
+import timerService, { parseDuration } from './timerService';
+import { httpError } from '../utils/httpError';
+
+// Load environment variables
+dotenv.config();
+
+// Initialize Supabase
+const supabaseUrl = process.env.SUPABASE_URL as string;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY as string;
+let supabase: ReturnType<typeof createClient> | undefined;
+
+if (supabaseUrl && supabaseKey && !supabaseUrl.includes('your_') && !supabaseKey.includes('your_')) {
+  supabase = createClient(supabaseUrl, supabaseKey);
+  console.log('✅ Memory consolidation service initialized with Supabase database');
+} else {
+  console.log('⚠️ Memory consolidation service initialized without database persistence');
+}
+
+const GEMINI_API_KEY = process.env.GEMINI_API_KEY || '';
+const MEMORY_SUMMARY_MODEL = process.env.MEMORY_SUMMARY_MODEL || 'gemini-1.5-flash';
+
+// How often the job runs ("off" disables it)
+const MEMORY_CONSOLIDATION_INTERVAL = process.env.MEMORY_CONSOLIDATION_INTERVAL || '1h';
+
+// Interactions older than this are short-term memories due for consolidation
+const MEMORY_SHORT_TERM_WINDOW_MS = parseDuration(process.env.MEMORY_SHORT_TERM_WINDOW || '24h') || 24 * 60 * 60 * 1000;
+
+// Most interactions summarized into a single reflection
+const MEMORY_CONSOLIDATION_BATCH_SIZE = Math.max(2, parseInt(process.env.MEMORY_CONSOLIDATION_BATCH_SIZE || '20'));
+
+// Same defaults the frontend applies to a new agent's memory_config
+const DEFAULT_MEMORY_POLICY: MemoryPolicy = {
+  short_term_enabled: true,
+  long_term_enabled: true,
+  memory_limit: 100,
+  retention_days: 365
+};
+
+// Reports kept in memory when there is no database
+const REPORT_HISTORY_LIMIT = 100;
+
+// Exchanges quoted verbatim in a summary; the rest are only counted
+const SUMMARY_MAX_EXCHANGES = 8;
+
+const TOPIC_STOPWORDS = new Set([
+  'the', 'and', 'for', 'you', 'your', 'are', 'was', 'were', 'this', 'that', 'with', 'have', 'has', 'had',
+  'but', 'not', 'can', 'could', 'would', 'should', 'will', 'what', 'when', 'where', 'which', 'who', 'how',
+  'about', 'from', 'into', 'just', 'like', 'they', 'them', 'their', 'there', 'then', 'than', 'been', 'being',
+  'our', 'out', 'its', 'also', 'any', 'all', 'some', 'more', 'very', 'please', 'thanks', 'thank', 'here',
+  'want', 'need', 'does', 'did', 'doing', 'get', 'got', 'let', 'know', 'sure', 'yes', 'okay'
+]);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// In-memory fallback store
+const reportHistory: ConsolidationReport[] = [];
+
+/**
+ * Background job that enforces each agent's memory_config:
+ * old short-term `interaction` memories are summarized into long-term
+ * `reflection` memories, memories past `retention_days` are purged and the
+ * least important are evicted once an agent holds more than `memory_limit`.
+ * Every run produces a report listing what was merged and what was deleted.
+ */
+class MemoryConsolidationService {
+  private running = false;
+  private policyOverrides: Record<string, Partial<MemoryPolicy>> = {};
+
+  constructor() {
+    console.log('🧠 Memory Consolidation Service initialized');
+  }
+
+  /**
+   * Start the periodic job. Called once the server is listening.
+   */
+  public initialize(): void {
+    const intervalMs = parseDuration(MEMORY_CONSOLIDATION_INTERVAL);
+
+    if (!intervalMs || intervalMs <= 0) {
+      console.log('ℹ️ Memory consolidation job disabled');
+      return;
+    }
+
+    const scheduleNext = () => {
+      timerService.schedule('memory-consolidation', new Date(Date.now() + intervalMs), async () => {
+        try {
+          if (!this.running) {
+            await this.run({ trigger: 'scheduled' });
+          }
+        } finally {
+          scheduleNext();
+        }
+      });
+    };
+
+    scheduleNext();
+    console.log(`🧠 Memory consolidation scheduled every ${MEMORY_CONSOLIDATION_INTERVAL}`);
+  }
+
+  /**
+   * Override an agent's memory policy, e.g. for agents that have no row in the
+   * agents table. Overrides win over the stored memory_config.
+   */
+  public setPolicy(agentId: string, policy: Partial<MemoryPolicy>): MemoryPolicy {
+    this.policyOverrides[agentId] = { ...this.policyOverrides[agentId], ...policy };
+    return this.normalizePolicy(this.policyOverrides[agentId]);
+  }
+
+  /**
+   * Run consolidation for the given agents (all agents with memories by default).
+   * A dry run reports what would change without touching any memory.
+   */
+  public async run(options: ConsolidationRunOptions = {}): Promise<ConsolidationReport> {
+    if (this.running) {
+      throw httpError('A memory consolidation run is already in progress', 409);
+    }
+
+    this.running = true;
+
+    const report: ConsolidationReport = {
+      id: uuidv4(),
+      trigger: options.trigger || 'manual',
+      dryRun: Boolean(options.dryRun),
+      status: 'completed',
+      startedAt: new Date().toISOString(),
+      agents: [],
+      totals: { agents: 0, reflections: 0, summarized: 0, deleted: 0 }
+    };
+
+    try {
+      const agentIds = options.agentIds?.length ? options.agentIds : await memoryService.listAgentIds();
+      const policies = await this.loadPolicies(agentIds);
+
+      for (const agentId of agentIds) {
+        const agentReport = await this.consolidateAgent(agentId, policies[agentId], report);
+        report.agents.push(agentReport);
+
+        report.totals.reflections += agentReport.merged.length;
+        report.totals.summarized += agentReport.merged.reduce((sum, merge) => sum + merge.sourceIds.length, 0);
+        report.totals.deleted += agentReport.deleted.length;
+      }
+
+      report.totals.agents = report.agents.length;
+    } catch (error: any) {
+      report.status = 'failed';
+      report.error = error.message;
+      console.error('❌ Memory consolidation failed:', error);
+    } finally {
+      report.finishedAt = new Date().toISOString();
+      this.running = false;
+    }
+
+    await this.saveReport(report);
+
+    console.log(
+      `🧠 Memory consolidation ${report.dryRun ? '(dry run) ' : ''}${report.status}: ` +
+      `${report.totals.reflections} reflections from ${report.totals.summarized} interactions, ` +
+      `${report.totals.deleted} memories deleted across ${report.totals.agents} agents`
+    );
+
+    return report;
+  }
+
+  /**
+   * Apply the policy to one agent: purge, then summarize, then evict
+   */
+  private async consolidateAgent(
+    agentId: string,
+    policy: MemoryPolicy,
+    run: ConsolidationReport
+  ): Promise<AgentConsolidationReport> {
+    const now = Date.now();
+    const memories = await memoryService.loadAgentMemories(agentId);
+    const agentReport: AgentConsolidationReport = {
+      agentId,
+      policy,
+      memoriesBefore: memories.length,
+      memoriesAfter: memories.length,
+      merged: [],
+      deleted: [],
+      errors: []
+    };
+
+    let remaining = [...memories];
+
+    const remove = async (memory: Memory, reason: DeletionReason) => {
+      remaining = remaining.filter(other => other.id !== memory.id);
+      agentReport.deleted.push({
+        memoryId: memory.id,
+        type: memory.type,
+        importance: memory.importance,
+        created_at: memory.created_at,
+        user_id: memory.user_id,
+        reason
+      });
+
+      if (!run.dryRun) {
+        await memoryService.deleteMemory(agentId, memory.id);
+      }
+    };
+
+    // 1. Purge what the policy no longer allows to exist
+    const retentionCutoff = now - policy.retention_days * 24 * 60 * 60 * 1000;
+
+    for (const memory of memories) {
+      if (memory.expires_at && memory.expires_at <= now) {
+        await remove(memory, 'expired');
+      } else if (memory.created_at < retentionCutoff) {
+        await remove(memory, 'retention');
+      } else if (!policy.short_term_enabled && memory.type === 'interaction') {
+        await remove(memory, 'short_term_disabled');
+      } else if (!policy.long_term_enabled && memory.type === 'reflection') {
+        await remove(memory, 'long_term_disabled');
+      }
+    }
+
+    // 2. Move old interactions into long-term memory (or drop them if there is none)
+    const shortTermCutoff = now - MEMORY_SHORT_TERM_WINDOW_MS;
+    const due = remaining.filter(memory => memory.type === 'interaction' && memory.created_at < shortTermCutoff);
+
+    if (!policy.long_term_enabled) {
+      for (const memory of due) {
+        await remove(memory, 'short_term_window');
+      }
+    } else {
+      for (const batch of this.groupForSummary(due)) {
+        try {
+          const { summary, summarizer } = await this.summarize(batch);
+          const sourceIds = batch.map(memory => memory.id);
+          const periodStart = new Date(batch[0].created_at).toISOString();
+          const periodEnd = new Date(batch[batch.length - 1].created_at).toISOString();
+          const importance = Math.max(...batch.map(memory => Number(memory.importance) || 0));
+          let reflectionId: string | null = null;
+
+          if (!run.dryRun) {
+            reflectionId = await memoryService.storeMemory(
+              agentId,
+              summary,
+              'reflection',
+              {
+                source_memory_ids: sourceIds,
+                source_count: sourceIds.length,
+                period_start: periodStart,
+                period_end: periodEnd,
+                consolidation_run_id: run.id,
+                summarizer
+              },
+              importance,
+              batch[0].user_id
+            );
+          }
+
+          agentReport.merged.push({
+            reflectionId,
+            sourceIds,
+            user_id: batch[0].user_id,
+            periodStart,
+            periodEnd,
+            summarizer,
+            summary
+          });
+
+          // Sources are only dropped once their reflection exists
+          for (const memory of batch) {
+            if (!run.dryRun) {
+              await memoryService.deleteMemory(agentId, memory.id);
+            }
+          }
+
+          const merged = new Set(sourceIds);
+          remaining = remaining.filter(memory => !merged.has(memory.id));
+          remaining.push({
+            id: reflectionId || `pending-${uuidv4()}`,
+            agent_id: agentId,
+            content: summary,
+            type: 'reflection',
+            importance,
+            created_at: now,
+            user_id: batch[0].user_id
+          });
+        } catch (error: any) {
+          agentReport.errors.push(`Failed to summarize ${batch.length} interactions: ${error.message}`);
+        }
+      }
+    }
+
+    // 3. Evict the least important (then oldest) memories over the limit
+    if (remaining.length > policy.memory_limit) {
+      const evictable = [...remaining]
+        .sort((a, b) => (Number(a.importance) || 0) - (Number(b.importance) || 0) || a.created_at - b.created_at)
+        .slice(0, remaining.length - policy.memory_limit);
+
+      for (const memory of evictable) {
+        if (memory.id.startsWith('pending-')) {
+          // A dry-run reflection; nothing stored to delete
+          remaining = remaining.filter(other => other.id !== memory.id);
+          continue;
+        }
+        await remove(memory, 'memory_limit');
+      }
+    }
+
+    agentReport.memoriesAfter = remaining.length;
+    return agentReport;
+  }
+
+  /**
+   * Split due interactions into batches of one user's conversations on one day
+   */
+  private groupForSummary(memories: Memory[]): Memory[][] {
+    const groups: Record<string, Memory[]> = {};
+
+    [...memories]
+      .sort((a, b) => a.created_at - b.created_at)
+      .forEach(memory => {
+        const day = new Date(memory.created_at).toISOString().slice(0, 10);
+        const key = `${memory.user_id || ''}|${day}`;
+        (groups[key] = groups[key] || []).push(memory);
+      });
+
+    const batches: Memory[][] = [];
+    Object.values(groups).forEach(group => {
+      for (let i = 0; i < group.length; i += MEMORY_CONSOLIDATION_BATCH_SIZE) {
+        batches.push(group.slice(i, i + MEMORY_CONSOLIDATION_BATCH_SIZE));
+      }
+    });
+
+    return batches;
+  }
+
+  /**
+   * Summarize a batch of interactions, with Gemini when configured and an
+   * extractive summary otherwise (or when Gemini fails)
+   */
+  private async summarize(batch: Memory[]): Promise<{ summary: string; summarizer: string }> {
+    const exchanges = batch.map(memory => this.toExchange(memory));
+
+    if (GEMINI_API_KEY && !GEMINI_API_KEY.includes('your_')) {
+      try {
+        const transcript = exchanges
+          .map(exchange => exchange.agent ? `User: ${exchange.user}\nAgent: ${exchange.agent}` : exchange.user)
+          .join('\n\n');
+
+        const response = await axios.post(
+          `https://generativelanguage.googleapis.com/v1beta/models/${MEMORY_SUMMARY_MODEL}:generateContent`,
+          {
+            contents: [{
+              role: 'user',
+              parts: [{
+                text: 'Summarize these conversations between a user and an AI agent as a short reflection ' +
+                  'the agent can remember later. Keep facts, preferences, decisions and open issues; ' +
+                  'drop small talk. Answer with the reflection only.\n\n' + transcript
+              }]
+            }]
+          },
+          { params: { key: GEMINI_API_KEY }, timeout: 30000 }
+        );
+
+        const text = response.data?.candidates?.[0]?.content?.parts?.map((part: any) => part.text).join('').trim();
+        if (text) {
+          return { summary: text, summarizer: MEMORY_SUMMARY_MODEL };
+        }
+      } catch (error: any) {
+        console.warn(`⚠️ Gemini summary failed, using extractive summary: ${error.message}`);
+      }
+    }
+
+    return { summary: this.extractiveSummary(batch, exchanges), summarizer: 'extractive' };
+  }
+
+  /**
+   * Deterministic summary: recurring topics plus the most important exchanges
+   */
+  private extractiveSummary(batch: Memory[], exchanges: Array<{ user: string; agent: string }>): string {
+    const day = new Date(batch[0].created_at).toISOString().slice(0, 10);
+    const who = batch[0].user_id ? `user ${batch[0].user_id}` : 'users';
+    const lines = [`Reflection on ${batch.length} interaction${batch.length === 1 ? '' : 's'} with ${who} on ${day}.`];
+
+    const counts: Record<string, number> = {};
+    exchanges.forEach(exchange => {
+      new Set(`${exchange.user} ${exchange.agent}`.toLowerCase().match(/[a-z][a-z0-9']{2,}/g) || [])
+        .forEach(word => {
+          if (!TOPIC_STOPWORDS.has(word)) counts[word] = (counts[word] || 0) + 1;
+        });
+    });
+
+    const topics = Object.entries(counts)
+      .filter(([, count]) => count > 1 || batch.length === 1)
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, 6)
+      .map(([word]) => word);
+
+    if (topics.length > 0) {
+      lines.push(`Topics: ${topics.join(', ')}.`);
+    }
+
+    const selected = batch
+      .map((memory, index) => ({ memory, exchange: exchanges[index] }))
+      .sort((a, b) => (Number(b.memory.importance) || 0) - (Number(a.memory.importance) || 0) ||
+        a.memory.created_at - b.memory.created_at)
+      .slice(0, SUMMARY_MAX_EXCHANGES)
+      .sort((a, b) => a.memory.created_at - b.memory.created_at);
+
+    selected.forEach(({ exchange }) => {
+      lines.push(exchange.agent
+        ? `- User: ${truncate(exchange.user, 160)} / Agent: ${truncate(firstSentence(exchange.agent), 200)}`
+        : `- ${truncate(exchange.user, 240)}`);
+    });
+
+    if (batch.length > selected.length) {
+      lines.push(`(${batch.length - selected.length} more interactions not quoted.)`);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Interactions are stored as JSON by the agent service; anything else is plain text
+   */
+  private toExchange(memory: Memory): { user: string; agent: string } {
+    try {
+      const parsed = JSON.parse(memory.content);
+      if (parsed && typeof parsed === 'object' && (parsed.user_input || parsed.agent_response)) {
+        return { user: String(parsed.user_input || ''), agent: String(parsed.agent_response || '') };
+      }
+    } catch {
+      // Plain text content
+    }
+
+    return { user: memory.content, agent: '' };
+  }
+
+  /**
+   * Memory policies from the agents table, falling back to the defaults.
+   * Agent ids that aren't table ids (e.g. workflow node agents) get the defaults.
+   */
+  private async loadPolicies(agentIds: string[]): Promise<Record<string, MemoryPolicy>> {
+    const stored: Record<string, Partial<MemoryPolicy>> = {};
+    const tableIds = agentIds.filter(agentId => UUID_PATTERN.test(agentId));
+
+    if (supabase && tableIds.length > 0) {
+      try {
+        const { data, error } = await supabase
+          .from('agents')
+          .select('id, memory_config')
+          .in('id', tableIds);
+
+        if (error) throw error;
+
+        (data as any[] || []).forEach(row => {
+          stored[row.id] = row.memory_config || {};
+        });
+      } catch (error) {
+        console.error('❌ Failed to load agent memory configs:', error);
+      }
+    }
+
+    const policies: Record<string, MemoryPolicy> = {};
+    agentIds.forEach(agentId => {
+      policies[agentId] = this.normalizePolicy({ ...stored[agentId], ...this.policyOverrides[agentId] });
+    });
+
+    return policies;
+  }
+
+  private normalizePolicy(config: Partial<MemoryPolicy> = {}): MemoryPolicy {
+    const limit = Number(config.memory_limit);
+    const retention = Number(config.retention_days);
+
+    return {
+      short_term_enabled: config.short_term_enabled ?? DEFAULT_MEMORY_POLICY.short_term_enabled,
+      long_term_enabled: config.long_term_enabled ?? DEFAULT_MEMORY_POLICY.long_term_enabled,
+      memory_limit: Number.isFinite(limit) && limit >= 0 ? Math.floor(limit) : DEFAULT_MEMORY_POLICY.memory_limit,
+      retention_days: Number.isFinite(retention) && retention > 0 ? retention : DEFAULT_MEMORY_POLICY.retention_days
+    };
+  }
+
+  private async saveReport(report: ConsolidationReport): Promise<void> {
+    reportHistory.unshift(report);
+    reportHistory.splice(REPORT_HISTORY_LIMIT);
+
+    if (!supabase) return;
+
+    try {
+      const { error } = await supabase
+        .from('memory_consolidation_reports')
+        .insert({
+          id: report.id,
+          status: report.status,
+          dry_run: report.dryRun,
+          trigger: report.trigger,
+          started_at: report.startedAt,
+          finished_at: report.finishedAt,
+          report
+        } as any);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('❌ Failed to persist memory consolidation report:', error);
+    }
+  }
+
+  /**
+   * Past run reports, newest first. `agentId` keeps only runs that touched that agent.
+   */
+  public async listReports(options: { agentId?: string; limit?: number } = {}): Promise<ConsolidationReport[]> {
+    const limit = options.limit || 20;
+    let reports: ConsolidationReport[] = reportHistory;
+
+    if (supabase) {
+      try {
+        const { data, error } = await supabase
+          .from('memory_consolidation_reports')
+          .select('report')
+          .order('started_at', { ascending: false })
+          .limit(options.agentId ? Math.max(limit, REPORT_HISTORY_LIMIT) : limit);
+
+        if (error) throw error;
+        reports = (data as any[] || []).map(row => row.report);
+      } catch (error) {
+        console.error('❌ Failed to load memory consolidation reports:', error);
+      }
+    }
+
+    return reports
+      .filter(report => !options.agentId || report.agents.some(agent => agent.agentId === options.agentId))
+      .slice(0, limit);
+  }
+
+  /**
+   * Remove an end user from past reports: summaries of their conversations are
+   * blanked and their id dropped, leaving only memory ids and counts.
+   * Returns how many reports were changed.
+   */
+  public async forgetUser(userId: string): Promise<number> {
+    const scrub = (report: ConsolidationReport): boolean => {
+      let changed = false;
+
+      report.agents.forEach(agent => {
+        agent.merged.forEach(merge => {
+          if (merge.user_id === userId) {
+            merge.summary = '[forgotten]';
+            delete merge.user_id;
+            changed = true;
+          }
+        });
+        agent.deleted.forEach(memory => {
+          if (memory.user_id === userId) {
+            delete memory.user_id;
+            changed = true;
+          }
+        });
+      });
+
+      return changed;
+    };
+
+    const changedIds = new Set(reportHistory.filter(scrub).map(report => report.id));
+
+    if (supabase) {
+      try {
+        const [merged, deleted] = await Promise.all([
+          supabase.from('memory_consolidation_reports').select('id, report')
+            .contains('report', { agents: [{ merged: [{ user_id: userId }] }] }),
+          supabase.from('memory_consolidation_reports').select('id, report')
+            .contains('report', { agents: [{ deleted: [{ user_id: userId }] }] })
+        ]);
+
+        if (merged.error) throw merged.error;
+        if (deleted.error) throw deleted.error;
+
+        const rows = new Map<string, ConsolidationReport>();
+        [...(merged.data as any[] || []), ...(deleted.data as any[] || [])].forEach(row => rows.set(row.id, row.report));
+
+        for (const [id, report] of rows) {
+          if (!scrub(report)) continue;
+
+          const { error } = await supabase
+            .from('memory_consolidation_reports')
+            .update({ report } as any)
+            .eq('id', id);
+
+          if (error) throw error;
+          changedIds.add(id);
+        }
+      } catch (error) {
+        console.error('❌ Failed to remove user from memory consolidation reports:', error);
+        throw error;
+      }
+    }
+
+    return changedIds.size;
+  }
+
+  /**
+   * A report with only some agents' results, and totals over just those agents
+   */
+  public forAgents(report: ConsolidationReport, agentIds: string[]): ConsolidationReport {
+    const agents = report.agents.filter(agent => agentIds.includes(agent.agentId));
+
+    return {
+      ...report,
+      agents,
+      totals: {
+        agents: agents.length,
+        reflections: agents.reduce((sum, agent) => sum + agent.merged.length, 0),
+        summarized: agents.reduce((sum, agent) => sum + agent.merged.reduce((count, merge) => count + merge.sourceIds.length, 0), 0),
+        deleted: agents.reduce((sum, agent) => sum + agent.deleted.length, 0)
+      }
+    };
+  }
+
+  public async getReport(reportId: string): Promise<ConsolidationReport | null> {
+    const cached = reportHistory.find(report => report.id === reportId);
+    if (cached || !supabase) return cached || null;
+
+    try {
+      const { data, error } = await supabase
+        .from('memory_consolidation_reports')
+        .select('report')
+        .eq('id', reportId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return (data as any)?.report || null;
+    } catch (error) {
+      console.error('❌ Failed to load memory consolidation report:', error);
+      return null;
+    }
+  }
+}
+
+function truncate(text: string, length: number): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > length ? `${clean.slice(0, length - 1)}…` : clean;
+}
+
+function firstSentence(text: string): string {
+  const match = text.replace(/\s+/g, ' ').trim().match(/^.*?[.!?](\s|$)/);
+  return match ? match[0].trim() : text;
+}
+
+// Create singleton instance
+const memoryConsolidationService = new MemoryConsolidationService();
+
+export default memoryConsolidationService;
+
+// Types
+export interface MemoryPolicy {
+  short_term_enabled: boolean;
+  long_term_enabled: boolean;
+  memory_limit: number;
+  retention_days: number;
+}
+
+export interface ConsolidationRunOptions {
+  agentIds?: string[];
+  dryRun?: boolean;
+  trigger?: 'scheduled' | 'manual';
+}
+
+export type DeletionReason =
+  | 'expired'
+  | 'retention'
+  | 'memory_limit'
+  | 'short_term_disabled'
+  | 'long_term_disabled'
+  // Old interactions dropped because the agent has no long-term memory to move them to
+  | 'short_term_window';
+
+export interface MergedMemories {
+  // null on dry runs
+  reflectionId: string | null;
+  sourceIds: string[];
+  user_id?: string;
+  periodStart: string;
+  periodEnd: string;
+  summarizer: string;
+  summary: string;
+}
+
+export interface DeletedMemory {
+  memoryId: string;
+  type: string;
+  importance: number;
+  created_at: number;
+  user_id?: string;
+  reason: DeletionReason;
+}
+
+export interface AgentConsolidationReport {
+  agentId: string;
+  policy: MemoryPolicy;
+  memoriesBefore: number;
+  memoriesAfter: number;
+  merged: MergedMemories[];
+  deleted: DeletedMemory[];
+  errors: string[];
+}
+
+export interface ConsolidationReport {
+  id: string;
+  trigger: 'scheduled' | 'manual';
+  dryRun: boolean;
+  status: 'completed' | 'failed';
+  startedAt: string;
+  finishedAt?: string;
+  agents: AgentConsolidationReport[];
+  totals: {
+    agents: number;
+    // Reflections created and the interactions summarized into them
+    reflections: number;
+    summarized: number;
+    deleted: number;
+  };
+  error?: string;
+}
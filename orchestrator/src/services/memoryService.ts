@@ -1,6 +1,9 @@
 import { createClient as createRedisClient, RedisClientType } from 'redis';
 import { v4 as uuidv4 } from 'uuid';
 import dotenv from 'dotenv';
+import { createEmbedder, Embedder, LocalEmbedder } from './embedder';
+import { VectorIndex, cosineSimilarity } from './vectorIndex';
+import { httpError } from '../utils/httpError';
 
 // Load environment variables
 dotenv.config();
@@ -8,8 +11,20 @@ dotenv.config();
 // Redis URL from environment
 const REDIS_URL = process.env.REDIS_URL || 'redis://localhost:6379';
 
+// How quickly recency stops counting in search scores
+const MEMORY_RECENCY_HALF_LIFE_HOURS = Math.max(1, Number(process.env.MEMORY_RECENCY_HALF_LIFE_HOURS) || 72);
+
+// Memories less similar than this to the query are never returned
+const DEFAULT_MIN_SIMILARITY = 0.1;
+
+const DEFAULT_SEARCH_WEIGHTS: MemorySearchWeights = {
+  similarity: 0.7,
+  recency: 0.15,
+  importance: 0.15
+};
+
 // Interface for Memory
-interface Memory {
+export interface Memory {
   id: string;
   agent_id: string;
   content: string;
@@ -22,15 +37,59 @@ interface Memory {
 }
 
 // Interface for Memory Search Result
-interface MemorySearchResult {
+export interface MemorySearchResult {
   memory: Memory;
+  // Weighted blend of the three components below
   score: number;
+  similarity: number;
+  recency: number;
+  importance: number;
+}
+
+export interface MemorySearchWeights {
+  similarity: number;
+  recency: number;
+  importance: number;
+}
+
+export interface MemorySearchOptions {
+  type?: string;
+  user_id?: string;
+  minSimilarity?: number;
+  weights?: Partial<MemorySearchWeights>;
+}
+
+export interface MemoryFilter {
+  user_id?: string;
+  type?: string;
+  // created_at bounds, inclusive (ms timestamps)
+  from?: number;
+  to?: number;
+  min_importance?: number;
+  max_importance?: number;
+  include_expired?: boolean;
+}
+
+export interface MemoryImportOptions {
+  // `replace` clears the agent's memories first; `merge` keeps them and overwrites same-id memories
+  mode?: 'merge' | 'replace';
+}
+
+export interface MemoryImportResult {
+  imported: number;
+  skipped: number;
+  errors: Array<{ line: number; message: string }>;
 }
 
 class MemoryService {
   private redisClient: RedisClientType | null = null;
   private inMemoryCache: Record<string, Record<string, Memory>> = {};
   private isRedisConnected: boolean = false;
+  private embedder: Embedder = createEmbedder();
+  private localEmbedder = new LocalEmbedder();
+  private vectorIndex = new VectorIndex();
+  // Agents whose stored vectors have been loaded from Redis into the index
+  private loadedVectorAgents: Set<string> = new Set();
 
   constructor() {
     this.initRedis();
@@ -93,6 +152,17 @@ class MemoryService {
       expires_at: expiration ? timestamp + (expiration * 1000) : undefined
     };
     
+    await this.saveMemory(memory, expiration);
+    
+    return memory_id;
+  }
+
+  /**
+   * Write a memory and its indices, replacing any memory with the same id
+   */
+  private async saveMemory(memory: Memory, expiration?: number): Promise<void> {
+    const { agent_id, id: memory_id } = memory;
+    
     // Try to store in Redis if connected
     if (this.isRedisConnected && this.redisClient) {
       try {
@@ -106,13 +176,13 @@ class MemoryService {
         
         // Add to memory index for agent (sorted by timestamp)
         await this.redisClient.zAdd(`memory_index:${agent_id}`, {
-          score: timestamp,
+          score: memory.created_at,
           value: memory_id
         });
         
         // Add to importance index
         await this.redisClient.zAdd(`memory_importance:${agent_id}`, {
-          score: importance,
+          score: memory.importance,
           value: memory_id
         });
         
@@ -127,7 +197,86 @@ class MemoryService {
       this.storeInMemory(agent_id, memory_id, memory);
     }
     
-    return memory_id;
+    await this.indexMemory(memory);
+  }
+
+  /**
+   * Embed a memory and add it to the vector index. Failures only log:
+   * the next search embeds whatever is missing.
+   */
+  private async indexMemory(memory: Memory): Promise<void> {
+    try {
+      const [vector] = await this.embedder.embed([this.getEmbeddingText(memory)]);
+      await this.saveVectors(memory.agent_id, [{ id: memory.id, vector }]);
+    } catch (error) {
+      console.warn(`⚠️ Failed to embed memory ${memory.id}: ${error}`);
+    }
+  }
+
+  /**
+   * Add vectors to the index and, when Redis is available, persist them
+   */
+  private async saveVectors(agent_id: string, vectors: Array<{ id: string; vector: number[] }>): Promise<void> {
+    vectors.forEach(({ id, vector }) =>
+      this.vectorIndex.upsert(agent_id, { id, vector, embedderId: this.embedder.id })
+    );
+    
+    if (this.isRedisConnected && this.redisClient && vectors.length > 0) {
+      try {
+        const fields: Record<string, string> = {};
+        vectors.forEach(({ id, vector }) => {
+          fields[id] = JSON.stringify({ embedderId: this.embedder.id, vector });
+        });
+        await this.redisClient.hSet(`memory_vectors:${agent_id}`, fields);
+      } catch (error) {
+        console.error(`❌ Failed to persist memory vectors in Redis: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Load an agent's persisted vectors into the index the first time it is searched
+   */
+  private async loadVectors(agent_id: string): Promise<void> {
+    if (this.loadedVectorAgents.has(agent_id) || !this.isRedisConnected || !this.redisClient) {
+      return;
+    }
+    
+    try {
+      const stored = await this.redisClient.hGetAll(`memory_vectors:${agent_id}`);
+      
+      Object.entries(stored).forEach(([id, json]) => {
+        const { embedderId, vector } = JSON.parse(json);
+        this.vectorIndex.upsert(agent_id, { id, vector, embedderId });
+      });
+      
+      this.loadedVectorAgents.add(agent_id);
+    } catch (error) {
+      console.error(`❌ Failed to load memory vectors from Redis: ${error}`);
+    }
+  }
+
+  /**
+   * Text a memory is embedded from. Interactions are stored as JSON, so
+   * embed their text fields rather than the keys and ids.
+   */
+  private getEmbeddingText(memory: Memory): string {
+    try {
+      const parsed = JSON.parse(memory.content);
+      
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        const text = Object.entries(parsed)
+          .filter(([key, value]) => typeof value === 'string' && !/(^|_)id$/.test(key))
+          .map(([, value]) => value)
+          .join('\n');
+        
+        if (text) return text;
+      }
+    } catch {
+      // Plain text content
+    }
+    
+    return memory.content;
   }
 
   /**
@@ -261,112 +410,325 @@ class MemoryService {
   }
 
   /**
-   * Search memories based on content similarity (simple keyword matching)
+   * Search memories by meaning. Each result's score blends embedding similarity
+   * to the query, recency (halving every MEMORY_RECENCY_HALF_LIFE_HOURS) and the
+   * memory's importance.
    */
   public async searchMemories(
     agent_id: string,
     query: string,
-    limit: number = 5
-  ): Promise<Memory[]> {
-    // Simple keyword search for now
-    // Convert query to lowercase for case-insensitive matching
-    const query_lower = query.toLowerCase();
+    limit: number = 5,
+    options: MemorySearchOptions = {}
+  ): Promise<MemorySearchResult[]> {
+    const now = Date.now();
     
-    // Get all memories for the agent
-    let memories: Memory[] = [];
+    const memories = (await this.loadAgentMemories(agent_id)).filter(memory =>
+      (!memory.expires_at || memory.expires_at > now) &&
+      (!options.type || memory.type === options.type) &&
+      (!options.user_id || memory.user_id === options.user_id)
+    );
+    
+    if (memories.length === 0 || !query || !query.trim()) {
+      return [];
+    }
+    
+    const similarities = await this.getSimilarities(agent_id, query, memories);
+    const weights = { ...DEFAULT_SEARCH_WEIGHTS, ...options.weights };
+    const minSimilarity = options.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+    
+    const results: MemorySearchResult[] = memories
+      .map(memory => {
+        const similarity = similarities.get(memory.id) ?? 0;
+        const ageHours = Math.max(0, now - memory.created_at) / (60 * 60 * 1000);
+        const recency = Math.pow(0.5, ageHours / MEMORY_RECENCY_HALF_LIFE_HOURS);
+        const importance = Math.min(1, Math.max(0, Number(memory.importance) || 0));
+        
+        return {
+          memory,
+          score: weights.similarity * similarity + weights.recency * recency + weights.importance * importance,
+          similarity,
+          recency,
+          importance
+        };
+      })
+      .filter(result => result.similarity >= minSimilarity)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
     
+    console.log(`✅ Found ${results.length} memories matching query for agent ${agent_id}`);
+    return results;
+  }
+
+  /**
+   * Cosine similarity of each memory to the query, embedding any memory the
+   * index has no current vector for. If the embedder is unreachable the
+   * ranking falls back to the local embedder for this search.
+   */
+  private async getSimilarities(
+    agent_id: string,
+    query: string,
+    memories: Memory[]
+  ): Promise<Map<string, number>> {
+    try {
+      await this.loadVectors(agent_id);
+      
+      const missing = memories.filter(memory =>
+        this.vectorIndex.get(agent_id, memory.id)?.embedderId !== this.embedder.id
+      );
+      
+      if (missing.length > 0) {
+        const vectors = await this.embedder.embed(missing.map(memory => this.getEmbeddingText(memory)));
+        await this.saveVectors(agent_id, missing.map((memory, index) => ({ id: memory.id, vector: vectors[index] })));
+      }
+      
+      const [queryVector] = await this.embedder.embed([query]);
+      const matches = this.vectorIndex.query(agent_id, queryVector, this.embedder.id, {
+        ids: memories.map(memory => memory.id)
+      });
+      
+      return new Map(matches.map(match => [match.id, match.similarity]));
+    } catch (error) {
+      console.warn(`⚠️ Memory embedder ${this.embedder.id} failed, ranking with local embedder: ${error}`);
+      
+      const queryVector = this.localEmbedder.embedOne(query);
+      return new Map(memories.map(memory => [
+        memory.id,
+        cosineSimilarity(queryVector, this.localEmbedder.embedOne(this.getEmbeddingText(memory)))
+      ]));
+    }
+  }
+
+  /**
+   * Every stored memory for an agent (expired ones included), fetched from Redis in one round trip
+   */
+  public async loadAgentMemories(agent_id: string): Promise<Memory[]> {
     if (this.isRedisConnected && this.redisClient) {
       try {
-        // Get all memory IDs for the agent
-        const memory_ids = await this.redisClient.zRange(
-          `memory_index:${agent_id}`, 
-          0, 
-          -1
-        );
+        const memory_ids = await this.redisClient.zRange(`memory_index:${agent_id}`, 0, -1);
         
         if (!memory_ids || memory_ids.length === 0) {
           return [];
         }
         
-        // Get the actual memories
-        for (const memory_id of memory_ids) {
-          const memory_json = await this.redisClient.get(`memory:${agent_id}:${memory_id}`);
-          
-          if (memory_json) {
-            memories.push(JSON.parse(memory_json));
-          }
-        }
+        const memory_jsons = await this.redisClient.mGet(
+          memory_ids.map(memory_id => `memory:${agent_id}:${memory_id}`)
+        );
+        
+        return memory_jsons
+          .filter((memory_json): memory_json is string => Boolean(memory_json))
+          .map(memory_json => JSON.parse(memory_json));
       } catch (error) {
-        console.error(`❌ Failed to search memories in Redis: ${error}`);
-        // Fall back to in-memory search
-        return this.searchInMemory(agent_id, query_lower, limit);
+        console.error(`❌ Failed to load memories from Redis: ${error}`);
+        // Fall back to in-memory memories
       }
-    } else {
-      // Get from in-memory cache
-      if (!this.inMemoryCache[agent_id]) {
-        return [];
+    }
+    
+    return Object.values(this.inMemoryCache[agent_id] || {});
+  }
+
+  /**
+   * Ids of every agent that has stored memories
+   */
+  public async listAgentIds(): Promise<string[]> {
+    const agent_ids = new Set(
+      Object.keys(this.inMemoryCache).filter(agent_id => Object.keys(this.inMemoryCache[agent_id]).length > 0)
+    );
+    
+    if (this.isRedisConnected && this.redisClient) {
+      try {
+        for await (const key of this.redisClient.scanIterator({ MATCH: 'memory_index:*', COUNT: 100 })) {
+          agent_ids.add(key.slice('memory_index:'.length));
+        }
+      } catch (error) {
+        console.error(`❌ Failed to list memory agents from Redis: ${error}`);
       }
-      
-      memories = Object.values(this.inMemoryCache[agent_id]);
     }
     
-    // Filter memories that contain the query in the content
-    const results = memories.filter(memory => 
-      memory.content.toLowerCase().includes(query_lower)
+    return Array.from(agent_ids);
+  }
+
+  /**
+   * An agent's memories matching a filter, newest first
+   */
+  public async listMemories(
+    agent_id: string,
+    filter: MemoryFilter = {},
+    limit?: number,
+    offset: number = 0
+  ): Promise<{ memories: Memory[]; total: number }> {
+    const matching = this.applyFilter(await this.loadAgentMemories(agent_id), filter)
+      .sort((a, b) => b.created_at - a.created_at);
+    
+    return {
+      memories: matching.slice(offset, limit === undefined ? undefined : offset + limit),
+      total: matching.length
+    };
+  }
+
+  private applyFilter(memories: Memory[], filter: MemoryFilter): Memory[] {
+    const now = Date.now();
+    
+    return memories.filter(memory =>
+      (filter.include_expired || !memory.expires_at || memory.expires_at > now) &&
+      (filter.user_id === undefined || memory.user_id === filter.user_id) &&
+      (filter.type === undefined || memory.type === filter.type) &&
+      (filter.from === undefined || memory.created_at >= filter.from) &&
+      (filter.to === undefined || memory.created_at <= filter.to) &&
+      (filter.min_importance === undefined || memory.importance >= filter.min_importance) &&
+      (filter.max_importance === undefined || memory.importance <= filter.max_importance)
     );
+  }
+
+  /**
+   * Export an agent's memories as JSON Lines, one memory per line, oldest first
+   */
+  public async exportMemories(agent_id: string, filter: MemoryFilter = {}): Promise<string> {
+    const memories = this.applyFilter(await this.loadAgentMemories(agent_id), filter)
+      .sort((a, b) => a.created_at - b.created_at);
     
-    // Sort by relevance (simple implementation)
-    results.sort((a, b) => {
-      // Prioritize exact matches, then importance
-      const aExactMatch = a.content.toLowerCase().includes(query_lower);
-      const bExactMatch = b.content.toLowerCase().includes(query_lower);
-      
-      if (aExactMatch && !bExactMatch) return -1;
-      if (!aExactMatch && bExactMatch) return 1;
-      
-      // If both match or don't match, sort by importance
-      return b.importance - a.importance;
+    console.log(`📤 Exported ${memories.length} memories for agent ${agent_id}`);
+    return memories.map(memory => JSON.stringify(memory)).join('\n') + (memories.length > 0 ? '\n' : '');
+  }
+
+  /**
+   * Import memories exported by `exportMemories` (JSONL text or an array of records)
+   * into an agent. Ids, timestamps and importance are preserved so an agent can be
+   * moved between environments; records are re-assigned to the target agent.
+   */
+  public async importMemories(
+    agent_id: string,
+    input: string | any[],
+    options: MemoryImportOptions = {}
+  ): Promise<MemoryImportResult> {
+    const mode = options.mode || 'merge';
+    if (!['merge', 'replace'].includes(mode)) {
+      throw httpError(`Invalid import mode: ${mode}`);
+    }
+    
+    const now = Date.now();
+    const result: MemoryImportResult = { imported: 0, skipped: 0, errors: [] };
+    const memories: Memory[] = [];
+    
+    const records: Array<{ line: number; text?: string; record?: any }> = typeof input === 'string'
+      ? input.split(/\r?\n/)
+        .map((text, index) => ({ line: index + 1, text: text.trim() }))
+        .filter(({ text }) => text.length > 0)
+      : input.map((record, index) => ({ line: index + 1, record }));
+    
+    records.forEach(({ line, text, record }) => {
+      try {
+        if (text !== undefined) {
+          try {
+            record = JSON.parse(text);
+          } catch {
+            throw new Error('Invalid JSON');
+          }
+        }
+        
+        const memory = this.toImportedMemory(agent_id, record, now);
+        
+        if (memory) {
+          memories.push(memory);
+        } else {
+          result.skipped++;
+        }
+      } catch (error: any) {
+        result.errors.push({ line, message: error.message });
+      }
     });
     
-    // Return limited number of results
-    return results.slice(0, limit);
+    // Don't wipe an agent for a file that only partly parses
+    if (mode === 'replace' && result.errors.length > 0) {
+      throw httpError(`Import rejected: ${result.errors.length} invalid records (line ${result.errors[0].line}: ${result.errors[0].message})`);
+    }
+    
+    if (mode === 'replace') {
+      await this.clearAgentMemories(agent_id);
+    }
+    
+    for (const memory of memories) {
+      const ttl = memory.expires_at ? Math.ceil((memory.expires_at - now) / 1000) : undefined;
+      await this.saveMemory(memory, ttl);
+      result.imported++;
+    }
+    
+    console.log(`📥 Imported ${result.imported} memories for agent ${agent_id} (${result.skipped} expired, ${result.errors.length} invalid)`);
+    return result;
   }
 
   /**
-   * Search memories in the in-memory cache
+   * Validate an imported record; returns null for memories that have already expired
    */
-  private searchInMemory(
-    agent_id: string,
-    query: string,
-    limit: number
-  ): Memory[] {
-    if (!this.inMemoryCache[agent_id]) {
-      return [];
+  private toImportedMemory(agent_id: string, record: any, now: number): Memory | null {
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+      throw new Error('Record is not a JSON object');
+    }
+    if (typeof record.content !== 'string' || !record.content) {
+      throw new Error('content is required');
+    }
+    if (record.user_id !== undefined && record.user_id !== null && typeof record.user_id !== 'string') {
+      throw new Error('user_id must be a string');
+    }
+    if (record.metadata !== undefined && (typeof record.metadata !== 'object' || Array.isArray(record.metadata))) {
+      throw new Error('metadata must be an object');
     }
     
-    // Get all memories for the agent
-    const agent_memories = Object.values(this.inMemoryCache[agent_id]);
+    const importance = record.importance === undefined ? 0.5 : Number(record.importance);
+    if (!Number.isFinite(importance) || importance < 0 || importance > 1) {
+      throw new Error('importance must be a number between 0 and 1');
+    }
     
-    // Filter memories that contain the query in the content
-    const results = agent_memories.filter(memory => 
-      memory.content.toLowerCase().includes(query)
-    );
+    const created_at = record.created_at === undefined ? now : toTimestamp(record.created_at);
+    const expires_at = record.expires_at === undefined || record.expires_at === null
+      ? undefined
+      : toTimestamp(record.expires_at);
+    if (created_at === null || expires_at === null) {
+      throw new Error('created_at and expires_at must be timestamps or ISO dates');
+    }
+    
+    if (expires_at !== undefined && expires_at <= now) {
+      return null;
+    }
+    
+    return {
+      id: typeof record.id === 'string' && record.id ? record.id : uuidv4(),
+      agent_id,
+      content: record.content,
+      type: typeof record.type === 'string' && record.type ? record.type : 'interaction',
+      metadata: record.metadata || {},
+      importance,
+      created_at,
+      user_id: record.user_id || undefined,
+      expires_at
+    };
+  }
+
+  /**
+   * Erase everything stored about one end user, across all agents
+   */
+  public async forgetUser(user_id: string): Promise<{ deleted: number; agents: Record<string, number> }> {
+    if (!user_id) {
+      throw httpError('user_id is required');
+    }
     
-    // Sort by relevance (simple implementation)
-    results.sort((a, b) => {
-      // Prioritize exact matches, then importance
-      const aExactMatch = a.content.toLowerCase().includes(query);
-      const bExactMatch = b.content.toLowerCase().includes(query);
+    const agents: Record<string, number> = {};
+    let deleted = 0;
+    
+    for (const agent_id of await this.listAgentIds()) {
+      const memories = (await this.loadAgentMemories(agent_id)).filter(memory => memory.user_id === user_id);
       
-      if (aExactMatch && !bExactMatch) return -1;
-      if (!aExactMatch && bExactMatch) return 1;
+      for (const memory of memories) {
+        await this.deleteMemory(agent_id, memory.id);
+      }
       
-      // If both match or don't match, sort by importance
-      return b.importance - a.importance;
-    });
+      if (memories.length > 0) {
+        agents[agent_id] = memories.length;
+        deleted += memories.length;
+      }
+    }
     
-    // Return limited number of results
-    return results.slice(0, limit);
+    console.log(`🧹 Forgot user ${user_id}: ${deleted} memories deleted across ${Object.keys(agents).length} agents`);
+    return { deleted, agents };
   }
 
   /**
@@ -382,6 +744,7 @@ class MemoryService {
         // Remove from indices
         await this.redisClient.zRem(`memory_index:${agent_id}`, memory_id);
         await this.redisClient.zRem(`memory_importance:${agent_id}`, memory_id);
+        await this.redisClient.hDel(`memory_vectors:${agent_id}`, memory_id);
         
         console.log(`✅ Memory ${memory_id} deleted from Redis for agent ${agent_id}`);
         
@@ -404,6 +767,8 @@ class MemoryService {
    * Delete memory from the in-memory cache
    */
   private deleteFromMemory(agent_id: string, memory_id: string): boolean {
+    this.vectorIndex.remove(agent_id, memory_id);
+    
     if (!this.inMemoryCache[agent_id]) {
       return false;
     }
@@ -439,6 +804,7 @@ class MemoryService {
         // Delete indices
         await this.redisClient.del(`memory_index:${agent_id}`);
         await this.redisClient.del(`memory_importance:${agent_id}`);
+        await this.redisClient.del(`memory_vectors:${agent_id}`);
         
         console.log(`✅ All memories cleared for agent ${agent_id}`);
         
@@ -461,6 +827,9 @@ class MemoryService {
    * Clear agent memories from the in-memory cache
    */
   private clearMemoryCache(agent_id: string): boolean {
+    this.vectorIndex.clear(agent_id);
+    this.loadedVectorAgents.delete(agent_id);
+    
     if (this.inMemoryCache[agent_id]) {
       delete this.inMemoryCache[agent_id];
       console.log(`✅ All memories cleared from in-memory cache for agent ${agent_id}`);
@@ -584,6 +953,14 @@ class MemoryService {
   }
 }
 
+/**
+ * Millisecond timestamp from a number or a date string, or null if neither
+ */
+function toTimestamp(value: any): number | null {
+  const timestamp = typeof value === 'number' ? value : Date.parse(String(value));
+  return Number.isFinite(timestamp) ? timestamp : null;
+}
+
 // Create singleton instance
 const memoryService = new MemoryService();
 
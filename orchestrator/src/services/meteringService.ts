@@ -0,0 +1,660 @@
+import { createClient } from '@supabase/supabase-js';
+import { v4 as uuid } from 'uuid';
+import dotenv from 'dotenv';
+import { httpError } from '../utils/httpError';
+
+// Load environment variables
+dotenv.config();
+
+// Initialize Supabase
+const supabaseUrl = process.env.SUPABASE_URL as string;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY as string;
+let supabase: ReturnType<typeof createClient> | undefined;
+
+if (supabaseUrl && supabaseKey && !supabaseUrl.includes('your_') && !supabaseKey.includes('your_')) {
+  supabase = createClient(supabaseUrl, supabaseKey);
+  console.log('✅ Metering service initialized with Supabase database');
+} else {
+  console.log('⚠️ Metering service initialized without database persistence');
+}
+
+// USD per 1M tokens; mirrors AVAILABLE_MODELS in src/services/aiService.ts
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gemini-flash': { input: 0.25, output: 0.50 },
+  'gemini-pro': { input: 0.50, output: 1.50 },
+  'claude-3-sonnet': { input: 3.0, output: 15.0 },
+  'gpt-4': { input: 10.0, output: 30.0 }
+};
+
+// Model the agent service runs; executions are priced at it unless the service reports another
+export const AGENT_DEFAULT_MODEL = process.env.AGENT_DEFAULT_MODEL || 'gemini-flash';
+
+// Budgets of guilds and agents without their own; 0 means unlimited
+const DEFAULT_LIMITS: Record<BudgetScope, BudgetLimits> = {
+  guild: {
+    dailyCostUsd: parseFloat(process.env.GUILD_DAILY_BUDGET_USD || '0'),
+    monthlyCostUsd: parseFloat(process.env.GUILD_MONTHLY_BUDGET_USD || '0'),
+    requestsPerMinute: parseInt(process.env.GUILD_REQUESTS_PER_MINUTE || '0')
+  },
+  agent: {
+    dailyCostUsd: parseFloat(process.env.AGENT_DAILY_BUDGET_USD || '0'),
+    monthlyCostUsd: parseFloat(process.env.AGENT_MONTHLY_BUDGET_USD || '0'),
+    requestsPerMinute: parseInt(process.env.AGENT_REQUESTS_PER_MINUTE || '0')
+  }
+};
+
+// Rough token count for text the agent service doesn't report usage for
+const CHARS_PER_TOKEN = 4;
+
+// How long budgets loaded from the database are reused
+const BUDGET_CACHE_TTL_MS = 60000;
+
+// Usage records kept without a database
+const USAGE_REGISTRY_LIMIT = 10000;
+
+// Records read from the database for one summary
+const USAGE_SUMMARY_MAX_ROWS = 10000;
+
+const usageRegistry: UsageRecord[] = [];
+const budgetRegistry: Record<string, BudgetLimits> = {};
+
+function meteringError(message: string, status: number = 400, details: Record<string, any> = {}): Error {
+  return Object.assign(httpError(message, status), details);
+}
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function monthKey(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(`${dayKey(date)}T00:00:00.000Z`);
+}
+
+function startOfMonth(date: Date): Date {
+  return new Date(`${monthKey(date)}-01T00:00:00.000Z`);
+}
+
+function roundCost(cost: number): number {
+  return Math.round(cost * 1e6) / 1e6;
+}
+
+// Small amounts keep two significant digits, e.g. $0.000028
+function formatUsd(amount: number): string {
+  return amount > 0 && amount < 0.01 ? `$${amount.toPrecision(2)}` : `$${amount.toFixed(2)}`;
+}
+
+/**
+ * Meters agent executions: records the tokens, model and cost of each one, and
+ * enforces daily and monthly spending caps and request rates per guild and agent
+ */
+class MeteringService {
+  // Spend in the current day and month, by `${scope}:${id}`
+  private spend: Map<string, SpendCounter> = new Map();
+  // Start times of recent requests, by `${scope}:${id}`
+  private requestTimes: Map<string, number[]> = new Map();
+  private budgets: Map<string, { limits: BudgetLimits; custom: boolean; expiresAt: number }> = new Map();
+  private unknownModels: Set<string> = new Set();
+
+  /**
+   * Pricing of a model, falling back to the default model's
+   */
+  getPricing(model: string): ModelPricing {
+    const pricing = MODEL_PRICING[model]
+      || Object.entries(MODEL_PRICING).find(([id]) => model.startsWith(id))?.[1];
+
+    if (pricing) return pricing;
+
+    if (!this.unknownModels.has(model)) {
+      this.unknownModels.add(model);
+      console.warn(`⚠️ No pricing for model ${model}; using ${AGENT_DEFAULT_MODEL} pricing`);
+    }
+    return MODEL_PRICING[AGENT_DEFAULT_MODEL] || MODEL_PRICING['gemini-flash'];
+  }
+
+  calculateCost(model: string, promptTokens: number, completionTokens: number): number {
+    const pricing = this.getPricing(model);
+    return roundCost((promptTokens * pricing.input + completionTokens * pricing.output) / 1e6);
+  }
+
+  estimateTokens(text: string): number {
+    return Math.ceil((text || '').length / CHARS_PER_TOKEN);
+  }
+
+  /**
+   * Admit an execution, or throw a 429 error if the agent or its guild has used
+   * up its budget or is sending requests too fast. Admitted executions count
+   * towards the request rate. Cost is only known afterwards, so the execution
+   * that crosses a cap still completes; the ones after it are refused.
+   */
+  async checkBudget(subject: UsageSubject): Promise<void> {
+    const scopes = this.scopesOf(subject);
+    const limits = await Promise.all(scopes.map(({ scope, id }) => this.getLimits(scope, id)));
+    const now = Date.now();
+    const label = (scope: BudgetScope, id: string) => `${scope === 'guild' ? 'Guild' : 'Agent'} ${id}`;
+
+    // The rate is checked and the request counted with nothing awaited in between,
+    // so concurrent checks can't all take the same free slot
+    scopes.forEach(({ scope, id }, index) => {
+      const { requestsPerMinute } = limits[index].limits;
+      const recent = this.recentRequests(scope, id, now);
+
+      if (requestsPerMinute > 0 && recent.length >= requestsPerMinute) {
+        throw meteringError(
+          `Rate limit exceeded: ${label(scope, id)} is limited to ${requestsPerMinute} requests per minute`,
+          429,
+          { code: 'RATE_LIMITED', scope, scopeId: id, limit: 'requests_per_minute', retryAfterMs: recent[0] + 60000 - now }
+        );
+      }
+    });
+
+    for (const { scope, id } of scopes) {
+      this.recentRequests(scope, id, now).push(now);
+    }
+
+    try {
+      for (const [index, { scope, id }] of scopes.entries()) {
+        const { dailyCostUsd, monthlyCostUsd } = limits[index].limits;
+        const spend = await this.getSpend(scope, id);
+
+        if (dailyCostUsd > 0 && spend.dayCostUsd >= dailyCostUsd) {
+          throw meteringError(
+            `Budget exceeded: ${label(scope, id)} has spent ${formatUsd(spend.dayCostUsd)} of its ${formatUsd(dailyCostUsd)} daily budget`,
+            429,
+            { code: 'BUDGET_EXCEEDED', scope, scopeId: id, limit: 'daily', retryAfterMs: startOfDay(new Date()).getTime() + 86400000 - now }
+          );
+        }
+
+        if (monthlyCostUsd > 0 && spend.monthCostUsd >= monthlyCostUsd) {
+          const nextMonth = startOfMonth(new Date());
+          nextMonth.setUTCMonth(nextMonth.getUTCMonth() + 1);
+          throw meteringError(
+            `Budget exceeded: ${label(scope, id)} has spent ${formatUsd(spend.monthCostUsd)} of its ${formatUsd(monthlyCostUsd)} monthly budget`,
+            429,
+            { code: 'BUDGET_EXCEEDED', scope, scopeId: id, limit: 'monthly', retryAfterMs: nextMonth.getTime() - now }
+          );
+        }
+      }
+    } catch (error) {
+      // A refused request doesn't count towards the rate
+      for (const { scope, id } of scopes) {
+        const recent = this.requestTimes.get(`${scope}:${id}`) || [];
+        const index = recent.lastIndexOf(now);
+        if (index >= 0) recent.splice(index, 1);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Store the usage of a finished execution and add its cost to the spend of the
+   * agent and its guild
+   */
+  async recordUsage(usage: Omit<UsageRecord, 'id' | 'cost_usd' | 'total_tokens' | 'created_at'>): Promise<UsageRecord> {
+    const record: UsageRecord = {
+      ...usage,
+      id: uuid(),
+      total_tokens: usage.prompt_tokens + usage.completion_tokens,
+      cost_usd: this.calculateCost(usage.model, usage.prompt_tokens, usage.completion_tokens),
+      created_at: new Date().toISOString()
+    };
+
+    const now = new Date();
+    for (const { scope, id } of this.scopesOf({ agentId: record.agent_id, guildId: record.guild_id || undefined })) {
+      const counter = this.spend.get(`${scope}:${id}`);
+      if (!counter) continue;
+
+      // A new month is loaded from the store on the next check
+      if (counter.month !== monthKey(now)) {
+        this.spend.delete(`${scope}:${id}`);
+        continue;
+      }
+
+      if (counter.day !== dayKey(now)) {
+        counter.day = dayKey(now);
+        counter.dayCostUsd = 0;
+      }
+      counter.dayCostUsd = roundCost(counter.dayCostUsd + record.cost_usd);
+      counter.monthCostUsd = roundCost(counter.monthCostUsd + record.cost_usd);
+    }
+
+    if (supabase) {
+      const { error } = await supabase.from('agent_usage').insert({ ...record });
+
+      if (error) {
+        console.error(`❌ Failed to store usage of execution ${record.execution_id}:`, error);
+      }
+    } else {
+      usageRegistry.push(record);
+      usageRegistry.splice(0, Math.max(0, usageRegistry.length - USAGE_REGISTRY_LIMIT));
+    }
+
+    console.log(`💰 Agent ${record.agent_id} used ${record.total_tokens} tokens of ${record.model} ($${record.cost_usd.toFixed(6)})`);
+    return record;
+  }
+
+  /**
+   * Budget of a guild or agent with what it has spent so far
+   */
+  async getBudget(scope: BudgetScope, id: string): Promise<BudgetStatus> {
+    const { limits, custom } = await this.getLimits(scope, id);
+    const spend = await this.getSpend(scope, id);
+    const remaining = (limit: number, spent: number) => limit > 0 ? roundCost(Math.max(0, limit - spent)) : null;
+
+    return {
+      scope,
+      id,
+      limits,
+      custom,
+      usage: {
+        dayCostUsd: spend.dayCostUsd,
+        monthCostUsd: spend.monthCostUsd,
+        requestsLastMinute: this.recentRequests(scope, id, Date.now()).length
+      },
+      remaining: {
+        dailyCostUsd: remaining(limits.dailyCostUsd, spend.dayCostUsd),
+        monthlyCostUsd: remaining(limits.monthlyCostUsd, spend.monthCostUsd)
+      }
+    };
+  }
+
+  /**
+   * Set a guild's or agent's own budget. Omitted limits keep their current value;
+   * null restores the default and 0 removes the limit.
+   */
+  async setBudget(scope: BudgetScope, id: string, limits: Partial<Record<keyof BudgetLimits, number | null>>): Promise<BudgetStatus> {
+    const { limits: current } = await this.getLimits(scope, id);
+    const updated: BudgetLimits = { ...current };
+
+    (Object.keys(DEFAULT_LIMITS[scope]) as Array<keyof BudgetLimits>).forEach(key => {
+      const value = limits[key];
+      if (value === undefined) return;
+
+      if (value !== null && (typeof value !== 'number' || !isFinite(value) || value < 0)) {
+        throw meteringError(`${key} must be a number of at least 0, or null for the default`);
+      }
+      updated[key] = value === null ? DEFAULT_LIMITS[scope][key] : value;
+    });
+
+    if (supabase) {
+      const { error } = await supabase.from('usage_budgets').upsert({
+        scope,
+        scope_id: id,
+        daily_cost_usd: updated.dailyCostUsd,
+        monthly_cost_usd: updated.monthlyCostUsd,
+        requests_per_minute: updated.requestsPerMinute,
+        updated_at: new Date().toISOString()
+      });
+
+      if (error) throw error;
+    } else {
+      budgetRegistry[`${scope}:${id}`] = updated;
+    }
+
+    this.budgets.set(`${scope}:${id}`, { limits: updated, custom: true, expiresAt: Date.now() + BUDGET_CACHE_TTL_MS });
+    console.log(`💰 Updated budget of ${scope} ${id}`);
+
+    return this.getBudget(scope, id);
+  }
+
+  /**
+   * List usage records, most recent first
+   */
+  async listUsage(
+    filter: UsageFilter = {},
+    limit: number = 50,
+    offset: number = 0
+  ): Promise<{ records: UsageRecord[]; total: number }> {
+    if (supabase) {
+      let query = supabase
+        .from('agent_usage')
+        .select('*', { count: 'exact' })
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (filter.guildId) query = query.eq('guild_id', filter.guildId);
+      if (filter.agentId) query = query.eq('agent_id', filter.agentId);
+      if (filter.since) query = query.gte('created_at', filter.since.toISOString());
+
+      const { data, error, count } = await query;
+      if (error) throw error;
+
+      return { records: (data || []) as any as UsageRecord[], total: count || 0 };
+    }
+
+    const records = this.filterRegistry(filter).reverse();
+    return { records: records.slice(offset, offset + limit), total: records.length };
+  }
+
+  /**
+   * Aggregate usage since a point in time, overall, per agent, model, source and
+   * tool, and in time buckets of `bucketMs`
+   */
+  async getUsageSummary(filter: UsageFilter & { since: Date }, bucketMs: number): Promise<UsageSummary> {
+    const records = await this.loadRecords(filter);
+    const until = new Date();
+
+    const group = <T extends string>(key: (record: UsageRecord) => T) => {
+      const groups = new Map<T, UsageRecord[]>();
+      records.forEach(record => {
+        const value = key(record);
+        groups.set(value, [...(groups.get(value) || []), record]);
+      });
+      return Array.from(groups.entries());
+    };
+
+    const bucketCount = Math.max(1, Math.ceil((until.getTime() - filter.since.getTime()) / bucketMs));
+    const buckets = Array.from({ length: bucketCount }, () => [] as UsageRecord[]);
+    records.forEach(record => {
+      const index = Math.floor((new Date(record.created_at).getTime() - filter.since.getTime()) / bucketMs);
+      buckets[Math.min(Math.max(index, 0), bucketCount - 1)].push(record);
+    });
+
+    const toolCalls = new Map<string, { count: number; succeeded: number; durationMs: number }>();
+    records.forEach(record => (record.tool_calls || []).forEach(call => {
+      const totals = toolCalls.get(call.tool) || { count: 0, succeeded: 0, durationMs: 0 };
+      totals.count++;
+      totals.succeeded += call.status === 'succeeded' ? 1 : 0;
+      totals.durationMs += call.durationMs || 0;
+      toolCalls.set(call.tool, totals);
+    }));
+
+    return {
+      since: filter.since.toISOString(),
+      until: until.toISOString(),
+      truncated: records.length >= USAGE_SUMMARY_MAX_ROWS,
+      ...this.totals(records),
+      byAgent: group(record => record.agent_id).map(([agentId, rows]) => ({ agentId, ...this.totals(rows) })),
+      byModel: group(record => record.model).map(([model, rows]) => ({ model, ...this.totals(rows) })),
+      bySource: group(record => record.source || 'unknown').map(([source, rows]) => ({
+        source,
+        ...this.totals(rows),
+        users: new Set(rows.map(row => row.user_id).filter(Boolean)).size
+      })),
+      byTool: Array.from(toolCalls.entries()).map(([tool, totals]) => ({
+        tool,
+        count: totals.count,
+        succeeded: totals.succeeded,
+        avgDurationMs: Math.round(totals.durationMs / totals.count)
+      })),
+      timeSeries: buckets.map((rows, index) => ({
+        timestamp: new Date(filter.since.getTime() + index * bucketMs).toISOString(),
+        ...this.totals(rows)
+      }))
+    };
+  }
+
+  private totals(records: UsageRecord[]): UsageTotals {
+    const count = (status: UsageRecord['status']) => records.filter(record => record.status === status).length;
+    const sum = (field: 'prompt_tokens' | 'completion_tokens' | 'cost_usd' | 'duration_ms') =>
+      records.reduce((total, record) => total + (Number(record[field]) || 0), 0);
+
+    return {
+      executions: records.length,
+      succeeded: count('succeeded'),
+      failed: count('failed'),
+      fallback: count('fallback'),
+      cancelled: count('cancelled'),
+      promptTokens: sum('prompt_tokens'),
+      completionTokens: sum('completion_tokens'),
+      totalTokens: sum('prompt_tokens') + sum('completion_tokens'),
+      costUsd: roundCost(sum('cost_usd')),
+      avgDurationMs: records.length ? Math.round(sum('duration_ms') / records.length) : 0,
+      estimated: records.filter(record => record.estimated).length
+    };
+  }
+
+  private scopesOf(subject: UsageSubject): Array<{ scope: BudgetScope; id: string }> {
+    const scopes: Array<{ scope: BudgetScope; id: string }> = [{ scope: 'agent', id: subject.agentId }];
+    if (subject.guildId) scopes.unshift({ scope: 'guild', id: subject.guildId });
+    return scopes;
+  }
+
+  private recentRequests(scope: BudgetScope, id: string, now: number): number[] {
+    const key = `${scope}:${id}`;
+    const recent = (this.requestTimes.get(key) || []).filter(time => time > now - 60000);
+    this.requestTimes.set(key, recent);
+    return recent;
+  }
+
+  private async getLimits(scope: BudgetScope, id: string): Promise<{ limits: BudgetLimits; custom: boolean }> {
+    const key = `${scope}:${id}`;
+    const cached = this.budgets.get(key);
+    if (cached && cached.expiresAt > Date.now()) return cached;
+
+    if (!supabase) {
+      return budgetRegistry[key]
+        ? { limits: budgetRegistry[key], custom: true }
+        : { limits: DEFAULT_LIMITS[scope], custom: false };
+    }
+
+    const { data, error } = await supabase
+      .from('usage_budgets')
+      .select('*')
+      .eq('scope', scope)
+      .eq('scope_id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error(`❌ Failed to load budget of ${scope} ${id}:`, error.message);
+      return { limits: DEFAULT_LIMITS[scope], custom: false };
+    }
+
+    const row = data as any;
+    const budget = {
+      limits: row
+        ? {
+            dailyCostUsd: Number(row.daily_cost_usd),
+            monthlyCostUsd: Number(row.monthly_cost_usd),
+            requestsPerMinute: Number(row.requests_per_minute)
+          }
+        : DEFAULT_LIMITS[scope],
+      custom: Boolean(row),
+      expiresAt: Date.now() + BUDGET_CACHE_TTL_MS
+    };
+    this.budgets.set(key, budget);
+
+    return budget;
+  }
+
+  /**
+   * Spend of a guild or agent in the current day and month, loaded from the
+   * store at the start of each month and kept up to date as usage is recorded
+   */
+  private async getSpend(scope: BudgetScope, id: string): Promise<SpendCounter> {
+    const key = `${scope}:${id}`;
+    const now = new Date();
+    const counter = this.spend.get(key);
+
+    if (counter && counter.month === monthKey(now)) {
+      if (counter.day !== dayKey(now)) {
+        counter.day = dayKey(now);
+        counter.dayCostUsd = 0;
+      }
+      return counter;
+    }
+
+    const { dayCostUsd, monthCostUsd } = await this.sumSpend(scope, id, startOfDay(now), startOfMonth(now));
+
+    const loaded: SpendCounter = {
+      day: dayKey(now),
+      month: monthKey(now),
+      dayCostUsd: roundCost(dayCostUsd),
+      monthCostUsd: roundCost(monthCostUsd)
+    };
+    this.spend.set(key, loaded);
+
+    return loaded;
+  }
+
+  /**
+   * Cost of a guild's or agent's executions since the start of a day and of a
+   * month, summed by the database rather than over loaded rows
+   */
+  private async sumSpend(
+    scope: BudgetScope,
+    id: string,
+    dayStart: Date,
+    monthStart: Date
+  ): Promise<{ dayCostUsd: number; monthCostUsd: number }> {
+    if (supabase) {
+      const { data, error } = await supabase.rpc('usage_spend', {
+        p_guild_id: scope === 'guild' ? id : null,
+        p_agent_id: scope === 'agent' ? id : null,
+        p_day_start: dayStart.toISOString(),
+        p_month_start: monthStart.toISOString()
+      });
+      if (error) throw error;
+
+      const row = Array.isArray(data) ? data[0] : data;
+      return { dayCostUsd: Number(row?.day_cost_usd || 0), monthCostUsd: Number(row?.month_cost_usd || 0) };
+    }
+
+    const records = this.filterRegistry({ [scope === 'guild' ? 'guildId' : 'agentId']: id, since: monthStart });
+    const sum = (rows: UsageRecord[]) => rows.reduce((total, record) => total + Number(record.cost_usd), 0);
+    const dayStartIso = dayStart.toISOString();
+
+    return {
+      dayCostUsd: sum(records.filter(record => record.created_at >= dayStartIso)),
+      monthCostUsd: sum(records)
+    };
+  }
+
+  private async loadRecords(filter: UsageFilter): Promise<UsageRecord[]> {
+    if (supabase) {
+      let query = supabase
+        .from('agent_usage')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(USAGE_SUMMARY_MAX_ROWS);
+
+      if (filter.guildId) query = query.eq('guild_id', filter.guildId);
+      if (filter.agentId) query = query.eq('agent_id', filter.agentId);
+      if (filter.since) query = query.gte('created_at', filter.since.toISOString());
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      return (data || []) as any as UsageRecord[];
+    }
+
+    return this.filterRegistry(filter);
+  }
+
+  private filterRegistry(filter: UsageFilter): UsageRecord[] {
+    const since = filter.since?.toISOString();
+
+    return usageRegistry
+      .filter(record => !filter.guildId || record.guild_id === filter.guildId)
+      .filter(record => !filter.agentId || record.agent_id === filter.agentId)
+      .filter(record => !since || record.created_at >= since);
+  }
+}
+
+// Create singleton instance
+const meteringService = new MeteringService();
+
+export default meteringService;
+
+// Types
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export type BudgetScope = 'guild' | 'agent';
+
+export interface BudgetLimits {
+  dailyCostUsd: number;
+  monthlyCostUsd: number;
+  requestsPerMinute: number;
+}
+
+export interface BudgetStatus {
+  scope: BudgetScope;
+  id: string;
+  limits: BudgetLimits;
+  // Whether the limits were set for this guild or agent rather than defaults
+  custom: boolean;
+  usage: {
+    dayCostUsd: number;
+    monthCostUsd: number;
+    requestsLastMinute: number;
+  };
+  // Null for unlimited
+  remaining: {
+    dailyCostUsd: number | null;
+    monthlyCostUsd: number | null;
+  };
+}
+
+export interface UsageSubject {
+  agentId: string;
+  guildId?: string;
+}
+
+export interface UsageFilter {
+  guildId?: string;
+  agentId?: string;
+  since?: Date;
+}
+
+// Row of the agent_usage table
+export interface UsageRecord {
+  id: string;
+  agent_id: string;
+  guild_id: string | null;
+  user_id: string | null;
+  execution_id: string;
+  // Where the execution came from, e.g. workflow, socket or orchestrator
+  source: string | null;
+  model: string;
+  // Model calls made, more than one when the agent used tools
+  calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  // True when token counts were estimated from text length
+  estimated: boolean;
+  cost_usd: number;
+  duration_ms: number;
+  status: 'succeeded' | 'fallback' | 'failed' | 'cancelled';
+  tool_calls: Array<{ tool: string; status: string; durationMs: number }>;
+  created_at: string;
+}
+
+export interface UsageTotals {
+  executions: number;
+  succeeded: number;
+  failed: number;
+  fallback: number;
+  cancelled: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  avgDurationMs: number;
+  estimated: number;
+}
+
+export interface UsageSummary extends UsageTotals {
+  since: string;
+  until: string;
+  // Only the most recent USAGE_SUMMARY_MAX_ROWS records were aggregated
+  truncated: boolean;
+  byAgent: Array<UsageTotals & { agentId: string }>;
+  byModel: Array<UsageTotals & { model: string }>;
+  bySource: Array<UsageTotals & { source: string; users: number }>;
+  byTool: Array<{ tool: string; count: number; succeeded: number; avgDurationMs: number }>;
+  timeSeries: Array<UsageTotals & { timestamp: string }>;
+}
+
+interface SpendCounter {
+  day: string;
+  month: string;
+  dayCostUsd: number;
+  monthCostUsd: number;
+}
@@ -0,0 +1,953 @@
+import { createClient } from '@supabase/supabase-js';
+import { v4 as uuidv4 } from 'uuid';
+import dotenv from 'dotenv';
+import workflowService from './workflowService';
+import timerService, { parseDuration } from './timerService';
+import { WorkflowNode, WorkflowEdge } from '../types/workflow';
+import { httpError } from '../utils/httpError';
+
+// Load environment variables
+dotenv.config();
+
+// Initialize Supabase
+const supabaseUrl = process.env.SUPABASE_URL as string;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY as string;
+let supabase: ReturnType<typeof createClient> | undefined;
+
+if (supabaseUrl && supabaseKey && !supabaseUrl.includes('your_') && !supabaseKey.includes('your_')) {
+  supabase = createClient(supabaseUrl, supabaseKey);
+  console.log('✅ Scheduler service initialized with Supabase database');
+} else {
+  console.log('⚠️ Scheduler service initialized without database persistence');
+}
+
+// How many missed occurrences a `run_all` schedule replays after downtime
+const MAX_CATCH_UP_RUNS = parseInt(process.env.SCHEDULER_MAX_CATCH_UP_RUNS || '10');
+
+// Occurrences this late count as missed rather than on time
+const MISFIRE_GRACE_MS = 60 * 1000;
+
+// Shortest interval accepted for interval schedules
+const MIN_INTERVAL_MS = parseInt(process.env.SCHEDULER_MIN_INTERVAL_MS || '10000');
+
+// Upper bound on occurrences scanned when working out what was missed
+const DUE_SCAN_LIMIT = 1000;
+
+// Run history kept in memory per schedule
+const RUN_HISTORY_LIMIT = 100;
+
+// Executions in these states still count as running for overlap prevention
+const ACTIVE_EXECUTION_STATUSES = ['initializing', 'running', 'paused'];
+
+// In-memory storage for development/fallback
+const scheduleRegistry: Record<string, WorkflowSchedule> = {};
+const runHistory: Record<string, ScheduleRun[]> = {};
+
+// ---------------------------------------------------------------------------
+// Cron expressions
+// ---------------------------------------------------------------------------
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const CRON_FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'] },
+  // 7 is accepted as a second spelling of Sunday
+  { name: 'day of week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] }
+];
+
+const CRON_MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+// Bounds the search for the next occurrence (a few years of skipped days and hours)
+const CRON_SEARCH_LIMIT = 200000;
+
+const cronCache: Map<string, CronSchedule> = new Map();
+const timeZoneFormatters: Map<string, Intl.DateTimeFormat> = new Map();
+
+/**
+ * Parse a standard 5-field cron expression (minute hour day-of-month month day-of-week)
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const cached = cronCache.get(expression);
+  if (cached) return cached;
+
+  const source = CRON_MACROS[expression.trim().toLowerCase()] || expression.trim();
+  const parts = source.split(/\s+/);
+
+  if (parts.length !== 5) {
+    throw httpError(`Invalid cron expression "${expression}": expected 5 fields, got ${parts.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+    parseCronField(part, CRON_FIELDS[index], expression)
+  );
+
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  const cron: CronSchedule = {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: parts[2] === '*' || parts[2] === '?',
+    anyDayOfWeek: parts[4] === '*' || parts[4] === '?'
+  };
+
+  cronCache.set(expression, cron);
+  return cron;
+}
+
+/**
+ * Expand one cron field (lists, ranges, steps and names) into its values
+ */
+function parseCronField(part: string, field: CronField, expression: string): Set<number> {
+  const values = new Set<number>();
+
+  const parseValue = (text: string): number => {
+    const nameIndex = field.names ? field.names.indexOf(text.toUpperCase()) : -1;
+    if (nameIndex >= 0) {
+      return nameIndex + (field.name === 'month' ? 1 : 0);
+    }
+
+    if (!/^\d+$/.test(text)) {
+      throw httpError(`Invalid cron expression "${expression}": bad ${field.name} value "${text}"`);
+    }
+
+    return parseInt(text);
+  };
+
+  for (const item of part.split(',')) {
+    const [range, stepText] = item.split('/');
+    const step = stepText === undefined ? 1 : parseInt(stepText);
+
+    if (!(step > 0)) {
+      throw httpError(`Invalid cron expression "${expression}": bad ${field.name} step "${stepText}"`);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (range === '*' || range === '?') {
+      start = field.min;
+      end = field.max;
+    } else {
+      const [from, to] = range.split('-');
+      start = parseValue(from);
+      // "5/15" means every 15 starting at 5
+      end = to !== undefined ? parseValue(to) : stepText !== undefined ? field.max : start;
+    }
+
+    if (start < field.min || end > field.max || start > end) {
+      throw httpError(
+        `Invalid cron expression "${expression}": ${field.name} must be within ${field.min}-${field.max}`
+      );
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function cronDayMatches(cron: CronSchedule, wall: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(wall.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.has(wall.getUTCDay());
+
+  // Like classic cron, a restricted day-of-month and day-of-week match either
+  if (cron.anyDayOfMonth) return dayOfWeek;
+  if (cron.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+}
+
+function getTimeZoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = timeZoneFormatters.get(timeZone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    timeZoneFormatters.set(timeZone, formatter);
+  }
+
+  return formatter;
+}
+
+/**
+ * Wall-clock time in a timezone, as a Date whose UTC fields hold the local fields
+ */
+function toWallClock(date: Date, timeZone: string): Date {
+  const parts: Record<string, number> = {};
+
+  getTimeZoneFormatter(timeZone)
+    .formatToParts(date)
+    .forEach(part => {
+      if (part.type !== 'literal') parts[part.type] = parseInt(part.value);
+    });
+
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second));
+}
+
+/**
+ * The instant at which a timezone's clock shows the given wall-clock time
+ */
+function fromWallClock(wall: Date, timeZone: string): Date {
+  const offsetAt = (time: number) => {
+    const whole = Math.floor(time / 1000) * 1000;
+    return toWallClock(new Date(whole), timeZone).getTime() - whole;
+  };
+
+  // The second pass corrects the guess when the offset changes around a DST switch
+  const guess = wall.getTime() - offsetAt(wall.getTime());
+  const instant = wall.getTime() - offsetAt(guess);
+
+  // Clocks skipped this time; the later candidate is it shifted forward by the gap
+  if (toWallClock(new Date(instant), timeZone).getTime() !== wall.getTime()) {
+    return new Date(Math.max(guess, instant));
+  }
+
+  return new Date(instant);
+}
+
+/**
+ * Next time after `after` that the cron expression fires in the given timezone.
+ * Wall-clock times skipped by a DST change fire shifted forward by the gap; times
+ * repeated when clocks go back fire once.
+ */
+export function nextCronOccurrence(cron: CronSchedule, after: Date, timeZone: string): Date | null {
+  const wall = toWallClock(after, timeZone);
+  wall.setUTCSeconds(0, 0);
+  wall.setUTCMinutes(wall.getUTCMinutes() + 1);
+
+  for (let i = 0; i < CRON_SEARCH_LIMIT; i++) {
+    if (!cron.months.has(wall.getUTCMonth() + 1)) {
+      wall.setUTCMonth(wall.getUTCMonth() + 1, 1);
+      wall.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!cronDayMatches(cron, wall)) {
+      wall.setUTCDate(wall.getUTCDate() + 1);
+      wall.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!cron.hours.has(wall.getUTCHours())) {
+      wall.setUTCHours(wall.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+
+    if (!cron.minutes.has(wall.getUTCMinutes())) {
+      wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    const instant = fromWallClock(wall, timeZone);
+    if (instant > after) {
+      return instant;
+    }
+
+    wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+  }
+
+  return null;
+}
+
+/**
+ * Translate the canvas' frequency settings into a cron expression
+ */
+function toCronExpression(config: ScheduleConfig): string {
+  if (config.cronExpression) {
+    return config.cronExpression;
+  }
+
+  const [hour, minute] = (config.time || '00:00').split(':').map(value => parseInt(value));
+
+  if (isNaN(hour) || isNaN(minute) || hour < 0 || hour > 23 || minute < 0 || minute > 59) {
+    throw httpError(`Invalid schedule time "${config.time}": expected HH:MM`);
+  }
+
+  const list = (values: number[] | undefined, fallback: string) =>
+    values && values.length > 0 ? values.join(',') : fallback;
+
+  switch (config.frequency) {
+    case 'minutely':
+      return '* * * * *';
+    case 'hourly':
+      return `${minute} * * * *`;
+    case 'daily':
+      return `${minute} ${hour} * * *`;
+    case 'weekly':
+      return `${minute} ${hour} * * ${list(config.daysOfWeek, '0')}`;
+    case 'monthly':
+      return `${minute} ${hour} ${list(config.daysOfMonth, '1')} * *`;
+    case 'custom':
+      throw httpError('cronExpression is required for custom schedules');
+    default:
+      throw httpError(`Invalid schedule frequency: ${config.frequency}`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Scheduler
+// ---------------------------------------------------------------------------
+
+/**
+ * Service that starts workflow executions on cron, interval and one-shot schedules
+ */
+class SchedulerService {
+  /**
+   * Load active schedules and arm their timers. Schedules that came due while
+   * the orchestrator was down fire immediately and apply their catch-up policy.
+   */
+  async initialize(): Promise<void> {
+    const schedules = await this.loadSchedules({ status: 'active' });
+
+    for (const schedule of schedules) {
+      if (!schedule.nextExecution) {
+        const next = this.getNextRun(schedule, new Date());
+        schedule.nextExecution = next ? next.toISOString() : null;
+        await this.saveSchedule(schedule);
+      }
+
+      this.armSchedule(schedule);
+    }
+
+    console.log(`📅 Scheduler armed ${schedules.length} active workflow schedules`);
+  }
+
+  /**
+   * Create a schedule for a workflow
+   */
+  async createSchedule(flowId: string, input: CreateScheduleInput): Promise<WorkflowSchedule> {
+    const timezone = input.timezone || 'UTC';
+
+    try {
+      getTimeZoneFormatter(timezone);
+    } catch (error) {
+      throw httpError(`Invalid timezone: ${timezone}`);
+    }
+
+    const type: ScheduleType = input.type || (input.runAt ? 'once' : input.interval ? 'interval' : 'cron');
+    const now = new Date();
+
+    const schedule: WorkflowSchedule = {
+      id: uuidv4(),
+      flowId,
+      name: input.name,
+      type,
+      schedule: {
+        frequency: input.frequency || (input.cronExpression ? 'custom' : 'daily'),
+        time: input.time,
+        timezone,
+        daysOfWeek: input.daysOfWeek || [],
+        daysOfMonth: input.daysOfMonth || [],
+        cronExpression: input.cronExpression
+      },
+      timezone,
+      catchUp: input.catchUp || 'run_once',
+      preventOverlap: input.preventOverlap !== false,
+      context: input.context || {},
+      nodes: input.nodes,
+      edges: input.edges,
+      status: 'active',
+      nextExecution: null,
+      runCount: 0,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString()
+    };
+
+    switch (type) {
+      case 'once': {
+        const runAt = new Date(input.runAt as string);
+        if (!input.runAt || isNaN(runAt.getTime())) {
+          throw httpError('runAt must be a valid date for one-shot schedules');
+        }
+        if (now.getTime() - runAt.getTime() > MISFIRE_GRACE_MS) {
+          throw httpError('runAt must not be in the past');
+        }
+        schedule.runAt = runAt.toISOString();
+        break;
+      }
+
+      case 'interval': {
+        const intervalMs = parseDuration(input.interval);
+        if (intervalMs === null || intervalMs < MIN_INTERVAL_MS) {
+          throw httpError(`interval must be a duration of at least ${MIN_INTERVAL_MS}ms`);
+        }
+
+        const startAt = input.startAt ? new Date(input.startAt) : now;
+        if (isNaN(startAt.getTime())) {
+          throw httpError('startAt must be a valid date');
+        }
+
+        schedule.intervalMs = intervalMs;
+        schedule.startAt = startAt.toISOString();
+        break;
+      }
+
+      case 'cron':
+        schedule.cronExpression = toCronExpression(schedule.schedule);
+        parseCronExpression(schedule.cronExpression);
+        break;
+
+      default:
+        throw httpError(`Invalid schedule type: ${type}`);
+    }
+
+    // A one-shot date that just passed still fires, right away
+    const next = type === 'once' ? new Date(schedule.runAt as string) : this.getNextRun(schedule, now);
+    if (!next) {
+      throw httpError(`Schedule never fires: ${schedule.cronExpression}`);
+    }
+
+    schedule.nextExecution = next.toISOString();
+
+    await this.saveSchedule(schedule);
+    this.armSchedule(schedule);
+
+    console.log(`📅 Created ${type} schedule ${schedule.id} for workflow ${flowId}, next run ${schedule.nextExecution}`);
+
+    return schedule;
+  }
+
+  /**
+   * Get a schedule by ID
+   */
+  async getSchedule(scheduleId: string): Promise<WorkflowSchedule | null> {
+    if (supabase) {
+      try {
+        const { data, error } = await supabase
+          .from('workflow_schedules')
+          .select('*')
+          .eq('id', scheduleId)
+          .maybeSingle();
+
+        if (error) {
+          console.error('❌ Failed to retrieve schedule from database:', error);
+        } else if (data) {
+          return data.config as WorkflowSchedule;
+        }
+      } catch (error) {
+        console.error('❌ Error retrieving schedule from database:', error);
+      }
+    }
+
+    // Fallback to in-memory storage
+    return scheduleRegistry[scheduleId] || null;
+  }
+
+  /**
+   * List the schedules of a workflow
+   */
+  async listSchedules(flowId: string): Promise<WorkflowSchedule[]> {
+    return this.loadSchedules({ flowId });
+  }
+
+  /**
+   * Stop firing a schedule until it is resumed
+   */
+  async pauseSchedule(scheduleId: string): Promise<WorkflowSchedule> {
+    const schedule = await this.requireSchedule(scheduleId);
+
+    if (schedule.status === 'active') {
+      timerService.cancel(`schedule:${scheduleId}`);
+      schedule.status = 'paused';
+      schedule.updatedAt = new Date().toISOString();
+      await this.saveSchedule(schedule);
+
+      console.log(`⏸️ Paused schedule ${scheduleId}`);
+    }
+
+    return schedule;
+  }
+
+  /**
+   * Resume a paused schedule. Occurrences that fell in the pause are not caught up.
+   */
+  async resumeSchedule(scheduleId: string): Promise<WorkflowSchedule> {
+    const schedule = await this.requireSchedule(scheduleId);
+
+    if (schedule.status === 'paused') {
+      const next = this.getNextRun(schedule, new Date());
+
+      schedule.status = next ? 'active' : 'completed';
+      schedule.nextExecution = next ? next.toISOString() : null;
+      schedule.updatedAt = new Date().toISOString();
+      await this.saveSchedule(schedule);
+
+      if (next) {
+        this.armSchedule(schedule);
+      }
+
+      console.log(`▶️ Resumed schedule ${scheduleId}`);
+    }
+
+    return schedule;
+  }
+
+  /**
+   * Delete a schedule and its run history
+   */
+  async deleteSchedule(scheduleId: string): Promise<boolean> {
+    const schedule = await this.getSchedule(scheduleId);
+    if (!schedule) return false;
+
+    timerService.cancel(`schedule:${scheduleId}`);
+
+    if (supabase) {
+      try {
+        const { error } = await supabase
+          .from('workflow_schedules')
+          .delete()
+          .eq('id', scheduleId);
+
+        if (error) {
+          console.error('❌ Failed to delete schedule from database:', error);
+        }
+      } catch (error) {
+        console.error('❌ Error deleting schedule from database:', error);
+      }
+    }
+
+    delete scheduleRegistry[scheduleId];
+    delete runHistory[scheduleId];
+
+    console.log(`🗑️ Deleted schedule ${scheduleId}`);
+    return true;
+  }
+
+  /**
+   * Get the run history of a schedule, newest first
+   */
+  async getScheduleRuns(scheduleId: string, limit: number = 50): Promise<ScheduleRun[]> {
+    if (supabase) {
+      try {
+        const { data, error } = await supabase
+          .from('workflow_schedule_runs')
+          .select('*')
+          .eq('schedule_id', scheduleId)
+          .order('fired_at', { ascending: false })
+          .limit(limit);
+
+        if (error) {
+          console.error('❌ Failed to retrieve schedule runs from database:', error);
+        } else if (data) {
+          return data.map(row => row.run as ScheduleRun);
+        }
+      } catch (error) {
+        console.error('❌ Error retrieving schedule runs from database:', error);
+      }
+    }
+
+    return (runHistory[scheduleId] || []).slice(0, limit);
+  }
+
+  /**
+   * Next occurrence strictly after the given time, or null if the schedule is done
+   */
+  private getNextRun(schedule: WorkflowSchedule, after: Date): Date | null {
+    switch (schedule.type) {
+      case 'once': {
+        const runAt = new Date(schedule.runAt as string);
+        return runAt > after ? runAt : null;
+      }
+
+      case 'interval': {
+        // Occurrences stay on the grid anchored at startAt, however late a run fires
+        const anchor = new Date(schedule.startAt || schedule.createdAt).getTime();
+        const intervalMs = schedule.intervalMs as number;
+
+        if (after.getTime() < anchor) {
+          return new Date(anchor);
+        }
+
+        const elapsed = Math.floor((after.getTime() - anchor) / intervalMs) + 1;
+        return new Date(anchor + elapsed * intervalMs);
+      }
+
+      default:
+        return nextCronOccurrence(
+          parseCronExpression(schedule.cronExpression as string),
+          after,
+          schedule.timezone
+        );
+    }
+  }
+
+  /**
+   * Set the in-process timer for a schedule's next occurrence
+   */
+  private armSchedule(schedule: WorkflowSchedule): void {
+    if (schedule.status !== 'active' || !schedule.nextExecution) return;
+
+    timerService.schedule(`schedule:${schedule.id}`, new Date(schedule.nextExecution), () =>
+      this.fireSchedule(schedule.id)
+    );
+  }
+
+  /**
+   * Handle a schedule's timer: start the due runs according to the catch-up
+   * policy, then move the schedule on to its next occurrence
+   */
+  private async fireSchedule(scheduleId: string): Promise<void> {
+    const schedule = await this.getSchedule(scheduleId);
+    if (!schedule || schedule.status !== 'active' || !schedule.nextExecution) return;
+
+    const now = new Date();
+
+    // Everything from the stored next occurrence up to now is due
+    const due: Date[] = [];
+    let occurrence: Date | null = new Date(schedule.nextExecution);
+
+    while (occurrence && occurrence <= now && due.length < DUE_SCAN_LIMIT) {
+      due.push(occurrence);
+      occurrence = this.getNextRun(schedule, occurrence);
+    }
+
+    const missed = due.filter(date => now.getTime() - date.getTime() > MISFIRE_GRACE_MS);
+    const onTime = due.filter(date => now.getTime() - date.getTime() <= MISFIRE_GRACE_MS);
+
+    let catchUp: Date[] = [];
+
+    if (missed.length > 0) {
+      switch (schedule.catchUp) {
+        case 'run_all':
+          catchUp = missed.slice(-MAX_CATCH_UP_RUNS);
+          break;
+        case 'run_once':
+          // A single run stands in for the missed ones unless one is due now anyway
+          catchUp = onTime.length > 0 ? [] : missed.slice(-1);
+          break;
+        default:
+          catchUp = [];
+      }
+
+      const skipped = missed.length - catchUp.length;
+
+      if (skipped > 0) {
+        console.log(`⏭️ Schedule ${scheduleId} skipping ${skipped} missed runs (${schedule.catchUp})`);
+
+        await this.recordRun({
+          id: uuidv4(),
+          scheduleId,
+          flowId: schedule.flowId,
+          scheduledFor: missed[0].toISOString(),
+          firedAt: now.toISOString(),
+          status: 'skipped',
+          catchUp: true,
+          reason: `Missed while the scheduler was not running (catch-up policy: ${schedule.catchUp})`,
+          missedCount: skipped
+        });
+      }
+    }
+
+    for (const scheduledFor of catchUp) {
+      await this.startRun(schedule, scheduledFor, true);
+    }
+
+    for (const scheduledFor of onTime) {
+      await this.startRun(schedule, scheduledFor, false);
+    }
+
+    const next = this.getNextRun(schedule, now);
+
+    // Pick up pause/delete requests that arrived while the runs were starting
+    const current = await this.getSchedule(scheduleId);
+    if (!current || current.status !== 'active') return;
+
+    current.runCount = schedule.runCount;
+    current.lastExecution = schedule.lastExecution;
+    current.lastExecutionId = schedule.lastExecutionId;
+    current.nextExecution = next ? next.toISOString() : null;
+    current.status = next ? 'active' : 'completed';
+    current.updatedAt = new Date().toISOString();
+
+    await this.saveSchedule(current);
+    this.armSchedule(current);
+  }
+
+  /**
+   * Start one execution for a schedule occurrence, unless the previous one is still running
+   */
+  private async startRun(schedule: WorkflowSchedule, scheduledFor: Date, catchUp: boolean): Promise<ScheduleRun> {
+    const run: ScheduleRun = {
+      id: uuidv4(),
+      scheduleId: schedule.id,
+      flowId: schedule.flowId,
+      scheduledFor: scheduledFor.toISOString(),
+      firedAt: new Date().toISOString(),
+      status: 'started',
+      catchUp
+    };
+
+    if (schedule.preventOverlap && schedule.lastExecutionId) {
+      const previous = await workflowService.getExecutionStatus(schedule.lastExecutionId);
+
+      if (previous && ACTIVE_EXECUTION_STATUSES.includes(previous.status)) {
+        run.status = 'skipped';
+        run.reason = `Previous execution ${previous.id} is still ${previous.status}`;
+
+        console.log(`⏭️ Schedule ${schedule.id} skipped: ${run.reason}`);
+        await this.recordRun(run);
+        return run;
+      }
+    }
+
+    try {
+      const { nodes, edges } = await this.resolveGraph(schedule);
+
+      const { executionId } = await workflowService.executeWorkflow(schedule.flowId, nodes, edges, {
+        ...schedule.context,
+        triggerType: 'schedule',
+        triggerSource: schedule.id,
+        scheduledFor: run.scheduledFor
+      });
+
+      run.executionId = executionId;
+      schedule.lastExecutionId = executionId;
+      schedule.lastExecution = run.firedAt;
+      schedule.runCount++;
+
+      console.log(`⏰ Schedule ${schedule.id} started execution ${executionId}`);
+    } catch (error: any) {
+      run.status = 'failed';
+      run.reason = error.message;
+
+      console.error(`❌ Schedule ${schedule.id} failed to start workflow ${schedule.flowId}:`, error);
+    }
+
+    await this.recordRun(run);
+    return run;
+  }
+
+  /**
+   * The graph to execute: the one saved with the schedule, or the workflow's current graph
+   */
+  private async resolveGraph(schedule: WorkflowSchedule): Promise<{ nodes: WorkflowNode[]; edges: WorkflowEdge[] }> {
+    if (schedule.nodes && schedule.nodes.length > 0) {
+      return { nodes: schedule.nodes, edges: schedule.edges || [] };
+    }
+
+    if (supabase) {
+      const { data, error } = await supabase
+        .from('workflows')
+        .select('nodes, edges')
+        .eq('id', schedule.flowId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to load workflow ${schedule.flowId}: ${error.message}`);
+      }
+
+      if (data && Array.isArray(data.nodes) && data.nodes.length > 0) {
+        return { nodes: data.nodes as WorkflowNode[], edges: (data.edges || []) as WorkflowEdge[] };
+      }
+    }
+
+    throw new Error(`Workflow ${schedule.flowId} not found or has no nodes`);
+  }
+
+  private async requireSchedule(scheduleId: string): Promise<WorkflowSchedule> {
+    const schedule = await this.getSchedule(scheduleId);
+
+    if (!schedule) {
+      throw httpError(`Schedule not found: ${scheduleId}`, 404);
+    }
+
+    return schedule;
+  }
+
+  private async loadSchedules(filter: { flowId?: string; status?: ScheduleStatus }): Promise<WorkflowSchedule[]> {
+    if (supabase) {
+      try {
+        let query = supabase.from('workflow_schedules').select('*');
+
+        if (filter.flowId) query = query.eq('workflow_id', filter.flowId);
+        if (filter.status) query = query.eq('status', filter.status);
+
+        const { data, error } = await query;
+
+        if (error) {
+          console.error('❌ Failed to retrieve schedules from database:', error);
+        } else if (data) {
+          return data.map(row => row.config as WorkflowSchedule);
+        }
+      } catch (error) {
+        console.error('❌ Error retrieving schedules from database:', error);
+      }
+    }
+
+    // Fallback to in-memory storage
+    return Object.values(scheduleRegistry).filter(schedule =>
+      (!filter.flowId || schedule.flowId === filter.flowId) &&
+      (!filter.status || schedule.status === filter.status)
+    );
+  }
+
+  private async saveSchedule(schedule: WorkflowSchedule): Promise<void> {
+    if (supabase) {
+      try {
+        const { error } = await supabase
+          .from('workflow_schedules')
+          .upsert({
+            id: schedule.id,
+            workflow_id: schedule.flowId,
+            status: schedule.status,
+            next_execution: schedule.nextExecution,
+            config: schedule,
+            updated_at: schedule.updatedAt
+          });
+
+        if (error) {
+          console.error('❌ Failed to store schedule in database:', error);
+        }
+      } catch (error) {
+        console.error('❌ Error storing schedule in database:', error);
+      }
+    }
+
+    // Also store in memory for fallback
+    scheduleRegistry[schedule.id] = schedule;
+  }
+
+  private async recordRun(run: ScheduleRun): Promise<void> {
+    if (supabase) {
+      try {
+        const { error } = await supabase
+          .from('workflow_schedule_runs')
+          .insert({
+            id: run.id,
+            schedule_id: run.scheduleId,
+            workflow_id: run.flowId,
+            status: run.status,
+            execution_id: run.executionId || null,
+            scheduled_for: run.scheduledFor,
+            fired_at: run.firedAt,
+            run
+          });
+
+        if (error) {
+          console.error('❌ Failed to store schedule run in database:', error);
+        }
+      } catch (error) {
+        console.error('❌ Error storing schedule run in database:', error);
+      }
+    }
+
+    const history = runHistory[run.scheduleId] || (runHistory[run.scheduleId] = []);
+    history.unshift(run);
+    history.splice(RUN_HISTORY_LIMIT);
+  }
+}
+
+// Create singleton instance
+const schedulerService = new SchedulerService();
+export default schedulerService;
+
+// Types
+export type ScheduleType = 'cron' | 'interval' | 'once';
+
+export type ScheduleStatus = 'active' | 'paused' | 'completed';
+
+/**
+ * What to do with occurrences that came due while the scheduler wasn't running:
+ * skip them, start one run in their place, or replay each of them
+ */
+export type CatchUpPolicy = 'skip' | 'run_once' | 'run_all';
+
+export interface ScheduleConfig {
+  frequency: 'minutely' | 'hourly' | 'daily' | 'weekly' | 'monthly' | 'custom';
+  time?: string;
+  timezone?: string;
+  daysOfWeek?: number[];
+  daysOfMonth?: number[];
+  cronExpression?: string;
+}
+
+export interface CreateScheduleInput extends Partial<ScheduleConfig> {
+  type?: ScheduleType;
+  name?: string;
+  interval?: string | number;
+  startAt?: string;
+  runAt?: string;
+  catchUp?: CatchUpPolicy;
+  preventOverlap?: boolean;
+  context?: Record<string, any>;
+  nodes?: WorkflowNode[];
+  edges?: WorkflowEdge[];
+}
+
+export interface WorkflowSchedule {
+  id: string;
+  flowId: string;
+  name?: string;
+  type: ScheduleType;
+  schedule: ScheduleConfig;
+  cronExpression?: string;
+  intervalMs?: number;
+  startAt?: string;
+  runAt?: string;
+  timezone: string;
+  catchUp: CatchUpPolicy;
+  preventOverlap: boolean;
+  context: Record<string, any>;
+  nodes?: WorkflowNode[];
+  edges?: WorkflowEdge[];
+  status: ScheduleStatus;
+  nextExecution: string | null;
+  lastExecution?: string;
+  lastExecutionId?: string;
+  runCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScheduleRun {
+  id: string;
+  scheduleId: string;
+  flowId: string;
+  scheduledFor: string;
+  firedAt: string;
+  status: 'started' | 'skipped' | 'failed';
+  catchUp: boolean;
+  executionId?: string;
+  reason?: string;
+  missedCount?: number;
+}
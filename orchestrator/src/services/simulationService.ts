@@ -81,6 +81,7 @@ class SimulationService {
               agent_role: agent.role,
               agent_description: agent.description,
               isSimulation: true,
+              source: 'simulation',
               guild_id: config.guild_id,
               simulationId
             }
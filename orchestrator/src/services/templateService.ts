@@ -0,0 +1,518 @@
+/**
+ * `{{ ... }}` templates in workflow node configs.
+ *
+ * Each template holds a sandboxed expression (see expressionService)
+ * followed by optional filters, evaluated against the execution:
+ *
+ *   {{ nodes.fetchLead.output.data.email }}
+ *   {{ nodes['action-1700000'].output.status | number }}
+ *   {{ trigger.body.id | string }}
+ *   {{ secrets.SLACK_TOKEN }}
+ *   {{ vars.customerName | default: 'there' | upper }}
+ *
+ * A string that is exactly one template resolves to the typed value, so a
+ * body field can receive a number or an object; templates embedded in
+ * longer text are interpolated as text.
+ */
+
+import expressionService, { ExpressionIssue } from './expressionService';
+import { ExecutionContext, WorkflowNode } from '../types/workflow';
+
+// Secrets are read from environment variables with this prefix
+const SECRET_ENV_PREFIX = 'WORKFLOW_SECRET_';
+
+// Secret values shorter than this are too likely to match unrelated text to redact
+const MIN_REDACTED_SECRET_LENGTH = 4;
+
+const REDACTED = '[REDACTED]';
+
+// Upper bound on how deep configs and outputs are walked
+const MAX_WALK_DEPTH = 20;
+
+const TEMPLATE_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+
+// Prefix for the variables that carry resolved templates into expressions
+const EXPRESSION_TEMPLATE_PREFIX = '__template_';
+
+type TemplateFilter = (value: any, args: any[]) => any;
+
+/**
+ * Conversion and formatting filters. Conversions pass `undefined` and `null`
+ * through untouched so a later `default` can still apply.
+ */
+const FILTERS: Record<string, { arity: [number, number]; fn: TemplateFilter }> = {
+  // Typed conversions
+  string: { arity: [0, 0], fn: (value) => convert(value, toText) },
+  number: { arity: [0, 0], fn: (value) => convert(value, toNumber) },
+  integer: { arity: [0, 0], fn: (value) => convert(value, (v) => Math.trunc(toNumber(v))) },
+  boolean: { arity: [0, 0], fn: (value) => convert(value, toBoolean) },
+  json: { arity: [0, 0], fn: (value) => (value === undefined ? undefined : JSON.stringify(value)) },
+  parseJson: { arity: [0, 0], fn: (value) => convert(value, (v) => (typeof v === 'string' ? JSON.parse(v) : v)) },
+  date: { arity: [0, 0], fn: (value) => convert(value, toIsoDate) },
+  array: { arity: [0, 0], fn: (value) => convert(value, (v) => (Array.isArray(v) ? v : [v])) },
+
+  // Fallbacks
+  default: {
+    arity: [0, 1],
+    fn: (value, [fallback = '']) => (value === undefined || value === null || value === '' ? fallback : value)
+  },
+
+  // Formatting
+  upper: { arity: [0, 0], fn: (value) => convert(value, (v) => toText(v).toUpperCase()) },
+  lower: { arity: [0, 0], fn: (value) => convert(value, (v) => toText(v).toLowerCase()) },
+  trim: { arity: [0, 0], fn: (value) => convert(value, (v) => toText(v).trim()) },
+  urlencode: { arity: [0, 0], fn: (value) => convert(value, (v) => encodeURIComponent(toText(v))) },
+  join: {
+    arity: [0, 1],
+    fn: (value, [separator = ',']) => convert(value, (v) => (Array.isArray(v) ? v.map(toText).join(toText(separator)) : toText(v)))
+  }
+};
+
+function convert(value: any, converter: (value: any) => any): any {
+  return value === undefined || value === null ? value : converter(value);
+}
+
+function toText(value: any): string {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function toNumber(value: any): number {
+  const number = typeof value === 'string' && value.trim() === '' ? NaN : Number(value);
+  if (Number.isNaN(number)) {
+    throw new Error(`cannot convert ${JSON.stringify(toText(value))} to a number`);
+  }
+  return number;
+}
+
+function toBoolean(value: any): boolean {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+
+  const text = toText(value).trim().toLowerCase();
+  if (['true', 'yes', 'on', '1'].includes(text)) return true;
+  if (['false', 'no', 'off', '0', ''].includes(text)) return false;
+
+  throw new Error(`cannot convert ${JSON.stringify(toText(value))} to a boolean`);
+}
+
+function toIsoDate(value: any): string {
+  const date = value instanceof Date ? value : new Date(typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`cannot convert ${JSON.stringify(toText(value))} to a date`);
+  }
+  return date.toISOString();
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function createTemplateError(message: string, field?: string): Error {
+  const error: any = new Error(field ? `Template error in ${field}: ${message}` : `Template error: ${message}`);
+  error.code = 'TEMPLATE_ERROR';
+  error.field = field;
+  error.reason = message;
+  return error;
+}
+
+/**
+ * Split on a separator that sits outside quotes and brackets.
+ * `||` is the expression OR operator, so a pipe next to another pipe never splits.
+ */
+function splitTopLevel(source: string, separator: '|' | ','): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index];
+
+    if (quote) {
+      if (char === '\\') index++;
+      else if (char === quote) quote = null;
+      continue;
+    }
+
+    if (char === '\'' || char === '"' || char === '`') quote = char;
+    else if (char === '(' || char === '[') depth++;
+    else if (char === ')' || char === ']') depth--;
+    else if (char === separator && depth === 0) {
+      if (separator === '|' && (source[index - 1] === '|' || source[index + 1] === '|')) continue;
+      parts.push(source.slice(start, index));
+      start = index + 1;
+    }
+  }
+
+  parts.push(source.slice(start));
+  return parts;
+}
+
+/**
+ * camelCase handle for a node label, e.g. "Fetch Lead" -> "fetchLead"
+ */
+function toNodeAlias(label: any): string | null {
+  const words = String(label ?? '').match(/[A-Za-z0-9]+/g);
+  if (!words || !/^[A-Za-z]/.test(words[0])) return null;
+
+  return words
+    .map((word, index) => index === 0
+      ? word.charAt(0).toLowerCase() + word.slice(1)
+      : word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+}
+
+interface ParsedTemplate {
+  expression: string;
+  filters: Array<{ name: string; args: string[] }>;
+}
+
+/**
+ * Service for resolving `{{ ... }}` templates in node configs
+ */
+class TemplateService {
+  /**
+   * True when a string (or any string inside an object or array) holds a template
+   */
+  public hasTemplates(value: any, depth = 0): boolean {
+    if (typeof value === 'string') return value.includes('{{');
+    if (depth > MAX_WALK_DEPTH) return false;
+    if (Array.isArray(value)) return value.some(item => this.hasTemplates(item, depth + 1));
+    if (isPlainObject(value)) return Object.values(value).some(item => this.hasTemplates(item, depth + 1));
+    return false;
+  }
+
+  /**
+   * Build what templates can read for an execution: `nodes`, `trigger`,
+   * `secrets`, `vars` and `execution`, plus every variable at the top level
+   */
+  public createScope(context: ExecutionContext, graphNodes: WorkflowNode[]): TemplateScope {
+    const variables = context.variables || {};
+    const nodes: Record<string, TemplateNodeRef> = {};
+    const aliases: Record<string, string[]> = {};
+
+    graphNodes.forEach(node => {
+      const state = context.nodes[node.id];
+      nodes[node.id] = {
+        id: node.id,
+        type: node.type,
+        label: node.data?.label,
+        status: state?.status || 'pending',
+        output: state?.output,
+        error: state?.error
+      };
+
+      const alias = toNodeAlias(node.data?.label);
+      if (alias) (aliases[alias] = aliases[alias] || []).push(node.id);
+    });
+
+    // Labels double as handles unless they are ambiguous or shadow an id
+    Object.entries(aliases).forEach(([alias, ids]) => {
+      if (ids.length === 1 && !nodes[alias]) nodes[alias] = nodes[ids[0]];
+    });
+
+    const event = variables.event;
+
+    return {
+      ...variables,
+      nodes,
+      trigger: {
+        type: variables.triggerType || 'manual',
+        source: variables.triggerSource,
+        body: variables.body ?? variables.payload ?? event?.payload,
+        headers: variables.headers || {},
+        query: variables.query || {},
+        event,
+        scheduledFor: variables.scheduledFor
+      },
+      secrets: this.loadSecrets(),
+      vars: variables,
+      execution: {
+        id: context.id,
+        flowId: context.flowId,
+        startTime: context.startTime,
+        parentExecutionId: context.parentExecutionId,
+        iteration: context.iteration
+      }
+    };
+  }
+
+  /**
+   * Resolve every template in a string, object or array. `field` names the
+   * config path in error messages.
+   */
+  public resolve<T>(value: T, scope: Record<string, any>, field = '', depth = 0): T {
+    if (typeof value === 'string') {
+      return this.resolveString(value, scope, field) as any;
+    }
+
+    if (depth > MAX_WALK_DEPTH) return value;
+
+    if (Array.isArray(value)) {
+      return value.map((item, index) => this.resolve(item, scope, `${field}[${index}]`, depth + 1)) as any;
+    }
+
+    if (isPlainObject(value)) {
+      const resolved: Record<string, any> = {};
+      Object.entries(value).forEach(([key, item]) => {
+        resolved[key] = this.resolve(item, scope, field ? `${field}.${key}` : key, depth + 1);
+      });
+      return resolved as any;
+    }
+
+    return value;
+  }
+
+  /**
+   * Resolve the templates in one string
+   */
+  public resolveString(text: string, scope: Record<string, any>, field?: string): any {
+    if (!text.includes('{{')) return text;
+
+    // A lone template keeps the type of its value
+    const whole = text.trim().match(/^\{\{([\s\S]*?)\}\}$/);
+    if (whole && !whole[1].includes('{{')) {
+      return this.evaluateTemplate(whole[1], scope, field);
+    }
+
+    return text.replace(TEMPLATE_PATTERN, (match, source) =>
+      toText(this.evaluateTemplate(source, scope, field))
+    );
+  }
+
+  /**
+   * Swap each template in an expression for a variable reference, so resolved
+   * values enter the expression as data and never as expression source
+   */
+  public extractFromExpression(expression: any): { expression: any; templates: Record<string, string> } {
+    const templates: Record<string, string> = {};
+    if (typeof expression !== 'string' || !expression.includes('{{')) {
+      return { expression, templates };
+    }
+
+    let index = 0;
+    const rewritten = expression.replace(TEMPLATE_PATTERN, (match, source) => {
+      const name = `${EXPRESSION_TEMPLATE_PREFIX}${index++}`;
+      templates[name] = source;
+      return `$['${name}']`;
+    });
+
+    return { expression: rewritten, templates };
+  }
+
+  /**
+   * Evaluate templates pulled out by `extractFromExpression`
+   */
+  public resolveExpressionTemplates(
+    templates: Record<string, string>,
+    scope: Record<string, any>,
+    field?: string
+  ): Record<string, any> {
+    const values: Record<string, any> = {};
+    Object.entries(templates).forEach(([name, source]) => {
+      values[name] = this.evaluateTemplate(source, scope, field);
+    });
+    return values;
+  }
+
+  /**
+   * Check the templates in a string at design time
+   */
+  public validate(text: string): ExpressionIssue[] {
+    const issues: ExpressionIssue[] = [];
+    if (typeof text !== 'string') return issues;
+
+    const openings = (text.match(/\{\{/g) || []).length;
+    const closings = (text.match(/\}\}/g) || []).length;
+    if (openings !== closings) {
+      issues.push({ message: 'Unbalanced template braces', position: Math.max(0, text.indexOf('{{')) });
+    }
+
+    let match: RegExpExecArray | null;
+    const pattern = new RegExp(TEMPLATE_PATTERN.source, 'g');
+    while ((match = pattern.exec(text)) !== null) {
+      const offset = match.index + 2;
+      try {
+        const parsed = this.parseTemplate(match[1]);
+        const result = expressionService.validate(parsed.expression);
+        result.errors.forEach(error => issues.push({ message: error.message, position: offset + error.position }));
+        parsed.filters.forEach(filter => {
+          filter.args.forEach(arg => {
+            expressionService.validate(arg).errors.forEach(error =>
+              issues.push({ message: `Filter '${filter.name}': ${error.message}`, position: offset })
+            );
+          });
+        });
+      } catch (error: any) {
+        issues.push({ message: error.reason || error.message, position: offset });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Strings holding templates inside a config, keyed by their path
+   */
+  public collectTemplates(value: any, field = '', depth = 0): Record<string, string> {
+    const found: Record<string, string> = {};
+
+    if (typeof value === 'string') {
+      if (value.includes('{{')) found[field] = value;
+    } else if (depth <= MAX_WALK_DEPTH && Array.isArray(value)) {
+      value.forEach((item, index) => Object.assign(found, this.collectTemplates(item, `${field}[${index}]`, depth + 1)));
+    } else if (depth <= MAX_WALK_DEPTH && isPlainObject(value)) {
+      Object.entries(value).forEach(([key, item]) =>
+        Object.assign(found, this.collectTemplates(item, field ? `${field}.${key}` : key, depth + 1))
+      );
+    }
+
+    return found;
+  }
+
+  /**
+   * Replace secret values in strings so they never reach logs or stored outputs
+   */
+  public redactSecrets<T>(value: T): T {
+    const secrets = Object.values(this.loadSecrets())
+      .filter(secret => secret.length >= MIN_REDACTED_SECRET_LENGTH)
+      // Longest first so a secret containing another is replaced whole
+      .sort((a, b) => b.length - a.length);
+
+    return secrets.length > 0 ? this.redactValue(value, secrets, 0) : value;
+  }
+
+  /**
+   * Names of the configured secrets (values are never exposed)
+   */
+  public listSecretNames(): string[] {
+    return Object.keys(this.loadSecrets());
+  }
+
+  private redactValue(value: any, secrets: string[], depth: number): any {
+    if (typeof value === 'string') {
+      return secrets.reduce((text, secret) => text.split(secret).join(REDACTED), value);
+    }
+
+    if (depth > MAX_WALK_DEPTH) return value;
+
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactValue(item, secrets, depth + 1));
+    }
+
+    if (isPlainObject(value)) {
+      const redacted: Record<string, any> = {};
+      Object.entries(value).forEach(([key, item]) => {
+        redacted[key] = this.redactValue(item, secrets, depth + 1);
+      });
+      return redacted;
+    }
+
+    return value;
+  }
+
+  /**
+   * Secret values by name, read from WORKFLOW_SECRET_* variables. Server-side only.
+   */
+  public loadSecrets(): Record<string, string> {
+    const secrets: Record<string, string> = {};
+
+    Object.entries(process.env).forEach(([key, value]) => {
+      if (key.startsWith(SECRET_ENV_PREFIX) && value !== undefined) {
+        secrets[key.slice(SECRET_ENV_PREFIX.length)] = value;
+      }
+    });
+
+    return secrets;
+  }
+
+  private evaluateTemplate(source: string, scope: Record<string, any>, field?: string): any {
+    const label = `{{${source}}}`;
+    let parsed: ParsedTemplate;
+
+    try {
+      parsed = this.parseTemplate(source);
+    } catch (error: any) {
+      throw createTemplateError(`${label}: ${error.reason || error.message}`, field);
+    }
+
+    let value: any;
+    try {
+      value = expressionService.evaluate(parsed.expression, scope);
+    } catch (error: any) {
+      throw createTemplateError(`${label}: ${error.message}`, field);
+    }
+
+    parsed.filters.forEach(filter => {
+      try {
+        const args = filter.args.map(arg => expressionService.evaluate(arg, scope));
+        value = FILTERS[filter.name].fn(value, args);
+      } catch (error: any) {
+        throw createTemplateError(`${label}: filter '${filter.name}' failed: ${error.message}`, field);
+      }
+    });
+
+    if (value === undefined) {
+      throw createTemplateError(
+        `${label} did not resolve to a value; add "| default: ..." if it is optional`,
+        field
+      );
+    }
+
+    return value;
+  }
+
+  private parseTemplate(source: string): ParsedTemplate {
+    const [expression, ...segments] = splitTopLevel(source, '|');
+
+    if (expression.trim() === '') {
+      throw createTemplateError('Template is empty');
+    }
+
+    const filters = segments.map(segment => {
+      const colon = segment.indexOf(':');
+      const name = (colon === -1 ? segment : segment.slice(0, colon)).trim();
+      const args = colon === -1
+        ? []
+        : splitTopLevel(segment.slice(colon + 1), ',').map(arg => arg.trim()).filter(arg => arg !== '');
+
+      const filter = FILTERS[name];
+      if (!filter) {
+        throw createTemplateError(`Unknown filter '${name}'`);
+      }
+      if (args.length < filter.arity[0] || args.length > filter.arity[1]) {
+        throw createTemplateError(`Filter '${name}' takes at most ${filter.arity[1]} argument(s)`);
+      }
+
+      return { name, args };
+    });
+
+    return { expression: expression.trim(), filters };
+  }
+}
+
+// Create singleton instance
+const templateService = new TemplateService();
+
+export default templateService;
+
+// Types
+export interface TemplateNodeRef {
+  id: string;
+  type: string;
+  label?: string;
+  status: string;
+  output?: any;
+  error?: string;
+}
+
+export interface TemplateScope extends Record<string, any> {
+  nodes: Record<string, TemplateNodeRef>;
+  trigger: Record<string, any>;
+  secrets: Record<string, string>;
+  vars: Record<string, any>;
+  execution: Record<string, any>;
+}
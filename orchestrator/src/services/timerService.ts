@@ -0,0 +1,113 @@
+// setTimeout overflows past ~24.8 days, so longer timers are re-armed in hops
+const MAX_TIMEOUT_MS = 2147483647;
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * Parse a duration such as "500ms", "30s", "2h" or "1.5d" into milliseconds
+ */
+export function parseDuration(value: any): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+
+  const match = String(value ?? '').trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d|w)$/);
+  return match ? parseFloat(match[1]) * DURATION_UNITS[match[2]] : null;
+}
+
+export interface PendingTimer {
+  key: string;
+  fireAt: Date;
+}
+
+type TimerCallback = () => void | Promise<void>;
+
+/**
+ * In-process timers keyed by name.
+ * Timers don't survive a restart on their own: owners persist the due time and
+ * re-schedule on startup (a timer that is already overdue fires immediately).
+ */
+class TimerService {
+  private timers: Map<string, { fireAt: Date; handle: NodeJS.Timeout }> = new Map();
+
+  constructor() {
+    console.log('⏰ Timer Service initialized');
+  }
+
+  /**
+   * Schedule a callback, replacing any timer already registered under the key
+   */
+  public schedule(key: string, fireAt: Date, callback: TimerCallback): void {
+    this.cancel(key);
+
+    const arm = () => {
+      const remaining = fireAt.getTime() - Date.now();
+
+      if (remaining > MAX_TIMEOUT_MS) {
+        this.timers.set(key, { fireAt, handle: setTimeout(arm, MAX_TIMEOUT_MS) });
+        return;
+      }
+
+      const handle = setTimeout(() => {
+        this.timers.delete(key);
+
+        Promise.resolve()
+          .then(callback)
+          .catch(error => console.error(`❌ Timer ${key} callback failed:`, error));
+      }, Math.max(0, remaining));
+
+      this.timers.set(key, { fireAt, handle });
+    };
+
+    arm();
+  }
+
+  /**
+   * Cancel a timer; returns false if nothing was scheduled under the key
+   */
+  public cancel(key: string): boolean {
+    const timer = this.timers.get(key);
+    if (!timer) return false;
+
+    clearTimeout(timer.handle);
+    this.timers.delete(key);
+    return true;
+  }
+
+  /**
+   * Cancel every timer whose key starts with the prefix
+   */
+  public cancelByPrefix(prefix: string): number {
+    let cancelled = 0;
+
+    for (const key of Array.from(this.timers.keys())) {
+      if (key.startsWith(prefix) && this.cancel(key)) {
+        cancelled++;
+      }
+    }
+
+    return cancelled;
+  }
+
+  /**
+   * List scheduled timers, soonest first
+   */
+  public getPendingTimers(prefix: string = ''): PendingTimer[] {
+    return Array.from(this.timers.entries())
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([key, timer]) => ({ key, fireAt: timer.fireAt }))
+      .sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime());
+  }
+}
+
+// Create singleton instance
+const timerService = new TimerService();
+
+export default timerService;
@@ -0,0 +1,605 @@
+import { createClient } from '@supabase/supabase-js';
+import axios, { AxiosRequestConfig } from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import dotenv from 'dotenv';
+import templateService from './templateService';
+
+// Load environment variables
+dotenv.config();
+
+// Initialize Supabase
+const supabaseUrl = process.env.SUPABASE_URL as string;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY as string;
+let supabase: ReturnType<typeof createClient> | undefined;
+
+if (supabaseUrl && supabaseKey && !supabaseUrl.includes('your_') && !supabaseKey.includes('your_')) {
+  supabase = createClient(supabaseUrl, supabaseKey);
+  console.log('✅ Tool runtime initialized with Supabase database');
+} else {
+  console.log('⚠️ Tool runtime initialized without database access');
+}
+
+// Tool calls an agent may make before it has to answer
+export const AGENT_MAX_TOOL_STEPS = Math.max(1, parseInt(process.env.AGENT_MAX_TOOL_STEPS || '5'));
+
+const TOOL_TIMEOUT_MS = parseInt(process.env.AGENT_TOOL_TIMEOUT_MS || '30000');
+
+// Tool results longer than this are truncated before they go back to the agent
+const TOOL_RESULT_MAX_CHARS = parseInt(process.env.AGENT_TOOL_RESULT_MAX_CHARS || '4000');
+
+// Rows a database tool may return per call
+const DATABASE_TOOL_MAX_ROWS = 100;
+
+// Tables database tools may use; they run with the service role, so none are allowed by default
+const DATABASE_TOOL_TABLES = new Set(
+  (process.env.AGENT_DATABASE_TOOL_TABLES || '').split(',').map(table => table.trim()).filter(Boolean)
+);
+
+const TOOL_TYPES: AgentToolType[] = ['api', 'webhook', 'database', 'external'];
+
+const DATABASE_OPERATIONS = ['select', 'insert', 'update', 'delete'];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Runs the tools configured on an agent (`Agent.tools`) on the agent's behalf.
+ * Each tool is described to the agent with a JSON schema; when the agent
+ * replies with a tool call, the runtime validates the arguments, performs the
+ * call with the tool's credentials and returns a result the agent can read.
+ */
+class ToolRuntimeService {
+  constructor() {
+    console.log('🛠️ Tool Runtime Service initialized');
+  }
+
+  /**
+   * Full definitions for an agent's tools, looked up by name on the agent's row
+   * in the agents table. Callers only ever name tools: definitions carry URLs,
+   * credentials and tables, so they must come from the stored agent. Names
+   * without a definition can't be called and are dropped.
+   */
+  public async resolveTools(agentId: string, tools: unknown[] = []): Promise<AgentTool[]> {
+    const defined: AgentTool[] = [];
+    const names = tools.filter(tool => typeof tool === 'string') as string[];
+
+    if (names.length < tools.length) {
+      console.warn(`⚠️ Ignored ${tools.length - names.length} inline tool definition(s) for agent ${agentId}; tools are named, not defined, by callers`);
+    }
+
+    if (names.length > 0 && supabase && UUID_PATTERN.test(agentId)) {
+      try {
+        const { data, error } = await supabase
+          .from('agents')
+          .select('tools')
+          .eq('id', agentId)
+          .maybeSingle();
+
+        if (error) throw error;
+
+        const stored: AgentTool[] = Array.isArray((data as any)?.tools) ? (data as any).tools : [];
+        names.forEach(name => {
+          const tool = stored.find(candidate => candidate && (candidate.name === name || candidate.id === name));
+          if (tool) defined.push(tool);
+        });
+      } catch (error) {
+        console.error(`❌ Failed to load tools for agent ${agentId}:`, error);
+      }
+    }
+
+    return defined.filter(tool => TOOL_TYPES.includes(tool.type) && tool.name);
+  }
+
+  /**
+   * What the agent is told about each tool. Names are made snake_case, safe for
+   * function calling and unique across the set.
+   */
+  public describeTools(tools: AgentTool[]): ToolSchema[] {
+    const used = new Set<string>();
+
+    return tools.map(tool => {
+      const base = tool.name.toLowerCase().replace(/[^a-z0-9_-]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 60) || tool.type;
+      let name = base;
+      for (let suffix = 2; used.has(name); suffix++) name = `${base}_${suffix}`;
+      used.add(name);
+
+      return {
+        name,
+        toolId: tool.id,
+        description: tool.config?.description || this.defaultDescription(tool),
+        parameters: tool.config?.parameters || this.defaultParameters(tool)
+      };
+    });
+  }
+
+  /**
+   * Instructions appended to the agent's input: the tools it may call, how to
+   * call them and the results of the calls made so far
+   */
+  public buildPrompt(input: string, schemas: ToolSchema[], calls: ToolCallRecord[], limitReached: boolean): string {
+    const sections = [input];
+
+    if (schemas.length > 0) {
+      sections.push([
+        'You can call these tools:',
+        ...schemas.map(schema =>
+          `- ${schema.name}: ${schema.description}\n  parameters (JSON schema): ${JSON.stringify(schema.parameters)}`
+        ),
+        'To call a tool, reply with only this JSON and nothing else:',
+        '{"tool_call": {"name": "<tool name>", "arguments": { ... }}}',
+        'Call one tool at a time. When you have what you need, reply with your final answer as plain text.'
+      ].join('\n'));
+    }
+
+    if (calls.length > 0) {
+      sections.push([
+        'Tool results so far:',
+        ...calls.map(call => `[${call.step}] ${call.tool}(${JSON.stringify(call.arguments)}) -> ${
+          call.status === 'succeeded' ? this.truncate(call.result) : `error: ${call.error}`
+        }`)
+      ].join('\n'));
+    }
+
+    if (limitReached) {
+      sections.push('The tool call limit has been reached. Answer now with the information above; do not call any more tools.');
+    }
+
+    return sections.join('\n\n');
+  }
+
+  /**
+   * The tool call in an agent reply, if the reply is one. Accepts the JSON
+   * alone, in a code fence, or embedded in surrounding text.
+   */
+  public parseToolCall(output: string): { name: string; arguments: Record<string, any> } | null {
+    if (typeof output !== 'string' || !output.includes('tool_call')) return null;
+
+    const candidates = [output.trim().replace(/^```(?:json)?\s*|\s*```$/g, '')];
+    const start = output.indexOf('{');
+    if (start !== -1) candidates.push(extractJsonObject(output, start));
+
+    for (const candidate of candidates) {
+      try {
+        const parsed = JSON.parse(candidate);
+        const call = parsed?.tool_call;
+
+        if (call && typeof call.name === 'string') {
+          const args = typeof call.arguments === 'string' ? JSON.parse(call.arguments) : call.arguments;
+          return { name: call.name, arguments: args && typeof args === 'object' ? args : {} };
+        }
+      } catch {
+        // Try the next candidate
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Validate and perform one tool call. Failures are returned in the record
+   * (and shown to the agent) rather than thrown.
+   */
+  public async executeCall(
+    call: { name: string; arguments: Record<string, any> },
+    tools: AgentTool[],
+    schemas: ToolSchema[],
+    step: number
+  ): Promise<ToolCallRecord> {
+    const startedAt = Date.now();
+    const index = schemas.findIndex(schema => schema.name === call.name);
+    const tool = tools[index];
+
+    const record: ToolCallRecord = {
+      id: uuidv4(),
+      step,
+      tool: call.name,
+      toolId: tool?.id,
+      type: tool?.type,
+      arguments: call.arguments,
+      status: 'succeeded',
+      startedAt: new Date(startedAt).toISOString(),
+      durationMs: 0
+    };
+
+    try {
+      if (!tool) {
+        record.status = 'rejected';
+        throw new Error(`Unknown tool "${call.name}". Available tools: ${schemas.map(schema => schema.name).join(', ')}`);
+      }
+
+      const errors = validateSchema(schemas[index].parameters, call.arguments, 'arguments');
+      if (errors.length > 0) {
+        record.status = 'rejected';
+        throw new Error(`Invalid arguments: ${errors.join('; ')}`);
+      }
+
+      record.result = await this.runTool(tool, call.arguments);
+      console.log(`🛠️ Tool ${call.name} succeeded (step ${step})`);
+    } catch (error: any) {
+      if (record.status !== 'rejected') record.status = 'failed';
+      record.error = error.message;
+      console.warn(`⚠️ Tool ${call.name} ${record.status} (step ${step}): ${error.message}`);
+    }
+
+    record.durationMs = Date.now() - startedAt;
+    return this.redact(record, tool);
+  }
+
+  /**
+   * One-line summary of a call for chain_of_thought
+   */
+  public describeCall(call: ToolCallRecord): string {
+    const outcome = call.status === 'succeeded'
+      ? `returned ${this.truncate(call.result, 300)}`
+      : `${call.status}: ${call.error}`;
+
+    return `Step ${call.step}: called ${call.tool}(${JSON.stringify(call.arguments)}) in ${call.durationMs}ms and it ${outcome}`;
+  }
+
+  private async runTool(tool: AgentTool, args: Record<string, any>): Promise<any> {
+    const config = this.resolveSecrets(tool.config || {});
+    const credentials = this.resolveSecrets(tool.credentials || {});
+
+    switch (tool.type) {
+      case 'api': {
+        const method = String(config.method || 'GET').toUpperCase();
+        const request: AxiosRequestConfig = {
+          method,
+          url: joinUrl(config.url, args.path),
+          headers: { ...config.headers },
+          params: { ...config.query, ...args.query },
+          data: method === 'GET' || method === 'DELETE' ? undefined : { ...config.body, ...args.body }
+        };
+
+        return this.sendRequest(request, config, credentials);
+      }
+
+      case 'webhook':
+        return this.sendRequest({
+          method: String(config.method || 'POST').toUpperCase(),
+          url: config.url,
+          headers: { 'Content-Type': 'application/json', ...config.headers },
+          data: args.payload ?? args
+        }, config, credentials);
+
+      case 'external':
+        // A remote tool server receives the tool and its arguments
+        return this.sendRequest({
+          method: 'POST',
+          url: config.url || config.endpoint,
+          headers: { 'Content-Type': 'application/json', ...config.headers },
+          data: { tool: tool.name, tool_id: tool.id, arguments: args }
+        }, config, credentials);
+
+      case 'database':
+        return this.runDatabaseTool(config, args);
+
+      default:
+        throw new Error(`Unsupported tool type: ${tool.type}`);
+    }
+  }
+
+  private async sendRequest(
+    request: AxiosRequestConfig,
+    config: Record<string, any>,
+    credentials: Record<string, string>
+  ): Promise<any> {
+    if (!request.url) {
+      throw new Error('Tool has no URL configured');
+    }
+
+    const headers: Record<string, any> = { ...(request.headers as Record<string, any>) };
+    const params: Record<string, any> = { ...request.params };
+    const auth = config.auth || {};
+    const token = credentials.bearer_token || credentials.token || credentials.access_token;
+
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+    if (credentials.api_key) {
+      if (auth.in === 'query') {
+        params[auth.name || 'api_key'] = credentials.api_key;
+      } else {
+        headers[auth.header || 'X-API-Key'] = credentials.api_key;
+      }
+    }
+    if (credentials.username !== undefined && credentials.password !== undefined) {
+      headers.Authorization = `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`;
+    }
+
+    try {
+      const response = await axios({ ...request, headers, params, timeout: TOOL_TIMEOUT_MS });
+      return { status: response.status, data: response.data };
+    } catch (error: any) {
+      const status = error.response?.status;
+      throw new Error(status
+        ? `Request failed with status ${status}: ${this.truncate(error.response.data, 500)}`
+        : `Request failed: ${error.message}`);
+    }
+  }
+
+  private async runDatabaseTool(config: Record<string, any>, args: Record<string, any>): Promise<any> {
+    if (!supabase) {
+      throw new Error('Database tools need the orchestrator to be connected to Supabase');
+    }
+    if (!config.table) {
+      throw new Error('Database tool has no table configured');
+    }
+    if (!DATABASE_TOOL_TABLES.has(config.table)) {
+      throw new Error(`Table ${config.table} is not open to database tools (see AGENT_DATABASE_TOOL_TABLES)`);
+    }
+
+    const operation = args.operation || 'select';
+    const allowed: string[] = config.operations || ['select'];
+    if (!allowed.includes(operation)) {
+      throw new Error(`Operation ${operation} is not allowed on ${config.table}`);
+    }
+
+    const filters = { ...args.filters, ...config.filters };
+    const table = supabase.from(config.table);
+
+    // Writes that could touch every row need a filter
+    if ((operation === 'update' || operation === 'delete') && Object.keys(filters).length === 0) {
+      throw new Error(`${operation} requires filters`);
+    }
+
+    let result;
+    switch (operation) {
+      case 'insert':
+        result = await table.insert(args.data as any).select();
+        break;
+      case 'update':
+        result = await table.update(args.data as any).match(filters).select();
+        break;
+      case 'delete':
+        result = await table.delete().match(filters).select();
+        break;
+      default:
+        result = await table
+          .select(config.columns || '*')
+          .match(filters)
+          .limit(Math.min(Number(args.limit) || DATABASE_TOOL_MAX_ROWS, DATABASE_TOOL_MAX_ROWS));
+    }
+
+    if (result.error) {
+      throw new Error(result.error.message);
+    }
+
+    return { operation, table: config.table, rows: result.data, count: Array.isArray(result.data) ? result.data.length : 0 };
+  }
+
+  private defaultDescription(tool: AgentTool): string {
+    const config = tool.config || {};
+
+    switch (tool.type) {
+      case 'api':
+        return `Call the ${tool.name} API (${String(config.method || 'GET').toUpperCase()} ${config.url || ''})`.trim();
+      case 'webhook':
+        return `Send a payload to the ${tool.name} webhook`;
+      case 'database':
+        return `Read${(config.operations || ['select']).some((op: string) => op !== 'select') ? ' and write' : ''} rows in the ${config.table} table`;
+      default:
+        return `Run the external tool ${tool.name}`;
+    }
+  }
+
+  private defaultParameters(tool: AgentTool): JsonSchema {
+    const config = tool.config || {};
+
+    switch (tool.type) {
+      case 'api':
+        return {
+          type: 'object',
+          properties: {
+            path: { type: 'string', description: 'Path appended to the base URL' },
+            query: { type: 'object', description: 'Query string parameters' },
+            ...(String(config.method || 'GET').toUpperCase() !== 'GET' ? { body: { type: 'object', description: 'JSON request body' } } : {})
+          }
+        };
+      case 'webhook':
+        return {
+          type: 'object',
+          properties: { payload: { type: 'object', description: 'JSON payload to send' } },
+          required: ['payload']
+        };
+      case 'database': {
+        const operations = (config.operations || ['select']).filter((op: string) => DATABASE_OPERATIONS.includes(op));
+        return {
+          type: 'object',
+          properties: {
+            operation: { type: 'string', enum: operations },
+            filters: { type: 'object', description: 'Column equality filters' },
+            data: { type: 'object', description: 'Row values for insert and update' },
+            limit: { type: 'integer', description: `At most ${DATABASE_TOOL_MAX_ROWS}` }
+          }
+        };
+      }
+      default:
+        return { type: 'object' };
+    }
+  }
+
+  /**
+   * Config and credential values may reference `{{ secrets.NAME }}`
+   */
+  private resolveSecrets<T>(value: T): T {
+    if (!templateService.hasTemplates(value)) return value;
+    return templateService.resolve(value, { secrets: templateService.loadSecrets() }, 'tool');
+  }
+
+  /**
+   * Strip the tool's credentials and workflow secrets from a call record
+   */
+  private redact(record: ToolCallRecord, tool?: AgentTool): ToolCallRecord {
+    const credentialValues = Object.values(this.resolveSecrets(tool?.credentials || {}))
+      .filter(value => typeof value === 'string' && value.length >= 4)
+      .sort((a, b) => b.length - a.length);
+
+    const scrub = (value: any): any => {
+      if (typeof value === 'string') {
+        return credentialValues.reduce((text, secret) => text.split(secret).join(REDACTED), value);
+      }
+      if (Array.isArray(value)) return value.map(scrub);
+      if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, scrub(item)]));
+      }
+      return value;
+    };
+
+    return templateService.redactSecrets(credentialValues.length > 0 ? scrub(record) : record);
+  }
+
+  private truncate(value: any, length: number = TOOL_RESULT_MAX_CHARS): string {
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    if (text === undefined) return 'nothing';
+    return text.length > length ? `${text.slice(0, length)}… (truncated)` : text;
+  }
+}
+
+/**
+ * The balanced `{...}` starting at `start`, respecting strings
+ */
+function extractJsonObject(text: string, start: number): string {
+  let depth = 0;
+  let inString = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return text.slice(start, i + 1);
+    }
+  }
+
+  return text.slice(start);
+}
+
+function joinUrl(base: string | undefined, path: any): string | undefined {
+  if (!base || !path) return base;
+
+  const relative = String(path);
+  // Arguments may only extend the configured URL, never point elsewhere
+  if (/^[a-z][a-z0-9+.-]*:/i.test(relative) || relative.startsWith('//') || relative.split('/').includes('..')) {
+    throw new Error('path must be relative to the tool URL');
+  }
+
+  return `${base.replace(/\/+$/, '')}/${relative.replace(/^\/+/, '')}`;
+}
+
+/**
+ * Check a value against the subset of JSON Schema tool parameters use:
+ * type, properties, required, enum, items and additionalProperties: false
+ */
+function validateSchema(schema: JsonSchema, value: any, path: string): string[] {
+  if (!schema || typeof schema !== 'object') return [];
+
+  const errors: string[] = [];
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+
+  if (types.length > 0 && !types.some(type => matchesType(type, value))) {
+    return [`${path} must be ${types.join(' or ')}`];
+  }
+
+  if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path} must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    (schema.required || []).forEach(key => {
+      if (value[key] === undefined) errors.push(`${path}.${key} is required`);
+    });
+
+    Object.entries(value).forEach(([key, item]) => {
+      const property = schema.properties?.[key];
+      if (property) {
+        errors.push(...validateSchema(property, item, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      }
+    });
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => errors.push(...validateSchema(schema.items as JsonSchema, item, `${path}[${index}]`)));
+  }
+
+  return errors;
+}
+
+function matchesType(type: string, value: any): boolean {
+  switch (type) {
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+// Create singleton instance
+const toolRuntimeService = new ToolRuntimeService();
+
+export default toolRuntimeService;
+
+// Types
+export type AgentToolType = 'api' | 'webhook' | 'database' | 'external';
+
+/**
+ * A tool configured on an agent, as stored in `agents.tools`
+ */
+export interface AgentTool {
+  id: string;
+  name: string;
+  type: AgentToolType;
+  // url, method, headers, auth, table, operations, description, parameters, ...
+  config: Record<string, any>;
+  credentials?: Record<string, string>;
+}
+
+export interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  enum?: any[];
+  items?: JsonSchema;
+  additionalProperties?: boolean | JsonSchema;
+  [key: string]: any;
+}
+
+export interface ToolSchema {
+  name: string;
+  toolId: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+export interface ToolCallRecord {
+  id: string;
+  step: number;
+  tool: string;
+  toolId?: string;
+  type?: AgentToolType;
+  arguments: Record<string, any>;
+  // `rejected` calls named an unknown tool or had invalid arguments, and were never sent
+  status: 'succeeded' | 'failed' | 'rejected';
+  result?: any;
+  error?: string;
+  startedAt: string;
+  durationMs: number;
+}
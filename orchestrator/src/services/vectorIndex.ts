@@ -0,0 +1,91 @@
+/**
+ * A stored vector and the embedder that produced it
+ */
+export interface VectorEntry {
+  id: string;
+  vector: number[];
+  embedderId: string;
+}
+
+export interface VectorMatch {
+  id: string;
+  similarity: number;
+}
+
+export interface VectorQueryOptions {
+  // Only consider these ids
+  ids?: Iterable<string>;
+  minSimilarity?: number;
+  limit?: number;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * In-process vector index partitioned into namespaces (one per agent).
+ * Queries are exact cosine scans, which is plenty for per-agent memory sizes;
+ * entries from a different embedder than the query are never compared.
+ */
+export class VectorIndex {
+  private namespaces: Map<string, Map<string, VectorEntry>> = new Map();
+
+  upsert(namespace: string, entry: VectorEntry): void {
+    let entries = this.namespaces.get(namespace);
+    if (!entries) {
+      entries = new Map();
+      this.namespaces.set(namespace, entries);
+    }
+    entries.set(entry.id, entry);
+  }
+
+  get(namespace: string, id: string): VectorEntry | undefined {
+    return this.namespaces.get(namespace)?.get(id);
+  }
+
+  remove(namespace: string, id: string): boolean {
+    return this.namespaces.get(namespace)?.delete(id) || false;
+  }
+
+  clear(namespace: string): void {
+    this.namespaces.delete(namespace);
+  }
+
+  size(namespace: string): number {
+    return this.namespaces.get(namespace)?.size || 0;
+  }
+
+  query(
+    namespace: string,
+    vector: number[],
+    embedderId: string,
+    options: VectorQueryOptions = {}
+  ): VectorMatch[] {
+    const entries = this.namespaces.get(namespace);
+    if (!entries) return [];
+
+    const candidates = options.ids
+      ? Array.from(options.ids, id => entries.get(id)).filter((entry): entry is VectorEntry => Boolean(entry))
+      : Array.from(entries.values());
+
+    const matches = candidates
+      .filter(entry => entry.embedderId === embedderId)
+      .map(entry => ({ id: entry.id, similarity: cosineSimilarity(vector, entry.vector) }))
+      .filter(match => match.similarity >= (options.minSimilarity ?? -1))
+      .sort((a, b) => b.similarity - a.similarity);
+
+    return options.limit ? matches.slice(0, options.limit) : matches;
+  }
+}
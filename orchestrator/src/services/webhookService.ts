@@ -1,6 +1,13 @@
 import { createClient } from '@supabase/supabase-js';
 import { v4 as uuidv4 } from 'uuid';
+import crypto from 'crypto';
 import dotenv from 'dotenv';
+import eventService from './eventService';
+import authService from './authService';
+import workflowService from './workflowService';
+import { parseJsonPath, queryJsonPath, isSingularJsonPath } from './jsonPath';
+import { WorkflowNode, WorkflowEdge, ExecutionContext } from '../types/workflow';
+import { httpError } from '../utils/httpError';
 
 // Load environment variables
 dotenv.config();
@@ -20,10 +27,225 @@ if (supabaseUrl && supabaseKey && !supabaseUrl.includes('your_') && !supabaseKey
 // In-memory storage for development/fallback
 const webhookRegistry: Record<string, WebhookConfig> = {};
 
+// How far a signed timestamp may be from the current time
+const WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS = parseInt(process.env.WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS || '300');
+
+// How long nonces are remembered for webhooks whose signatures carry no timestamp
+const WEBHOOK_NONCE_TTL_MS = parseInt(process.env.WEBHOOK_NONCE_TTL_MS || '86400000');
+
+// Upper bound on remembered nonces; the oldest are forgotten first
+const WEBHOOK_NONCE_LIMIT = 50000;
+
+// How deeply filtering groups may nest
+const MAX_FILTER_DEPTH = 8;
+
+const FILTER_OPERATORS: FilteringRule['operator'][] = [
+  'equals', 'not_equals', 'contains', 'not_contains', 'exists', 'not_exists', 'greater_than', 'less_than', 'in'
+];
+
+// Input names that would expose the prototype chain of the workflow's variables
+const BLOCKED_INPUT_NAMES = new Set(['__proto__', 'prototype', 'constructor']);
+
+// How long inbound requests are kept in the request log, dead-lettered ones included
+const WEBHOOK_REQUEST_RETENTION_DAYS = parseInt(process.env.WEBHOOK_REQUEST_RETENTION_DAYS || '30');
+
+// Requests kept in memory when there's no database
+const WEBHOOK_REQUEST_LOG_LIMIT = 1000;
+
+// How often expired requests are deleted from the database
+const REQUEST_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Headers whose values are never stored, plus any listed in WEBHOOK_REDACTED_HEADERS
+const REDACTED_HEADERS = new Set([
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+  ...(process.env.WEBHOOK_REDACTED_HEADERS || '').split(',').map(name => name.trim().toLowerCase()).filter(Boolean)
+]);
+
+// Header names that look like they carry a credential
+const SENSITIVE_HEADER_PATTERN = /token|secret|password|api[-_]?key|session/i;
+
+// Where each provider puts its signature, what it signs and how it encodes it
+const SIGNATURE_PRESETS: Record<SignaturePreset, SignatureScheme> = {
+  stripe: {
+    header: 'stripe-signature',
+    algorithm: 'sha256',
+    encoding: 'hex',
+    requireTimestamp: true
+  },
+  github: {
+    header: 'x-hub-signature-256',
+    algorithm: 'sha256',
+    encoding: 'hex',
+    prefix: 'sha256=',
+    nonceHeader: 'x-github-delivery',
+    requireTimestamp: false
+  },
+  slack: {
+    header: 'x-slack-signature',
+    algorithm: 'sha256',
+    encoding: 'hex',
+    prefix: 'v0=',
+    timestampHeader: 'x-slack-request-timestamp',
+    requireTimestamp: true,
+    signedPayload: (rawBody, timestamp) => `v0:${timestamp}:${rawBody}`
+  },
+  generic: {
+    header: 'x-webhook-signature',
+    algorithm: 'sha256',
+    encoding: 'hex',
+    requireTimestamp: false
+  }
+};
+
+// Signature and nonce headers of the presets, GitHub's SHA-1 header included
+const SIGNATURE_HEADERS = new Set([
+  'x-hub-signature',
+  ...Object.values(SIGNATURE_PRESETS).flatMap(preset => preset.nonceHeader ? [preset.header, preset.nonceHeader] : [preset.header])
+]);
+
+/**
+ * Compare two secrets in constant time, whatever their lengths
+ */
+function safeEqual(a: string, b: string): boolean {
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(a), digest(b)) && a.length === b.length;
+}
+
+function headerValue(headers: Record<string, string | string[] | undefined>, name: string): string | undefined {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Headers as they are stored in the request log, credentials replaced
+ */
+function redactHeaders(headers: Record<string, string | string[] | undefined>): Record<string, string> {
+  const redacted: Record<string, string> = {};
+
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined) continue;
+    const key = name.toLowerCase();
+    redacted[key] = REDACTED_HEADERS.has(key) || SENSITIVE_HEADER_PATTERN.test(key)
+      ? '[REDACTED]'
+      : Array.isArray(value) ? value.join(', ') : value;
+  }
+
+  return redacted;
+}
+
+/**
+ * Headers handed to the workflow: credentials, and the signature and nonce
+ * headers of every preset and of the webhook's own scheme, are left out
+ */
+function workflowHeaders(
+  headers: Record<string, string | string[] | undefined>,
+  scheme?: ResolvedSignatureScheme
+): Record<string, string | string[] | undefined> {
+  const omitted = new Set(SIGNATURE_HEADERS);
+  if (scheme) {
+    omitted.add(scheme.header);
+    if (scheme.nonceHeader) omitted.add(scheme.nonceHeader);
+  }
+
+  return Object.fromEntries(
+    Object.entries(headers).filter(([name]) => {
+      const key = name.toLowerCase();
+      return !omitted.has(key) && !REDACTED_HEADERS.has(key) && !SENSITIVE_HEADER_PATTERN.test(key);
+    })
+  );
+}
+
+/**
+ * Equality for rule values. Primitives of different types compare as strings,
+ * so a rule value of "42" matches 42; objects and arrays compare structurally.
+ */
+function valuesEqual(actual: any, expected: any): boolean {
+  if (actual === expected) return true;
+  if (actual === null || expected === null || actual === undefined || expected === undefined) return false;
+  if (typeof actual === 'object' || typeof expected === 'object') {
+    return JSON.stringify(actual) === JSON.stringify(expected);
+  }
+  return String(actual) === String(expected);
+}
+
+function toNumber(value: any): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+}
+
+function valueContains(actual: any, expected: any): boolean {
+  if (typeof actual === 'string') return actual.includes(String(expected));
+  if (Array.isArray(actual)) return actual.some(item => valuesEqual(item, expected));
+  return false;
+}
+
+/**
+ * Whether the values a rule's path selected satisfy it. Rules on paths that
+ * select several values match if any of them does; the negated operators
+ * match only if none does.
+ */
+function ruleMatches(rule: FilteringRule, values: any[]): boolean {
+  switch (rule.operator) {
+    case 'exists':
+      return values.length > 0;
+    case 'not_exists':
+      return values.length === 0;
+    case 'equals':
+      return values.some(value => valuesEqual(value, rule.value));
+    case 'not_equals':
+      return !values.some(value => valuesEqual(value, rule.value));
+    case 'contains':
+      return values.some(value => valueContains(value, rule.value));
+    case 'not_contains':
+      return !values.some(value => valueContains(value, rule.value));
+    case 'greater_than':
+      return values.some(value => toNumber(value) > toNumber(rule.value));
+    case 'less_than':
+      return values.some(value => toNumber(value) < toNumber(rule.value));
+    case 'in':
+      return Array.isArray(rule.value) && values.some(value => rule.value.some((option: any) => valuesEqual(value, option)));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Parse a signed timestamp given in seconds or milliseconds since the epoch
+ */
+function parseTimestamp(value: string): number | null {
+  if (!/^\d+$/.test(value)) return null;
+  const timestamp = parseInt(value);
+  return timestamp > 1e12 ? timestamp : timestamp * 1000;
+}
+
 /**
  * Service for managing webhook triggers
  */
 class WebhookService {
+  // Nonces of authenticated requests, with when they may be forgotten
+  private nonces: Map<string, number> = new Map();
+  // Request log when there's no database, oldest first
+  private requestLog: Map<string, WebhookRequestRecord> = new Map();
+  // Outcomes of runs that finished before their request was stored
+  private earlyOutcomes: Map<string, { executionId: string; changes: Partial<WebhookRequestRecord> }> = new Map();
+  private lastPrunedAt = 0;
+
+  constructor() {
+    // Record how the runs started by webhook requests ended
+    workflowService.onExecutionFinished(context => {
+      if (context.variables.triggerType === 'webhook' && context.variables.webhook?.requestId) {
+        this.recordExecutionFinished(context.variables.webhook.requestId, context).catch(error =>
+          console.error(`❌ Failed to record outcome of webhook execution ${context.id}:`, error)
+        );
+      }
+    });
+  }
+
   /**
    * Register a new webhook trigger
    */
@@ -37,6 +259,21 @@ class WebhookService {
     const webhookId = uuidv4();
     const path = config.path || `/webhook/${webhookId}`;
     
+    // Incoming requests are only routed to paths under /webhook/
+    if (!path.startsWith('/webhook/')) {
+      throw httpError(`Webhook path must start with /webhook/, got ${path}`);
+    }
+    
+    if (config.authentication) {
+      this.validateAuthentication(config.authentication);
+    }
+    if (config.filtering) {
+      this.validateFiltering(config.filtering);
+    }
+    if (config.transform) {
+      this.validateTransform(config.transform);
+    }
+    
     // Generate a secret for webhook verification if not provided
     const secret = config.secret || this.generateSecret();
     
@@ -50,6 +287,9 @@ class WebhookService {
       headers: config.headers || {},
       authentication: config.authentication || { type: 'none' },
       filtering: config.filtering || { type: 'none' },
+      transform: config.transform,
+      nodes: config.nodes,
+      edges: config.edges,
       status: 'active',
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString()
@@ -173,6 +413,16 @@ class WebhookService {
       return null;
     }
     
+    if (updates.authentication) {
+      this.validateAuthentication(updates.authentication);
+    }
+    if (updates.filtering) {
+      this.validateFiltering(updates.filtering);
+    }
+    if (updates.transform) {
+      this.validateTransform(updates.transform);
+    }
+    
     // Update webhook
     const updatedWebhook: WebhookConfig = {
       ...webhook,
@@ -253,16 +503,163 @@ class WebhookService {
   }
   
   /**
-   * Process an incoming webhook request
+   * Process an incoming webhook request. Signatures are checked against
+   * `rawBody`, the body exactly as it was received; without it the parsed body
+   * is serialized again, which only matches senders that serialize the same way.
+   * Every request is stored in the request log, whatever its outcome.
    */
   async processWebhookRequest(
     path: string,
     method: string,
-    headers: Record<string, string>,
-    body: any
+    headers: Record<string, string | string[] | undefined>,
+    body: any,
+    rawBody?: string
   ): Promise<WebhookProcessResult> {
     console.log(`📨 Received webhook request: ${method} ${path}`);
     
+    const requestId = uuidv4();
+    const result = await this.handleRequest(requestId, path, method, headers, body, rawBody);
+    
+    await this.recordRequest(this.toRequestRecord(requestId, method, path, headers, body, result));
+    
+    return { ...result, requestId };
+  }
+  
+  /**
+   * Stored webhook requests, newest first. `deadLetter: true` lists the
+   * dead-letter queue: requests that were accepted but failed to start a run.
+   */
+  async listRequests(filter: WebhookRequestFilter = {}): Promise<WebhookRequestRecord[]> {
+    const limit = Math.min(filter.limit || 50, 500);
+    
+    if (supabase) {
+      try {
+        let query = supabase
+          .from('webhook_requests')
+          .select('*')
+          .order('received_at', { ascending: false })
+          .limit(limit);
+        
+        if (filter.webhookId) query = query.eq('webhook_id', filter.webhookId);
+        if (filter.workflowIds) query = query.in('workflow_id', filter.workflowIds);
+        if (filter.status) query = query.eq('status', filter.status);
+        if (filter.deadLetter !== undefined) query = query.eq('dead_letter', filter.deadLetter);
+        if (filter.since) query = query.gte('received_at', filter.since);
+        
+        const { data, error } = await query;
+        
+        if (error) {
+          console.error('❌ Failed to list webhook requests:', error);
+        } else {
+          return (data || []) as unknown as WebhookRequestRecord[];
+        }
+      } catch (error) {
+        console.error('❌ Error listing webhook requests:', error);
+      }
+    }
+    
+    return Array.from(this.requestLog.values())
+      .filter(record =>
+        (!filter.webhookId || record.webhook_id === filter.webhookId) &&
+        (!filter.workflowIds || (record.workflow_id !== null && filter.workflowIds.includes(record.workflow_id))) &&
+        (!filter.status || record.status === filter.status) &&
+        (filter.deadLetter === undefined || record.dead_letter === filter.deadLetter) &&
+        (!filter.since || record.received_at >= filter.since)
+      )
+      .reverse()
+      .slice(0, limit);
+  }
+  
+  /**
+   * A stored webhook request
+   */
+  async getRequest(requestId: string): Promise<WebhookRequestRecord | null> {
+    if (supabase) {
+      try {
+        const { data, error } = await supabase
+          .from('webhook_requests')
+          .select('*')
+          .eq('id', requestId)
+          .maybeSingle();
+        
+        if (error) {
+          console.error('❌ Failed to retrieve webhook request:', error);
+        } else if (data) {
+          return data as unknown as WebhookRequestRecord;
+        }
+      } catch (error) {
+        console.error('❌ Error retrieving webhook request:', error);
+      }
+    }
+    
+    return this.requestLog.get(requestId) || null;
+  }
+  
+  /**
+   * Run a stored request through the webhook's current filtering and transform
+   * again and start the workflow. Requests that were never authenticated can't
+   * be replayed. The replay's signature and nonce aren't checked again, so its
+   * verification records who replayed it rather than claiming it was verified.
+   * A dead-lettered request leaves the queue once a replay starts a run.
+   */
+  async replayRequest(requestId: string, replayedBy: string): Promise<WebhookRequestRecord> {
+    const original = await this.getRequest(requestId);
+    
+    if (!original) {
+      throw httpError(`Webhook request not found: ${requestId}`, 404);
+    }
+    
+    if (original.status === 'rejected' || !original.webhook_id) {
+      throw httpError('Rejected webhook requests cannot be replayed', 409);
+    }
+    
+    const webhook = await this.getWebhook(original.webhook_id);
+    
+    if (!webhook || webhook.status !== 'active') {
+      throw httpError(`Webhook ${original.webhook_id} no longer exists or is not active`, 409);
+    }
+    
+    console.log(`🔁 Replaying webhook request ${requestId}`);
+    
+    const replayId = uuidv4();
+    const result = await this.dispatch(
+      webhook,
+      replayId,
+      original.method,
+      original.path,
+      original.headers,
+      original.body,
+      {
+        type: webhook.authentication.type,
+        verified: false,
+        reason: `Replay of request ${original.id}; not authenticated again`,
+        replayOf: original.id,
+        replayedBy
+      }
+    );
+    
+    const replay = this.toRequestRecord(replayId, original.method, original.path, original.headers, original.body, result);
+    replay.replay_of = original.id;
+    // The original stays in the dead-letter queue until a replay succeeds
+    replay.dead_letter = false;
+    await this.recordRequest(replay);
+    
+    await this.updateRequest(original.id, {
+      replay_count: (original.replay_count || 0) + 1,
+      dead_letter: original.dead_letter && !result.success
+    });
+    
+    return replay;
+  }
+  
+  private async handleRequest(
+    requestId: string,
+    path: string,
+    method: string,
+    headers: Record<string, string | string[] | undefined>,
+    body: any,
+    rawBody?: string
+  ): Promise<WebhookProcessResult> {
     // Find the webhook configuration for this path
     let webhook: WebhookConfig | null = null;
     
@@ -301,6 +698,7 @@ class WebhookService {
       console.warn(`⚠️ No webhook found for path: ${path}`);
       return {
         success: false,
+        status: 404,
         error: 'Webhook not found',
         webhookId: '',
         workflowId: ''
@@ -312,102 +710,712 @@ class WebhookService {
       console.warn(`⚠️ Method mismatch: ${method} (expected ${webhook.method})`);
       return {
         success: false,
+        status: 405,
         error: `Invalid method: ${method}, expected ${webhook.method}`,
         webhookId: webhook.id,
         workflowId: webhook.workflowId
       };
     }
     
-    // Verify signature if required
-    if (webhook.authentication.type === 'signature' && webhook.secret) {
-      const signature = headers['x-webhook-signature'];
+    // Verify the signature or credentials the webhook requires
+    const verification = this.authenticateRequest(
+      webhook,
+      headers,
+      rawBody ?? (body === undefined ? '' : JSON.stringify(body))
+    );
+    
+    if (!verification.verified) {
+      console.warn(`⚠️ Webhook ${webhook.id} rejected: ${verification.reason}`);
+      return {
+        success: false,
+        status: 401,
+        error: verification.reason,
+        webhookId: webhook.id,
+        workflowId: webhook.workflowId,
+        verification
+      };
+    }
+    
+    return this.dispatch(webhook, requestId, method, path, headers, body, verification);
+  }
+  
+  /**
+   * Filter an authenticated request, transform its body and start the workflow
+   */
+  private async dispatch(
+    webhook: WebhookConfig,
+    requestId: string,
+    method: string,
+    path: string,
+    headers: Record<string, string | string[] | undefined>,
+    body: any,
+    verification: WebhookVerification
+  ): Promise<WebhookProcessResult> {
+    // Apply filtering if configured
+    const filter = this.evaluateFiltering(body, webhook.filtering);
+    
+    if (filter && !filter.matched) {
+      console.log('📋 Webhook request filtered out (does not match rules)');
+      return {
+        success: false,
+        status: 200,
+        filtered: true,
+        error: 'Request filtered out (does not match rules)',
+        webhookId: webhook.id,
+        workflowId: webhook.workflowId,
+        verification,
+        filter
+      };
+    }
+    
+    console.log('✅ Webhook request validated successfully');
+    
+    authService.workflowGuild(webhook.workflowId)
+      .then(guildId => eventService.publish('webhook.received', {
+        webhookId: webhook.id,
+        workflowId: webhook.workflowId,
+        method,
+        path,
+        body
+      }, { source: 'webhook', guildId: guildId || undefined }))
+      .catch(error => console.error('❌ Failed to publish webhook event:', error));
+    
+    const inputs = this.transformPayload(body, webhook.transform);
+    
+    try {
+      const { nodes, edges } = await this.resolveGraph(webhook);
+      const { executionId } = await workflowService.executeWorkflow(webhook.workflowId, nodes, edges, {
+        ...inputs,
+        triggerType: 'webhook',
+        triggerSource: webhook.id,
+        webhook: {
+          id: webhook.id,
+          requestId,
+          method,
+          path,
+          replayOf: verification.replayOf,
+          headers: workflowHeaders(
+            headers,
+            webhook.authentication.type === 'signature' ? this.resolveScheme(webhook.authentication.config) : undefined
+          )
+        }
+      });
+      
+      console.log(`🚀 Webhook ${webhook.id} started execution ${executionId}`);
+      
+      return {
+        success: true,
+        status: 202,
+        webhookId: webhook.id,
+        workflowId: webhook.workflowId,
+        executionId,
+        payload: body,
+        inputs,
+        headers,
+        verification,
+        filter: filter || undefined
+      };
+    } catch (error: any) {
+      console.error(`❌ Webhook ${webhook.id} failed to start workflow ${webhook.workflowId}:`, error);
+      
+      return {
+        success: false,
+        status: 500,
+        error: `Failed to start workflow: ${error.message}`,
+        webhookId: webhook.id,
+        workflowId: webhook.workflowId,
+        payload: body,
+        inputs,
+        headers,
+        verification,
+        filter: filter || undefined
+      };
+    }
+  }
+  
+  /**
+   * Show what a webhook would do with a payload: which filtering rules match
+   * and the workflow inputs it would be transformed into. `overrides` try out
+   * filtering or transform settings before saving them.
+   */
+  async testPayload(
+    webhookId: string,
+    payload: any,
+    overrides: Pick<Partial<WebhookConfig>, 'filtering' | 'transform'> = {}
+  ): Promise<WebhookPayloadTest> {
+    const webhook = await this.getWebhook(webhookId);
+    
+    if (!webhook) {
+      throw httpError(`Webhook not found: ${webhookId}`, 404);
+    }
+    
+    const filtering = overrides.filtering || webhook.filtering;
+    const transform = overrides.transform || webhook.transform;
+    
+    if (overrides.filtering) {
+      this.validateFiltering(overrides.filtering);
+    }
+    if (overrides.transform) {
+      this.validateTransform(overrides.transform);
+    }
+    
+    const filter = this.evaluateFiltering(payload, filtering);
+    
+    return {
+      webhookId,
+      matched: filter ? filter.matched : true,
+      filter,
+      inputs: this.transformPayload(payload, transform)
+    };
+  }
+  
+  /**
+   * Evaluate a webhook's filtering rules against a body, or null if it has none
+   */
+  evaluateFiltering(body: any, filtering: WebhookConfig['filtering']): FilterEvaluation | null {
+    if (filtering.type !== 'json_path') return null;
+    return this.evaluateGroup(body, filtering);
+  }
+  
+  /**
+   * Reshape a body into workflow input variables. Each input takes the value
+   * its JSONPath selects, or every selected value for paths with wildcards,
+   * filters or recursive descent. Without a transform the body is passed as
+   * `payload`.
+   */
+  transformPayload(body: any, transform?: WebhookTransform): Record<string, any> {
+    if (!transform) {
+      return { payload: body };
+    }
+    
+    const inputs: Record<string, any> = {};
+    
+    for (const [name, spec] of Object.entries(transform.inputs || {})) {
+      const { path, default: fallback } = typeof spec === 'string' ? { path: spec, default: undefined } : spec;
+      const values = queryJsonPath(body, path);
+      const value = isSingularJsonPath(path) ? values[0] : values;
       
-      if (!signature) {
-        console.warn('⚠️ Missing webhook signature header');
-        return {
-          success: false,
-          error: 'Missing webhook signature',
-          webhookId: webhook.id,
-          workflowId: webhook.workflowId
-        };
+      inputs[name] = value === undefined || (Array.isArray(value) && value.length === 0 && fallback !== undefined)
+        ? fallback
+        : value;
+    }
+    
+    if (transform.includePayload !== false) {
+      inputs.payload = body;
+    }
+    
+    return inputs;
+  }
+  
+  /**
+   * Generate a secure webhook secret
+   */
+  generateSecret(): string {
+    return crypto.randomBytes(32).toString('hex');
+  }
+  
+  /**
+   * Check a request against the webhook's authentication settings
+   */
+  authenticateRequest(
+    webhook: WebhookConfig,
+    headers: Record<string, string | string[] | undefined>,
+    rawBody: string
+  ): WebhookVerification {
+    const { type, config = {} } = webhook.authentication;
+    
+    switch (type) {
+      case 'signature':
+        return this.verifySignature(webhook, headers, rawBody);
+      case 'basic':
+        return this.verifyBasicAuth(config, headers);
+      case 'bearer':
+        // Without a configured token, the webhook's secret is the bearer token
+        return this.verifyBearerToken(config.token || webhook.secret, headers);
+      default:
+        return { type: 'none', verified: true };
+    }
+  }
+  
+  /**
+   * Verify a request's HMAC signature, computed by the sender over the raw body
+   * with the webhook's secret. Signatures with a timestamp must be within the
+   * tolerance window, and a nonce (the delivery id, or else the signature
+   * itself) may only be used once.
+   */
+  verifySignature(
+    webhook: WebhookConfig,
+    headers: Record<string, string | string[] | undefined>,
+    rawBody: string
+  ): WebhookVerification {
+    const scheme = this.resolveScheme(webhook.authentication.config);
+    const fail = (reason: string): WebhookVerification => ({
+      type: 'signature',
+      preset: scheme.preset,
+      verified: false,
+      reason
+    });
+    
+    if (!webhook.secret) {
+      return fail('Webhook has no signing secret');
+    }
+    
+    const header = headerValue(headers, scheme.header);
+    if (!header) {
+      return fail(`Missing ${scheme.header} header`);
+    }
+    
+    let timestampValue: string | undefined;
+    let signatures: string[];
+    
+    if (scheme.preset === 'stripe') {
+      // t=<timestamp>,v1=<signature>[,v1=<signature>...] while secrets are rolled
+      const fields = header.split(',').map(field => {
+        const separator = field.indexOf('=');
+        return [field.slice(0, separator).trim(), field.slice(separator + 1).trim()];
+      });
+      timestampValue = fields.find(([key]) => key === 't')?.[1];
+      signatures = fields.filter(([key]) => key === 'v1').map(([, value]) => value);
+    } else {
+      if (scheme.prefix && !header.startsWith(scheme.prefix)) {
+        return fail(`Signature must start with ${scheme.prefix}`);
       }
+      timestampValue = scheme.timestampHeader ? headerValue(headers, scheme.timestampHeader) : undefined;
+      signatures = [header.slice(scheme.prefix?.length || 0).trim()];
+    }
+    
+    if (signatures.length === 0 || !signatures[0]) {
+      return fail('Malformed signature');
+    }
+    
+    if (!timestampValue && scheme.requireTimestamp) {
+      return fail('Missing signature timestamp');
+    }
+    
+    if (timestampValue) {
+      const timestamp = parseTimestamp(timestampValue);
       
-      const isValid = this.verifySignature(
-        webhook.secret,
-        signature,
-        body
-      );
+      if (timestamp === null) {
+        return fail('Malformed signature timestamp');
+      }
       
-      if (!isValid) {
-        console.warn('⚠️ Invalid webhook signature');
-        return {
-          success: false,
-          error: 'Invalid webhook signature',
-          webhookId: webhook.id,
-          workflowId: webhook.workflowId
-        };
+      if (scheme.toleranceSeconds > 0 && Math.abs(Date.now() - timestamp) > scheme.toleranceSeconds * 1000) {
+        return fail(`Signature timestamp is more than ${scheme.toleranceSeconds}s from the current time`);
       }
     }
     
-    // Apply filtering if configured
-    if (webhook.filtering.type === 'json_path' && webhook.filtering.rules) {
-      const matches = this.applyJsonPathFiltering(
-        body,
-        webhook.filtering.rules
-      );
+    const signedPayload = scheme.signedPayload
+      ? scheme.signedPayload(rawBody, timestampValue)
+      : timestampValue ? `${timestampValue}.${rawBody}` : rawBody;
+    const expected = crypto
+      .createHmac(scheme.algorithm, webhook.secret)
+      .update(signedPayload, 'utf8')
+      .digest(scheme.encoding);
+    
+    const matched = signatures.find(signature =>
+      safeEqual(scheme.encoding === 'hex' ? signature.toLowerCase() : signature, expected)
+    );
+    
+    if (!matched) {
+      return fail('Invalid webhook signature');
+    }
+    
+    // Replays of a signed request are rejected for as long as it would otherwise verify
+    const nonce = (scheme.nonceHeader && headerValue(headers, scheme.nonceHeader)) || matched;
+    const nonceTtlMs = timestampValue && scheme.toleranceSeconds > 0
+      ? scheme.toleranceSeconds * 2000
+      : WEBHOOK_NONCE_TTL_MS;
+    
+    if (!this.claimNonce(`${webhook.id}:${nonce}`, nonceTtlMs)) {
+      return fail('Request has already been received');
+    }
+    
+    return { type: 'signature', preset: scheme.preset, verified: true };
+  }
+  
+  private toRequestRecord(
+    requestId: string,
+    method: string,
+    path: string,
+    headers: Record<string, string | string[] | undefined>,
+    body: any,
+    result: WebhookProcessResult
+  ): WebhookRequestRecord {
+    const now = new Date().toISOString();
+    let status: WebhookRequestStatus = 'started';
+    
+    if (result.filtered) {
+      status = 'filtered';
+    } else if (!result.success) {
+      status = result.status === 500 ? 'failed' : 'rejected';
+    }
+    
+    return {
+      id: requestId,
+      webhook_id: result.webhookId || null,
+      workflow_id: result.workflowId || null,
+      method,
+      path,
+      headers: redactHeaders(headers),
+      body: body === undefined ? null : body,
+      status,
+      http_status: result.status || (result.success ? 202 : 400),
+      error: result.success ? null : result.error || null,
+      verification: result.verification || null,
+      filter: result.filter || null,
+      execution_id: result.executionId || null,
+      execution_status: result.executionId ? 'running' : null,
+      // Accepted requests that didn't start a run wait here to be replayed
+      dead_letter: status === 'failed',
+      replay_of: null,
+      replay_count: 0,
+      received_at: now,
+      updated_at: now
+    };
+  }
+  
+  private async recordRequest(record: WebhookRequestRecord): Promise<void> {
+    const outcome = this.earlyOutcomes.get(record.id);
+    if (outcome && outcome.executionId === record.execution_id) {
+      Object.assign(record, outcome.changes);
+    }
+    this.earlyOutcomes.delete(record.id);
+    
+    if (record.dead_letter) {
+      console.warn(`📥 Webhook request ${record.id} dead-lettered: ${record.error}`);
+    }
+    
+    if (supabase) {
+      try {
+        const { error } = await supabase.from('webhook_requests').insert(record as any);
+        
+        if (error) {
+          console.error('❌ Failed to store webhook request in database:', error);
+        }
+      } catch (error) {
+        console.error('❌ Error storing webhook request in database:', error);
+      }
       
-      if (!matches) {
-        console.log('📋 Webhook request filtered out (does not match rules)');
-        return {
-          success: false,
-          filtered: true,
-          error: 'Request filtered out (does not match rules)',
-          webhookId: webhook.id,
-          workflowId: webhook.workflowId
-        };
+      await this.pruneRequests();
+      return;
+    }
+    
+    this.requestLog.set(record.id, record);
+    await this.pruneRequests();
+  }
+  
+  private async updateRequest(requestId: string, changes: Partial<WebhookRequestRecord>): Promise<void> {
+    const update = { ...changes, updated_at: new Date().toISOString() };
+    
+    if (supabase) {
+      try {
+        const { error } = await supabase
+          .from('webhook_requests')
+          .update(update as any)
+          .eq('id', requestId);
+        
+        if (error) {
+          console.error('❌ Failed to update webhook request in database:', error);
+        }
+      } catch (error) {
+        console.error('❌ Error updating webhook request in database:', error);
       }
+      return;
     }
     
-    console.log('✅ Webhook request validated successfully');
+    const record = this.requestLog.get(requestId);
+    if (record) {
+      Object.assign(record, update);
+    }
+  }
+  
+  private async recordExecutionFinished(requestId: string, context: ExecutionContext): Promise<void> {
+    const lastError = [...context.logs].reverse().find(log => log.level === 'error');
+    const changes: Partial<WebhookRequestRecord> = { execution_status: context.status };
+    if (context.status === 'failed') {
+      changes.error = lastError?.message || 'Workflow execution failed';
+    }
+    
+    const record = await this.getRequest(requestId);
+    
+    if (!record) {
+      // The run was quicker than storing its request; recordRequest applies this
+      if (this.earlyOutcomes.size < WEBHOOK_REQUEST_LOG_LIMIT) {
+        this.earlyOutcomes.set(requestId, { executionId: context.id, changes });
+      }
+      return;
+    }
+    
+    // Nested executions inherit the webhook variables of the run that started them
+    if (record.execution_id !== context.id) return;
+    
+    await this.updateRequest(requestId, changes);
+  }
+  
+  /**
+   * Forget requests older than the retention period
+   */
+  private async pruneRequests(): Promise<void> {
+    const cutoff = new Date(Date.now() - WEBHOOK_REQUEST_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    
+    if (!supabase) {
+      for (const [id, record] of this.requestLog) {
+        if (record.received_at >= cutoff && this.requestLog.size <= WEBHOOK_REQUEST_LOG_LIMIT) break;
+        this.requestLog.delete(id);
+      }
+      return;
+    }
+    
+    if (Date.now() - this.lastPrunedAt < REQUEST_PRUNE_INTERVAL_MS) return;
+    this.lastPrunedAt = Date.now();
+    
+    try {
+      const { error } = await supabase
+        .from('webhook_requests')
+        .delete()
+        .lt('received_at', cutoff);
+      
+      if (error) {
+        console.error('❌ Failed to prune webhook requests:', error);
+      }
+    } catch (error) {
+      console.error('❌ Error pruning webhook requests:', error);
+    }
+  }
+  
+  /**
+   * Reject filtering rules that can't be evaluated
+   */
+  private validateFiltering(filtering: WebhookConfig['filtering']): void {
+    if (filtering.type === 'none') return;
+    
+    if (filtering.type !== 'json_path') {
+      throw httpError(`Unknown filtering type: ${filtering.type}`);
+    }
+    
+    const validateGroup = (group: FilteringGroup, depth: number) => {
+      if (depth > MAX_FILTER_DEPTH) {
+        throw httpError(`Filtering groups may nest at most ${MAX_FILTER_DEPTH} levels deep`);
+      }
+      if (group.match && group.match !== 'all' && group.match !== 'any') {
+        throw httpError(`Filtering match must be "all" or "any", got ${group.match}`);
+      }
+      
+      for (const rule of group.rules || []) {
+        if (!FILTER_OPERATORS.includes(rule.operator)) {
+          throw httpError(`Unknown filtering operator: ${rule.operator}`);
+        }
+        if (rule.operator === 'in' && !Array.isArray(rule.value)) {
+          throw httpError(`The "in" operator needs an array of values (rule on ${rule.path})`);
+        }
+        try {
+          parseJsonPath(rule.path);
+        } catch (error: any) {
+          throw httpError(error.message);
+        }
+      }
+      
+      for (const child of group.groups || []) {
+        validateGroup(child, depth + 1);
+      }
+    };
+    
+    validateGroup(filtering, 1);
+  }
+  
+  private validateTransform(transform: WebhookTransform): void {
+    if (!transform.inputs || typeof transform.inputs !== 'object' || Array.isArray(transform.inputs)) {
+      throw httpError('transform.inputs must map input names to JSONPaths');
+    }
+    
+    for (const [name, spec] of Object.entries(transform.inputs)) {
+      if (BLOCKED_INPUT_NAMES.has(name)) {
+        throw httpError(`Invalid input name: ${name}`);
+      }
+      
+      const path = typeof spec === 'string' ? spec : spec?.path;
+      try {
+        parseJsonPath(path);
+      } catch (error: any) {
+        throw httpError(`Input ${name}: ${error.message}`);
+      }
+    }
+  }
+  
+  private evaluateGroup(body: any, group: FilteringGroup): FilterEvaluation {
+    const match = group.match || 'all';
+    
+    const rules: RuleEvaluation[] = (group.rules || []).map(rule => {
+      try {
+        const values = queryJsonPath(body, rule.path);
+        return { ...rule, matched: ruleMatches(rule, values), values };
+      } catch (error: any) {
+        return { ...rule, matched: false, values: [], error: error.message };
+      }
+    });
+    const groups = (group.groups || []).map(child => this.evaluateGroup(body, child));
+    
+    const results = [...rules, ...groups].map(result => result.matched);
     
-    // Return success with details needed for workflow execution
     return {
-      success: true,
-      webhookId: webhook.id,
-      workflowId: webhook.workflowId,
-      payload: body,
-      headers
+      match,
+      // A group without rules matches everything
+      matched: results.length === 0 || (match === 'any' ? results.some(Boolean) : results.every(Boolean)),
+      rules,
+      groups
     };
   }
   
   /**
-   * Generate a secure webhook secret
+   * The graph to execute: the one saved with the webhook, or the workflow's current graph
    */
-  generateSecret(): string {
-    return Array.from(
-      { length: 32 },
-      () => Math.floor(Math.random() * 36).toString(36)
-    ).join('');
+  private async resolveGraph(webhook: WebhookConfig): Promise<{ nodes: WorkflowNode[]; edges: WorkflowEdge[] }> {
+    if (webhook.nodes && webhook.nodes.length > 0) {
+      return { nodes: webhook.nodes, edges: webhook.edges || [] };
+    }
+    
+    if (supabase) {
+      const { data, error } = await supabase
+        .from('workflows')
+        .select('nodes, edges')
+        .eq('id', webhook.workflowId)
+        .maybeSingle();
+      
+      if (error) {
+        throw new Error(`Failed to load workflow ${webhook.workflowId}: ${error.message}`);
+      }
+      
+      if (data && Array.isArray(data.nodes) && data.nodes.length > 0) {
+        return { nodes: data.nodes as WorkflowNode[], edges: (data.edges || []) as WorkflowEdge[] };
+      }
+    }
+    
+    throw new Error(`Workflow ${webhook.workflowId} not found or has no nodes`);
   }
   
   /**
-   * Verify webhook signature
+   * Reject authentication settings that could never verify a request
    */
-  verifySignature(secret: string, signature: string, body: any): boolean {
-    // In a real implementation, this would verify the signature using HMAC
-    // For example, using crypto.createHmac('sha256', secret).update(JSON.stringify(body)).digest('hex')
-    // For now, we'll return true for development
-    console.log('🔐 Verifying webhook signature (development mode - always valid)');
-    return true;
+  private validateAuthentication(authentication: WebhookConfig['authentication']): void {
+    const config = authentication.config || {};
+    
+    switch (authentication.type) {
+      case 'none':
+      case 'bearer':
+        return;
+      case 'basic':
+        if (!config.username || !config.password) {
+          throw httpError('Basic authentication requires a username and password');
+        }
+        return;
+      case 'signature':
+        if (config.preset && !(config.preset in SIGNATURE_PRESETS)) {
+          throw httpError(`Unknown signature preset: ${config.preset}`);
+        }
+        if (config.algorithm && !['sha256', 'sha1'].includes(config.algorithm)) {
+          throw httpError(`Unsupported signature algorithm: ${config.algorithm}`);
+        }
+        if (config.encoding && !['hex', 'base64'].includes(config.encoding)) {
+          throw httpError(`Unsupported signature encoding: ${config.encoding}`);
+        }
+        if (config.toleranceSeconds !== undefined && !(Number(config.toleranceSeconds) >= 0)) {
+          throw httpError('toleranceSeconds must be a non-negative number');
+        }
+        return;
+      default:
+        throw httpError(`Unknown authentication type: ${(authentication as any).type}`);
+    }
   }
   
   /**
-   * Apply JSON path filtering rules
+   * Combine a signature preset with the webhook's own overrides
    */
-  applyJsonPathFiltering(body: any, rules: FilteringRule[]): boolean {
-    // In a real implementation, this would apply JSONPath rules to the body
-    // For now, we'll return true for development
-    console.log('🔍 Applying JSON path filtering (development mode - always matches)');
+  private resolveScheme(config: Record<string, any> = {}): ResolvedSignatureScheme {
+    const preset: SignaturePreset = config.preset || 'generic';
+    const base = SIGNATURE_PRESETS[preset];
+    const algorithm: SignatureScheme['algorithm'] = config.algorithm || base.algorithm;
+    
+    return {
+      ...base,
+      preset,
+      algorithm,
+      // GitHub sends SHA-1 signatures in a header of their own
+      header: (config.header || (preset === 'github' && algorithm === 'sha1' ? 'x-hub-signature' : base.header)).toLowerCase(),
+      prefix: config.prefix ?? (preset === 'github' ? `${algorithm}=` : base.prefix),
+      encoding: config.encoding || base.encoding,
+      timestampHeader: config.timestampHeader?.toLowerCase() || base.timestampHeader,
+      nonceHeader: config.nonceHeader?.toLowerCase() || base.nonceHeader,
+      toleranceSeconds: Number(config.toleranceSeconds ?? WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS)
+    };
+  }
+  
+  private verifyBasicAuth(
+    config: Record<string, any>,
+    headers: Record<string, string | string[] | undefined>
+  ): WebhookVerification {
+    const fail = (reason: string): WebhookVerification => ({ type: 'basic', verified: false, reason });
+    const match = /^Basic\s+(\S+)$/i.exec(headerValue(headers, 'authorization') || '');
+    
+    if (!match) {
+      return fail('Missing Basic authorization header');
+    }
+    
+    const credentials = Buffer.from(match[1], 'base64').toString('utf8');
+    const separator = credentials.indexOf(':');
+    
+    if (separator < 0) {
+      return fail('Malformed Basic credentials');
+    }
+    
+    // Both are compared even when the first differs, so timing reveals neither
+    const usernameMatches = safeEqual(credentials.slice(0, separator), String(config.username || ''));
+    const passwordMatches = safeEqual(credentials.slice(separator + 1), String(config.password || ''));
+    
+    if (!config.username || !config.password || !usernameMatches || !passwordMatches) {
+      return fail('Invalid Basic credentials');
+    }
+    
+    return { type: 'basic', verified: true };
+  }
+  
+  private verifyBearerToken(
+    expected: string | undefined,
+    headers: Record<string, string | string[] | undefined>
+  ): WebhookVerification {
+    const fail = (reason: string): WebhookVerification => ({ type: 'bearer', verified: false, reason });
+    const match = /^Bearer\s+(\S+)$/i.exec(headerValue(headers, 'authorization') || '');
+    
+    if (!match) {
+      return fail('Missing Bearer authorization header');
+    }
+    
+    if (!expected || !safeEqual(match[1], expected)) {
+      return fail('Invalid bearer token');
+    }
+    
+    return { type: 'bearer', verified: true };
+  }
+  
+  /**
+   * Remember a nonce. Returns false if it was already used and hasn't expired.
+   */
+  private claimNonce(key: string, ttlMs: number): boolean {
+    const now = Date.now();
+    const expiresAt = this.nonces.get(key);
+    
+    if (expiresAt !== undefined && expiresAt > now) {
+      return false;
+    }
+    
+    this.nonces.delete(key);
+    this.nonces.set(key, now + ttlMs);
+    
+    // Maps iterate in insertion order, so expired and oldest nonces come first
+    for (const [storedKey, storedExpiry] of this.nonces) {
+      if (storedExpiry > now && this.nonces.size <= WEBHOOK_NONCE_LIMIT) break;
+      this.nonces.delete(storedKey);
+    }
+    
     return true;
   }
 }
@@ -425,25 +1433,69 @@ export interface WebhookConfig {
   method: string;
   secret: string;
   headers: Record<string, string>;
+  // `signature` config: preset, algorithm, header, prefix, encoding,
+  // timestampHeader, nonceHeader, toleranceSeconds; `basic`: username and
+  // password; `bearer`: token, defaulting to the webhook's secret
   authentication: {
     type: 'none' | 'signature' | 'basic' | 'bearer';
     config?: Record<string, any>;
   };
-  filtering: {
+  // Rules and nested groups, combined with AND (`all`, the default) or OR (`any`)
+  filtering: FilteringGroup & {
     type: 'none' | 'json_path';
-    rules?: FilteringRule[];
   };
+  transform?: WebhookTransform;
+  // Graph to execute; the workflow's saved graph is loaded when omitted
+  nodes?: WorkflowNode[];
+  edges?: WorkflowEdge[];
   status: 'active' | 'paused' | 'deleted';
   createdAt: string;
   updatedAt: string;
 }
 
 export interface FilteringRule {
+  // JSONPath into the request body
   path: string;
-  operator: 'equals' | 'not_equals' | 'contains' | 'exists' | 'greater_than' | 'less_than';
+  operator: 'equals' | 'not_equals' | 'contains' | 'not_contains' | 'exists' | 'not_exists' | 'greater_than' | 'less_than' | 'in';
   value?: any;
 }
 
+export interface FilteringGroup {
+  match?: 'all' | 'any';
+  rules?: FilteringRule[];
+  groups?: FilteringGroup[];
+}
+
+export interface WebhookTransform {
+  // Workflow input name to the JSONPath it is read from, optionally with a
+  // default for when the path selects nothing
+  inputs: Record<string, string | { path: string; default?: any }>;
+  // Also pass the whole body as `payload`; true unless set to false
+  includePayload?: boolean;
+}
+
+export interface RuleEvaluation extends FilteringRule {
+  matched: boolean;
+  // What the rule's path selected
+  values: any[];
+  error?: string;
+}
+
+export interface FilterEvaluation {
+  match: 'all' | 'any';
+  matched: boolean;
+  rules: RuleEvaluation[];
+  groups: FilterEvaluation[];
+}
+
+export interface WebhookPayloadTest {
+  webhookId: string;
+  matched: boolean;
+  // Null when the webhook doesn't filter
+  filter: FilterEvaluation | null;
+  inputs: Record<string, any>;
+}
+
 export interface WebhookRegistration {
   id: string;
   url: string;
@@ -456,10 +1508,88 @@ export interface WebhookRegistration {
 
 export interface WebhookProcessResult {
   success: boolean;
+  // HTTP status to answer the sender with
+  status?: number;
   webhookId: string;
   workflowId: string;
   error?: string;
   filtered?: boolean;
+  // Id of the request in the request log
+  requestId?: string;
+  executionId?: string;
   payload?: any;
-  headers?: Record<string, string>;
-}
\ No newline at end of file
+  // Workflow inputs the payload was transformed into
+  inputs?: Record<string, any>;
+  headers?: Record<string, string | string[] | undefined>;
+  verification?: WebhookVerification;
+  filter?: FilterEvaluation;
+}
+
+export type WebhookRequestStatus = 'started' | 'rejected' | 'filtered' | 'failed';
+
+// A row of the webhook_requests table
+export interface WebhookRequestRecord {
+  id: string;
+  // Null for requests to paths no webhook is registered at
+  webhook_id: string | null;
+  workflow_id: string | null;
+  method: string;
+  path: string;
+  // Credentials replaced with [REDACTED]
+  headers: Record<string, string>;
+  body: any;
+  status: WebhookRequestStatus;
+  http_status: number;
+  error: string | null;
+  verification: WebhookVerification | null;
+  filter: FilterEvaluation | null;
+  execution_id: string | null;
+  execution_status: string | null;
+  dead_letter: boolean;
+  // The request this one replayed
+  replay_of: string | null;
+  replay_count: number;
+  received_at: string;
+  updated_at: string;
+}
+
+export interface WebhookRequestFilter {
+  webhookId?: string;
+  // Only requests to these workflows' webhooks
+  workflowIds?: string[];
+  status?: WebhookRequestStatus;
+  deadLetter?: boolean;
+  since?: string;
+  limit?: number;
+}
+
+export interface WebhookVerification {
+  type: WebhookConfig['authentication']['type'];
+  preset?: SignaturePreset;
+  verified: boolean;
+  // Why the request was rejected, or wasn't authenticated
+  reason?: string;
+  // Set on replays: the stored request that was run again, and who replayed it
+  replayOf?: string;
+  replayedBy?: string;
+}
+
+export type SignaturePreset = 'stripe' | 'github' | 'slack' | 'generic';
+
+interface SignatureScheme {
+  header: string;
+  algorithm: 'sha256' | 'sha1';
+  encoding: 'hex' | 'base64';
+  // Text before the signature in its header, e.g. `sha256=`
+  prefix?: string;
+  timestampHeader?: string;
+  nonceHeader?: string;
+  requireTimestamp: boolean;
+  // What is signed; by default `<timestamp>.<body>`, or just the body without a timestamp
+  signedPayload?: (rawBody: string, timestamp?: string) => string;
+}
+
+type ResolvedSignatureScheme = SignatureScheme & {
+  preset: SignaturePreset;
+  toleranceSeconds: number;
+};
\ No newline at end of file
@@ -1,61 +1,135 @@
 import axios from 'axios';
 import { v4 as uuidv4 } from 'uuid';
+import { createClient } from '@supabase/supabase-js';
 import agentService from './agentService';
 import memoryService from './memoryService';
+import expressionService, { ExpressionIssue } from './expressionService';
+import { createExecutionStore, ExecutionStore } from './executionStore';
+import timerService, { parseDuration } from './timerService';
+import approvalService, { ApprovalRequest } from './approvalService';
+import templateService from './templateService';
+import deliveryService, { OutboundDelivery } from './deliveryService';
+import {
+  WorkflowNode,
+  WorkflowEdge,
+  ExecutionContext,
+  DelayType,
+  ExecutionLogLevel,
+  ExecutionLog,
+  ExecutionOptions,
+  JoinMergeStrategy,
+  JoinType,
+  LoopMode,
+  NodeExecutionState,
+  NodeRetryPolicy
+} from '../types/workflow';
 
-// Type definitions for workflow components
-interface WorkflowNode {
-  id: string;
-  type: string;
-  position: { x: number; y: number };
-  data: any;
-}
+// Stored workflows are loaded from Supabase when it is configured (used by subflow and loop nodes)
+const supabaseUrl = process.env.SUPABASE_URL as string;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY as string;
+let supabase: ReturnType<typeof createClient> | undefined;
 
-interface WorkflowEdge {
-  id: string;
-  source: string;
-  target: string;
-  sourceHandle?: string | null;
-  targetHandle?: string | null;
-  type?: string;
-  animated?: boolean;
-  style?: any;
+if (supabaseUrl && supabaseKey && !supabaseUrl.includes('your_') && !supabaseKey.includes('your_')) {
+  supabase = createClient(supabaseUrl, supabaseKey);
 }
 
-interface ExecutionContext {
-  id: string;
-  flowId: string;
-  status: 'initializing' | 'running' | 'completed' | 'failed' | 'paused';
-  startTime: Date;
-  endTime?: Date;
-  nodes: Record<string, NodeExecutionState>;
-  variables: Record<string, any>;
-  logs: ExecutionLog[];
-  currentNodeId?: string;
+// Default cap on node handlers running at once within a single execution
+const WORKFLOW_MAX_CONCURRENCY = parseInt(process.env.WORKFLOW_MAX_CONCURRENCY || '5');
+
+// Retry backoff defaults when a node's policy doesn't set them
+const DEFAULT_RETRY_DELAY_MS = 1000;
+const DEFAULT_MAX_RETRY_DELAY_MS = 30000;
+
+// Conditional delays re-check their condition this often until the deadline
+const DEFAULT_POLL_INTERVAL_MS = 30000;
+const DEFAULT_MAX_WAIT_MS = 24 * 60 * 60 * 1000;
+
+// Sub-workflows and loop iterations can't nest deeper than this
+const WORKFLOW_MAX_NESTING_DEPTH = parseInt(process.env.WORKFLOW_MAX_NESTING_DEPTH || '5');
+
+// Upper bound on the items a single loop node iterates over
+const WORKFLOW_MAX_LOOP_ITEMS = parseInt(process.env.WORKFLOW_MAX_LOOP_ITEMS || '1000');
+
+// Returned by a node handler that parked its branch until a timer, an approval
+// decision or its nested executions finish
+const NODE_PARKED = Symbol('parked');
+
+/**
+ * Bounds how many tasks run at the same time; extra tasks wait in FIFO order
+ */
+class ConcurrencyLimiter {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(private limit: number) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active < this.limit) {
+      this.active++;
+    } else {
+      // The releasing task hands its slot straight to us
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
 }
 
-interface NodeExecutionState {
-  id: string;
-  status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
-  startTime?: Date;
-  endTime?: Date;
-  output?: any;
-  error?: string;
+interface BranchTarget {
+  node: WorkflowNode;
+  fromNodeId?: string;
 }
 
-interface ExecutionLog {
-  timestamp: Date;
-  level: 'info' | 'warning' | 'error' | 'debug';
-  message: string;
-  nodeId?: string;
-  details?: any;
+interface WorkflowGraph {
+  flowId: string;
+  nodes: WorkflowNode[];
+  edges: WorkflowEdge[];
 }
 
 class WorkflowService {
   private executionContexts: Record<string, ExecutionContext> = {};
+  private executionGraphs: Record<string, { nodes: WorkflowNode[]; edges: WorkflowEdge[] }> = {};
+  private checkpointQueue: Record<string, Promise<void>> = {};
+  private executionLimiters: Record<string, ConcurrencyLimiter> = {};
+  // Traversals currently in flight per execution (the initial run plus any fired timers)
+  private activeSegments: Record<string, number> = {};
+  private finishedListeners: Array<(context: ExecutionContext) => void> = [];
+  // Graphs of workflows run in this process, the fallback for subflows without Supabase
+  private workflowGraphs: Record<string, WorkflowGraph> = {};
+  // Nested graphs resolved by parked subflow and loop nodes, keyed by `${executionId}:${nodeId}`
+  private nestedGraphs: Record<string, WorkflowGraph> = {};
+  private subflowInputs: Record<string, Record<string, any>> = {};
+  private store: ExecutionStore;
 
   constructor() {
-    console.log('⚙️ Workflow Service initialized');
+    this.store = createExecutionStore();
+    
+    // Continue the parent of a sub-workflow or loop iteration once it finishes
+    this.onExecutionFinished(context => {
+      this.handleNestedExecutionFinished(context).catch(error =>
+        console.error(`❌ Failed to resume execution ${context.parentExecutionId} after nested execution:`, error)
+      );
+    });
+    
+    // Continue executions parked on approval nodes once a decision comes in
+    approvalService.onChange((approval, change) => {
+      if (change === 'approved' || change === 'rejected' || change === 'expired') {
+        this.resumeApprovalNode(approval).catch(error =>
+          console.error(`❌ Failed to resume execution ${approval.executionId} after approval:`, error)
+        );
+      }
+    });
+    
+    console.log(`⚙️ Workflow Service initialized (execution store: ${this.store.name})`);
   }
 
   /**
@@ -65,7 +139,8 @@ class WorkflowService {
     flowId: string,
     nodes: WorkflowNode[],
     edges: WorkflowEdge[],
-    context: Record<string, any> = {}
+    context: Record<string, any> = {},
+    options: ExecutionOptions = {}
   ): Promise<{ executionId: string }> {
     // Create a unique execution ID
     const executionId = uuidv4();
@@ -81,9 +156,19 @@ class WorkflowService {
         ...context,
         executionId
       },
-      logs: []
+      logs: [],
+      maxConcurrency: Math.max(1, options.maxConcurrency || WORKFLOW_MAX_CONCURRENCY)
     };
     
+    if (options.parent) {
+      executionContext.parentExecutionId = options.parent.executionId;
+      executionContext.parentNodeId = options.parent.nodeId;
+      executionContext.iteration = options.parent.iteration;
+      executionContext.depth = options.parent.depth;
+    } else {
+      this.workflowGraphs[flowId] = { flowId, nodes, edges };
+    }
+    
     // Initialize node states
     nodes.forEach(node => {
       executionContext.nodes[node.id] = {
@@ -94,15 +179,138 @@ class WorkflowService {
     
     // Store the execution context
     this.executionContexts[executionId] = executionContext;
+    this.executionGraphs[executionId] = { nodes, edges };
     
     // Log the start of execution
     this.addExecutionLog(executionId, 'info', `Workflow execution started: ${flowId}`, null, {
       nodeCount: nodes.length,
-      edgeCount: edges.length
+      edgeCount: edges.length,
+      maxConcurrency: executionContext.maxConcurrency,
+      parent: options.parent
     });
     
+    // Persist the initial state before any node runs
+    await this.checkpoint(executionId);
+    
     // Start the workflow execution (non-blocking)
-    this.processWorkflow(executionId, nodes, edges).catch(error => {
+    this.runWorkflow(executionId, nodes, edges, false);
+    
+    // Return the execution ID immediately
+    return { executionId };
+  }
+
+  /**
+   * Register a listener called once an execution has completed or failed
+   */
+  public onExecutionFinished(listener: (context: ExecutionContext) => void): void {
+    this.finishedListeners.push(listener);
+  }
+
+  /**
+   * Resume executions that were still running when the orchestrator stopped
+   * and re-arm the timers of executions parked on delay or approval nodes.
+   * Parents of sub-workflows and loops catch up on nested executions that
+   * finished while no one was listening.
+   */
+  public async resumeInterruptedExecutions(): Promise<string[]> {
+    let records;
+    
+    try {
+      records = await this.store.listByStatus(['initializing', 'running', 'paused']);
+    } catch (error) {
+      console.error('❌ Failed to load interrupted executions:', error);
+      return [];
+    }
+    
+    const resumed: string[] = [];
+    const nestingParents: ExecutionContext[] = [];
+    
+    for (const { context, nodes, edges } of records) {
+      // Skip executions this process is already running
+      if (this.executionContexts[context.id]) continue;
+      
+      // A node that was running when the process died has no checkpointed output, so run it again.
+      // The same goes for a subflow that parked but never got to start its sub-workflow.
+      let restartedNodes = 0;
+      
+      Object.values(context.nodes).forEach(state => {
+        const node = nodes.find(n => n.id === state.id);
+        const unstartedSubflow = state.status === 'waiting' && node?.type === 'subflow' && !state.subExecutionIds?.length;
+        
+        if (state.status === 'running' || unstartedSubflow) {
+          state.status = 'pending';
+          delete state.startTime;
+          restartedNodes++;
+        }
+        
+        // Loop iterations that were about to start get started again
+        state.iterations?.forEach(iteration => {
+          if (iteration.status === 'running' && !iteration.executionId) {
+            iteration.status = 'pending';
+          }
+        });
+      });
+      
+      if (nodes.some(node => this.isNestingNode(node) && context.nodes[node.id]?.status === 'waiting')) {
+        nestingParents.push(context);
+      }
+      
+      this.executionContexts[context.id] = context;
+      this.executionGraphs[context.id] = { nodes, edges };
+      
+      // Timers are due at their checkpointed time; overdue ones fire right away
+      const waitingNodeIds = Object.values(context.nodes)
+        .filter(state => state.status === 'waiting' && state.waitUntil)
+        .map(state => {
+          this.armWakeTimer(context.id, state.id, state.waitUntil!);
+          return state.id;
+        });
+      
+      if (context.status === 'paused' && restartedNodes === 0) {
+        this.addExecutionLog(context.id, 'info', `Re-armed ${waitingNodeIds.length} wake-up timers after restart`, null, {
+          waitingNodeIds
+        });
+        continue;
+      }
+      
+      context.resumedAt = [...(context.resumedAt || []), new Date()];
+      
+      this.addExecutionLog(context.id, 'warning', `Resuming interrupted execution from last checkpoint`, null, {
+        completedNodeIds: Object.values(context.nodes)
+          .filter(state => state.status === 'completed')
+          .map(state => state.id)
+      });
+      
+      this.runWorkflow(context.id, nodes, edges, true);
+      resumed.push(context.id);
+    }
+    
+    for (const context of nestingParents) {
+      await this.reconcileNestedExecutions(context);
+    }
+    
+    if (resumed.length > 0) {
+      console.log(`♻️ Resumed ${resumed.length} interrupted workflow executions`);
+    }
+    
+    const pendingTimers = timerService.getPendingTimers('wake:').length;
+    if (pendingTimers > 0) {
+      console.log(`⏰ Re-armed ${pendingTimers} workflow wake-up timers`);
+    }
+    
+    return resumed;
+  }
+
+  /**
+   * Run the workflow in the background and record any unhandled failure
+   */
+  private runWorkflow(
+    executionId: string,
+    nodes: WorkflowNode[],
+    edges: WorkflowEdge[],
+    resume: boolean
+  ): void {
+    this.processWorkflow(executionId, nodes, edges, resume).catch(async error => {
       console.error(`❌ Error executing workflow:`, error);
       
       // Update execution context
@@ -112,11 +320,10 @@ class WorkflowService {
         context.endTime = new Date();
         
         this.addExecutionLog(executionId, 'error', `Workflow execution failed: ${error.message}`);
+        await this.checkpoint(executionId);
+        this.notifyExecutionFinished(context);
       }
     });
-    
-    // Return the execution ID immediately
-    return { executionId };
   }
 
   /**
@@ -125,50 +332,171 @@ class WorkflowService {
   private async processWorkflow(
     executionId: string,
     nodes: WorkflowNode[],
-    edges: WorkflowEdge[]
+    edges: WorkflowEdge[],
+    resume: boolean = false
   ): Promise<void> {
     const context = this.executionContexts[executionId];
     if (!context) {
       throw new Error(`Execution context not found: ${executionId}`);
     }
     
-    // Update context status
-    context.status = 'running';
+    // Find the start nodes (trigger nodes or those with no incoming edges),
+    // or the nodes right after the last completed ones when resuming
+    const startTargets: BranchTarget[] = resume
+      ? this.findResumeNodes(context, nodes, edges)
+      : this.findStartNodes(nodes, edges).map(node => ({ node }));
+    
+    if (startTargets.length === 0 && !resume) {
+      throw new Error('No start nodes found in workflow');
+    }
+    
+    // Log start nodes
+    this.addExecutionLog(executionId, 'info', `Starting workflow from ${startTargets.length} entry points`, null, {
+      startNodeIds: startTargets.map(target => target.node.id)
+    });
+    
+    // Execute all start nodes in parallel
+    await this.runSegment(executionId, nodes, () =>
+      this.executeBranches(executionId, startTargets, nodes, edges)
+    );
+  }
+
+  /**
+   * Run one traversal of the graph. An execution may have several in flight:
+   * the initial run and the continuations started by timers or approvals. Whichever
+   * finishes last decides whether the execution completed or is parked.
+   */
+  private async runSegment(
+    executionId: string,
+    nodes: WorkflowNode[],
+    traverse: () => Promise<void>
+  ): Promise<void> {
+    const context = this.executionContexts[executionId];
+    if (!context) return;
+    
+    this.activeSegments[executionId] = (this.activeSegments[executionId] || 0) + 1;
+    
+    if (context.status !== 'failed') {
+      context.status = 'running';
+      await this.checkpoint(executionId);
+    }
     
     try {
-      // Find the start nodes (trigger nodes or those with no incoming edges)
-      const startNodes = this.findStartNodes(nodes, edges);
-      
-      if (startNodes.length === 0) {
-        throw new Error('No start nodes found in workflow');
+      await traverse();
+    } catch (error: any) {
+      // Only the first failure is recorded; it also cancels the remaining timers and approvals
+      if (context.status !== 'failed') {
+        console.error(`❌ Error executing workflow:`, error);
+        
+        context.status = 'failed';
+        context.endTime = new Date();
+        timerService.cancelByPrefix(`wake:${executionId}:`);
+        approvalService.cancelForExecution(executionId, 'Workflow execution failed').catch(cancelError =>
+          console.error(`❌ Failed to cancel approvals of execution ${executionId}:`, cancelError)
+        );
+        
+        this.addExecutionLog(executionId, 'error', `Workflow execution failed: ${error.message}`);
       }
+    } finally {
+      this.activeSegments[executionId]--;
+    }
+    
+    if (this.activeSegments[executionId] > 0) return;
+    
+    delete this.activeSegments[executionId];
+    delete this.executionLimiters[executionId];
+    
+    if (context.status !== 'failed') {
+      const waiting = Object.values(context.nodes).filter(state => state.status === 'waiting');
       
-      // Log start nodes
-      this.addExecutionLog(executionId, 'info', `Starting workflow from ${startNodes.length} entry points`, null, {
-        startNodeIds: startNodes.map(node => node.id)
-      });
-      
-      // Execute each start node
-      for (const startNode of startNodes) {
-        await this.executeNode(executionId, startNode, nodes, edges);
+      if (waiting.length > 0) {
+        // Nothing is running any more; the execution wakes up when a timer fires or an approval is decided
+        const nextWakeUp = waiting
+          .filter(state => state.waitUntil)
+          .map(state => state.waitUntil!)
+          .reduce<Date | null>((earliest, date) => (!earliest || date < earliest ? date : earliest), null);
+        
+        context.status = 'paused';
+        
+        this.addExecutionLog(
+          executionId,
+          'info',
+          nextWakeUp
+            ? `Workflow execution paused until ${nextWakeUp.toISOString()}`
+            : `Workflow execution paused waiting on ${waiting.map(state => state.id).join(', ')}`,
+          null,
+          { waitingNodeIds: waiting.map(state => state.id) }
+        );
+      } else {
+        this.warnUnsatisfiedJoins(executionId, nodes);
+        
+        // Mark execution as completed
+        context.status = 'completed';
+        context.endTime = new Date();
+        
+        this.addExecutionLog(executionId, 'info', `Workflow execution completed successfully`);
       }
-      
-      // Mark execution as completed
-      context.status = 'completed';
-      context.endTime = new Date();
-      
-      this.addExecutionLog(executionId, 'info', `Workflow execution completed successfully`);
-    } catch (error: any) {
-      // Mark execution as failed
-      context.status = 'failed';
-      context.endTime = new Date();
-      
-      this.addExecutionLog(executionId, 'error', `Workflow execution failed: ${error.message}`);
-      
-      throw error;
+    }
+    
+    await this.checkpoint(executionId);
+    
+    if (context.status !== 'paused') {
+      this.notifyExecutionFinished(context);
     }
   }
 
+  /**
+   * Tell lifecycle listeners that an execution reached a final state
+   */
+  private notifyExecutionFinished(context: ExecutionContext): void {
+    for (const listener of this.finishedListeners) {
+      try {
+        listener(context);
+      } catch (error) {
+        console.error(`❌ Execution lifecycle listener failed for ${context.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Run several branches concurrently and wait for all of them to settle.
+   * The first failure is rethrown once the sibling branches have finished.
+   */
+  private async executeBranches(
+    executionId: string,
+    targets: BranchTarget[],
+    nodes: WorkflowNode[],
+    edges: WorkflowEdge[]
+  ): Promise<void> {
+    const results = await Promise.allSettled(
+      targets.map(target =>
+        this.executeNode(executionId, target.node, nodes, edges, target.fromNodeId)
+      )
+    );
+    
+    const failure = results.find(
+      (result): result is PromiseRejectedResult => result.status === 'rejected'
+    );
+    
+    if (failure) {
+      throw failure.reason;
+    }
+  }
+
+  /**
+   * Get the limiter that bounds node concurrency for an execution
+   */
+  private getLimiter(executionId: string): ConcurrencyLimiter {
+    if (!this.executionLimiters[executionId]) {
+      const context = this.executionContexts[executionId];
+      this.executionLimiters[executionId] = new ConcurrencyLimiter(
+        context?.maxConcurrency || WORKFLOW_MAX_CONCURRENCY
+      );
+    }
+    
+    return this.executionLimiters[executionId];
+  }
+
   /**
    * Find start nodes in the workflow
    */
@@ -187,296 +515,1641 @@ class WorkflowService {
   }
 
   /**
-   * Execute a single node in the workflow
+   * Find the pending nodes an interrupted execution should continue from
+   */
+  private findResumeNodes(
+    context: ExecutionContext,
+    nodes: WorkflowNode[],
+    edges: WorkflowEdge[]
+  ): BranchTarget[] {
+    const isPending = (nodeId: string) => context.nodes[nodeId]?.status === 'pending';
+    const targets: BranchTarget[] = [];
+    
+    // Entry points that never got to run
+    this.findStartNodes(nodes, edges)
+      .filter(node => isPending(node.id))
+      .forEach(node => targets.push({ node }));
+    
+    // Successors of completed nodes (or of failures routed to an error branch)
+    // that were still waiting their turn. The source is kept so join nodes can
+    // count the arrival again.
+    nodes
+      .filter(node => {
+        const state = context.nodes[node.id];
+        return state?.status === 'completed' || (state?.status === 'failed' && state.errorHandled);
+      })
+      .forEach(node => {
+        const state = context.nodes[node.id];
+        const followed = state.status === 'completed'
+          ? this.getNextEdges(node, state.output, edges)
+          : this.getErrorEdges(node, edges);
+        
+        followed
+          .filter(edge => isPending(edge.target))
+          .forEach(edge => {
+            const target = nodes.find(n => n.id === edge.target);
+            if (target) {
+              targets.push({ node: target, fromNodeId: node.id });
+            }
+          });
+      });
+    
+    return targets;
+  }
+
+  /**
+   * Get the outgoing edges to follow after a node produced its output
+   */
+  private getNextEdges(
+    node: WorkflowNode,
+    output: any,
+    edges: WorkflowEdge[]
+  ): WorkflowEdge[] {
+    // Error edges are only followed when the node fails
+    let nextEdges: WorkflowEdge[] = edges.filter(edge => 
+      edge.source === node.id && edge.sourceHandle !== 'error'
+    );
+    
+    // For condition nodes, filter edges based on the selected branch
+    if (node.type === 'condition') {
+      // A closed gate stops the branch entirely
+      if (output?.branch === null) {
+        return [];
+      }
+      
+      let sourceHandle = output?.branch ?? (output?.result ? 'true' : 'false');
+      
+      // Switch values without a matching case fall through to the default edge
+      if (
+        node.data?.conditionType === 'switch' &&
+        !nextEdges.some(edge => edge.sourceHandle === sourceHandle)
+      ) {
+        sourceHandle = 'default';
+      }
+      
+      nextEdges = nextEdges.filter(edge => 
+        !edge.sourceHandle || edge.sourceHandle === sourceHandle
+      );
+    }
+    
+    // A loop's `body` edges lead into the sub-graph run per item, not to its successors
+    if (this.isLoopNode(node)) {
+      nextEdges = nextEdges.filter(edge => edge.sourceHandle !== 'body');
+    }
+    
+    // Approval nodes continue down the `approved` or `rejected` edge
+    if (node.type === 'approval') {
+      nextEdges = nextEdges.filter(edge => 
+        !edge.sourceHandle || edge.sourceHandle === output?.decision
+      );
+    }
+    
+    return nextEdges;
+  }
+
+  /**
+   * Get the outgoing `error` edges that handle a node's failure
+   */
+  private getErrorEdges(node: WorkflowNode, edges: WorkflowEdge[]): WorkflowEdge[] {
+    return edges.filter(edge => edge.source === node.id && edge.sourceHandle === 'error');
+  }
+
+  /**
+   * Resolve edges to the nodes they lead to
+   */
+  private toBranchTargets(
+    node: WorkflowNode,
+    nextEdges: WorkflowEdge[],
+    nodes: WorkflowNode[]
+  ): BranchTarget[] {
+    const targets: BranchTarget[] = [];
+    
+    for (const edge of nextEdges) {
+      const nextNode = nodes.find(n => n.id === edge.target);
+      if (nextNode) {
+        targets.push({ node: nextNode, fromNodeId: node.id });
+      }
+    }
+    
+    return targets;
+  }
+
+  /**
+   * Execute a single node in the workflow, then fan out to its successors in parallel
    */
   private async executeNode(
     executionId: string,
     node: WorkflowNode,
     nodes: WorkflowNode[],
-    edges: WorkflowEdge[]
+    edges: WorkflowEdge[],
+    fromNodeId?: string
   ): Promise<any> {
     const context = this.executionContexts[executionId];
     if (!context) {
       throw new Error(`Execution context not found: ${executionId}`);
     }
     
+    const state = context.nodes[node.id];
+    
     // Skip if node already executed
-    if (
-      context.nodes[node.id].status === 'completed' ||
-      context.nodes[node.id].status === 'failed'
-    ) {
-      return context.nodes[node.id].output;
+    if (state.status === 'completed' || state.status === 'failed') {
+      return state.output;
+    }
+    
+    // Another branch reached this node first and is already running it or parked on it
+    if (state.status === 'running' || state.status === 'waiting') {
+      return undefined;
+    }
+    
+    // Join nodes wait until enough upstream branches have arrived
+    if (node.type === 'join' && !this.registerJoinArrival(context, node, edges, fromNodeId)) {
+      this.addExecutionLog(
+        executionId,
+        'debug',
+        `Join ${node.id} waiting for more branches`,
+        node.id,
+        { arrivals: state.arrivals, required: this.getJoinRequirement(node, edges) }
+      );
+      return undefined;
     }
     
     // Update node state
-    context.nodes[node.id].status = 'running';
-    context.nodes[node.id].startTime = new Date();
+    state.status = 'running';
+    state.startTime = new Date();
     context.currentNodeId = node.id;
     
     // Log node execution start
     this.addExecutionLog(
-      executionId,
-      'info',
-      `Executing node: ${node.id}`,
+      executionId,
+      'info',
+      `Executing node: ${node.id}`,
+      node.id,
+      { nodeType: node.type, nodeData: node.data }
+    );
+    
+    let output;
+    
+    try {
+      // Execute based on node type, applying the node's retry and timeout policy
+      output = await this.executeWithPolicy(executionId, node, context, nodes);
+    } catch (error: any) {
+      return this.failNode(executionId, node, error, nodes, edges);
+    }
+    
+    // Delay, approval, subflow and loop nodes park the branch; a timer, a decision
+    // or the end of their nested executions continues it later
+    if (output === NODE_PARKED) {
+      state.status = 'waiting';
+      
+      this.addExecutionLog(
+        executionId,
+        'info',
+        state.waitUntil
+          ? `Node ${node.id} waiting until ${state.waitUntil.toISOString()}`
+          : `Node ${node.id} waiting for ${node.type === 'approval' ? 'approval' : 'nested executions'}`,
+        node.id,
+        { waitUntil: state.waitUntil, deadline: state.deadline, approvalId: state.approvalId }
+      );
+      
+      await this.checkpoint(executionId);
+      
+      if (state.waitUntil) {
+        this.armWakeTimer(executionId, node.id, state.waitUntil);
+      }
+      
+      // Nested executions only start once the node is parked, so their results always find it waiting
+      if (node.type === 'subflow') {
+        await this.startSubflowExecution(executionId, node);
+      } else if (this.isLoopNode(node)) {
+        await this.fillLoopSlots(executionId, node);
+      }
+      
+      return undefined;
+    }
+    
+    return this.completeNode(executionId, node, output, nodes, edges);
+  }
+
+  /**
+   * Record a node's output, then fan out to its successors in parallel
+   */
+  private async completeNode(
+    executionId: string,
+    node: WorkflowNode,
+    output: any,
+    nodes: WorkflowNode[],
+    edges: WorkflowEdge[]
+  ): Promise<any> {
+    const context = this.executionContexts[executionId];
+    const state = context.nodes[node.id];
+    
+    // Resolved secrets must not end up in stored outputs or logs
+    output = templateService.redactSecrets(output);
+    
+    // Update node state with output
+    state.status = 'completed';
+    state.endTime = new Date();
+    state.output = output;
+    
+    // Log node execution completion
+    this.addExecutionLog(
+      executionId,
+      'info',
+      `Node executed successfully: ${node.id}`,
+      node.id,
+      { output }
+    );
+    
+    // Find outgoing edges from this node
+    const nextEdges = this.getNextEdges(node, output, edges);
+    
+    // Make the output visible to downstream nodes before checkpointing
+    if (nextEdges.length > 0) {
+      context.variables[`${node.id}_output`] = output;
+    }
+    
+    await this.checkpoint(executionId);
+    
+    // Execute next nodes in parallel
+    const targets = this.toBranchTargets(node, nextEdges, nodes);
+    
+    if (targets.length > 1) {
+      this.addExecutionLog(
+        executionId,
+        'info',
+        `Fanning out to ${targets.length} parallel branches`,
+        node.id,
+        { targetNodeIds: targets.map(target => target.node.id) }
+      );
+    }
+    
+    await this.executeBranches(executionId, targets, nodes, edges);
+    
+    return output;
+  }
+
+  /**
+   * Record a node failure and route it down the node's error edges.
+   * Without an error handler the failure is rethrown and fails the run.
+   */
+  private async failNode(
+    executionId: string,
+    node: WorkflowNode,
+    error: any,
+    nodes: WorkflowNode[],
+    edges: WorkflowEdge[]
+  ): Promise<any> {
+    const context = this.executionContexts[executionId];
+    const state = context.nodes[node.id];
+    
+    const message = templateService.redactSecrets(String(error.message));
+    
+    // Update node state with error
+    state.status = 'failed';
+    state.endTime = new Date();
+    state.error = message;
+    
+    // Log node execution failure
+    this.addExecutionLog(
+      executionId,
+      'error',
+      `Node execution failed: ${node.id} - ${message}`,
+      node.id,
+      { error: message, stack: error.stack, attempts: state.attempts }
+    );
+    
+    const errorEdges = this.getErrorEdges(node, edges);
+    
+    // Without an error handler the failure fails the whole run
+    if (errorEdges.length === 0) {
+      await this.checkpoint(executionId);
+      throw error;
+    }
+    
+    // Route the failure to the compensating branch
+    state.errorHandled = true;
+    context.variables[`${node.id}_error`] = {
+      nodeId: node.id,
+      message,
+      code: error.code,
+      status: error.status,
+      attempts: state.attempts,
+      timestamp: new Date()
+    };
+    
+    this.addExecutionLog(
+      executionId,
+      'warning',
+      `Routing failure of node ${node.id} to ${errorEdges.length} error handler branches`,
+      node.id,
+      { targetNodeIds: errorEdges.map(edge => edge.target) }
+    );
+    
+    await this.checkpoint(executionId);
+    await this.executeBranches(executionId, this.toBranchTargets(node, errorEdges, nodes), nodes, edges);
+    
+    return undefined;
+  }
+
+  /**
+   * Run a node handler with the retry, backoff and timeout policy from its data.
+   * Each attempt holds a concurrency slot only while it runs, not while backing off.
+   */
+  private async executeWithPolicy(
+    executionId: string,
+    node: WorkflowNode,
+    context: ExecutionContext,
+    nodes: WorkflowNode[]
+  ): Promise<any> {
+    const policy: NodeRetryPolicy = node.data?.retry || {};
+    const maxAttempts = Math.max(1, parseInt(String(policy.maxAttempts)) || 1);
+    const timeoutMs = Math.max(0, Number(node.data?.timeoutMs) || 0);
+    const state = context.nodes[node.id];
+    
+    for (let attempt = 1; ; attempt++) {
+      state.attempts = attempt;
+      
+      try {
+        return await this.getLimiter(executionId).run(() =>
+          this.withTimeout(() => this.executeNodeByType(node, context, nodes), timeoutMs, node.id)
+        );
+      } catch (error: any) {
+        if (error.code === 'NODE_TIMEOUT') {
+          this.addExecutionLog(
+            executionId,
+            'warning',
+            `Node ${node.id} timed out after ${timeoutMs}ms (attempt ${attempt}/${maxAttempts})`,
+            node.id,
+            { attempt, maxAttempts, timeoutMs }
+          );
+        }
+        
+        if (attempt >= maxAttempts || !this.isRetryableError(error)) {
+          throw error;
+        }
+        
+        const delayMs = this.getRetryDelay(policy, attempt);
+        
+        this.addExecutionLog(
+          executionId,
+          'warning',
+          `Attempt ${attempt}/${maxAttempts} failed for node ${node.id}, retrying in ${delayMs}ms`,
+          node.id,
+          { attempt, maxAttempts, delayMs, backoff: policy.backoff || 'exponential', error: error.message }
+        );
+        
+        await this.checkpoint(executionId);
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  /**
+   * Reject if the task doesn't settle within the timeout (0 disables it)
+   */
+  private withTimeout<T>(task: () => Promise<T>, timeoutMs: number, nodeId: string): Promise<T> {
+    if (!timeoutMs) return task();
+    
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        const error: any = new Error(`Node ${nodeId} timed out after ${timeoutMs}ms`);
+        error.code = 'NODE_TIMEOUT';
+        reject(error);
+      }, timeoutMs);
+      
+      task().then(
+        result => {
+          clearTimeout(timer);
+          resolve(result);
+        },
+        error => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Client errors (4xx other than 408 and 429) won't succeed on retry
+   */
+  private isRetryableError(error: any): boolean {
+    const status = error.status;
+    
+    // A config that can't be resolved won't resolve on the next attempt either
+    if (error.code === 'TEMPLATE_ERROR') {
+      return false;
+    }
+    
+    if (typeof status === 'number' && status >= 400 && status < 500) {
+      return status === 408 || status === 429;
+    }
+    
+    return true;
+  }
+
+  /**
+   * Delay before the next attempt according to the node's backoff strategy
+   */
+  private getRetryDelay(policy: NodeRetryPolicy, attempt: number): number {
+    const baseDelay = Math.max(0, Number(policy.delayMs ?? DEFAULT_RETRY_DELAY_MS));
+    const maxDelay = Math.max(0, Number(policy.maxDelayMs ?? DEFAULT_MAX_RETRY_DELAY_MS));
+    
+    let delay: number;
+    
+    switch (policy.backoff || 'exponential') {
+      case 'none':
+        delay = 0;
+        break;
+      case 'fixed':
+        delay = baseDelay;
+        break;
+      case 'linear':
+        delay = baseDelay * attempt;
+        break;
+      default:
+        delay = baseDelay * Math.pow(2, attempt - 1);
+    }
+    
+    return Math.min(delay, maxDelay);
+  }
+
+  /**
+   * Dispatch a node to the handler for its type
+   */
+  private async executeNodeByType(
+    node: WorkflowNode,
+    context: ExecutionContext,
+    nodes: WorkflowNode[]
+  ): Promise<any> {
+    switch (node.type) {
+      case 'trigger':
+        // Trigger nodes just pass through their data
+        return {
+          triggered: true,
+          timestamp: new Date(),
+          data: node.data
+        };
+        
+      case 'agent':
+        // Execute an agent node
+        return this.executeAgentNode(this.resolveTemplates(node, context, nodes), context.variables, context.id);
+        
+      case 'action':
+        // Execute an action node
+        return this.executeActionNode(this.resolveTemplates(node, context, nodes), context.variables, context.flowId);
+        
+      case 'condition': {
+        // Templates in condition expressions are passed in as variables, never spliced into the source
+        const { condition, source } = node.data || {};
+        const extracted = [condition, source].map(expression => templateService.extractFromExpression(expression));
+        const templates = { ...extracted[0].templates, ...extracted[1].templates };
+        
+        if (Object.keys(templates).length === 0) {
+          return this.executeConditionNode(node, context.variables);
+        }
+        
+        const scope = templateService.createScope(context, nodes);
+        const resolved = { ...node, data: { ...node.data, condition: extracted[0].expression, source: extracted[1].expression } };
+        
+        return this.executeConditionNode(resolved, {
+          ...context.variables,
+          ...templateService.resolveExpressionTemplates(templates, scope, 'condition')
+        });
+      }
+        
+      case 'delay':
+        // Execute a delay node
+        return this.executeDelayNode(node, context);
+        
+      case 'join':
+        // Merge the outputs of the branches that reached this node
+        return this.executeJoinNode(node, context);
+        
+      case 'approval':
+        // Suspend the branch until someone approves or rejects it
+        return this.executeApprovalNode(node, context);
+        
+      case 'subflow':
+        // Run another stored workflow as a nested execution
+        return this.executeSubflowNode(node, context);
+        
+      case 'loop':
+      case 'forEach':
+        // Run the loop body once per item
+        return this.executeLoopNode(node, context);
+        
+      default:
+        throw new Error(`Unsupported node type: ${node.type}`);
+    }
+  }
+
+  /**
+   * Copy of a node with the `{{ ... }}` templates in its data resolved against the execution
+   */
+  private resolveTemplates(
+    node: WorkflowNode,
+    context: ExecutionContext,
+    nodes: WorkflowNode[]
+  ): WorkflowNode {
+    if (!templateService.hasTemplates(node.data)) {
+      return node;
+    }
+    
+    const scope = templateService.createScope(context, nodes);
+    
+    return { ...node, data: templateService.resolve(node.data, scope) };
+  }
+
+  /**
+   * Record that an upstream branch reached a join node.
+   * Returns true once the join's wait condition is satisfied.
+   */
+  private registerJoinArrival(
+    context: ExecutionContext,
+    node: WorkflowNode,
+    edges: WorkflowEdge[],
+    fromNodeId?: string
+  ): boolean {
+    const state = context.nodes[node.id];
+    const arrivals = state.arrivals || (state.arrivals = []);
+    
+    if (fromNodeId && !arrivals.includes(fromNodeId)) {
+      arrivals.push(fromNodeId);
+    }
+    
+    return arrivals.length >= this.getJoinRequirement(node, edges);
+  }
+
+  /**
+   * Number of upstream branches a join node waits for
+   */
+  private getJoinRequirement(node: WorkflowNode, edges: WorkflowEdge[]): number {
+    const upstreamCount = new Set(
+      edges.filter(edge => edge.target === node.id).map(edge => edge.source)
+    ).size;
+    const joinType: JoinType = node.data?.joinType || 'all';
+    
+    switch (joinType) {
+      case 'any':
+        return 1;
+      case 'count':
+        return Math.min(Math.max(1, parseInt(node.data?.count) || 1), Math.max(1, upstreamCount));
+      default:
+        return Math.max(1, upstreamCount);
+    }
+  }
+
+  /**
+   * Execute a join node
+   */
+  private async executeJoinNode(
+    node: WorkflowNode,
+    context: ExecutionContext
+  ): Promise<any> {
+    const { joinType = 'all', mergeStrategy = 'object', outputVariable } = node.data;
+    const arrivals = context.nodes[node.id].arrivals || [];
+    
+    // Merge upstream outputs in arrival order
+    let merged: any;
+    const strategy: JoinMergeStrategy = mergeStrategy;
+    
+    switch (strategy) {
+      case 'array':
+        merged = arrivals.map(sourceId => context.nodes[sourceId]?.output);
+        break;
+        
+      case 'shallow':
+        merged = arrivals.reduce((result: Record<string, any>, sourceId) => {
+          const output = context.nodes[sourceId]?.output;
+          return output && typeof output === 'object' ? { ...result, ...output } : result;
+        }, {});
+        break;
+        
+      default:
+        merged = arrivals.reduce((result: Record<string, any>, sourceId) => {
+          result[sourceId] = context.nodes[sourceId]?.output;
+          return result;
+        }, {});
+    }
+    
+    // Expose the merged value as a single variable for downstream nodes
+    const variableName = outputVariable || `${node.id}_merged`;
+    context.variables[variableName] = merged;
+    
+    return {
+      joined: true,
+      joinType,
+      mergeStrategy: strategy,
+      arrivedFrom: [...arrivals],
+      variable: variableName,
+      merged,
+      timestamp: new Date()
+    };
+  }
+
+  /**
+   * Log join nodes that some branches reached but that never fired
+   */
+  private warnUnsatisfiedJoins(executionId: string, nodes: WorkflowNode[]): void {
+    const context = this.executionContexts[executionId];
+    if (!context) return;
+    
+    nodes
+      .filter(node => node.type === 'join')
+      .forEach(node => {
+        const state = context.nodes[node.id];
+        if (state.status === 'pending' && state.arrivals?.length) {
+          this.addExecutionLog(
+            executionId,
+            'warning',
+            `Join ${node.id} never fired: only ${state.arrivals.length} upstream branches arrived`,
+            node.id,
+            { arrivals: state.arrivals, joinType: node.data?.joinType || 'all' }
+          );
+        }
+      });
+  }
+
+  /**
+   * Execute an agent node
+   */
+  private async executeAgentNode(
+    node: WorkflowNode,
+    variables: Record<string, any>,
+    executionId: string
+  ): Promise<any> {
+    const { label, role, description, tools = [], status } = node.data;
+    
+    // Skip if the agent is not in a ready state
+    if (status !== 'ready' && status !== 'completed') {
+      throw new Error(`Agent not ready: ${node.id}`);
+    }
+    
+    // Get agent ID from data or generate one
+    const agentId = node.data.agentId || `agent-${node.id}`;
+    
+    // Extract input from variables or use a default
+    let input = variables.input || `Execute agent task for ${label}`;
+    
+    // Input configured on the node, usually a template over upstream outputs
+    if (node.data.input !== undefined && node.data.input !== '') {
+      input = typeof node.data.input === 'string' ? node.data.input : JSON.stringify(node.data.input);
+    }
+    
+    // Use node-specific input if available
+    if (variables[`${node.id}_input`]) {
+      input = variables[`${node.id}_input`];
+    }
+    
+    // Execute the agent
+    try {
+      const result = await agentService.executeAgent(
+        agentId,
+        input,
+        {
+          executionId: variables.executionId,
+          agent_name: label,
+          agent_role: role,
+          agent_description: description,
+          agent_tools: tools.map((tool: any) => typeof tool === 'string' ? tool : tool.name),
+          memory_enabled: true,
+          source: 'workflow',
+          user_id: variables.userId || variables.user_id,
+          guild_id: node.data.guildId || variables.guildId || variables.guild_id
+        },
+        {
+          tools: tools.map((tool: any) => typeof tool === 'string' ? tool : tool.name),
+          maxToolSteps: node.data.maxToolSteps,
+          onToolCall: call => this.addExecutionLog(
+            executionId,
+            call.status === 'succeeded' ? 'info' : 'warning',
+            `Agent ${label || agentId} called tool ${call.tool} (step ${call.step}): ${call.status}`,
+            node.id,
+            call
+          )
+        }
+      );
+      
+      return {
+        output: result.output,
+        status: result.status,
+        agentId,
+        citations: result.citations || [],
+        toolCalls: result.tool_calls || [],
+        metadata: {
+          role,
+          chain_of_thought: result.chain_of_thought
+        }
+      };
+    } catch (error: any) {
+      throw new Error(`Agent execution failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Execute an action node
+   */
+  private async executeActionNode(
+    node: WorkflowNode,
+    variables: Record<string, any>,
+    flowId: string
+  ): Promise<any> {
+    const { label, actionType, config = {} } = node.data;
+    
+    // Process different action types
+    switch (actionType) {
+      case 'api':
+        return this.executeApiAction(node, variables);
+        
+      case 'email':
+        return this.executeEmailAction(node, variables);
+        
+      case 'database':
+        return this.executeDatabaseAction(node, variables);
+        
+      case 'webhook':
+        return this.executeWebhookAction(node, variables, flowId);
+        
+      case 'notification':
+        return this.executeNotificationAction(node, variables, flowId);
+        
+      default:
+        throw new Error(`Unsupported action type: ${actionType}`);
+    }
+  }
+
+  /**
+   * Execute a condition node
+   */
+  private async executeConditionNode(
+    node: WorkflowNode,
+    variables: Record<string, any>
+  ): Promise<any> {
+    const { conditionType = 'if', condition, source } = node.data;
+    
+    // Conditions run through the sandboxed expression evaluator, never as JS
+    try {
+      switch (conditionType) {
+        case 'switch': {
+          // The expression's value picks the outgoing edge with the same handle
+          const value = expressionService.evaluate(condition, variables);
+          
+          return {
+            result: value,
+            branch: value === undefined || value === null ? 'default' : String(value),
+            condition,
+            conditionType,
+            variables: { ...variables }  // Clone to avoid reference issues
+          };
+        }
+        
+        case 'filter': {
+          // Keep the items of the source list for which the condition holds
+          const items = expressionService.evaluate(source, variables);
+          
+          if (!Array.isArray(items)) {
+            throw new Error(`Filter source must evaluate to a list, got ${items === null ? 'null' : typeof items}`);
+          }
+          
+          const matched = items.filter((item, index) =>
+            expressionService.evaluateBoolean(condition, { ...variables, item, index })
+          );
+          
+          return {
+            result: matched.length > 0,
+            branch: matched.length > 0 ? 'true' : 'false',
+            items: matched,
+            count: matched.length,
+            total: items.length,
+            condition,
+            conditionType
+          };
+        }
+        
+        case 'gate': {
+          // Gates only let the execution continue when the condition holds
+          const passed = expressionService.evaluateBoolean(condition, variables);
+          
+          return {
+            result: passed,
+            passed,
+            branch: passed ? 'true' : null,
+            condition,
+            conditionType,
+            variables: { ...variables }  // Clone to avoid reference issues
+          };
+        }
+        
+        default: {
+          const result = expressionService.evaluateBoolean(condition, variables);
+          
+          return {
+            result,
+            branch: result ? 'true' : 'false',
+            condition,
+            conditionType,
+            evaluatedCondition: condition,
+            variables: { ...variables }  // Clone to avoid reference issues
+          };
+        }
+      }
+    } catch (error: any) {
+      throw new Error(`Condition evaluation failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Execute a delay node.
+   * Delays never block a worker: the node parks its branch on a durable timer
+   * and returns NODE_PARKED unless there is nothing to wait for.
+   *
+   * - fixed: `duration` is a literal such as "30s", "2h" or "3d"
+   * - dynamic: `duration` is an expression; numbers are milliseconds, strings
+   *   are durations or an ISO timestamp to wait until
+   * - conditional: waits until `condition` holds, re-checking every
+   *   `pollInterval` and giving up after `maxWait` (see `onDeadline`)
+   */
+  private async executeDelayNode(
+    node: WorkflowNode,
+    context: ExecutionContext
+  ): Promise<any> {
+    const { delayType = 'fixed', duration, condition } = node.data;
+    const state = context.nodes[node.id];
+    const now = Date.now();
+    
+    if (delayType === 'conditional') {
+      if (this.evaluateDelayCondition(node, context)) {
+        return this.getDelayOutput(node, context, { conditionMet: true });
+      }
+      
+      const pollIntervalMs = parseDuration(node.data.pollInterval) || DEFAULT_POLL_INTERVAL_MS;
+      const maxWaitMs = parseDuration(node.data.maxWait) ?? DEFAULT_MAX_WAIT_MS;
+      
+      state.deadline = new Date(now + maxWaitMs);
+      state.waitUntil = new Date(Math.min(now + pollIntervalMs, state.deadline.getTime()));
+      
+      this.addExecutionLog(
+        context.id,
+        'debug',
+        `Delay condition not met yet for node ${node.id}, polling every ${pollIntervalMs}ms`,
+        node.id,
+        { condition, deadline: state.deadline }
+      );
+      
+      return NODE_PARKED;
+    }
+    
+    let delayMs: number;
+    
+    if (delayType === 'dynamic') {
+      delayMs = this.resolveDynamicDelay(duration, context.variables, now);
+    } else {
+      // Unparseable durations fall back to one second
+      delayMs = parseDuration(duration) ?? 1000;
+    }
+    
+    if (delayMs <= 0) {
+      return this.getDelayOutput(node, context, { delayMs: 0 });
+    }
+    
+    state.waitUntil = new Date(now + delayMs);
+    
+    return NODE_PARKED;
+  }
+
+  /**
+   * Turn the value of a dynamic delay expression into milliseconds from now
+   */
+  private resolveDynamicDelay(expression: string, variables: Record<string, any>, now: number): number {
+    const value = expressionService.evaluate(expression, variables);
+    
+    const delayMs = parseDuration(value);
+    if (delayMs !== null) {
+      return delayMs;
+    }
+    
+    // Anything else must be a point in time to wait until
+    const until = typeof value === 'string' ? Date.parse(value) : NaN;
+    if (!isNaN(until)) {
+      return until - now;
+    }
+    
+    throw new Error(`Dynamic delay must evaluate to a duration or timestamp, got ${JSON.stringify(value)}`);
+  }
+
+  /**
+   * Evaluate a conditional delay's condition against the current variables
+   */
+  private evaluateDelayCondition(node: WorkflowNode, context: ExecutionContext): boolean {
+    try {
+      return expressionService.evaluateBoolean(node.data.condition, context.variables);
+    } catch (error: any) {
+      throw new Error(`Delay condition evaluation failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Output of a delay node once its wait is over
+   */
+  private getDelayOutput(
+    node: WorkflowNode,
+    context: ExecutionContext,
+    details: Record<string, any> = {}
+  ): any {
+    const state = context.nodes[node.id];
+    const startTime = state.startTime || new Date();
+    
+    return {
+      delayed: true,
+      delayType: (node.data.delayType || 'fixed') as DelayType,
+      duration: node.data.duration,
+      delayMs: Date.now() - startTime.getTime(),
+      waitedUntil: state.waitUntil,
+      timestamp: new Date(),
+      ...details
+    };
+  }
+
+  /**
+   * Schedule the timer that wakes a parked node: the end of a delay, or an approval's timeout
+   */
+  private armWakeTimer(executionId: string, nodeId: string, fireAt: Date): void {
+    timerService.schedule(`wake:${executionId}:${nodeId}`, fireAt, () => {
+      const node = this.executionGraphs[executionId]?.nodes.find(n => n.id === nodeId);
+      
+      return node?.type === 'approval'
+        ? this.expireApprovalNode(executionId, nodeId)
+        : this.resumeDelayNode(executionId, nodeId);
+    });
+  }
+
+  /**
+   * Called when a delay timer fires: finish the wait (or poll again for
+   * conditional delays) and continue the branch after the delay node
+   */
+  private async resumeDelayNode(executionId: string, nodeId: string): Promise<void> {
+    const context = this.executionContexts[executionId];
+    const graph = this.executionGraphs[executionId];
+    if (!context || !graph || context.status === 'failed') return;
+    
+    const node = graph.nodes.find(n => n.id === nodeId);
+    const state = context.nodes[nodeId];
+    if (!node || state?.status !== 'waiting') return;
+    
+    const { nodes, edges } = graph;
+    
+    if (node.data?.delayType !== 'conditional') {
+      await this.runSegment(executionId, nodes, () =>
+        this.completeNode(executionId, node, this.getDelayOutput(node, context), nodes, edges)
+      );
+      return;
+    }
+    
+    let conditionMet = false;
+    let conditionError: any = null;
+    
+    try {
+      conditionMet = this.evaluateDelayCondition(node, context);
+    } catch (error) {
+      conditionError = error;
+    }
+    
+    const now = Date.now();
+    const deadlinePassed = !!state.deadline && now >= state.deadline.getTime();
+    
+    // Not yet: poll again without waking the execution, but never past the deadline
+    if (!conditionMet && !conditionError && !deadlinePassed) {
+      const pollIntervalMs = parseDuration(node.data.pollInterval) || DEFAULT_POLL_INTERVAL_MS;
+      state.waitUntil = new Date(Math.min(now + pollIntervalMs, state.deadline?.getTime() ?? Infinity));
+      
+      this.addExecutionLog(executionId, 'debug', `Delay condition not met yet for node ${node.id}`, node.id, {
+        nextCheck: state.waitUntil
+      });
+      
+      await this.checkpoint(executionId);
+      this.armWakeTimer(executionId, nodeId, state.waitUntil);
+      return;
+    }
+    
+    await this.runSegment(executionId, nodes, async () => {
+      if (conditionError) {
+        await this.failNode(executionId, node, conditionError, nodes, edges);
+      } else if (conditionMet) {
+        await this.completeNode(executionId, node, this.getDelayOutput(node, context, { conditionMet }), nodes, edges);
+      } else if (node.data.onDeadline === 'continue') {
+        this.addExecutionLog(executionId, 'warning', `Delay condition for node ${node.id} not met before deadline, continuing`, node.id);
+        await this.completeNode(executionId, node, this.getDelayOutput(node, context, { conditionMet, timedOut: true }), nodes, edges);
+      } else {
+        const error: any = new Error(`Delay condition for node ${node.id} not met before deadline`);
+        error.code = 'DELAY_DEADLINE_EXCEEDED';
+        await this.failNode(executionId, node, error, nodes, edges);
+      }
+    });
+  }
+
+  /**
+   * Execute an approval node: request a decision through the configured channel
+   * and park the branch. With a `timeout`, the `defaultOutcome` applies once it passes.
+   */
+  private async executeApprovalNode(
+    node: WorkflowNode,
+    context: ExecutionContext
+  ): Promise<any> {
+    const {
+      title,
+      message,
+      approvers = [],
+      channel,
+      channelTarget,
+      payload,
+      timeout,
+      defaultOutcome
+    } = node.data;
+    const state = context.nodes[node.id];
+    
+    let timeoutMs: number | null = null;
+    
+    if (timeout) {
+      timeoutMs = parseDuration(timeout);
+      if (timeoutMs === null || timeoutMs <= 0) {
+        throw new Error(`Invalid approval timeout: ${timeout}`);
+      }
+    }
+    
+    let reviewPayload: any = null;
+    
+    if (payload) {
+      try {
+        reviewPayload = expressionService.evaluate(payload, context.variables);
+      } catch (error: any) {
+        throw new Error(`Approval payload evaluation failed: ${error.message}`);
+      }
+    }
+    
+    const approval = await approvalService.requestApproval({
+      executionId: context.id,
+      flowId: context.flowId,
+      nodeId: node.id,
+      title: title ? this.replaceVariables(title, context.variables) : node.data.label,
+      message: message ? this.replaceVariables(message, context.variables) : undefined,
+      approvers: Array.isArray(approvers) ? approvers : [approvers],
+      channel,
+      channelTarget: channelTarget ? this.replaceVariables(channelTarget, context.variables) : undefined,
+      payload: reviewPayload,
+      expiresAt: timeoutMs !== null ? new Date(Date.now() + timeoutMs).toISOString() : undefined,
+      defaultOutcome
+    });
+    
+    state.approvalId = approval.id;
+    
+    if (approval.expiresAt) {
+      state.waitUntil = new Date(approval.expiresAt);
+    }
+    
+    this.addExecutionLog(
+      context.id,
+      'info',
+      `Approval requested via ${approval.channel} for node ${node.id}`,
+      node.id,
+      { approvalId: approval.id, approvers: approval.approvers, expiresAt: approval.expiresAt }
+    );
+    
+    return NODE_PARKED;
+  }
+
+  /**
+   * Called when an approval timer fires: settle the request with its default outcome.
+   * The resulting change continues the branch through `resumeApprovalNode`.
+   */
+  private async expireApprovalNode(executionId: string, nodeId: string): Promise<void> {
+    const state = this.executionContexts[executionId]?.nodes[nodeId];
+    if (state?.status !== 'waiting' || !state.approvalId) return;
+    
+    await approvalService.expire(state.approvalId);
+  }
+
+  /**
+   * Continue the branch after a decided approval down its `approved` or `rejected` edge
+   */
+  private async resumeApprovalNode(approval: ApprovalRequest): Promise<void> {
+    const { executionId, nodeId } = approval;
+    const context = this.executionContexts[executionId];
+    const graph = this.executionGraphs[executionId];
+    
+    if (!context || !graph || context.status === 'failed') {
+      console.warn(`⚠️ Approval ${approval.id} decided, but execution ${executionId} is not waiting for it`);
+      return;
+    }
+    
+    const node = graph.nodes.find(n => n.id === nodeId);
+    const state = context.nodes[nodeId];
+    if (!node || state?.status !== 'waiting' || state.approvalId !== approval.id) return;
+    
+    timerService.cancel(`wake:${executionId}:${nodeId}`);
+    
+    const timedOut = approval.status === 'expired';
+    const decision = approval.outcome!;
+    
+    if (timedOut) {
+      this.addExecutionLog(executionId, 'warning', `Approval for node ${nodeId} timed out, continuing as ${decision}`, nodeId);
+    }
+    
+    const output = {
+      approvalId: approval.id,
+      decision,
+      approved: decision === 'approved',
+      timedOut,
+      decidedBy: approval.decidedBy,
+      comment: approval.comment,
+      decidedAt: approval.decidedAt,
+      payload: approval.payload,
+      edited: approval.edits.length > 0,
+      timestamp: new Date()
+    };
+    
+    const { nodes, edges } = graph;
+    
+    await this.runSegment(executionId, nodes, () =>
+      this.completeNode(executionId, node, output, nodes, edges)
+    );
+  }
+
+  /**
+   * Execute a subflow node: load the stored workflow and map the node's inputs.
+   * The nested execution is started by `startSubflowExecution` once the node is parked.
+   */
+  private async executeSubflowNode(
+    node: WorkflowNode,
+    context: ExecutionContext
+  ): Promise<any> {
+    const { workflowId, inputMapping } = node.data;
+    
+    if (!workflowId) {
+      throw new Error(`Subflow node ${node.id} has no workflowId`);
+    }
+    
+    this.checkNestingDepth(node, context);
+    
+    const key = `${context.id}:${node.id}`;
+    this.nestedGraphs[key] = await this.loadWorkflowGraph(workflowId);
+    this.subflowInputs[key] = this.evaluateMapping(inputMapping, context.variables, 'Subflow input mapping');
+    
+    return NODE_PARKED;
+  }
+
+  /**
+   * Start the nested execution of a parked subflow node
+   */
+  private async startSubflowExecution(executionId: string, node: WorkflowNode): Promise<void> {
+    const context = this.executionContexts[executionId];
+    const state = context.nodes[node.id];
+    const key = `${executionId}:${node.id}`;
+    const graph = this.nestedGraphs[key];
+    const inputs = this.subflowInputs[key] || {};
+    
+    delete this.nestedGraphs[key];
+    delete this.subflowInputs[key];
+    if (!graph) return;
+    
+    const { executionId: subExecutionId } = await this.executeWorkflow(
+      graph.flowId,
+      graph.nodes,
+      graph.edges,
+      { ...inputs, triggerType: 'subflow', triggerSource: executionId },
+      {
+        maxConcurrency: context.maxConcurrency,
+        parent: { executionId, nodeId: node.id, depth: (context.depth || 0) + 1 }
+      }
+    );
+    
+    state.subExecutionIds = [subExecutionId];
+    
+    this.addExecutionLog(executionId, 'info', `Started sub-workflow ${graph.flowId} for node ${node.id}`, node.id, {
+      subExecutionId,
+      inputs: Object.keys(inputs)
+    });
+    
+    await this.checkpoint(executionId);
+  }
+
+  /**
+   * Execute a loop node: evaluate the `items` list and park the node. Iterations
+   * run the loop body (the sub-graph behind its `body` handle, or the stored
+   * workflow `workflowId`) as nested executions, one at a time or up to
+   * `concurrency` at once, and the node completes with the collected results.
+   */
+  private async executeLoopNode(
+    node: WorkflowNode,
+    context: ExecutionContext
+  ): Promise<any> {
+    const { items: itemsExpression, workflowId } = node.data;
+    const state = context.nodes[node.id];
+    
+    this.checkNestingDepth(node, context);
+    
+    let items: any;
+    
+    try {
+      items = expressionService.evaluate(itemsExpression, context.variables);
+    } catch (error: any) {
+      throw new Error(`Loop items evaluation failed: ${error.message}`);
+    }
+    
+    if (!Array.isArray(items)) {
+      throw new Error(`Loop items must evaluate to a list, got ${items === null ? 'null' : typeof items}`);
+    }
+    
+    if (items.length > WORKFLOW_MAX_LOOP_ITEMS) {
+      throw new Error(`Loop over ${items.length} items exceeds the limit of ${WORKFLOW_MAX_LOOP_ITEMS}`);
+    }
+    
+    const body = workflowId
+      ? await this.loadWorkflowGraph(workflowId)
+      : this.getLoopBody(node, context);
+    
+    if (body.nodes.length === 0) {
+      throw new Error(`Loop node ${node.id} has no body: connect its "body" handle or set workflowId`);
+    }
+    
+    state.items = items;
+    state.iterations = items.map((_, index) => ({ index, status: 'pending' as const }));
+    state.subExecutionIds = [];
+    
+    if (items.length === 0) {
+      return this.getLoopOutput(state);
+    }
+    
+    this.nestedGraphs[`${context.id}:${node.id}`] = body;
+    
+    this.addExecutionLog(
+      context.id,
+      'info',
+      `Loop ${node.id} iterating over ${items.length} items`,
+      node.id,
+      { mode: this.getLoopMode(node), concurrency: this.getLoopConcurrency(node, context), body: body.flowId }
+    );
+    
+    return NODE_PARKED;
+  }
+
+  /**
+   * Start pending loop iterations until the node's concurrency limit is reached
+   */
+  private async fillLoopSlots(executionId: string, node: WorkflowNode): Promise<void> {
+    const context = this.executionContexts[executionId];
+    const state = context?.nodes[node.id];
+    if (!state || state.status !== 'waiting' || !state.iterations) return;
+    
+    const body = await this.resolveLoopBody(node, context);
+    const limit = this.getLoopConcurrency(node, context);
+    const { itemVariable = 'item', indexVariable = 'index' } = node.data;
+    
+    for (const iteration of state.iterations) {
+      const running = state.iterations.filter(candidate => candidate.status === 'running').length;
+      if (running >= limit || state.status !== 'waiting') break;
+      if (iteration.status !== 'pending') continue;
+      
+      iteration.status = 'running';
+      
+      const item = state.items?.[iteration.index];
+      const { executionId: subExecutionId } = await this.executeWorkflow(
+        body.flowId,
+        body.nodes,
+        body.edges,
+        {
+          ...context.variables,
+          [itemVariable]: item,
+          [indexVariable]: iteration.index,
+          loop: { nodeId: node.id, index: iteration.index, count: state.iterations.length },
+          triggerType: 'loop',
+          triggerSource: executionId
+        },
+        {
+          maxConcurrency: context.maxConcurrency,
+          parent: { executionId, nodeId: node.id, depth: (context.depth || 0) + 1, iteration: iteration.index }
+        }
+      );
+      
+      iteration.executionId = subExecutionId;
+      state.subExecutionIds = [...(state.subExecutionIds || []), subExecutionId];
+      
+      this.addExecutionLog(executionId, 'debug', `Loop ${node.id} started iteration ${iteration.index}`, node.id, {
+        subExecutionId
+      });
+    }
+    
+    await this.checkpoint(executionId);
+  }
+
+  /**
+   * Called when any execution finishes: if it was started by a subflow or loop
+   * node, record its result and continue the parent execution
+   */
+  private async handleNestedExecutionFinished(
+    child: ExecutionContext,
+    childGraph: { nodes: WorkflowNode[]; edges: WorkflowEdge[] } | undefined = this.executionGraphs[child.id]
+  ): Promise<void> {
+    const { parentExecutionId, parentNodeId } = child;
+    if (!parentExecutionId || !parentNodeId) return;
+    
+    const context = this.executionContexts[parentExecutionId];
+    const graph = this.executionGraphs[parentExecutionId];
+    if (!context || !graph || context.status === 'failed') return;
+    
+    const node = graph.nodes.find(n => n.id === parentNodeId);
+    const state = context.nodes[parentNodeId];
+    if (!node || state?.status !== 'waiting') return;
+    
+    const { nodes, edges } = graph;
+    const outputs = this.getNestedOutputs(child, childGraph);
+    
+    if (node.type === 'subflow') {
+      if (state.subExecutionIds && !state.subExecutionIds.includes(child.id)) return;
+      
+      await this.runSegment(parentExecutionId, nodes, async () => {
+        if (child.status !== 'completed') {
+          await this.failNode(parentExecutionId, node, this.nestedExecutionError(child, `Sub-workflow ${child.flowId}`), nodes, edges);
+          return;
+        }
+        
+        let mapped: any;
+        
+        try {
+          mapped = node.data.outputMapping
+            ? this.evaluateMapping(node.data.outputMapping, { ...child.variables, outputs }, 'Subflow output mapping')
+            : outputs;
+        } catch (error) {
+          await this.failNode(parentExecutionId, node, error, nodes, edges);
+          return;
+        }
+        
+        await this.completeNode(parentExecutionId, node, {
+          subExecutionId: child.id,
+          workflowId: child.flowId,
+          status: child.status,
+          outputs: mapped,
+          timestamp: new Date()
+        }, nodes, edges);
+      });
+      return;
+    }
+    
+    const iteration = child.iteration !== undefined ? state.iterations?.[child.iteration] : undefined;
+    if (!iteration || iteration.status !== 'running') return;
+    
+    iteration.executionId = child.id;
+    
+    if (child.status === 'completed') {
+      try {
+        iteration.output = node.data.resultExpression
+          ? expressionService.evaluate(node.data.resultExpression, { ...child.variables, outputs })
+          : outputs;
+        iteration.status = 'completed';
+      } catch (error: any) {
+        iteration.status = 'failed';
+        iteration.error = `Loop result evaluation failed: ${error.message}`;
+      }
+    } else {
+      iteration.status = 'failed';
+      iteration.error = this.nestedExecutionError(child, `Iteration ${iteration.index}`).message;
+    }
+    
+    this.addExecutionLog(
+      parentExecutionId,
+      iteration.status === 'failed' ? 'warning' : 'debug',
+      `Loop ${node.id} iteration ${iteration.index} ${iteration.status}`,
       node.id,
-      { nodeType: node.type, nodeData: node.data }
+      { subExecutionId: child.id, error: iteration.error }
     );
     
-    try {
-      // Execute based on node type
-      let output;
-      
-      switch (node.type) {
-        case 'trigger':
-          // Trigger nodes just pass through their data
-          output = {
-            triggered: true,
-            timestamp: new Date(),
-            data: node.data
-          };
-          break;
-          
-        case 'agent':
-          // Execute an agent node
-          output = await this.executeAgentNode(node, context.variables);
-          break;
-          
-        case 'action':
-          // Execute an action node
-          output = await this.executeActionNode(node, context.variables);
-          break;
-          
-        case 'condition':
-          // Execute a condition node
-          output = await this.executeConditionNode(node, context.variables);
-          break;
-          
-        case 'delay':
-          // Execute a delay node
-          output = await this.executeDelayNode(node, context.variables);
-          break;
-          
-        default:
-          throw new Error(`Unsupported node type: ${node.type}`);
-      }
+    if (iteration.status === 'failed' && !node.data.continueOnError) {
+      delete this.nestedGraphs[`${parentExecutionId}:${node.id}`];
       
-      // Update node state with output
-      context.nodes[node.id].status = 'completed';
-      context.nodes[node.id].endTime = new Date();
-      context.nodes[node.id].output = output;
-      
-      // Log node execution completion
-      this.addExecutionLog(
-        executionId,
-        'info',
-        `Node executed successfully: ${node.id}`,
-        node.id,
-        { output }
+      await this.runSegment(parentExecutionId, nodes, () =>
+        this.failNode(parentExecutionId, node, new Error(`Loop ${node.id} failed: ${iteration.error}`), nodes, edges)
       );
+      return;
+    }
+    
+    const iterations = state.iterations!;
+    
+    if (iterations.some(candidate => candidate.status === 'pending' || candidate.status === 'running')) {
+      await this.fillLoopSlots(parentExecutionId, node);
+      return;
+    }
+    
+    delete this.nestedGraphs[`${parentExecutionId}:${node.id}`];
+    
+    await this.runSegment(parentExecutionId, nodes, () =>
+      this.completeNode(parentExecutionId, node, this.getLoopOutput(state), nodes, edges)
+    );
+  }
+
+  /**
+   * After a restart, apply the results of nested executions that finished
+   * while their parent wasn't listening and start any loop iterations left
+   */
+  private async reconcileNestedExecutions(context: ExecutionContext): Promise<void> {
+    const graph = this.executionGraphs[context.id];
+    if (!graph) return;
+    
+    for (const node of graph.nodes.filter(candidate => this.isNestingNode(candidate))) {
+      const state = context.nodes[node.id];
       
-      // Find outgoing edges from this node
-      let nextEdges: WorkflowEdge[] = edges.filter(edge => edge.source === node.id);
-      
-      // For condition nodes, filter edges based on evaluation result
-      if (node.type === 'condition') {
-        const sourceHandle = output.result ? 'true' : 'false';
-        nextEdges = nextEdges.filter(edge => 
-          !edge.sourceHandle || edge.sourceHandle === sourceHandle
-        );
-      }
-      
-      // Execute next nodes
-      for (const edge of nextEdges) {
-        const nextNode = nodes.find(n => n.id === edge.target);
-        if (nextNode) {
-          // Pass output to next node's variables
-          context.variables[`${node.id}_output`] = output;
+      for (const subExecutionId of state?.subExecutionIds || []) {
+        if (state.status !== 'waiting') break;
+        
+        try {
+          const record = await this.store.load(subExecutionId);
           
-          // Execute the next node
-          await this.executeNode(executionId, nextNode, nodes, edges);
+          if (record && (record.context.status === 'completed' || record.context.status === 'failed')) {
+            await this.handleNestedExecutionFinished(record.context, record);
+          }
+        } catch (error) {
+          console.error(`❌ Failed to check nested execution ${subExecutionId}:`, error);
         }
       }
       
-      return output;
-    } catch (error: any) {
-      // Update node state with error
-      context.nodes[node.id].status = 'failed';
-      context.nodes[node.id].endTime = new Date();
-      context.nodes[node.id].error = error.message;
+      if (this.isLoopNode(node) && state?.status === 'waiting') {
+        await this.fillLoopSlots(context.id, node);
+      }
+    }
+  }
+
+  /**
+   * The sub-graph reachable from a loop node's `body` handle
+   */
+  private getLoopBody(node: WorkflowNode, context: ExecutionContext): WorkflowGraph {
+    const { nodes, edges } = this.executionGraphs[context.id];
+    const bodyIds = new Set<string>();
+    const queue = edges
+      .filter(edge => edge.source === node.id && edge.sourceHandle === 'body')
+      .map(edge => edge.target);
+    
+    while (queue.length > 0) {
+      const nodeId = queue.shift()!;
       
-      // Log node execution failure
-      this.addExecutionLog(
-        executionId,
-        'error',
-        `Node execution failed: ${node.id} - ${error.message}`,
-        node.id,
-        { error: error.message, stack: error.stack }
-      );
+      // Edges back into the loop node close the body rather than extend it
+      if (nodeId === node.id || bodyIds.has(nodeId)) continue;
       
-      throw error;
+      bodyIds.add(nodeId);
+      edges.filter(edge => edge.source === nodeId).forEach(edge => queue.push(edge.target));
     }
+    
+    return {
+      flowId: `${context.flowId}:${node.id}`,
+      nodes: nodes.filter(n => bodyIds.has(n.id)),
+      edges: edges.filter(edge => bodyIds.has(edge.source) && bodyIds.has(edge.target))
+    };
   }
 
   /**
-   * Execute an agent node
+   * The loop body for a parked loop node, resolved again after a restart
    */
-  private async executeAgentNode(
-    node: WorkflowNode,
-    variables: Record<string, any>
-  ): Promise<any> {
-    const { label, role, description, tools = [], status } = node.data;
+  private async resolveLoopBody(node: WorkflowNode, context: ExecutionContext): Promise<WorkflowGraph> {
+    const key = `${context.id}:${node.id}`;
     
-    // Skip if the agent is not in a ready state
-    if (status !== 'ready' && status !== 'completed') {
-      throw new Error(`Agent not ready: ${node.id}`);
+    if (!this.nestedGraphs[key]) {
+      this.nestedGraphs[key] = node.data.workflowId
+        ? await this.loadWorkflowGraph(node.data.workflowId)
+        : this.getLoopBody(node, context);
     }
     
-    // Get agent ID from data or generate one
-    const agentId = node.data.agentId || `agent-${node.id}`;
-    
-    // Extract input from variables or use a default
-    let input = variables.input || `Execute agent task for ${label}`;
+    return this.nestedGraphs[key];
+  }
+
+  private isLoopNode(node: WorkflowNode): boolean {
+    return node.type === 'loop' || node.type === 'forEach';
+  }
+
+  private isNestingNode(node: WorkflowNode): boolean {
+    return node.type === 'subflow' || this.isLoopNode(node);
+  }
+
+  private getLoopMode(node: WorkflowNode): LoopMode {
+    return node.data?.mode === 'parallel' ? 'parallel' : 'sequential';
+  }
+
+  /**
+   * Sequential loops run one iteration at a time; parallel loops up to `concurrency`
+   */
+  private getLoopConcurrency(node: WorkflowNode, context: ExecutionContext): number {
+    if (this.getLoopMode(node) === 'sequential') return 1;
     
-    // Use node-specific input if available
-    if (variables[`${node.id}_input`]) {
-      input = variables[`${node.id}_input`];
-    }
+    return Math.max(1, parseInt(String(node.data.concurrency)) || context.maxConcurrency || WORKFLOW_MAX_CONCURRENCY);
+  }
+
+  /**
+   * Output of a finished loop: results in item order, with failures when `continueOnError` is set
+   */
+  private getLoopOutput(state: NodeExecutionState): any {
+    const iterations = state.iterations || [];
+    const failed = iterations.filter(iteration => iteration.status === 'failed');
     
-    // Execute the agent
-    try {
-      const result = await agentService.executeAgent(
-        agentId,
-        input,
-        {
-          executionId: variables.executionId,
-          agent_name: label,
-          agent_role: role,
-          agent_description: description,
-          agent_tools: tools,
-          memory_enabled: true,
-          user_id: variables.userId || variables.user_id
-        }
-      );
-      
-      return {
-        output: result.output,
-        status: result.status,
-        agentId,
-        metadata: {
-          role,
-          chain_of_thought: result.chain_of_thought
-        }
-      };
-    } catch (error: any) {
-      throw new Error(`Agent execution failed: ${error.message}`);
-    }
+    return {
+      results: iterations.map(iteration => iteration.status === 'completed' ? iteration.output : null),
+      count: iterations.length,
+      succeeded: iterations.length - failed.length,
+      failed: failed.length,
+      errors: failed.map(iteration => ({
+        index: iteration.index,
+        error: iteration.error,
+        subExecutionId: iteration.executionId
+      })),
+      subExecutionIds: state.subExecutionIds || [],
+      timestamp: new Date()
+    };
   }
 
   /**
-   * Execute an action node
+   * Outputs of a nested execution's final nodes (those without outgoing edges), keyed by node ID
    */
-  private async executeActionNode(
-    node: WorkflowNode,
-    variables: Record<string, any>
-  ): Promise<any> {
-    const { label, actionType, config = {} } = node.data;
+  private getNestedOutputs(
+    child: ExecutionContext,
+    graph?: { nodes: WorkflowNode[]; edges: WorkflowEdge[] }
+  ): Record<string, any> {
+    const outputs: Record<string, any> = {};
     
-    // Process different action types
-    switch (actionType) {
-      case 'api':
-        return this.executeApiAction(node, variables);
-        
-      case 'email':
-        return this.executeEmailAction(node, variables);
-        
-      case 'database':
-        return this.executeDatabaseAction(node, variables);
-        
-      case 'webhook':
-        return this.executeWebhookAction(node, variables);
-        
-      case 'notification':
-        return this.executeNotificationAction(node, variables);
-        
-      default:
-        throw new Error(`Unsupported action type: ${actionType}`);
+    Object.values(child.nodes)
+      .filter(state => state.status === 'completed')
+      .filter(state => !graph || !graph.edges.some(edge => edge.source === state.id && edge.sourceHandle !== 'error'))
+      .forEach(state => {
+        outputs[state.id] = state.output;
+      });
+    
+    return outputs;
+  }
+
+  /**
+   * Error describing why a nested execution failed: the error of the node that
+   * failed it, or its last error log
+   */
+  private nestedExecutionError(child: ExecutionContext, label: string): Error {
+    const failedNode = Object.values(child.nodes).find(state => state.status === 'failed' && !state.errorHandled);
+    const lastError = [...child.logs].reverse().find(log => log.level === 'error');
+    const error: any = new Error(`${label} failed: ${failedNode?.error || lastError?.message || 'unknown error'}`);
+    error.code = 'NESTED_EXECUTION_FAILED';
+    error.subExecutionId = child.id;
+    return error;
+  }
+
+  /**
+   * Refuse to start nested executions past the nesting limit (guards against recursive subflows)
+   */
+  private checkNestingDepth(node: WorkflowNode, context: ExecutionContext): void {
+    if ((context.depth || 0) + 1 > WORKFLOW_MAX_NESTING_DEPTH) {
+      throw new Error(`Node ${node.id} exceeds the maximum nesting depth of ${WORKFLOW_MAX_NESTING_DEPTH}`);
     }
   }
 
   /**
-   * Execute a condition node
+   * Evaluate a `{ key: expression }` mapping against a scope
    */
-  private async executeConditionNode(
-    node: WorkflowNode,
-    variables: Record<string, any>
-  ): Promise<any> {
-    const { label, conditionType, condition } = node.data;
+  private evaluateMapping(
+    mapping: Record<string, string> | undefined,
+    scope: Record<string, any>,
+    label: string
+  ): Record<string, any> {
+    const result: Record<string, any> = {};
     
-    // Simple condition evaluation
-    try {
-      // Prepare a function to evaluate the condition in the context of variables
-      const evaluateCondition = new Function(
-        ...Object.keys(variables),
-        `return ${condition};`
-      );
-      
-      // Evaluate the condition
-      const result = evaluateCondition(...Object.values(variables));
-      
-      return {
-        result: !!result,
-        condition,
-        evaluatedCondition: condition,
-        variables: { ...variables }  // Clone to avoid reference issues
-      };
-    } catch (error: any) {
-      throw new Error(`Condition evaluation failed: ${error.message}`);
+    for (const [key, expression] of Object.entries(mapping || {})) {
+      try {
+        result[key] = expressionService.evaluate(expression, scope);
+      } catch (error: any) {
+        throw new Error(`${label} for "${key}" failed: ${error.message}`);
+      }
     }
+    
+    return result;
   }
 
   /**
-   * Execute a delay node
+   * Load a stored workflow's graph from Supabase, falling back to the
+   * graphs of workflows run by this process
    */
-  private async executeDelayNode(
-    node: WorkflowNode,
-    variables: Record<string, any>
-  ): Promise<any> {
-    const { label, delayType, duration } = node.data;
-    
-    // Parse duration (e.g., "5s", "2m", "1h")
-    let delayMs = 1000; // Default to 1 second
-    
-    if (duration) {
-      const match = duration.match(/^(\d+)([smh])$/);
-      if (match) {
-        const value = parseInt(match[1]);
-        const unit = match[2];
-        
-        switch (unit) {
-          case 's':
-            delayMs = value * 1000;
-            break;
-          case 'm':
-            delayMs = value * 60 * 1000;
-            break;
-          case 'h':
-            delayMs = value * 60 * 60 * 1000;
-            break;
-        }
+  private async loadWorkflowGraph(flowId: string): Promise<WorkflowGraph> {
+    if (supabase) {
+      const { data, error } = await supabase
+        .from('workflows')
+        .select('nodes, edges')
+        .eq('id', flowId)
+        .maybeSingle();
+      
+      if (error && !this.workflowGraphs[flowId]) {
+        throw new Error(`Failed to load workflow ${flowId}: ${error.message}`);
+      }
+      
+      if (data && Array.isArray(data.nodes) && data.nodes.length > 0) {
+        return { flowId, nodes: data.nodes as WorkflowNode[], edges: (data.edges || []) as WorkflowEdge[] };
       }
     }
     
-    // In a production workflow engine, we would use a more sophisticated
-    // delay mechanism that doesn't block the thread. For this prototype,
-    // we'll use a simple setTimeout.
-    await new Promise(resolve => setTimeout(resolve, Math.min(delayMs, 5000)));
+    if (this.workflowGraphs[flowId]) {
+      return this.workflowGraphs[flowId];
+    }
     
-    return {
-      delayed: true,
-      duration,
-      delayMs,
-      timestamp: new Date()
-    };
+    throw new Error(`Workflow ${flowId} not found or has no nodes`);
   }
 
   /**
@@ -515,7 +2188,10 @@ class WorkflowService {
         }
       };
     } catch (error: any) {
-      throw new Error(`API request failed: ${error.message}`);
+      const requestError: any = new Error(`API request failed: ${error.message}`);
+      // Keep the HTTP status so the retry policy can tell transient failures apart
+      requestError.status = error.response?.status;
+      throw requestError;
     }
   }
 
@@ -594,85 +2270,268 @@ class WorkflowService {
   }
 
   /**
-   * Execute a webhook action
+   * Execute a webhook action through the outbound delivery queue. The node
+   * waits for the first attempt only; if it fails with a retryable error the
+   * queue keeps retrying in the background and the node reports it as queued.
    */
   private async executeWebhookAction(
     node: WorkflowNode,
-    variables: Record<string, any>
+    variables: Record<string, any>,
+    flowId: string
   ): Promise<any> {
     const { config = {} } = node.data;
     
     // Extract webhook configuration
     const url = this.replaceVariables(config.url || '', variables);
     const method = config.method || 'POST';
-    const headers = config.headers || {};
-    const payload = config.payload || {};
     
-    // In a production environment, we'd make the actual webhook call
-    // For now, simulate it for safety
-    console.log(`🌐 Simulating webhook call:
-      URL: ${url}
-      Method: ${method}
-      Payload: ${JSON.stringify(payload).substring(0, 100)}...`);
-    
-    // Simulate a delay for webhook call
-    await new Promise(resolve => setTimeout(resolve, 500));
+    if (!url) {
+      throw new Error('Webhook action requires a url');
+    }
     
-    return {
-      sent: true,
+    const delivery = await deliveryService.enqueue({
       url,
       method,
-      timestamp: new Date(),
-      simulated: true
-    };
+      headers: config.headers || {},
+      payload: config.payload || {},
+      kind: 'webhook',
+      // A re-run of this node (retry or resume) must not deliver twice
+      idempotencyKey: config.idempotencyKey || `${variables.executionId}:${node.id}`,
+      signingSecret: config.signingSecret,
+      maxAttempts: config.maxAttempts,
+      executionId: variables.executionId,
+      flowId,
+      nodeId: node.id
+    });
+    
+    return this.deliveryOutput(delivery, { url, method });
   }
 
   /**
-   * Execute a notification action
+   * Execute a notification action. Slack, Teams and Discord notifications are
+   * posted to the incoming webhook URL in `webhookUrl`, in the message format
+   * each service expects; without one the notification is only logged.
    */
   private async executeNotificationAction(
     node: WorkflowNode,
-    variables: Record<string, any>
+    variables: Record<string, any>,
+    flowId: string
   ): Promise<any> {
     const { config = {} } = node.data;
     
     // Extract notification configuration
-    const service = config.service || 'generic';
+    const service = (config.service || 'generic').toLowerCase();
     const channel = this.replaceVariables(config.channel || '', variables);
     const message = this.replaceVariables(config.message || '', variables);
+    const url = this.replaceVariables(config.webhookUrl || config.url || '', variables);
+    
+    if (!url) {
+      console.log(`💬 No webhook URL for ${service} notification to ${channel || 'default channel'}: ${message.substring(0, 100)}...`);
+      return {
+        sent: false,
+        service,
+        channel,
+        timestamp: new Date(),
+        simulated: true
+      };
+    }
     
-    // Simulate different notification services
-    switch (service.toLowerCase()) {
+    let payload: Record<string, any>;
+    switch (service) {
       case 'slack':
-        console.log(`💬 Simulating Slack notification to ${channel}: ${message.substring(0, 100)}...`);
+        payload = channel ? { text: message, channel } : { text: message };
         break;
       case 'teams':
-        console.log(`💬 Simulating MS Teams notification to ${channel}: ${message.substring(0, 100)}...`);
+        payload = { text: message };
         break;
       case 'discord':
-        console.log(`💬 Simulating Discord notification to ${channel}: ${message.substring(0, 100)}...`);
+        payload = { content: message };
         break;
       default:
-        console.log(`💬 Simulating generic notification: ${message.substring(0, 100)}...`);
+        payload = { channel, message };
     }
     
-    // Simulate a delay for notification
-    await new Promise(resolve => setTimeout(resolve, 300));
+    const delivery = await deliveryService.enqueue({
+      url,
+      payload,
+      kind: 'notification',
+      idempotencyKey: config.idempotencyKey || `${variables.executionId}:${node.id}`,
+      signingSecret: config.signingSecret,
+      maxAttempts: config.maxAttempts,
+      executionId: variables.executionId,
+      flowId,
+      nodeId: node.id
+    });
     
     return {
-      sent: true,
+      ...this.deliveryOutput(delivery, { url, method: 'POST' }),
       service,
-      channel,
-      timestamp: new Date(),
-      simulated: true
+      channel
+    };
+  }
+
+  /**
+   * Node output for a queued delivery; throws if it failed for good
+   */
+  private deliveryOutput(delivery: OutboundDelivery, request: { url: string; method: string }): Record<string, any> {
+    if (delivery.status === 'failed') {
+      const error: any = new Error(`Delivery to ${delivery.destination} failed: ${delivery.lastError}`);
+      error.status = delivery.lastStatusCode;
+      throw error;
+    }
+    
+    const lastAttempt = delivery.attempts[delivery.attempts.length - 1];
+    let response: any = lastAttempt?.responseBody;
+    try {
+      response = response ? JSON.parse(response) : response;
+    } catch {
+      // Not JSON; keep the text
+    }
+    
+    return {
+      sent: delivery.status === 'delivered',
+      queued: delivery.status === 'pending',
+      deliveryId: delivery.id,
+      idempotencyKey: delivery.idempotencyKey,
+      status: delivery.lastStatusCode,
+      attempts: delivery.attempts.length,
+      response: delivery.status === 'delivered' ? response : undefined,
+      url: request.url,
+      method: request.method,
+      timestamp: new Date()
+    };
+  }
+
+  /**
+   * Validate the expressions in a workflow's condition, delay, approval, subflow
+   * and loop nodes, and the templates in agent and action configs, at design time
+   */
+  public validateWorkflow(nodes: WorkflowNode[]): Array<ExpressionIssue & { nodeId: string; field: string }> {
+    const issues: Array<ExpressionIssue & { nodeId: string; field: string }> = [];
+    
+    nodes.forEach(node => {
+      Object.entries(this.getExpressions(node)).forEach(([field, expression]) => {
+        // Condition expressions may embed templates; check those on their own
+        const { expression: source, templates } = node.type === 'condition'
+          ? templateService.extractFromExpression(expression)
+          : { expression, templates: {} };
+        
+        const result = expressionService.validate(source);
+        result.errors.forEach(error => issues.push({ nodeId: node.id, field, ...error }));
+        
+        Object.values(templates).forEach(template => {
+          templateService.validate(`{{${template}}}`).forEach(error => issues.push({ nodeId: node.id, field, ...error }));
+        });
+      });
+      
+      if (node.type === 'agent' || node.type === 'action') {
+        Object.entries(templateService.collectTemplates(node.data)).forEach(([field, text]) => {
+          templateService.validate(text).forEach(error => issues.push({ nodeId: node.id, field, ...error }));
+        });
+      }
+    });
+    
+    return issues;
+  }
+
+  /**
+   * Expressions in a node's data, keyed by field (`inputMapping.total` for mapping entries)
+   */
+  private getExpressions(node: WorkflowNode): Record<string, string> {
+    const data = node.data || {};
+    const mappings = (...fields: string[]) => {
+      const expressions: Record<string, string> = {};
+      fields.forEach(field => {
+        Object.entries(data[field] || {}).forEach(([key, expression]) => {
+          expressions[`${field}.${key}`] = expression as string;
+        });
+      });
+      return expressions;
     };
+    
+    if (node.type === 'condition') {
+      return data.conditionType === 'filter'
+        ? { condition: data.condition, source: data.source }
+        : { condition: data.condition };
+    }
+    
+    if (node.type === 'approval') {
+      return data.payload ? { payload: data.payload } : {};
+    }
+    
+    if (node.type === 'delay') {
+      switch (data.delayType) {
+        case 'dynamic':
+          return { duration: data.duration };
+        case 'conditional':
+          return { condition: data.condition };
+      }
+    }
+    
+    if (node.type === 'subflow') {
+      return mappings('inputMapping', 'outputMapping');
+    }
+    
+    if (this.isLoopNode(node)) {
+      return data.resultExpression
+        ? { items: data.items, resultExpression: data.resultExpression }
+        : { items: data.items };
+    }
+    
+    return {};
+  }
+
+  /**
+   * Get execution status, falling back to the execution store after a restart
+   */
+  public async getExecutionStatus(executionId: string): Promise<ExecutionContext | null> {
+    if (this.executionContexts[executionId]) {
+      return this.executionContexts[executionId];
+    }
+    
+    try {
+      const record = await this.store.load(executionId);
+      return record ? record.context : null;
+    } catch (error) {
+      console.error(`❌ Failed to load execution ${executionId} from store:`, error);
+      return null;
+    }
   }
 
   /**
-   * Get execution status
+   * Persist the current state of an execution.
+   * Saves for the same execution are chained so checkpoints land in order.
    */
-  public getExecutionStatus(executionId: string): ExecutionContext | null {
-    return this.executionContexts[executionId] || null;
+  private checkpoint(executionId: string): Promise<void> {
+    const context = this.executionContexts[executionId];
+    const graph = this.executionGraphs[executionId];
+    if (!context || !graph) return Promise.resolve();
+    
+    const previous = this.checkpointQueue[executionId] || Promise.resolve();
+    const next = previous.then(async () => {
+      try {
+        await this.store.save({
+          context,
+          nodes: graph.nodes,
+          edges: graph.edges,
+          updatedAt: new Date().toISOString()
+        });
+      } catch (error) {
+        // Persistence problems shouldn't fail the run itself
+        console.error(`❌ Failed to checkpoint execution ${executionId}:`, error);
+      }
+    });
+    
+    this.checkpointQueue[executionId] = next;
+    
+    // Drop the queue entry once the last pending save has landed
+    next.then(() => {
+      if (this.checkpointQueue[executionId] === next) {
+        delete this.checkpointQueue[executionId];
+      }
+    });
+    
+    return next;
   }
 
   /**
@@ -680,7 +2539,7 @@ class WorkflowService {
    */
   private addExecutionLog(
     executionId: string,
-    level: 'info' | 'warning' | 'error' | 'debug',
+    level: ExecutionLogLevel,
     message: string,
     nodeId: string | null = null,
     details: any = null
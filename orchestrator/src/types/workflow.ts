@@ -0,0 +1,127 @@
+// Shared type definitions for workflow execution in the orchestrator
+
+export interface WorkflowNode {
+  id: string;
+  type: string;
+  position: { x: number; y: number };
+  data: any;
+}
+
+export interface WorkflowEdge {
+  id: string;
+  source: string;
+  target: string;
+  sourceHandle?: string | null;
+  targetHandle?: string | null;
+  type?: string;
+  animated?: boolean;
+  style?: any;
+}
+
+export type ExecutionStatus = 'initializing' | 'running' | 'completed' | 'failed' | 'paused';
+
+export interface ExecutionContext {
+  id: string;
+  flowId: string;
+  status: ExecutionStatus;
+  startTime: Date;
+  endTime?: Date;
+  nodes: Record<string, NodeExecutionState>;
+  variables: Record<string, any>;
+  logs: ExecutionLog[];
+  currentNodeId?: string;
+  resumedAt?: Date[];
+  maxConcurrency?: number;
+  // Set on executions started by subflow and loop nodes
+  parentExecutionId?: string;
+  parentNodeId?: string;
+  // Loop iteration this execution runs, and how deeply it is nested
+  iteration?: number;
+  depth?: number;
+}
+
+export interface ExecutionOptions {
+  // Upper bound on node handlers running at the same time across parallel branches
+  maxConcurrency?: number;
+  // The subflow or loop node that started this execution
+  parent?: NestedExecutionParent;
+}
+
+export interface NestedExecutionParent {
+  executionId: string;
+  nodeId: string;
+  depth: number;
+  iteration?: number;
+}
+
+export interface NodeExecutionState {
+  id: string;
+  status: 'pending' | 'running' | 'waiting' | 'completed' | 'failed' | 'skipped';
+  startTime?: Date;
+  endTime?: Date;
+  output?: any;
+  error?: string;
+  // Upstream nodes that have reached this node (used by join nodes)
+  arrivals?: string[];
+  attempts?: number;
+  // True when the failure was routed down an `error` edge instead of failing the run
+  errorHandled?: boolean;
+  // Parked nodes: when the timer fires next, and when a conditional wait gives up
+  waitUntil?: Date;
+  deadline?: Date;
+  // Parked approval nodes: the request the branch is waiting on
+  approvalId?: string;
+  // Subflow and loop nodes: the nested executions they started
+  subExecutionIds?: string[];
+  // Loop nodes: the items being iterated and the progress of each iteration
+  items?: any[];
+  iterations?: LoopIteration[];
+}
+
+export interface LoopIteration {
+  index: number;
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  executionId?: string;
+  output?: any;
+  error?: string;
+}
+
+export type BackoffStrategy = 'none' | 'fixed' | 'linear' | 'exponential';
+
+/**
+ * Retry policy read from `node.data.retry`
+ */
+export interface NodeRetryPolicy {
+  maxAttempts?: number;
+  backoff?: BackoffStrategy;
+  delayMs?: number;
+  maxDelayMs?: number;
+}
+
+export type DelayType = 'fixed' | 'dynamic' | 'conditional';
+
+export type JoinType = 'all' | 'any' | 'count';
+
+export type LoopMode = 'sequential' | 'parallel';
+
+export type JoinMergeStrategy = 'object' | 'array' | 'shallow';
+
+export type ExecutionLogLevel = 'info' | 'warning' | 'error' | 'debug';
+
+export interface ExecutionLog {
+  timestamp: Date;
+  level: ExecutionLogLevel;
+  message: string;
+  nodeId?: string;
+  details?: any;
+}
+
+/**
+ * Everything needed to inspect or resume an execution after a restart
+ */
+export interface ExecutionRecord {
+  context: ExecutionContext;
+  nodes: WorkflowNode[];
+  edges: WorkflowEdge[];
+  updatedAt: string;
+}
@@ -0,0 +1,9 @@
+/**
+ * Error with an HTTP status; handleApiError responds with it, so services can
+ * report bad input (400), missing records (404) or conflicts (409)
+ */
+export function httpError(message: string, status: number = 400): Error {
+  const error = new Error(message) as Error & { status?: number };
+  error.status = status;
+  return error;
+}
@@ -0,0 +1,37 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { retryDelay } from '../src/services/deliveryService';
+
+test('retry delay doubles with each attempt, plus up to 20% jitter', () => {
+  for (let attempts = 1; attempts <= 5; attempts++) {
+    const base = 1000 * Math.pow(2, attempts - 1);
+
+    for (let i = 0; i < 20; i++) {
+      const delay = retryDelay(attempts);
+      assert.ok(delay >= base && delay <= base * 1.2, `attempt ${attempts}: ${delay}ms`);
+    }
+  }
+});
+
+test('retry delay is capped at 10 minutes', () => {
+  assert.ok(retryDelay(30) <= 12 * 60 * 1000);
+  assert.ok(retryDelay(30) >= 10 * 60 * 1000);
+});
+
+test('Retry-After in seconds or as a date overrides the backoff', () => {
+  assert.equal(retryDelay(1, '30'), 30000);
+
+  const date = new Date(Date.now() + 60000).toUTCString();
+  const delay = retryDelay(1, date);
+  assert.ok(delay > 55000 && delay <= 60000, `${delay}ms`);
+
+  // Never waits longer than the cap, whatever the destination asks for
+  assert.equal(retryDelay(1, '86400'), 10 * 60 * 1000);
+});
+
+test('an unusable Retry-After falls back to the backoff', () => {
+  for (const retryAfter of ['0', '-5', 'soon', new Date(Date.now() - 60000).toUTCString()]) {
+    const delay = retryDelay(2, retryAfter);
+    assert.ok(delay >= 2000 && delay <= 2400, `${retryAfter}: ${delay}ms`);
+  }
+});
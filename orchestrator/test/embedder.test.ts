@@ -0,0 +1,28 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { LocalEmbedder, normalizeVector } from '../src/services/embedder';
+import { cosineSimilarity } from '../src/services/vectorIndex';
+
+const embedder = new LocalEmbedder();
+
+test('local embedder returns the same unit vector for the same text', async () => {
+  const [first, second] = await embedder.embed(['Refund the damaged order', 'Refund the damaged order']);
+
+  assert.deepEqual(first, second);
+  assert.deepEqual(embedder.embedOne('Refund the damaged order'), first);
+  assert.ok(Math.abs(cosineSimilarity(first, first) - 1) < 1e-9);
+  assert.ok(Math.abs(Math.hypot(...first) - 1) < 1e-9);
+});
+
+test('local embedder ranks related texts above unrelated ones', () => {
+  const query = embedder.embedOne("the customer's refund complaint");
+  const related = embedder.embedOne('Customer complained about getting their money back');
+  const unrelated = embedder.embedOne('Deploy the marketing site on Friday');
+
+  assert.ok(cosineSimilarity(query, related) > cosineSimilarity(query, unrelated));
+});
+
+test('normalizeVector leaves zero vectors alone', () => {
+  assert.deepEqual(normalizeVector([0, 0, 0]), [0, 0, 0]);
+  assert.deepEqual(normalizeVector([3, 4]), [0.6, 0.8]);
+});
@@ -0,0 +1,55 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { parseJsonPath, queryJsonPath, isSingularJsonPath } from '../src/services/jsonPath';
+
+const order = {
+  id: 'ord_1',
+  customer: { name: 'Ada', tags: ['vip', 'beta'] },
+  items: [
+    { sku: 'A', price: 5, qty: 1 },
+    { sku: 'B', price: 20, qty: 2 },
+    { sku: 'C', price: 12.5, qty: 1 }
+  ],
+  'shipping address': { city: 'Oslo' }
+};
+
+test('member, index and bracket selectors', () => {
+  assert.deepEqual(queryJsonPath(order, '$.id'), ['ord_1']);
+  assert.deepEqual(queryJsonPath(order, '$.customer.tags[0]'), ['vip']);
+  assert.deepEqual(queryJsonPath(order, '$.items[-1].sku'), ['C']);
+  assert.deepEqual(queryJsonPath(order, "$['shipping address'].city"), ['Oslo']);
+  assert.deepEqual(queryJsonPath(order, '$.missing.path'), []);
+});
+
+test('wildcards, slices, unions and recursive descent', () => {
+  assert.deepEqual(queryJsonPath(order, '$.items[*].sku'), ['A', 'B', 'C']);
+  assert.deepEqual(queryJsonPath(order, '$.items[0:2].sku'), ['A', 'B']);
+  assert.deepEqual(queryJsonPath(order, '$.items[::2].sku'), ['A', 'C']);
+  assert.deepEqual(queryJsonPath(order, '$.items[0,2].price'), [5, 12.5]);
+  assert.deepEqual(queryJsonPath(order, '$..city'), ['Oslo']);
+});
+
+test('filter expressions', () => {
+  assert.deepEqual(queryJsonPath(order, '$.items[?(@.price > 10)].sku'), ['B', 'C']);
+  assert.deepEqual(queryJsonPath(order, "$.items[?(@.sku == 'A')].qty"), [1]);
+  assert.deepEqual(queryJsonPath(order, '$.items[?(@.qty)].sku'), ['A', 'B', 'C']);
+  // Comparisons across types never match
+  assert.deepEqual(queryJsonPath(order, "$.items[?(@.price > '10')].sku"), []);
+});
+
+test('prototype properties are never selected', () => {
+  assert.deepEqual(queryJsonPath(order, '$.__proto__'), []);
+  assert.deepEqual(queryJsonPath(order, '$.customer.constructor'), []);
+});
+
+test('invalid paths throw descriptive errors', () => {
+  assert.throws(() => parseJsonPath(''), /non-empty/);
+  assert.throws(() => parseJsonPath("$['unterminated"), /unterminated string/);
+  assert.throws(() => parseJsonPath('$.items[?(@.price > 10)'));
+});
+
+test('singular paths select at most one value', () => {
+  assert.equal(isSingularJsonPath('$.customer.tags[0]'), true);
+  assert.equal(isSingularJsonPath('$.items[*].sku'), false);
+  assert.equal(isSingularJsonPath('$..city'), false);
+});
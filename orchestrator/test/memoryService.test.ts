@@ -0,0 +1,56 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import memoryService from '../src/services/memoryService';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+test('search ranks newer memories above older ones with the same content', async () => {
+  const now = Date.now();
+  await memoryService.importMemories('agent-recency', [
+    { id: 'old', content: 'Customer asked for a refund of order 42', importance: 0.5, created_at: now - 30 * 24 * HOUR_MS },
+    { id: 'new', content: 'Customer asked for a refund of order 42', importance: 0.5, created_at: now - HOUR_MS }
+  ]);
+
+  const results = await memoryService.searchMemories('agent-recency', 'refund for order 42');
+
+  assert.deepEqual(results.map(result => result.memory.id), ['new', 'old']);
+  assert.ok(results[0].recency > results[1].recency);
+  assert.equal(results[0].similarity, results[1].similarity);
+});
+
+test('search ranks important memories above unimportant ones of the same age', async () => {
+  const now = Date.now();
+  await memoryService.importMemories('agent-importance', [
+    { id: 'minor', content: 'The customer prefers email over phone calls', importance: 0.1, created_at: now },
+    { id: 'major', content: 'The customer prefers email over phone calls', importance: 0.9, created_at: now }
+  ]);
+
+  const results = await memoryService.searchMemories('agent-importance', 'how does the customer like to be contacted by email');
+
+  assert.deepEqual(results.map(result => result.memory.id), ['major', 'minor']);
+});
+
+test('search finds memories by meaning and leaves out unrelated ones', async () => {
+  await memoryService.importMemories('agent-meaning', [
+    { id: 'refund', content: 'Customer complained that the refund for the broken blender never arrived' },
+    { id: 'deploy', content: 'Deployment of the marketing site is scheduled for Friday' }
+  ]);
+
+  const results = await memoryService.searchMemories('agent-meaning', "the customer's refund complaint", 1);
+
+  assert.equal(results.length, 1);
+  assert.equal(results[0].memory.id, 'refund');
+});
+
+test('search skips expired memories and blank queries', async () => {
+  const now = Date.now();
+  await memoryService.importMemories('agent-expiry', [
+    { id: 'current', content: 'Invoice 7 is overdue', created_at: now },
+    { id: 'expired', content: 'Invoice 7 is overdue', created_at: now - 2 * HOUR_MS, expires_at: now - HOUR_MS }
+  ]);
+
+  const results = await memoryService.searchMemories('agent-expiry', 'overdue invoice');
+
+  assert.deepEqual(results.map(result => result.memory.id), ['current']);
+  assert.deepEqual(await memoryService.searchMemories('agent-expiry', '   '), []);
+});
@@ -0,0 +1,50 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCronExpression, nextCronOccurrence } from '../src/services/schedulerService';
+
+function next(expression: string, after: string, timeZone: string = 'UTC'): string | undefined {
+  return nextCronOccurrence(parseCronExpression(expression), new Date(after), timeZone)?.toISOString();
+}
+
+test('cron fields accept lists, ranges, steps, names and macros', () => {
+  const cron = parseCronExpression('*/15 9-17 * JAN,jul MON-FRI');
+
+  assert.deepEqual([...cron.minutes], [0, 15, 30, 45]);
+  assert.deepEqual([...cron.hours], [9, 10, 11, 12, 13, 14, 15, 16, 17]);
+  assert.deepEqual([...cron.months], [1, 7]);
+  assert.deepEqual([...cron.daysOfWeek], [1, 2, 3, 4, 5]);
+  assert.equal(next('@daily', '2025-01-01T12:00:00Z'), '2025-01-02T00:00:00.000Z');
+  assert.equal(next('0 0 * * 7', '2025-01-01T00:00:00Z'), '2025-01-05T00:00:00.000Z');
+});
+
+test('invalid cron expressions are rejected with a 400', () => {
+  for (const expression of ['* * * *', '60 * * * *', '* * * FOO *', '*/0 * * * *']) {
+    assert.throws(() => parseCronExpression(expression), (error: any) => error.status === 400, expression);
+  }
+});
+
+test('a restricted day of month and day of week match either', () => {
+  // The 13th, or any Friday
+  assert.equal(next('0 12 13 * 5', '2025-06-01T00:00:00Z'), '2025-06-06T12:00:00.000Z');
+  assert.equal(next('0 12 13 * 5', '2025-06-10T00:00:00Z'), '2025-06-13T12:00:00.000Z');
+});
+
+test('cron times are wall-clock times in the schedule timezone', () => {
+  // 09:00 in New York is 14:00 UTC in winter and 13:00 UTC in summer
+  assert.equal(next('0 9 * * *', '2025-01-15T00:00:00Z', 'America/New_York'), '2025-01-15T14:00:00.000Z');
+  assert.equal(next('0 9 * * *', '2025-07-15T00:00:00Z', 'America/New_York'), '2025-07-15T13:00:00.000Z');
+});
+
+test('a time skipped when clocks go forward fires at the shifted instant', () => {
+  // 02:30 doesn't exist in New York on 9 March 2025
+  assert.equal(next('30 2 * * *', '2025-03-09T05:00:00Z', 'America/New_York'), '2025-03-09T07:30:00.000Z');
+  assert.equal(next('30 2 * * *', '2025-03-09T07:30:00Z', 'America/New_York'), '2025-03-10T06:30:00.000Z');
+});
+
+test('a time repeated when clocks go back fires once', () => {
+  // 01:30 happens twice in New York on 2 November 2025
+  const first = next('30 1 * * *', '2025-11-02T04:00:00Z', 'America/New_York');
+
+  assert.equal(first, '2025-11-02T05:30:00.000Z');
+  assert.equal(next('30 1 * * *', first as string, 'America/New_York'), '2025-11-03T06:30:00.000Z');
+});
@@ -0,0 +1,5 @@
+// Tests run without external services, whatever the local .env configures
+process.env.SUPABASE_URL = '';
+process.env.REDIS_URL = '';
+process.env.MEMORY_EMBEDDER = 'local';
+process.env.OUTBOUND_RETRY_BASE_MS = '1000';
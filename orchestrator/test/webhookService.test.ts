@@ -0,0 +1,135 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import webhookService, { WebhookConfig } from '../src/services/webhookService';
+
+const SECRET = 'whsec_test';
+const BODY = JSON.stringify({ event: 'order.paid', order: { id: 'ord_1', total: 120, items: ['a', 'b'] } });
+
+let webhookCount = 0;
+
+function signatureWebhook(config: Record<string, any>): WebhookConfig {
+  const now = new Date().toISOString();
+  return {
+    id: `webhook-${++webhookCount}`,
+    workflowId: 'workflow-1',
+    userId: 'user-1',
+    path: '/hooks/test',
+    method: 'POST',
+    secret: SECRET,
+    headers: {},
+    authentication: { type: 'signature', config },
+    filtering: { type: 'none' },
+    status: 'active',
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+function hmac(payload: string, algorithm: string = 'sha256', encoding: 'hex' | 'base64' = 'hex'): string {
+  return crypto.createHmac(algorithm, SECRET).update(payload, 'utf8').digest(encoding);
+}
+
+test('generic signatures verify over the raw body', () => {
+  const webhook = signatureWebhook({});
+
+  assert.equal(webhookService.verifySignature(webhook, { 'x-webhook-signature': hmac(BODY) }, BODY).verified, true);
+
+  const tampered = webhookService.verifySignature(webhook, { 'x-webhook-signature': hmac(BODY) }, BODY.replace('120', '1'));
+  assert.equal(tampered.verified, false);
+  assert.equal(tampered.reason, 'Invalid webhook signature');
+
+  const missing = webhookService.verifySignature(webhook, {}, BODY);
+  assert.equal(missing.reason, 'Missing x-webhook-signature header');
+});
+
+test('GitHub signatures need their prefix and a delivery id is only accepted once', () => {
+  const webhook = signatureWebhook({ preset: 'github' });
+  const headers = { 'x-hub-signature-256': `sha256=${hmac(BODY)}`, 'x-github-delivery': 'delivery-1' };
+
+  assert.equal(webhookService.verifySignature(webhook, headers, BODY).verified, true);
+  assert.equal(webhookService.verifySignature(webhook, headers, BODY).reason, 'Request has already been received');
+  assert.equal(
+    webhookService.verifySignature(webhook, { ...headers, 'x-github-delivery': 'delivery-2' }, BODY).verified,
+    true
+  );
+
+  const unprefixed = webhookService.verifySignature(webhook, { 'x-hub-signature-256': hmac(BODY) }, BODY);
+  assert.equal(unprefixed.reason, 'Signature must start with sha256=');
+
+  const sha1 = signatureWebhook({ preset: 'github', algorithm: 'sha1' });
+  assert.equal(webhookService.verifySignature(sha1, { 'x-hub-signature': `sha1=${hmac(BODY, 'sha1')}` }, BODY).verified, true);
+});
+
+test('Stripe signatures sign the timestamp and accept any of several v1 signatures', () => {
+  const webhook = signatureWebhook({ preset: 'stripe' });
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = hmac(`${timestamp}.${BODY}`);
+
+  const rolled = { 'stripe-signature': `t=${timestamp},v1=${'0'.repeat(64)},v1=${signature}` };
+  assert.equal(webhookService.verifySignature(webhook, rolled, BODY).verified, true);
+
+  const stale = timestamp - 3600;
+  const old = { 'stripe-signature': `t=${stale},v1=${hmac(`${stale}.${BODY}`)}` };
+  assert.match(webhookService.verifySignature(webhook, old, BODY).reason as string, /from the current time/);
+
+  const untimed = { 'stripe-signature': `v1=${signature}` };
+  assert.equal(webhookService.verifySignature(webhook, untimed, BODY).reason, 'Missing signature timestamp');
+});
+
+test('Slack signatures sign the versioned base string', () => {
+  const webhook = signatureWebhook({ preset: 'slack' });
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const headers = {
+    'x-slack-signature': `v0=${hmac(`v0:${timestamp}:${BODY}`)}`,
+    'x-slack-request-timestamp': timestamp
+  };
+
+  assert.equal(webhookService.verifySignature(webhook, headers, BODY).verified, true);
+});
+
+test('custom headers and base64 signatures', () => {
+  const webhook = signatureWebhook({ header: 'X-Shop-Hmac', encoding: 'base64', prefix: '' });
+  const headers = { 'x-shop-hmac': hmac(BODY, 'sha256', 'base64') };
+
+  assert.equal(webhookService.verifySignature(webhook, headers, BODY).verified, true);
+});
+
+test('a webhook without a secret never verifies', () => {
+  const webhook = { ...signatureWebhook({}), secret: '' };
+
+  assert.equal(webhookService.verifySignature(webhook, { 'x-webhook-signature': hmac(BODY) }, BODY).verified, false);
+});
+
+test('filters combine rules with AND and OR groups', () => {
+  const body = JSON.parse(BODY);
+  const filtering: WebhookConfig['filtering'] = {
+    type: 'json_path',
+    match: 'all',
+    rules: [{ path: '$.event', operator: 'equals', value: 'order.paid' }],
+    groups: [{
+      match: 'any',
+      rules: [
+        { path: '$.order.total', operator: 'greater_than', value: 500 },
+        { path: '$.order.items', operator: 'contains', value: 'b' }
+      ]
+    }]
+  };
+
+  assert.equal(webhookService.evaluateFiltering(body, filtering)?.matched, true);
+  assert.equal(webhookService.evaluateFiltering({ ...body, event: 'order.refunded' }, filtering)?.matched, false);
+  assert.equal(webhookService.evaluateFiltering(body, { type: 'none' }), null);
+});
+
+test('transforms map JSONPaths to workflow inputs', () => {
+  const inputs = webhookService.transformPayload(JSON.parse(BODY), {
+    inputs: {
+      orderId: '$.order.id',
+      items: '$.order.items[*]',
+      currency: { path: '$.order.currency', default: 'USD' }
+    },
+    includePayload: false
+  });
+
+  assert.deepEqual(inputs, { orderId: 'ord_1', items: ['a', 'b'], currency: 'USD' });
+});
@@ -39,6 +39,9 @@ import {
   Wand2,
   Target,
   GitBranch,
+  GitMerge,
+  UserCheck,
+  Repeat,
   Database,
   Globe,
   Mail,
@@ -58,6 +61,10 @@ import { TriggerNode as TriggerNodeComponent } from './nodes/TriggerNode';
 import { ActionNode as ActionNodeComponent } from './nodes/ActionNode';
 import { ConditionNode as ConditionNodeComponent } from './nodes/ConditionNode';
 import { DelayNode as DelayNodeComponent } from './nodes/DelayNode';
+import { JoinNode as JoinNodeComponent } from './nodes/JoinNode';
+import { ApprovalNode as ApprovalNodeComponent } from './nodes/ApprovalNode';
+import { SubflowNode as SubflowNodeComponent } from './nodes/SubflowNode';
+import { LoopNode as LoopNodeComponent } from './nodes/LoopNode';
 import { GlassCard } from '../ui/GlassCard';
 import { HolographicButton } from '../ui/HolographicButton';
 import { NodeConfigPanel } from '../ui/NodeConfig/NodeConfigPanel';
@@ -70,17 +77,25 @@ import {
   ActionNodeData,
   ConditionNodeData,
   DelayNodeData,
+  JoinNodeData,
+  ApprovalNodeData,
+  SubflowNodeData,
+  LoopNodeData,
   CanvasEdge,
   NodeData
 } from '../../types/canvas';
 
 // Define node types with proper typing
 const nodeTypes: Record<string, React.ComponentType<any>> = {
-  agent: AgentNodeComponent as React.ComponentType<any>,
-  trigger: TriggerNodeComponent as React.ComponentType<any>,
-  action: ActionNodeComponent as React.ComponentType<any>,
-  condition: ConditionNodeComponent as React.ComponentType<any>,
-  delay: DelayNodeComponent as React.ComponentType<any>,
+  agent: AgentNodeComponent,
+  trigger: TriggerNodeComponent,
+  action: ActionNodeComponent,
+  condition: ConditionNodeComponent,
+  delay: DelayNodeComponent,
+  join: JoinNodeComponent,
+  approval: ApprovalNodeComponent,
+  subflow: SubflowNodeComponent,
+  loop: LoopNodeComponent,
 };
 
 const proOptions = {
@@ -685,6 +700,34 @@ export const EnhancedQuantumCanvas: React.FC<EnhancedQuantumCanvasProps> = ({
         color: 'from-violet-500 to-purple-500',
         description: 'Precise timing control'
       },
+      {
+        type: 'join',
+        icon: GitMerge,
+        label: 'Branch Join',
+        color: 'from-sky-500 to-indigo-600',
+        description: 'Merge parallel branches'
+      },
+      {
+        type: 'approval',
+        icon: UserCheck,
+        label: 'Approval Gate',
+        color: 'from-amber-500 to-orange-600',
+        description: 'Pause for a human decision'
+      },
+      {
+        type: 'subflow',
+        icon: Workflow,
+        label: 'Subflow',
+        color: 'from-cyan-500 to-blue-600',
+        description: 'Run another workflow'
+      },
+      {
+        type: 'loop',
+        icon: Repeat,
+        label: 'For Each',
+        color: 'from-teal-500 to-emerald-600',
+        description: 'Repeat a branch per item'
+      },
     ];
 
     const nodeTemplate = nodeCreationTools.find(tool => tool.type === type);
@@ -786,6 +829,88 @@ export const EnhancedQuantumCanvas: React.FC<EnhancedQuantumCanvasProps> = ({
           } satisfies DelayNodeData,
         } satisfies Node<DelayNodeData>;
         break;
+      case 'join':
+        newNode = {
+          id: `${type}-${Date.now()}`,
+          type,
+          position: position || {
+            x: Math.random() * 400 + 200,
+            y: Math.random() * 400 + 200
+          },
+          data: {
+            label: `New ${nodeTemplate.label}`,
+            description: nodeTemplate.description,
+            joinType: 'all',
+            mergeStrategy: 'object',
+            icon: nodeTemplate.icon,
+            color: nodeTemplate.color,
+            status: 'ready'
+          } satisfies JoinNodeData,
+        } satisfies Node<JoinNodeData>;
+        break;
+      case 'approval':
+        newNode = {
+          id: `${type}-${Date.now()}`,
+          type,
+          position: position || {
+            x: Math.random() * 400 + 200,
+            y: Math.random() * 400 + 200
+          },
+          data: {
+            label: `New ${nodeTemplate.label}`,
+            description: nodeTemplate.description,
+            approvers: [],
+            channel: 'email',
+            timeout: '24h',
+            defaultOutcome: 'rejected',
+            icon: nodeTemplate.icon,
+            color: nodeTemplate.color,
+            status: 'ready'
+          } satisfies ApprovalNodeData,
+        } satisfies Node<ApprovalNodeData>;
+        break;
+      case 'subflow':
+        newNode = {
+          id: `${type}-${Date.now()}`,
+          type,
+          position: position || {
+            x: Math.random() * 400 + 200,
+            y: Math.random() * 400 + 200
+          },
+          data: {
+            label: `New ${nodeTemplate.label}`,
+            description: nodeTemplate.description,
+            workflowId: '',
+            inputMapping: {},
+            outputMapping: {},
+            icon: nodeTemplate.icon,
+            color: nodeTemplate.color,
+            status: 'ready'
+          } satisfies SubflowNodeData,
+        } satisfies Node<SubflowNodeData>;
+        break;
+      case 'loop':
+        newNode = {
+          id: `${type}-${Date.now()}`,
+          type,
+          position: position || {
+            x: Math.random() * 400 + 200,
+            y: Math.random() * 400 + 200
+          },
+          data: {
+            label: `New ${nodeTemplate.label}`,
+            description: nodeTemplate.description,
+            items: '',
+            mode: 'sequential',
+            itemVariable: 'item',
+            indexVariable: 'index',
+            continueOnError: false,
+            icon: nodeTemplate.icon,
+            color: nodeTemplate.color,
+            status: 'ready'
+          } satisfies LoopNodeData,
+        } satisfies Node<LoopNodeData>;
+        break;
       default:
         return;
     }
@@ -1034,6 +1159,38 @@ export const EnhancedQuantumCanvas: React.FC<EnhancedQuantumCanvasProps> = ({
                   description: 'Timing control',
                   category: 'Utility'
                 },
+                {
+                  type: 'join',
+                  icon: GitMerge,
+                  label: 'Branch Join',
+                  color: 'from-sky-500 to-indigo-600',
+                  description: 'Merge parallel branches',
+                  category: 'Logic'
+                },
+                {
+                  type: 'approval',
+                  icon: UserCheck,
+                  label: 'Approval Gate',
+                  color: 'from-amber-500 to-orange-600',
+                  description: 'Human decision',
+                  category: 'Logic'
+                },
+                {
+                  type: 'subflow',
+                  icon: Workflow,
+                  label: 'Subflow',
+                  color: 'from-cyan-500 to-blue-600',
+                  description: 'Nested workflow',
+                  category: 'Logic'
+                },
+                {
+                  type: 'loop',
+                  icon: Repeat,
+                  label: 'For Each',
+                  color: 'from-teal-500 to-emerald-600',
+                  description: 'Iterate over items',
+                  category: 'Logic'
+                },
               ].map((tool) => (
                 <motion.div
                   key={tool.type}
@@ -1282,6 +1439,8 @@ export const EnhancedQuantumCanvas: React.FC<EnhancedQuantumCanvasProps> = ({
             onClose={closeNodeConfig}
             onUpdate={updateNodeData}
             onDelete={deleteNode}
+            nodes={nodes}
+            edges={edges}
           />
         )}
 
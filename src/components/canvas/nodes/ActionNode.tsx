@@ -413,6 +413,15 @@ export const ActionNode = memo<ActionNodeProps>(({ data, selected = false }) =>
         className="w-3 h-3 bg-blue-400 border-2 border-white shadow-lg"
         style={{ zIndex: 10 }}
       />
+
+      {/* Error Handle - routes failures to a compensating branch */}
+      <Handle
+        type="source"
+        position={Position.Bottom}
+        id="error"
+        className="w-3 h-3 bg-red-400 border-2 border-white shadow-lg"
+        style={{ zIndex: 10 }}
+      />
     </motion.div>
   );
 });
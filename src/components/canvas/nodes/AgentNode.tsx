@@ -331,6 +331,15 @@ export const AgentNode = memo<AgentNodeProps>(({ data, selected = false }) => {
         style={{ zIndex: 10 }}
       />
 
+      {/* Error Handle - routes failures to a compensating branch */}
+      <Handle
+        type="source"
+        position={Position.Bottom}
+        id="error"
+        className="w-3 h-3 bg-red-400 border-2 border-white shadow-lg"
+        style={{ zIndex: 10 }}
+      />
+
       {/* Connection Points Indicator */}
       {isHovered && (
         <motion.div
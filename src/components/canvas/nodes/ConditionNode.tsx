@@ -44,6 +44,7 @@ export const ConditionNode = memo<ConditionNodeProps>(({ data, selected = false
     description = 'No description available',
     conditionType = 'if',
     condition = 'value > threshold',
+    cases = [],
     status = 'ready',
     color = 'from-orange-500 to-red-600',
     icon: ConditionIcon
@@ -301,37 +302,80 @@ export const ConditionNode = memo<ConditionNodeProps>(({ data, selected = false
         )}
       </GlassCard>
 
-      {/* Output Handles - True and False paths */}
-      <Handle
-        type="source"
-        position={Position.Right}
-        id="true"
-        className="w-3 h-3 bg-green-400 border-2 border-white shadow-lg"
-        style={{ 
-          right: -6, 
-          top: '35%',
-          zIndex: 10
-        }}
-      />
-      <Handle
-        type="source"
-        position={Position.Right}
-        id="false"
-        className="w-3 h-3 bg-red-400 border-2 border-white shadow-lg"
-        style={{ 
-          right: -6, 
-          top: '65%',
-          zIndex: 10
-        }}
-      />
+      {conditionType === 'switch' ? (
+        <>
+          {/* Output Handles - one per switch case plus default */}
+          {[...cases, 'default'].map((caseValue, index, all) => {
+            const top = `${Math.round(((index + 1) / (all.length + 1)) * 100)}%`;
+            return (
+              <React.Fragment key={caseValue}>
+                <Handle
+                  type="source"
+                  position={Position.Right}
+                  id={caseValue}
+                  className={`w-3 h-3 ${caseValue === 'default' ? 'bg-gray-400' : 'bg-orange-400'} border-2 border-white shadow-lg`}
+                  style={{ 
+                    right: -6, 
+                    top,
+                    zIndex: 10
+                  }}
+                />
+                <div
+                  className="absolute right-2 text-xs text-orange-200 pointer-events-none -translate-y-1/2"
+                  style={{ top }}
+                >
+                  {caseValue}
+                </div>
+              </React.Fragment>
+            );
+          })}
+        </>
+      ) : conditionType === 'gate' ? (
+        <>
+          {/* Output Handle - gates only continue when the condition holds */}
+          <Handle
+            type="source"
+            position={Position.Right}
+            id="true"
+            className="w-3 h-3 bg-green-400 border-2 border-white shadow-lg"
+            style={{ zIndex: 10 }}
+          />
+        </>
+      ) : (
+        <>
+          {/* Output Handles - True and False paths */}
+          <Handle
+            type="source"
+            position={Position.Right}
+            id="true"
+            className="w-3 h-3 bg-green-400 border-2 border-white shadow-lg"
+            style={{ 
+              right: -6, 
+              top: '35%',
+              zIndex: 10
+            }}
+          />
+          <Handle
+            type="source"
+            position={Position.Right}
+            id="false"
+            className="w-3 h-3 bg-red-400 border-2 border-white shadow-lg"
+            style={{ 
+              right: -6, 
+              top: '65%',
+              zIndex: 10
+            }}
+          />
 
-      {/* Handle Labels */}
-      <div className="absolute right-2 top-[30%] text-xs text-green-300 pointer-events-none">
-        T
-      </div>
-      <div className="absolute right-2 top-[60%] text-xs text-red-300 pointer-events-none">
-        F
-      </div>
+          {/* Handle Labels */}
+          <div className="absolute right-2 top-[30%] text-xs text-green-300 pointer-events-none">
+            T
+          </div>
+          <div className="absolute right-2 top-[60%] text-xs text-red-300 pointer-events-none">
+            F
+          </div>
+        </>
+      )}
     </motion.div>
   );
 });
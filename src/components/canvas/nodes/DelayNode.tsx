@@ -45,6 +45,10 @@ export const DelayNode = memo<DelayNodeProps>(({ data, selected = false }) => {
     description = 'No description available',
     delayType = 'fixed',
     duration = '5s',
+    condition,
+    pollInterval = '30s',
+    maxWait = '24h',
+    onDeadline = 'fail',
     status = 'ready',
     color = 'from-violet-500 to-purple-600',
     icon: DelayIcon
@@ -259,12 +263,8 @@ export const DelayNode = memo<DelayNodeProps>(({ data, selected = false }) => {
               {delayType === 'dynamic' && (
                 <div className="space-y-2">
                   <div className="flex items-center justify-between">
-                    <span className="text-xs text-gray-400">Min Duration</span>
-                    <span className="text-xs text-white">1s</span>
-                  </div>
-                  <div className="flex items-center justify-between">
-                    <span className="text-xs text-gray-400">Max Duration</span>
-                    <span className="text-xs text-white">30s</span>
+                    <span className="text-xs text-gray-400">Duration</span>
+                    <span className="text-xs text-white">From expression</span>
                   </div>
                 </div>
               )}
@@ -273,11 +273,15 @@ export const DelayNode = memo<DelayNodeProps>(({ data, selected = false }) => {
                 <div className="space-y-2">
                   <div className="flex items-center justify-between">
                     <span className="text-xs text-gray-400">Condition</span>
-                    <span className="text-xs text-white">When ready</span>
+                    <span className="text-xs text-white font-mono truncate max-w-[8rem]">{condition || 'When ready'}</span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs text-gray-400">Check Every</span>
+                    <span className="text-xs text-white">{pollInterval}</span>
                   </div>
                   <div className="flex items-center justify-between">
                     <span className="text-xs text-gray-400">Timeout</span>
-                    <span className="text-xs text-white">60s</span>
+                    <span className="text-xs text-white">{maxWait} ({onDeadline === 'continue' ? 'continue' : 'fail'})</span>
                   </div>
                 </div>
               )}
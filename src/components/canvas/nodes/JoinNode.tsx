@@ -0,0 +1,214 @@
+import React, { memo, useCallback } from 'react';
+import { Handle, Position } from '@xyflow/react';
+import { motion } from 'framer-motion';
+import { GitMerge, MoreHorizontal, CheckCircle, Timer, AlertCircle, Layers } from 'lucide-react';
+import { GlassCard } from '../../ui/GlassCard';
+import type { JoinNodeData } from '../../../types/canvas';
+
+// Component with proper typing
+interface JoinNodeProps {
+  data: JoinNodeData;
+  selected?: boolean;
+  id: string;
+  dragging?: boolean;
+  type?: string;
+  xPos: number;
+  yPos: number;
+  zIndex: number;
+  isConnectable?: boolean;
+  sourcePosition?: Position;
+  targetPosition?: Position;
+}
+
+export const JoinNode = memo<JoinNodeProps>(({ data, selected = false }) => {
+  const getStatusColor = useCallback((status: JoinNodeData['status']) => {
+    switch (status) {
+      case 'ready': return 'border-sky-400 shadow-sky-400/30';
+      case 'waiting': return 'border-yellow-400 shadow-yellow-400/30 animate-pulse';
+      case 'completed': return 'border-green-400 shadow-green-400/30';
+      case 'error': return 'border-red-400 shadow-red-400/30';
+      default: return 'border-gray-400 shadow-gray-400/30';
+    }
+  }, []);
+
+  const getStatusIcon = useCallback((status: JoinNodeData['status']) => {
+    switch (status) {
+      case 'waiting': return <Timer className="w-3 h-3 text-yellow-400" />;
+      case 'completed': return <CheckCircle className="w-3 h-3 text-green-400" />;
+      case 'ready': return <div className="w-2 h-2 bg-sky-400 rounded-full" />;
+      case 'error': return <div className="w-2 h-2 bg-red-400 rounded-full" />;
+      default: return <div className="w-2 h-2 bg-gray-400 rounded-full" />;
+    }
+  }, []);
+
+  const handleMoreClick = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation();
+    // Add your more actions logic here
+  }, []);
+
+  // Null check and proper typing for data
+  if (!data) {
+    return (
+      <GlassCard variant="medium" className="w-64 border-2 border-red-400">
+        <div className="p-4 text-center">
+          <AlertCircle className="w-8 h-8 text-red-400 mx-auto mb-2" />
+          <p className="text-red-300">Invalid Join Node</p>
+        </div>
+      </GlassCard>
+    );
+  }
+
+  // Type assertion to ensure TypeScript knows the correct type
+  const nodeData = data as JoinNodeData;
+
+  // Safe destructuring with proper typing and defaults
+  const {
+    label = 'Untitled Join',
+    description = 'No description available',
+    joinType = 'all',
+    count = 2,
+    mergeStrategy = 'object',
+    outputVariable,
+    status = 'ready',
+    color = 'from-sky-500 to-indigo-600',
+    icon: JoinIcon
+  } = nodeData;
+
+  const IconComponent = JoinIcon || GitMerge;
+
+  const waitLabel = joinType === 'all' ? 'Wait for all branches' :
+                    joinType === 'any' ? 'Continue on first branch' :
+                    `Wait for ${count} branches`;
+
+  return (
+    <motion.div
+      initial={{ scale: 0.8, opacity: 0 }}
+      animate={{ scale: 1, opacity: 1 }}
+      transition={{ duration: 0.3 }}
+      whileHover={{ scale: 1.02 }}
+      className={`relative ${selected ? 'z-10' : ''}`}
+    >
+      {/* Input Handle - accepts any number of upstream branches */}
+      <Handle
+        type="target"
+        position={Position.Left}
+        className="w-3 h-3 bg-sky-400 border-2 border-white shadow-lg"
+        style={{ zIndex: 10 }}
+      />
+
+      {/* Main Node */}
+      <GlassCard
+        variant="medium"
+        className={`w-64 border-2 ${getStatusColor(status)} ${
+          selected ? 'ring-2 ring-sky-400/50' : ''
+        } transition-all duration-200`}
+      >
+        <div className="p-4">
+          {/* Header */}
+          <div className="flex items-start justify-between mb-3">
+            <div className="flex items-center space-x-3">
+              <motion.div
+                className={`w-12 h-12 rounded-xl bg-gradient-to-br ${color} flex items-center justify-center relative overflow-hidden`}
+                whileHover={{ scale: 1.1, rotate: 5 }}
+                transition={{ type: "spring", stiffness: 400 }}
+              >
+                <IconComponent className="w-6 h-6 text-white relative z-10" />
+              </motion.div>
+
+              <div className="flex-1">
+                <h3 className="text-white font-semibold text-sm leading-tight">
+                  {label}
+                </h3>
+                <p className="text-sky-300 text-xs capitalize">
+                  {joinType} join
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-1">
+              <div className="flex items-center space-x-1 px-2 py-1 bg-white/10 rounded-full">
+                {getStatusIcon(status)}
+                <span className="text-xs text-white capitalize">{status}</span>
+              </div>
+
+              <motion.button
+                whileHover={{ scale: 1.1 }}
+                whileTap={{ scale: 0.9 }}
+                onClick={handleMoreClick}
+                className="w-6 h-6 rounded-full bg-white/10 flex items-center justify-center hover:bg-white/20 transition-colors"
+                aria-label="More options"
+              >
+                <MoreHorizontal className="w-3 h-3 text-white" />
+              </motion.button>
+            </div>
+          </div>
+
+          {/* Description */}
+          <p className="text-gray-300 text-xs mb-3 leading-relaxed">
+            {description}
+          </p>
+
+          {/* Join Details */}
+          <div className="bg-white/5 rounded-lg p-3 border border-white/10 space-y-2">
+            <div className="flex items-center justify-center space-x-2">
+              <GitMerge className="w-4 h-4 text-sky-400" />
+              <span className="text-white text-sm font-medium">{waitLabel}</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-gray-400">Merge</span>
+              <span className="text-xs text-white capitalize">{mergeStrategy}</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-gray-400 flex items-center space-x-1">
+                <Layers className="w-3 h-3" />
+                <span>Output</span>
+              </span>
+              <span className="text-xs text-white font-mono">
+                {outputVariable || 'merged'}
+              </span>
+            </div>
+          </div>
+
+          {/* Completed State */}
+          {status === 'completed' && (
+            <motion.div
+              initial={{ opacity: 0, scale: 0.8 }}
+              animate={{ opacity: 1, scale: 1 }}
+              className="mt-3 pt-3 border-t border-white/10"
+            >
+              <div className="flex items-center justify-center space-x-2 text-green-400">
+                <CheckCircle className="w-4 h-4" />
+                <span className="text-xs font-medium">Branches merged</span>
+              </div>
+            </motion.div>
+          )}
+        </div>
+
+        {/* Glow Effect */}
+        {selected && (
+          <motion.div
+            className="absolute -inset-1 bg-gradient-to-r from-sky-600 via-indigo-600 to-violet-600 rounded-2xl opacity-20 blur-lg -z-10"
+            animate={{
+              opacity: [0.2, 0.4, 0.2],
+            }}
+            transition={{
+              duration: 2,
+              repeat: Infinity,
+              ease: "easeInOut"
+            }}
+          />
+        )}
+      </GlassCard>
+
+      {/* Output Handle */}
+      <Handle
+        type="source"
+        position={Position.Right}
+        className="w-3 h-3 bg-sky-400 border-2 border-white shadow-lg"
+        style={{ zIndex: 10 }}
+      />
+    </motion.div>
+  );
+});
+
+JoinNode.displayName = 'JoinNode';
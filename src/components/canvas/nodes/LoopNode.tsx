@@ -0,0 +1,249 @@
+import React, { memo, useCallback } from 'react';
+import { Handle, Position } from '@xyflow/react';
+import { motion } from 'framer-motion';
+import { Repeat, MoreHorizontal, CheckCircle, Timer, AlertCircle, List, Layers } from 'lucide-react';
+import { GlassCard } from '../../ui/GlassCard';
+import type { LoopNodeData } from '../../../types/canvas';
+
+// Component with proper typing
+interface LoopNodeProps {
+  data: LoopNodeData;
+  selected?: boolean;
+  id: string;
+  dragging?: boolean;
+  type?: string;
+  xPos: number;
+  yPos: number;
+  zIndex: number;
+  isConnectable?: boolean;
+  sourcePosition?: Position;
+  targetPosition?: Position;
+}
+
+export const LoopNode = memo<LoopNodeProps>(({ data, selected = false }) => {
+  const getStatusColor = useCallback((status: LoopNodeData['status']) => {
+    switch (status) {
+      case 'ready': return 'border-teal-400 shadow-teal-400/30';
+      case 'waiting': return 'border-yellow-400 shadow-yellow-400/30 animate-pulse';
+      case 'completed': return 'border-green-400 shadow-green-400/30';
+      case 'error': return 'border-red-400 shadow-red-400/30';
+      default: return 'border-gray-400 shadow-gray-400/30';
+    }
+  }, []);
+
+  const getStatusIcon = useCallback((status: LoopNodeData['status']) => {
+    switch (status) {
+      case 'waiting': return <Timer className="w-3 h-3 text-yellow-400" />;
+      case 'completed': return <CheckCircle className="w-3 h-3 text-green-400" />;
+      case 'ready': return <div className="w-2 h-2 bg-teal-400 rounded-full" />;
+      case 'error': return <div className="w-2 h-2 bg-red-400 rounded-full" />;
+      default: return <div className="w-2 h-2 bg-gray-400 rounded-full" />;
+    }
+  }, []);
+
+  const handleMoreClick = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation();
+    // Add your more actions logic here
+  }, []);
+
+  // Null check and proper typing for data
+  if (!data) {
+    return (
+      <GlassCard variant="medium" className="w-64 border-2 border-red-400">
+        <div className="p-4 text-center">
+          <AlertCircle className="w-8 h-8 text-red-400 mx-auto mb-2" />
+          <p className="text-red-300">Invalid Loop Node</p>
+        </div>
+      </GlassCard>
+    );
+  }
+
+  // Type assertion to ensure TypeScript knows the correct type
+  const nodeData = data as LoopNodeData;
+
+  // Safe destructuring with proper typing and defaults
+  const {
+    label = 'Untitled Loop',
+    description = 'No description available',
+    items = '',
+    mode = 'sequential',
+    concurrency,
+    itemVariable = 'item',
+    workflowId,
+    continueOnError = false,
+    status = 'ready',
+    color = 'from-teal-500 to-emerald-600',
+    icon: LoopIcon
+  } = nodeData;
+
+  const IconComponent = LoopIcon || Repeat;
+
+  return (
+    <motion.div
+      initial={{ scale: 0.8, opacity: 0 }}
+      animate={{ scale: 1, opacity: 1 }}
+      transition={{ duration: 0.3 }}
+      whileHover={{ scale: 1.02 }}
+      className={`relative ${selected ? 'z-10' : ''}`}
+    >
+      {/* Input Handle */}
+      <Handle
+        type="target"
+        position={Position.Left}
+        className="w-3 h-3 bg-teal-400 border-2 border-white shadow-lg"
+        style={{ zIndex: 10 }}
+      />
+
+      {/* Main Node */}
+      <GlassCard
+        variant="medium"
+        className={`w-64 border-2 ${getStatusColor(status)} ${
+          selected ? 'ring-2 ring-teal-400/50' : ''
+        } transition-all duration-200`}
+      >
+        <div className="p-4">
+          {/* Header */}
+          <div className="flex items-start justify-between mb-3">
+            <div className="flex items-center space-x-3">
+              <motion.div
+                className={`w-12 h-12 rounded-xl bg-gradient-to-br ${color} flex items-center justify-center relative overflow-hidden`}
+                whileHover={{ scale: 1.1, rotate: 5 }}
+                transition={{ type: "spring", stiffness: 400 }}
+              >
+                <IconComponent className="w-6 h-6 text-white relative z-10" />
+              </motion.div>
+
+              <div className="flex-1">
+                <h3 className="text-white font-semibold text-sm leading-tight">
+                  {label}
+                </h3>
+                <p className="text-teal-300 text-xs">
+                  For each item
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-1">
+              <div className="flex items-center space-x-1 px-2 py-1 bg-white/10 rounded-full">
+                {getStatusIcon(status)}
+                <span className="text-xs text-white capitalize">{status}</span>
+              </div>
+
+              <motion.button
+                whileHover={{ scale: 1.1 }}
+                whileTap={{ scale: 0.9 }}
+                onClick={handleMoreClick}
+                className="w-6 h-6 rounded-full bg-white/10 flex items-center justify-center hover:bg-white/20 transition-colors"
+                aria-label="More options"
+              >
+                <MoreHorizontal className="w-3 h-3 text-white" />
+              </motion.button>
+            </div>
+          </div>
+
+          {/* Description */}
+          <p className="text-gray-300 text-xs mb-3 leading-relaxed">
+            {description}
+          </p>
+
+          {/* Loop Details */}
+          <div className="bg-white/5 rounded-lg p-3 border border-white/10 space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-gray-400 flex items-center space-x-1">
+                <List className="w-3 h-3" />
+                <span>Items</span>
+              </span>
+              <span className="text-xs text-white font-mono truncate max-w-[120px]">
+                {items || 'Not set'}
+              </span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-gray-400 flex items-center space-x-1">
+                <Layers className="w-3 h-3" />
+                <span>Mode</span>
+              </span>
+              <span className="text-xs text-white capitalize">
+                {mode}{mode === 'parallel' && concurrency ? ` (${concurrency})` : ''}
+              </span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-gray-400">Body</span>
+              <span className="text-xs text-white font-mono truncate max-w-[120px]">
+                {workflowId || `body → ${itemVariable}`}
+              </span>
+            </div>
+            {continueOnError && (
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-gray-400">On error</span>
+                <span className="text-xs text-white">Continue</span>
+              </div>
+            )}
+          </div>
+
+          {/* Waiting State */}
+          {status === 'waiting' && (
+            <motion.div
+              initial={{ opacity: 0, scale: 0.8 }}
+              animate={{ opacity: 1, scale: 1 }}
+              className="mt-3 pt-3 border-t border-white/10"
+            >
+              <div className="flex items-center justify-center space-x-2 text-yellow-400">
+                <Timer className="w-4 h-4" />
+                <span className="text-xs font-medium">Running iterations</span>
+              </div>
+            </motion.div>
+          )}
+        </div>
+
+        {/* Glow Effect */}
+        {selected && (
+          <motion.div
+            className="absolute -inset-1 bg-gradient-to-r from-teal-600 via-emerald-600 to-green-600 rounded-2xl opacity-20 blur-lg -z-10"
+            animate={{
+              opacity: [0.2, 0.4, 0.2],
+            }}
+            transition={{
+              duration: 2,
+              repeat: Infinity,
+              ease: "easeInOut"
+            }}
+          />
+        )}
+      </GlassCard>
+
+      {/* Output Handles - Loop body and completion paths */}
+      <Handle
+        type="source"
+        position={Position.Right}
+        id="body"
+        className="w-3 h-3 bg-teal-400 border-2 border-white shadow-lg"
+        style={{
+          right: -6,
+          top: '35%',
+          zIndex: 10
+        }}
+      />
+      <Handle
+        type="source"
+        position={Position.Right}
+        id="done"
+        className="w-3 h-3 bg-green-400 border-2 border-white shadow-lg"
+        style={{
+          right: -6,
+          top: '65%',
+          zIndex: 10
+        }}
+      />
+
+      {/* Handle Labels */}
+      <div className="absolute right-2 top-[30%] text-xs text-teal-300 pointer-events-none">
+        ↻
+      </div>
+      <div className="absolute right-2 top-[60%] text-xs text-green-300 pointer-events-none">
+        ✓
+      </div>
+    </motion.div>
+  );
+});
+
+LoopNode.displayName = 'LoopNode';
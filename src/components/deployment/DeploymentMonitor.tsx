@@ -16,11 +16,27 @@ import {
   Zap,
   Copy,
   MessageSquare,
-  Mail
+  Mail,
+  History,
+  RotateCcw,
+  GitCompare,
+  User
 } from 'lucide-react';
 import { GlassCard } from '../ui/GlassCard';
 import { HolographicButton } from '../ui/HolographicButton';
-import { DeploymentStatus } from '../../services/deploymentService';
+import {
+  deploymentService,
+  DeploymentStatus,
+  DeploymentVersion,
+  DeploymentDiff,
+  DeploymentCollectionDiff
+} from '../../services/deploymentService';
+
+// The orchestrator's error for a failed request, or the client's own
+const requestError = (err: unknown, fallback: string): string => {
+  const { response, message } = err as { response?: { data?: { error?: string } }; message?: string };
+  return response?.data?.error || message || fallback;
+};
 
 interface DeploymentMonitorProps {
   deploymentId: string;
@@ -45,6 +61,20 @@ export const DeploymentMonitor: React.FC<DeploymentMonitorProps> = ({
     level: 'info' | 'warning' | 'error';
     message: string;
   }[]>([]);
+  const [versions, setVersions] = useState<DeploymentVersion[]>([]);
+  const [versionsError, setVersionsError] = useState<string | null>(null);
+  const [expandedVersion, setExpandedVersion] = useState<number | null>(null);
+  const [versionDiff, setVersionDiff] = useState<DeploymentDiff | null>(null);
+  const [rollingBack, setRollingBack] = useState<number | 'previous' | null>(null);
+
+  const guildId = status?.guild?.id;
+
+  // Load the guild's version history once its id is known
+  useEffect(() => {
+    if (guildId) {
+      fetchVersions(guildId);
+    }
+  }, [guildId]);
 
   // Set up polling for status updates
   useEffect(() => {
@@ -180,9 +210,108 @@ export const DeploymentMonitor: React.FC<DeploymentMonitorProps> = ({
     }
   };
 
+  const fetchVersions = async (id: string) => {
+    try {
+      setVersions(await deploymentService.listVersions(id));
+      setVersionsError(null);
+    } catch (err) {
+      console.error('Error fetching deployment versions:', err);
+      setVersionsError(requestError(err, 'Failed to fetch version history'));
+    }
+  };
+
   // Handle manual refresh
   const handleRefresh = () => {
     fetchDeploymentStatus();
+    if (guildId) {
+      fetchVersions(guildId);
+    }
+  };
+
+  // Show what a version changed compared with the one before it
+  const handleToggleChanges = async (version: number) => {
+    if (!guildId) return;
+
+    if (expandedVersion === version) {
+      setExpandedVersion(null);
+      return;
+    }
+
+    setExpandedVersion(version);
+    setVersionDiff(null);
+
+    try {
+      setVersionDiff(await deploymentService.diffVersions(guildId, version - 1, version));
+    } catch (err) {
+      console.error('Failed to load version changes:', err);
+      setExpandedVersion(null);
+      setAlertHistory(prev => [
+        {
+          timestamp: new Date(),
+          level: 'error',
+          message: requestError(err, 'Failed to load version changes')
+        },
+        ...prev
+      ]);
+    }
+  };
+
+  // Restore an earlier version; without one, the version before the current one
+  const handleRollback = async (version?: number) => {
+    if (!guildId) return;
+
+    const target = version ? `version ${version}` : 'the previous version';
+    if (!window.confirm(`Roll ${status?.guild?.name || 'this guild'} back to ${target}? Its agents, workflows and channels will be replaced.`)) {
+      return;
+    }
+
+    try {
+      setRollingBack(version ?? 'previous');
+      const rollback = await deploymentService.rollback(guildId, version);
+
+      setAlertHistory(prev => [
+        {
+          timestamp: new Date(),
+          level: 'info',
+          message: `Rolled back to version ${rollback.restoredFrom} (now version ${rollback.version.version})`
+        },
+        ...prev
+      ]);
+
+      await fetchVersions(guildId);
+      fetchDeploymentStatus();
+    } catch (err) {
+      console.error('Rollback failed:', err);
+      setAlertHistory(prev => [
+        {
+          timestamp: new Date(),
+          level: 'error',
+          message: requestError(err, 'Rollback failed')
+        },
+        ...prev
+      ]);
+    } finally {
+      setRollingBack(null);
+    }
+  };
+
+  // One line per added (+), removed (-) or changed (~) part of a guild
+  const describeChanges = (diff: DeploymentDiff): string[] => {
+    const lines: string[] = [];
+    const fieldList = (fields: { field: string }[]) => fields.map(change => change.field).join(', ');
+    const describeCollection = (label: string, changes: DeploymentCollectionDiff) => {
+      changes.added.forEach(item => lines.push(`+ ${label} ${item.name || item.key}`));
+      changes.removed.forEach(item => lines.push(`- ${label} ${item.name || item.key}`));
+      changes.changed.forEach(item => lines.push(`~ ${label} ${item.name || item.key}: ${fieldList(item.fields)}`));
+    };
+
+    if (diff.guild.length > 0) lines.push(`~ guild: ${fieldList(diff.guild)}`);
+    if (diff.blueprint.length > 0) lines.push(`~ blueprint: ${fieldList(diff.blueprint)}`);
+    describeCollection('agent', diff.agents);
+    describeCollection('workflow', diff.workflows);
+    describeCollection('channel', diff.channels);
+
+    return lines;
   };
 
   // Copy URL to clipboard
@@ -512,6 +641,119 @@ export const DeploymentMonitor: React.FC<DeploymentMonitorProps> = ({
               </div>
             </div>
 
+            {/* Version History */}
+            <div>
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-white font-medium flex items-center">
+                  <History className="w-4 h-4 mr-2 text-purple-400" />
+                  Version History
+                </h3>
+
+                {versions.length > 1 && (
+                  <HolographicButton
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRollback()}
+                    disabled={rollingBack !== null}
+                  >
+                    <RotateCcw className={`w-4 h-4 mr-2 ${rollingBack === 'previous' ? 'animate-spin' : ''}`} />
+                    Roll Back
+                  </HolographicButton>
+                )}
+              </div>
+
+              <div className="space-y-3 max-h-[300px] overflow-y-auto pr-2">
+                {versions.length > 0 ? (
+                  versions.map(version => (
+                    <div
+                      key={version.id}
+                      className="p-3 bg-white/5 border border-white/10 rounded-lg"
+                    >
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-3">
+                          <div className={`w-10 h-8 rounded-lg flex items-center justify-center text-xs font-medium ${version.current
+                              ? 'bg-green-500/20 border border-green-500/40 text-green-400'
+                              : 'bg-white/10 border border-white/10 text-gray-300'
+                            }`}>
+                            v{version.version}
+                          </div>
+                          <div>
+                            <div className="text-white text-sm flex items-center space-x-2">
+                              <span>
+                                {version.source === 'rollback'
+                                  ? `Rolled back to v${version.restoredFrom}`
+                                  : 'Deployed'}
+                              </span>
+                              {version.current && (
+                                <span className="text-xs text-green-400">current</span>
+                              )}
+                            </div>
+                            <div className="text-xs text-gray-400 flex items-center space-x-1">
+                              <User className="w-3 h-3" />
+                              <span>{version.deployedBy?.email || version.deployedBy?.id || 'Unknown'}</span>
+                              <span>•</span>
+                              <span>{new Date(version.createdAt).toLocaleString()}</span>
+                              <span>•</span>
+                              <span>{version.counts.agents} agents, {version.counts.workflows} workflows</span>
+                            </div>
+                          </div>
+                        </div>
+
+                        <div className="flex items-center space-x-2">
+                          {version.version > 1 && (
+                            <HolographicButton
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleToggleChanges(version.version)}
+                            >
+                              <GitCompare className="w-4 h-4" />
+                            </HolographicButton>
+                          )}
+
+                          {!version.current && (
+                            <HolographicButton
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleRollback(version.version)}
+                              disabled={rollingBack !== null}
+                            >
+                              <RotateCcw className={`w-4 h-4 ${rollingBack === version.version ? 'animate-spin' : ''}`} />
+                            </HolographicButton>
+                          )}
+                        </div>
+                      </div>
+
+                      {expandedVersion === version.version && (
+                        <div className="mt-3 pt-3 border-t border-white/10 text-xs font-mono space-y-1">
+                          {!versionDiff || versionDiff.to !== version.version ? (
+                            <p className="text-gray-400">Loading changes...</p>
+                          ) : versionDiff.changed ? (
+                            describeChanges(versionDiff).map((line, index) => (
+                              <p
+                                key={index}
+                                className={line.startsWith('+') ? 'text-green-400' :
+                                  line.startsWith('-') ? 'text-red-400' :
+                                    'text-yellow-300'}
+                              >
+                                {line}
+                              </p>
+                            ))
+                          ) : (
+                            <p className="text-gray-400">Identical to version {versionDiff.from}</p>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  ))
+                ) : (
+                  <div className="p-8 text-center">
+                    <History className="w-12 h-12 text-gray-500 mx-auto mb-3" />
+                    <p className="text-gray-400">{versionsError || 'No versions recorded yet'}</p>
+                  </div>
+                )}
+              </div>
+            </div>
+
             {/* System Status */}
             <div>
               <h3 className="text-white font-medium mb-4">System Status</h3>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { AnimatePresence, motion } from 'framer-motion';
 import { 
   Activity, 
@@ -23,11 +23,13 @@ import {
   Download,
   Search,
   Filter,
-  Calendar
+  Calendar,
+  UserCheck,
+  Edit3
 } from 'lucide-react';
 import { GlassCard } from '../ui/GlassCard';
 import { HolographicButton } from '../ui/HolographicButton';
-import { workflowExecutionService, ExecutionStatus, ExecutionHistoryEntry } from '../../services/workflowExecutionService';
+import { workflowExecutionService, ExecutionStatus, ExecutionHistoryEntry, ApprovalRequest } from '../../services/workflowExecutionService';
 import { formatDistanceToNow } from 'date-fns';
 import { ReactFlowProvider } from '@xyflow/react';
 
@@ -55,20 +57,22 @@ export const WorkflowMonitoringDashboard: React.FC<WorkflowMonitoringDashboardPr
   const [executionHistory, setExecutionHistory] = useState<ExecutionHistoryEntry[]>([]);
   const [isLoadingHistory, setIsLoadingHistory] = useState(false);
   
+  // State for approval requests awaiting a decision
+  const [pendingApprovals, setPendingApprovals] = useState<ApprovalRequest[]>([]);
+  const [isLoadingApprovals, setIsLoadingApprovals] = useState(false);
+  const [editingApprovalId, setEditingApprovalId] = useState<string | null>(null);
+  const [payloadDraft, setPayloadDraft] = useState('');
+  const [payloadError, setPayloadError] = useState<string | null>(null);
+  
   // UI state
-  const [selectedTab, setSelectedTab] = useState<'active' | 'history'>('active');
+  const [selectedTab, setSelectedTab] = useState<'active' | 'history' | 'approvals'>('active');
   const [timeframe, setTimeframe] = useState<'1d' | '7d' | '30d' | 'all'>('7d');
   const [expandedLogs, setExpandedLogs] = useState<Record<string, boolean>>({});
   const [selectedHistoryItem, setSelectedHistoryItem] = useState<string | null>(null);
   const [selectedHistoryExecution, setSelectedHistoryExecution] = useState<ExecutionStatus | null>(null);
   
-  // Initialize by loading execution history
-  useEffect(() => {
-    loadExecutionHistory();
-  }, [workflowId]);
-  
   // Load execution history
-  const loadExecutionHistory = async () => {
+  const loadExecutionHistory = useCallback(async () => {
     setIsLoadingHistory(true);
     try {
       const history = await workflowExecutionService.getExecutionHistory(workflowId);
@@ -78,6 +82,76 @@ export const WorkflowMonitoringDashboard: React.FC<WorkflowMonitoringDashboardPr
     } finally {
       setIsLoadingHistory(false);
     }
+  }, [workflowId]);
+  
+  // Load approval requests awaiting a decision
+  const loadPendingApprovals = useCallback(async () => {
+    setIsLoadingApprovals(true);
+    try {
+      const approvals = await workflowExecutionService.getPendingApprovals(workflowId);
+      setPendingApprovals(approvals);
+    } catch (error) {
+      console.error('Failed to load pending approvals:', error);
+    } finally {
+      setIsLoadingApprovals(false);
+    }
+  }, [workflowId]);
+  
+  // Initialize by loading execution history and pending approvals
+  useEffect(() => {
+    loadExecutionHistory();
+    loadPendingApprovals();
+  }, [loadExecutionHistory, loadPendingApprovals]);
+  
+  // An execution that parks on an approval node shows up in the approvals list
+  useEffect(() => {
+    if (activeExecution?.status === 'paused') {
+      loadPendingApprovals();
+    }
+  }, [activeExecution?.status, loadPendingApprovals]);
+  
+  // Approve or reject a request; the execution continues down the matching edge
+  const handleApprovalDecision = async (approvalId: string, decision: 'approve' | 'reject') => {
+    try {
+      if (decision === 'approve') {
+        await workflowExecutionService.approveRequest(approvalId);
+      } else {
+        await workflowExecutionService.rejectRequest(approvalId);
+      }
+      
+      setPendingApprovals(prev => prev.filter(approval => approval.id !== approvalId));
+    } catch (error) {
+      console.error(`Failed to ${decision} request:`, error);
+      loadPendingApprovals();
+    }
+  };
+  
+  // Start editing the payload of a request
+  const handleEditPayload = (approval: ApprovalRequest) => {
+    setEditingApprovalId(approval.id);
+    setPayloadDraft(JSON.stringify(approval.payload, null, 2));
+    setPayloadError(null);
+  };
+  
+  // Save an edited payload
+  const handleSavePayload = async (approvalId: string) => {
+    let payload: unknown;
+    
+    try {
+      payload = JSON.parse(payloadDraft);
+    } catch {
+      setPayloadError('Payload must be valid JSON');
+      return;
+    }
+    
+    try {
+      const updated = await workflowExecutionService.updateApprovalPayload(approvalId, payload);
+      setPendingApprovals(prev => prev.map(approval => approval.id === approvalId ? updated : approval));
+      setEditingApprovalId(null);
+    } catch (error) {
+      const response = (error as { response?: { data?: { error?: string } } }).response;
+      setPayloadError(response?.data?.error || 'Failed to update payload');
+    }
   };
   
   // Start workflow execution
@@ -350,6 +424,9 @@ export const WorkflowMonitoringDashboard: React.FC<WorkflowMonitoringDashboardPr
                         {nodeState.status === 'pending' && (
                           <span>Pending</span>
                         )}
+                        {nodeState.status === 'waiting' && (
+                          <span className="text-yellow-300">{nodeState.approvalId ? 'Awaiting approval' : 'Waiting'}</span>
+                        )}
                       </div>
                     </div>
                     
@@ -811,6 +888,116 @@ export const WorkflowMonitoringDashboard: React.FC<WorkflowMonitoringDashboardPr
     </div>
   );
   
+  // Render pending approvals tab
+  const renderApprovalsTab = () => (
+    <div className="space-y-4">
+      {isLoadingApprovals && pendingApprovals.length === 0 ? (
+        <div className="flex items-center justify-center py-20">
+          <RefreshCw className="w-6 h-6 text-blue-400 animate-spin" />
+        </div>
+      ) : pendingApprovals.length === 0 ? (
+        <div className="text-center py-12">
+          <UserCheck className="w-12 h-12 text-gray-500 mx-auto mb-3" />
+          <p className="text-gray-400">No approvals waiting for a decision</p>
+        </div>
+      ) : (
+        pendingApprovals.map((approval) => {
+          const nodeData = nodes.find(node => node.id === approval.nodeId)?.data;
+          
+          return (
+            <div
+              key={approval.id}
+              className="p-4 rounded-lg border border-amber-500/30 bg-amber-500/10"
+            >
+              <div className="flex items-start justify-between mb-2">
+                <div>
+                  <h4 className="text-white font-semibold flex items-center">
+                    <UserCheck className="w-4 h-4 text-amber-400 mr-2" />
+                    {approval.title}
+                  </h4>
+                  <div className="text-xs text-gray-400 mt-1">
+                    <span
+                      className="cursor-pointer hover:text-white"
+                      onClick={() => onNodeSelect?.(approval.nodeId)}
+                    >
+                      {nodeData?.label || approval.nodeId}
+                    </span>
+                    {' '}• Execution {approval.executionId.slice(-8)} • Requested {formatDistanceToNow(new Date(approval.createdAt))} ago
+                  </div>
+                </div>
+                
+                <div className="text-right text-xs text-gray-400">
+                  <div>{approval.approvers.length > 0 ? approval.approvers.join(', ') : 'Any approver'}</div>
+                  {approval.expiresAt && (
+                    <div className="text-amber-300">
+                      Auto-{approval.defaultOutcome === 'approved' ? 'approves' : 'rejects'} {formatDistanceToNow(new Date(approval.expiresAt), { addSuffix: true })}
+                    </div>
+                  )}
+                </div>
+              </div>
+              
+              {approval.message && (
+                <p className="text-sm text-gray-300 mb-3">{approval.message}</p>
+              )}
+              
+              {editingApprovalId === approval.id ? (
+                <div className="mb-3">
+                  <textarea
+                    value={payloadDraft}
+                    onChange={(e) => setPayloadDraft(e.target.value)}
+                    rows={6}
+                    className="w-full p-2 bg-black/20 border border-white/20 rounded-lg text-xs text-white font-mono focus:outline-none focus:ring-2 focus:ring-amber-500"
+                  />
+                  {payloadError && (
+                    <div className="mt-1 text-xs text-red-300">{payloadError}</div>
+                  )}
+                </div>
+              ) : (
+                <pre className="mb-3 p-2 bg-black/20 rounded text-xs text-gray-300 overflow-x-auto max-h-40">
+                  {JSON.stringify(approval.payload, null, 2)}
+                </pre>
+              )}
+              
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-gray-400">
+                  {approval.edits.length > 0 && `Edited ${approval.edits.length} time${approval.edits.length === 1 ? '' : 's'}`}
+                </span>
+                
+                <div className="flex space-x-2">
+                  {editingApprovalId === approval.id ? (
+                    <>
+                      <HolographicButton variant="ghost" size="sm" onClick={() => setEditingApprovalId(null)}>
+                        Cancel
+                      </HolographicButton>
+                      <HolographicButton variant="outline" size="sm" onClick={() => handleSavePayload(approval.id)}>
+                        Save Payload
+                      </HolographicButton>
+                    </>
+                  ) : (
+                    <>
+                      <HolographicButton variant="ghost" size="sm" onClick={() => handleEditPayload(approval)}>
+                        <Edit3 className="w-4 h-4 mr-2" />
+                        Edit
+                      </HolographicButton>
+                      <HolographicButton variant="outline" size="sm" onClick={() => handleApprovalDecision(approval.id, 'reject')}>
+                        <X className="w-4 h-4 mr-2" />
+                        Reject
+                      </HolographicButton>
+                      <HolographicButton variant="primary" size="sm" onClick={() => handleApprovalDecision(approval.id, 'approve')}>
+                        <CheckCircle className="w-4 h-4 mr-2" />
+                        Approve
+                      </HolographicButton>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+  
   return (
     <div className={`space-y-6 ${className}`}>
       <ReactFlowProvider>
@@ -845,10 +1032,22 @@ export const WorkflowMonitoringDashboard: React.FC<WorkflowMonitoringDashboardPr
             History
           </HolographicButton>
           
+          <HolographicButton
+            variant={selectedTab === 'approvals' ? 'primary' : 'ghost'}
+            size="sm"
+            onClick={() => setSelectedTab('approvals')}
+          >
+            <UserCheck className="w-4 h-4 mr-2" />
+            Approvals{pendingApprovals.length > 0 && ` (${pendingApprovals.length})`}
+          </HolographicButton>
+          
           <HolographicButton
             variant="ghost"
             size="sm"
-            onClick={loadExecutionHistory}
+            onClick={() => {
+              loadExecutionHistory();
+              loadPendingApprovals();
+            }}
           >
             <RefreshCw className="w-4 h-4" />
           </HolographicButton>
@@ -864,7 +1063,9 @@ export const WorkflowMonitoringDashboard: React.FC<WorkflowMonitoringDashboardPr
           exit={{ opacity: 0, y: -10 }}
           transition={{ duration: 0.2 }}
         >
-          {selectedTab === 'active' ? renderActiveExecutionTab() : renderHistoryTab()}
+          {selectedTab === 'active' ? renderActiveExecutionTab() :
+           selectedTab === 'history' ? renderHistoryTab() :
+           renderApprovalsTab()}
         </motion.div>
       </AnimatePresence>
       </ReactFlowProvider>
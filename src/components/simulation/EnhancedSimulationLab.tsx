@@ -1116,6 +1116,7 @@ export const EnhancedSimulationLab: React.FC<EnhancedSimulationLabProps> = ({
       {voiceEnabled && selectedAgent && (
         <VoiceInterface
           agentId={selectedAgent} 
+          guildId={guildId}
           agentName={selectedAgent}
           isVisible={voiceEnabled}
           onCommand={(command) => {
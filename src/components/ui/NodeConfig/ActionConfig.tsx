@@ -1,8 +1,12 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Node, Edge } from '@xyflow/react';
 import { X, Save, Trash2, Mail, Database, Globe, Settings, Wand2, MessageSquare } from 'lucide-react';
 import { GlassCard } from '../GlassCard';
 import { HolographicButton } from '../HolographicButton';
+import { TemplateInput } from './TemplateInput';
+import { TemplateMappingEditor } from './TemplateMappingEditor';
 import { apiService } from '../../../services/apiService';
+import { templateService } from '../../../services/templateService';
 import { ActionNodeData } from '../../../types/canvas';
 
 interface ActionConfigProps {
@@ -11,9 +15,23 @@ interface ActionConfigProps {
   onDelete: (nodeId: string) => void;
   nodeId: string;
   onClose: () => void;
+  // The rest of the workflow, used to suggest `{{ ... }}` references to upstream outputs
+  nodes?: Node[];
+  edges?: Edge[];
 }
 
-export function ActionConfig({ data, onUpdate, onDelete, nodeId, onClose }: ActionConfigProps) {
+export function ActionConfig({ data, onUpdate, onDelete, nodeId, onClose, nodes = [], edges = [] }: ActionConfigProps) {
+  const [secretNames, setSecretNames] = useState<string[]>([]);
+
+  useEffect(() => {
+    templateService.getSecretNames().then(setSecretNames);
+  }, []);
+
+  const suggestions = useMemo(
+    () => templateService.getSuggestions(nodeId, nodes, edges, secretNames),
+    [nodeId, nodes, edges, secretNames]
+  );
+
   const [formData, setFormData] = useState<{
     label: string;
     description: string;
@@ -241,14 +259,29 @@ export function ActionConfig({ data, onUpdate, onDelete, nodeId, onClose }: Acti
               
               <div className="space-y-2">
                 <label className="text-white text-sm">URL</label>
-                <input
-                  type="text"
+                <TemplateInput
                   value={formData.config.url || ''}
-                  onChange={(e) => handleConfigChange('url', e.target.value)}
-                  placeholder="https://api.example.com/endpoint"
-                  className="w-full p-2 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  onChange={(value) => handleConfigChange('url', value)}
+                  suggestions={suggestions}
+                  placeholder="https://api.example.com/leads/{{ trigger.body.id }}"
                 />
               </div>
+
+              <TemplateMappingEditor
+                key={formData.actionType}
+                label={formData.actionType === 'webhook' ? 'Payload' : (formData.config.method || 'GET') === 'GET' ? 'Query Parameters' : 'Request Body'}
+                mapping={(formData.actionType === 'webhook' ? formData.config.payload : formData.config.body) || {}}
+                onChange={(mapping) => handleConfigChange(formData.actionType === 'webhook' ? 'payload' : 'body', mapping)}
+                suggestions={suggestions}
+              />
+
+              <TemplateMappingEditor
+                label="Headers"
+                mapping={formData.config.headers || {}}
+                onChange={(mapping) => handleConfigChange('headers', mapping)}
+                suggestions={suggestions}
+                keyPlaceholder="Authorization"
+              />
               
               <div className="flex items-center justify-between pt-2">
                 <span className="text-xs text-gray-400">API Tools</span>
@@ -350,6 +383,14 @@ export function ActionConfig({ data, onUpdate, onDelete, nodeId, onClose }: Acti
                   className="w-full p-2 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
                 />
               </div>
+
+              <TemplateMappingEditor
+                label="Data"
+                mapping={formData.config.data || {}}
+                onChange={(mapping) => handleConfigChange('data', mapping)}
+                suggestions={suggestions}
+                keyPlaceholder="column"
+              />
             </div>
           )}
 
@@ -369,12 +410,22 @@ export function ActionConfig({ data, onUpdate, onDelete, nodeId, onClose }: Acti
               
               <div className="space-y-2">
                 <label className="text-white text-sm">Subject</label>
-                <input
-                  type="text"
+                <TemplateInput
                   value={formData.config.subject || ''}
-                  onChange={(e) => handleConfigChange('subject', e.target.value)}
+                  onChange={(value) => handleConfigChange('subject', value)}
+                  suggestions={suggestions}
                   placeholder="Email Subject"
-                  className="w-full p-2 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-white text-sm">Body</label>
+                <TemplateInput
+                  value={formData.config.body || ''}
+                  onChange={(value) => handleConfigChange('body', value)}
+                  suggestions={suggestions}
+                  placeholder="Hi {{ trigger.body.name | default: 'there' }}, ..."
+                  multiline
                 />
               </div>
               
@@ -413,12 +464,22 @@ export function ActionConfig({ data, onUpdate, onDelete, nodeId, onClose }: Acti
               
               <div className="space-y-2">
                 <label className="text-white text-sm">Channel</label>
-                <input
-                  type="text"
+                <TemplateInput
                   value={formData.config.channel || ''}
-                  onChange={(e) => handleConfigChange('channel', e.target.value)}
+                  onChange={(value) => handleConfigChange('channel', value)}
+                  suggestions={suggestions}
                   placeholder="#general"
-                  className="w-full p-2 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-white text-sm">Message</label>
+                <TemplateInput
+                  value={formData.config.message || ''}
+                  onChange={(value) => handleConfigChange('message', value)}
+                  suggestions={suggestions}
+                  placeholder="New lead: {{ nodes.fetchLead.output.data.email }}"
+                  multiline
                 />
               </div>
             </div>
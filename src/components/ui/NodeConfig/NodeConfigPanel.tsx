@@ -4,7 +4,7 @@ import { motion } from 'framer-motion';
 import { AgentConfig } from './AgentConfig';
 import { TriggerConfig } from './TriggerConfig';
 import { ActionConfig } from './ActionConfig';
-import { Node } from '@xyflow/react';
+import { Node, Edge } from '@xyflow/react';
 import { NodeData, AgentNodeData, TriggerNodeData, ActionNodeData, ConditionNodeData, DelayNodeData } from '../../../types/canvas';
 
 interface NodeConfigPanelProps {
@@ -12,13 +12,18 @@ interface NodeConfigPanelProps {
   onClose: () => void;
   onUpdate: (nodeId: string, data: Partial<NodeData>) => void;
   onDelete: (nodeId: string) => void;
+  // The whole workflow, so configs can reference upstream outputs
+  nodes?: Node<NodeData>[];
+  edges?: Edge[];
 }
 
 export const NodeConfigPanel: React.FC<NodeConfigPanelProps> = ({ 
   node, 
   onClose,
   onUpdate,
-  onDelete
+  onDelete,
+  nodes = [],
+  edges = []
 }) => {
   if (!node) return null;
 
@@ -53,6 +58,8 @@ export const NodeConfigPanel: React.FC<NodeConfigPanelProps> = ({
             onUpdate={onUpdate}
             onDelete={onDelete}
             onClose={onClose}
+            nodes={nodes}
+            edges={edges}
           />
         );
       // Add condition and delay configs when needed
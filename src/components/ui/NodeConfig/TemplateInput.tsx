@@ -0,0 +1,133 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Braces } from 'lucide-react';
+import type { TemplateSuggestion } from '../../../services/templateService';
+
+interface TemplateInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  suggestions: TemplateSuggestion[];
+  placeholder?: string;
+  multiline?: boolean;
+  rows?: number;
+}
+
+const MAX_VISIBLE_SUGGESTIONS = 8;
+
+const inputClassName = 'w-full p-2 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * Text input that autocompletes `{{ ... }}` templates once the caret is inside an open `{{`
+ */
+export function TemplateInput({ value, onChange, suggestions, placeholder, multiline = false, rows = 3 }: TemplateInputProps) {
+  const inputRef = useRef<HTMLInputElement & HTMLTextAreaElement>(null);
+  const [caret, setCaret] = useState<number | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  // The unfinished template the caret sits in, if any
+  const openTemplate = useMemo(() => {
+    if (caret === null) return null;
+
+    const before = value.slice(0, caret);
+    const start = before.lastIndexOf('{{');
+    if (start === -1 || before.indexOf('}}', start) !== -1) return null;
+
+    return { start, query: before.slice(start + 2).trim() };
+  }, [value, caret]);
+
+  const matches = useMemo(() => {
+    if (!openTemplate) return [];
+
+    const query = openTemplate.query.toLowerCase();
+    return suggestions
+      .filter(suggestion =>
+        suggestion.expression.toLowerCase().includes(query) || suggestion.source.toLowerCase().includes(query)
+      )
+      .slice(0, MAX_VISIBLE_SUGGESTIONS);
+  }, [openTemplate, suggestions]);
+
+  const updateCaret = (e: React.SyntheticEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    setCaret(e.currentTarget.selectionStart);
+    setActiveIndex(0);
+  };
+
+  const insertSuggestion = (suggestion: TemplateSuggestion) => {
+    if (!openTemplate || caret === null) return;
+
+    // Replace the partial template, and a closing `}}` right after the caret if one is already there
+    const after = value.slice(caret).replace(/^\s*\}\}/, '');
+    const template = `{{ ${suggestion.expression} }}`;
+    const nextValue = value.slice(0, openTemplate.start) + template + after;
+    const nextCaret = openTemplate.start + template.length;
+
+    onChange(nextValue);
+    setCaret(null);
+
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    if (matches.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((activeIndex + 1) % matches.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((activeIndex - 1 + matches.length) % matches.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      insertSuggestion(matches[Math.min(activeIndex, matches.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setCaret(null);
+    }
+  };
+
+  const inputProps = {
+    ref: inputRef,
+    value,
+    placeholder,
+    className: `${inputClassName} font-mono text-sm`,
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+      onChange(e.target.value);
+      updateCaret(e);
+    },
+    onSelect: updateCaret,
+    onKeyDown: handleKeyDown,
+    // Let a click on a suggestion land before the list closes
+    onBlur: () => setTimeout(() => setCaret(null), 150)
+  };
+
+  return (
+    <div className="relative">
+      {multiline ? <textarea {...inputProps} rows={rows} /> : <input type="text" {...inputProps} />}
+
+      {matches.length > 0 && (
+        <div className="absolute z-20 mt-1 w-full bg-gray-900/95 border border-white/20 rounded-lg shadow-xl overflow-hidden">
+          {matches.map((suggestion, index) => (
+            <button
+              key={suggestion.expression}
+              type="button"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => insertSuggestion(suggestion)}
+              className={`w-full text-left px-3 py-2 flex items-start space-x-2 transition-colors ${
+                index === activeIndex ? 'bg-blue-500/20' : 'hover:bg-white/10'
+              }`}
+            >
+              <Braces className="w-3 h-3 text-blue-400 mt-0.5 flex-shrink-0" />
+              <div className="min-w-0">
+                <div className="text-xs text-white font-mono truncate">{suggestion.expression}</div>
+                <div className="text-[10px] text-gray-400 truncate">
+                  {suggestion.source} · {suggestion.type}
+                  {suggestion.description ? ` · ${suggestion.description}` : ''}
+                </div>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { TemplateInput } from './TemplateInput';
+import {
+  templateService,
+  TEMPLATE_CONVERSIONS,
+  TemplateConversion,
+  TemplateSuggestion,
+  TemplateValue
+} from '../../../services/templateService';
+
+interface TemplateMappingEditorProps {
+  label: string;
+  mapping: Record<string, TemplateValue>;
+  onChange: (mapping: Record<string, TemplateValue>) => void;
+  suggestions: TemplateSuggestion[];
+  keyPlaceholder?: string;
+}
+
+interface MappingRow {
+  key: string;
+  value: TemplateValue;
+}
+
+const toRows = (mapping: Record<string, TemplateValue>): MappingRow[] =>
+  Object.entries(mapping || {}).map(([key, value]) => ({ key, value }));
+
+const toMapping = (rows: MappingRow[]): Record<string, TemplateValue> =>
+  rows.reduce((mapping: Record<string, TemplateValue>, row) => {
+    if (row.key.trim()) mapping[row.key.trim()] = row.value;
+    return mapping;
+  }, {});
+
+/**
+ * Editor for config objects whose values are templates, e.g. a request body
+ * built from upstream outputs. Each row can convert its value to a type.
+ */
+export function TemplateMappingEditor({ label, mapping, onChange, suggestions, keyPlaceholder = 'field' }: TemplateMappingEditorProps) {
+  const [rows, setRows] = useState<MappingRow[]>(() => toRows(mapping));
+
+  const updateRows = (nextRows: MappingRow[]) => {
+    setRows(nextRows);
+    onChange(toMapping(nextRows));
+  };
+
+  const updateRow = (index: number, changes: Partial<MappingRow>) => {
+    updateRows(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-white text-sm">{label}</label>
+        <button
+          type="button"
+          onClick={() => updateRows([...rows, { key: '', value: '' }])}
+          className="flex items-center space-x-1 text-xs text-blue-300 hover:text-blue-200"
+        >
+          <Plus className="w-3 h-3" />
+          <span>Add field</span>
+        </button>
+      </div>
+
+      {rows.length === 0 && (
+        <p className="text-xs text-gray-400">
+          No fields yet. Values can reference upstream outputs with <span className="font-mono">{'{{ ... }}'}</span>.
+        </p>
+      )}
+
+      {rows.map((row, index) => {
+        // Literals keep their own type; only templates take a conversion
+        const text = typeof row.value === 'string' ? row.value : JSON.stringify(row.value);
+        const isTemplate = templateService.isTemplate(text);
+        const conversion = isTemplate ? templateService.getConversion(text) : null;
+
+        return (
+          <div key={index} className="bg-white/5 rounded-lg p-2 border border-white/10 space-y-2">
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={row.key}
+                onChange={(e) => updateRow(index, { key: e.target.value })}
+                placeholder={keyPlaceholder}
+                className="flex-1 min-w-0 p-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <select
+                value={conversion || ''}
+                disabled={!isTemplate}
+                onChange={(e) => updateRow(index, {
+                  value: templateService.setConversion(text, (e.target.value || null) as TemplateConversion | null)
+                })}
+                className="w-24 p-2 bg-white/10 border border-white/20 rounded-lg text-white text-xs focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-40"
+                title="Convert the value to a type"
+              >
+                <option value="">as is</option>
+                {TEMPLATE_CONVERSIONS.map(type => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => updateRows(rows.filter((_, i) => i !== index))}
+                className="w-8 h-8 flex-shrink-0 rounded-lg bg-white/10 flex items-center justify-center hover:bg-red-500/20 transition-colors"
+                aria-label="Remove field"
+              >
+                <Trash2 className="w-3 h-3 text-red-300" />
+              </button>
+            </div>
+            <TemplateInput
+              value={text}
+              onChange={(value) => updateRow(index, { value })}
+              suggestions={suggestions}
+              placeholder="{{ nodes.fetchLead.output.data.email }}"
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
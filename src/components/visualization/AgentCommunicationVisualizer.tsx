@@ -22,11 +22,14 @@ import {
   Play,
   Pause,
   ArrowRight,
+  Download,
   X
 } from 'lucide-react';
 import { GlassCard } from '../ui/GlassCard';
 import { HolographicButton } from '../ui/HolographicButton';
 import { ReactFlowProvider } from '@xyflow/react';
+import { api } from '../../lib/api';
+import { useAuthStore } from '../../stores/authStore';
 
 interface Agent {
   id: string;
@@ -42,10 +45,15 @@ interface Message {
   to: string;
   content: string;
   timestamp: Date;
-  type: 'request' | 'response' | 'broadcast' | 'system';
+  type: 'request' | 'response' | 'broadcast' | 'system' | 'summary';
   metadata?: Record<string, any>;
 }
 
+// A message as the orchestrator stores it
+interface StoredMessage extends Omit<Message, 'timestamp'> {
+  timestamp: string | number;
+}
+
 interface ConnectionStats {
   from: string;
   to: string;
@@ -56,6 +64,8 @@ interface ConnectionStats {
 
 interface AgentCommunicationVisualizerProps {
   agents: Agent[];
+  // Stored communication session to show; without one, sample traffic is generated
+  sessionId?: string;
   className?: string;
   onAgentClick?: (agentId: string) => void;
   onMessageClick?: (message: Message) => void;
@@ -65,6 +75,7 @@ interface AgentCommunicationVisualizerProps {
 
 export const AgentCommunicationVisualizer: React.FC<AgentCommunicationVisualizerProps> = ({
   agents,
+  sessionId,
   className = '',
   onAgentClick,
   onMessageClick,
@@ -86,6 +97,9 @@ export const AgentCommunicationVisualizer: React.FC<AgentCommunicationVisualizer
   // SVG Container ref
   const svgRef = useRef<SVGSVGElement>(null);
   
+  // Open session replay stream
+  const replayRef = useRef<AbortController | null>(null);
+  
   // Layout state
   const [dimensions, setDimensions] = useState({ width: 800, height: 600 });
   const [positions, setPositions] = useState<Record<string, { x: number, y: number }>>({});
@@ -98,9 +112,14 @@ export const AgentCommunicationVisualizer: React.FC<AgentCommunicationVisualizer
     // Set up auto-refresh
     if (autoRefresh) {
       const interval = setInterval(fetchCommunicationData, refreshInterval);
-      return () => clearInterval(interval);
+      return () => {
+        clearInterval(interval);
+        stopReplay();
+      };
     }
-  }, [agents]);
+    
+    return stopReplay;
+  }, [agents, sessionId]);
   
   // Recalculate dimensions when container size changes
   useEffect(() => {
@@ -123,6 +142,21 @@ export const AgentCommunicationVisualizer: React.FC<AgentCommunicationVisualizer
     setIsLoading(true);
     
     try {
+      if (sessionId) {
+        // A replay in progress owns the message list
+        if (replayRef.current) return;
+        
+        const response = await api.get(`/communication/sessions/${sessionId}/messages`, {
+          params: { limit: 500 },
+          headers: authHeaders()
+        });
+        const sessionMessages: Message[] = response.data.messages.map(toMessage);
+        
+        setMessages(sessionMessages);
+        setConnections(calculateConnectionStats(sessionMessages));
+        return;
+      }
+      
       // Simulate API call
       await new Promise(resolve => setTimeout(resolve, 1000));
       
@@ -285,8 +319,127 @@ export const AgentCommunicationVisualizer: React.FC<AgentCommunicationVisualizer
     }
   };
   
-  // Toggle auto-play
+  const authHeaders = (): Record<string, string> => {
+    const token = useAuthStore.getState().accessToken;
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  };
+  
+  const toMessage = (message: StoredMessage): Message => ({
+    id: message.id,
+    from: message.from,
+    to: message.to,
+    content: message.content,
+    timestamp: new Date(message.timestamp),
+    type: message.type,
+    metadata: message.metadata
+  });
+  
+  // Replay the session from the start, with messages arriving at their original pace.
+  // EventSource can't send the access token, so the stream is read with fetch.
+  const startReplay = async () => {
+    if (!sessionId) return;
+    
+    stopReplay();
+    setMessages([]);
+    setConnections([]);
+    
+    const controller = new AbortController();
+    replayRef.current = controller;
+    setIsAutoPlaying(true);
+    
+    try {
+      const response = await fetch(
+        `${api.defaults.baseURL}/communication/sessions/${sessionId}/replay?max_gap_ms=10000`,
+        { headers: authHeaders(), signal: controller.signal }
+      );
+      
+      if (!response.ok || !response.body) {
+        throw new Error(`Replay failed with status ${response.status}`);
+      }
+      
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = '';
+      
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        
+        buffered += decoder.decode(value, { stream: true });
+        const events = buffered.split('\n\n');
+        buffered = events.pop() || '';
+        
+        for (const event of events) {
+          const lines = event.split('\n');
+          const name = lines.find(line => line.startsWith('event:'))?.slice(6).trim();
+          const data = lines
+            .filter(line => line.startsWith('data:'))
+            .map(line => line.slice(5).trim())
+            .join('\n');
+          
+          if (name === 'error') {
+            console.error('Session replay stream failed:', data);
+          } else if (name === 'message' && data) {
+            const message = toMessage(JSON.parse(data));
+            
+            setMessages(prev => {
+              const next = [...prev, message];
+              setConnections(calculateConnectionStats(next));
+              return next;
+            });
+          }
+        }
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error('Session replay stream failed:', error);
+      }
+    } finally {
+      if (replayRef.current === controller) {
+        stopReplay();
+      }
+    }
+  };
+  
+  const stopReplay = () => {
+    replayRef.current?.abort();
+    replayRef.current = null;
+    setIsAutoPlaying(false);
+  };
+  
+  // Download the session transcript
+  const exportSession = async (format: 'json' | 'markdown') => {
+    if (!sessionId) return;
+    
+    try {
+      const response = await api.get(`/communication/sessions/${sessionId}/export`, {
+        params: { format },
+        headers: authHeaders(),
+        responseType: 'blob'
+      });
+      
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${sessionId}.${format === 'json' ? 'json' : 'md'}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export session:', error);
+    }
+  };
+  
+  // Toggle auto-play; for a stored session this replays it
   const toggleAutoPlay = () => {
+    if (sessionId) {
+      if (isAutoPlaying) {
+        stopReplay();
+      } else {
+        startReplay();
+      }
+      return;
+    }
+    
     setIsAutoPlaying(!isAutoPlaying);
   };
   
@@ -893,6 +1046,28 @@ export const AgentCommunicationVisualizer: React.FC<AgentCommunicationVisualizer
               <RefreshCw className="w-4 h-4" />
             </HolographicButton>
             
+            {sessionId && (
+              <>
+                <HolographicButton
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => exportSession('json')}
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  JSON
+                </HolographicButton>
+                
+                <HolographicButton
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => exportSession('markdown')}
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  Markdown
+                </HolographicButton>
+              </>
+            )}
+            
             <HolographicButton
               variant="ghost"
               size="sm"
@@ -975,7 +1150,7 @@ export const AgentCommunicationVisualizer: React.FC<AgentCommunicationVisualizer
               ) : (
                 <>
                   <Play className="w-4 h-4 mr-2" />
-                  Auto-Play
+                  {sessionId ? 'Replay' : 'Auto-Play'}
                 </>
               )}
             </HolographicButton>
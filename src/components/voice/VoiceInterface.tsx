@@ -3,9 +3,13 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { Mic, MicOff, Volume2, VolumeX, Phone, PhoneOff, Brain, AudioWaveform as Waveform, Settings, Play, Pause, RotateCcw } from 'lucide-react';
 import { GlassCard } from '../ui/GlassCard';
 import { HolographicButton } from '../ui/HolographicButton';
+import { agentStreamService, AgentStreamHandle, AgentStreamHandlers } from '../../services/agentStreamService';
+import { voiceService } from '../../services/voiceService';
 
 interface VoiceInterfaceProps {
   agentId?: string;
+  // Guild the agent belongs to; responses stream over the guild's socket
+  guildId?: string;
   agentName?: string;
   onCommand?: (command: string) => void;
   isVisible?: boolean;
@@ -21,6 +25,7 @@ interface VoiceMessage {
 
 export const VoiceInterface: React.FC<VoiceInterfaceProps> = ({
   agentId,
+  guildId,
   agentName = 'AI Assistant',
   onCommand,
   isVisible = true
@@ -43,6 +48,10 @@ export const VoiceInterface: React.FC<VoiceInterfaceProps> = ({
   const recognitionRef = useRef<any>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const micStreamRef = useRef<MediaStream | null>(null);
+  const agentStreamRef = useRef<AgentStreamHandle | null>(null);
+  const speechQueueRef = useRef<Promise<void>>(Promise.resolve());
+  // Bumped to drop queued speech when the answer is interrupted
+  const speechGenerationRef = useRef(0);
 
   useEffect(() => {
     if (isVisible) {
@@ -161,6 +170,96 @@ export const VoiceInterface: React.FC<VoiceInterfaceProps> = ({
     }
   };
 
+  const playAudioUrl = (audioUrl: string): Promise<void> => {
+    return new Promise(resolve => {
+      const audio = audioRef.current;
+      if (!audio) return resolve();
+
+      audio.addEventListener('ended', () => resolve(), { once: true });
+      audio.addEventListener('error', () => resolve(), { once: true });
+      audio.src = audioUrl;
+      setIsSpeaking(true);
+      audio.play().catch(() => resolve());
+    });
+  };
+
+  // Sentences are synthesized as soon as they arrive but played one after another
+  const speakSentence = (sentence: string) => {
+    const generation = speechGenerationRef.current;
+    const audio = voiceService.synthesizeSpeech(sentence, voiceSettings.voiceId || undefined, {
+      stability: voiceSettings.stability,
+      similarityBoost: voiceSettings.similarityBoost,
+      style: voiceSettings.style
+    }).catch(error => {
+      console.error('Speech synthesis failed:', error);
+      return null;
+    });
+
+    speechQueueRef.current = speechQueueRef.current.then(async () => {
+      const audioUrl = await audio;
+      if (audioUrl && generation === speechGenerationRef.current) {
+        await playAudioUrl(audioUrl);
+      }
+    });
+  };
+
+  const stopSpeaking = () => {
+    speechGenerationRef.current++;
+    speechQueueRef.current = Promise.resolve();
+    audioRef.current?.pause();
+    setIsSpeaking(false);
+  };
+
+  // Interrupt the agent, e.g. when the user starts talking over it
+  const cancelAgentResponse = () => {
+    agentStreamRef.current?.cancel();
+    agentStreamRef.current = null;
+    stopSpeaking();
+  };
+
+  const streamAgentResponse = (transcript: string) => {
+    cancelAgentResponse();
+
+    const messageId = addMessage('agent', '', agentName);
+    const sentences = agentStreamService.createSentenceChunker(speakSentence);
+
+    const handlers: AgentStreamHandlers = {
+      onToken: (text, fullText) => {
+        updateMessage(messageId, fullText);
+        sentences.push(text);
+      },
+      onReset: () => {
+        updateMessage(messageId, '');
+        sentences.reset();
+      },
+      onDone: result => {
+        updateMessage(messageId, result.output);
+        sentences.flush();
+      },
+      onError: error => {
+        updateMessage(messageId, `Error: ${error}`);
+      },
+      onCancelled: () => {
+        sentences.reset();
+      }
+    };
+
+    // Sockets are scoped to a guild; without one the response streams over HTTP
+    const request = { agentId: agentId!, input: transcript, context: { interface: 'voice' } };
+    const stream = guildId
+      ? agentStreamService.streamOverSocket({ ...request, guildId }, handlers)
+      : agentStreamService.stream(request, handlers);
+
+    agentStreamRef.current = stream;
+    stream.done
+      .catch(() => null)
+      .finally(() => {
+        if (agentStreamRef.current === stream) {
+          agentStreamRef.current = null;
+        }
+      });
+  };
+
   const base64ToBlob = (base64: string, mimeType: string): Blob => {
     const byteCharacters = atob(base64);
     const byteNumbers = new Array(byteCharacters.length);
@@ -176,6 +275,7 @@ export const VoiceInterface: React.FC<VoiceInterfaceProps> = ({
   const startListening = async () => {
     try {
       if (recognitionRef.current) {
+        cancelAgentResponse();
         setIsListening(true);
         recognitionRef.current.start();
         
@@ -266,22 +366,19 @@ export const VoiceInterface: React.FC<VoiceInterfaceProps> = ({
       onCommand(transcript);
     }
     
-    if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-      const message = agentId ? {
-        type: 'agent_chat',
-        agent_id: agentId,
-        text: transcript
-      } : {
+    // Agent replies are streamed so they can be shown and spoken as they arrive
+    if (agentId) {
+      streamAgentResponse(transcript);
+    } else if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify({
         type: 'voice_command',
         command: transcript,
         context: { interface: 'canvas' }
-      };
-      
-      wsRef.current.send(JSON.stringify(message));
+      }));
     }
   };
 
-  const addMessage = (type: 'user' | 'agent' | 'system', content: string, sender?: string) => {
+  const addMessage = (type: 'user' | 'agent' | 'system', content: string, sender?: string): string => {
     const message: VoiceMessage = {
       id: `msg-${Date.now()}-${Math.random()}`,
       type,
@@ -290,13 +387,25 @@ export const VoiceInterface: React.FC<VoiceInterfaceProps> = ({
     };
     
     setMessages(prev => [...prev.slice(-4), message]); // Keep last 5 messages
+    return message.id;
+  };
+
+  const updateMessage = (id: string, content: string) => {
+    setMessages(prev => prev.map(message => message.id === id ? { ...message, content } : message));
   };
 
   const addSystemMessage = (content: string) => {
     addMessage('system', content);
   };
 
+  // Only touches refs and state setters, so the mount effect can call it without depending on it
   const cleanup = () => {
+    agentStreamRef.current?.cancel();
+    agentStreamRef.current = null;
+    speechGenerationRef.current++;
+    speechQueueRef.current = Promise.resolve();
+    audioRef.current?.pause();
+    
     if (wsRef.current) {
       wsRef.current.close();
     }
@@ -490,10 +490,10 @@ export const auth = {
     }
   },
 
-  onAuthStateChange: (callback: (user: any) => void) => {
+  onAuthStateChange: (callback: (user: any, accessToken: string | null) => void) => {
     if (hasPlaceholderValues) {
       // Return a mock subscription for placeholder values
-      callback(null);
+      callback(null, null);
       return {
         data: {
           subscription: {
@@ -503,7 +503,7 @@ export const auth = {
       };
     }
 
-    return supabase.auth.onAuthStateChange(async (event: any, session: { user: { id: any; email: any; user_metadata: { name: any; avatar_url: any; }; email_confirmed_at: any; }; }) => {
+    return supabase.auth.onAuthStateChange(async (event: any, session: { access_token: string; user: { id: any; email: any; user_metadata: { name: any; avatar_url: any; }; email_confirmed_at: any; }; }) => {
       console.log('🔄 Auth state changed:', event, session?.user?.id);
       
       if (session?.user) {
@@ -542,7 +542,7 @@ export const auth = {
         }
       }
       
-      callback(session?.user || null);
+      callback(session?.user || null, session?.access_token || null);
     });
   }
 };
\ No newline at end of file
@@ -0,0 +1,355 @@
+import { io, Socket } from 'socket.io-client';
+import { api } from '../lib/api';
+import { useAuthStore } from '../stores/authStore';
+
+const sockets: Map<string, Socket> = new Map();
+
+/**
+ * Socket.IO connection to a guild's namespace on the orchestrator, shared by
+ * all socket streams of that guild. It authenticates with the signed-in user's
+ * access token, read again whenever it reconnects.
+ */
+const getSocket = (guildId: string): Socket => {
+  let socket = sockets.get(guildId);
+
+  if (!socket) {
+    socket = io(`${api.defaults.baseURL || window.location.origin}/guilds/${guildId}`, {
+      transports: ['websocket', 'polling'],
+      auth: callback => callback({ token: useAuthStore.getState().accessToken })
+    });
+    socket.on('error', (error: { message: string; code: string; event?: string }) => {
+      console.error(`Orchestrator rejected ${error.event || 'socket event'} (${error.code}): ${error.message}`);
+    });
+    sockets.set(guildId, socket);
+  }
+  return socket;
+};
+
+/**
+ * Route one stream message to the matching handler. Returns true for the last
+ * message of a stream.
+ */
+const dispatch = (
+  message: AgentStreamMessage,
+  handlers: AgentStreamHandlers,
+  state: { text: string },
+  settle: (result: AgentStreamResult | null, error?: Error) => void
+): boolean => {
+  switch (message.type) {
+    case 'start':
+      handlers.onStart?.(message.streamId);
+      return false;
+    case 'token':
+      state.text += message.text || '';
+      handlers.onToken?.(message.text || '', state.text);
+      return false;
+    case 'thought':
+      handlers.onThought?.(message.text || '');
+      return false;
+    case 'tool_call':
+      if (message.call) {
+        handlers.onToolCall?.(message.call);
+      }
+      return false;
+    case 'reset':
+      state.text = '';
+      handlers.onReset?.();
+      return false;
+    case 'done':
+      handlers.onDone?.(message.result!);
+      settle(message.result!);
+      return true;
+    case 'cancelled':
+      handlers.onCancelled?.(message.reason || 'Cancelled');
+      settle(null);
+      return true;
+    case 'error':
+      handlers.onError?.(message.error || 'Agent execution failed');
+      settle(null, new Error(message.error || 'Agent execution failed'));
+      return true;
+    default:
+      return false;
+  }
+};
+
+/**
+ * Service for streaming agent responses from the orchestrator
+ */
+export const agentStreamService = {
+  /**
+   * Stream an agent's response over server-sent events. `done` resolves with the
+   * final result, or null if the stream was cancelled.
+   */
+  stream: (request: AgentStreamRequest, handlers: AgentStreamHandlers = {}): AgentStreamHandle => {
+    const controller = new AbortController();
+    const state = { text: '' };
+    let resolveDone!: (result: AgentStreamResult | null) => void;
+    let rejectDone!: (error: Error) => void;
+    const done = new Promise<AgentStreamResult | null>((resolve, reject) => {
+      resolveDone = resolve;
+      rejectDone = reject;
+    });
+    const settle = (result: AgentStreamResult | null, error?: Error) => error ? rejectDone(error) : resolveDone(result);
+
+    const run = async () => {
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'Accept': 'text/event-stream'
+      };
+      const token = useAuthStore.getState().accessToken;
+      if (token) {
+        headers.Authorization = `Bearer ${token}`;
+      }
+
+      const response = await fetch(`${api.defaults.baseURL}/api/agentDispatch/stream`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          agent_id: request.agentId,
+          input: request.input,
+          context: request.context || {},
+          tools: request.tools,
+          max_tool_steps: request.maxToolSteps
+        }),
+        signal: controller.signal
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error(`Agent stream failed with status ${response.status}`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = '';
+
+      while (true) {
+        const { value, done: ended } = await reader.read();
+        if (ended) break;
+
+        buffered += decoder.decode(value, { stream: true });
+        const events = buffered.split('\n\n');
+        buffered = events.pop() || '';
+
+        for (const event of events) {
+          const data = event
+            .split('\n')
+            .filter(line => line.startsWith('data:'))
+            .map(line => line.slice(5).trim())
+            .join('\n');
+
+          if (data && dispatch(JSON.parse(data), handlers, state, settle)) {
+            return;
+          }
+        }
+      }
+
+      throw new Error('Agent stream closed before the response was complete');
+    };
+
+    run().catch((error: Error) => {
+      if (controller.signal.aborted) {
+        handlers.onCancelled?.('Cancelled by client');
+        resolveDone(null);
+      } else {
+        console.error('Agent stream failed:', error);
+        handlers.onError?.(error.message);
+        rejectDone(error);
+      }
+    });
+
+    return {
+      // Closing the connection cancels the execution on the orchestrator
+      cancel: () => controller.abort(),
+      done
+    };
+  },
+
+  /**
+   * Stream an agent's response over the orchestrator's Socket.IO connection.
+   * The agent must belong to `guildId`, a guild the signed-in user owns.
+   */
+  streamOverSocket: (
+    request: AgentStreamRequest & { guildId: string },
+    handlers: AgentStreamHandlers = {}
+  ): AgentStreamHandle => {
+    const connection = getSocket(request.guildId);
+    const state = { text: '' };
+    let streamId: string | null = null;
+    let cancelled = false;
+    let refused = false;
+    let resolveDone!: (result: AgentStreamResult | null) => void;
+    let rejectDone!: (error: Error) => void;
+    const done = new Promise<AgentStreamResult | null>((resolve, reject) => {
+      resolveDone = resolve;
+      rejectDone = reject;
+    });
+
+    const onMessage = (message: AgentStreamMessage) => {
+      if (message.streamId !== streamId) return;
+
+      const settle = (result: AgentStreamResult | null, error?: Error) => {
+        connection.off('agent-stream', onMessage);
+        if (error) {
+          rejectDone(error);
+        } else {
+          resolveDone(result);
+        }
+      };
+      dispatch(message, handlers, state, settle);
+    };
+
+    // Without a valid token the connection is refused and the stream never starts
+    const onConnectError = (error: Error) => {
+      refused = true;
+      connection.off('agent-stream', onMessage);
+      handlers.onError?.(error.message);
+      rejectDone(error);
+    };
+
+    connection.on('agent-stream', onMessage);
+    connection.once('connect_error', onConnectError);
+    connection.emit('agent-stream-start', {
+      agentId: request.agentId,
+      input: request.input,
+      context: request.context,
+      tools: request.tools,
+      maxToolSteps: request.maxToolSteps
+    }, (response: { streamId?: string; error?: string; code?: string }) => {
+      connection.off('connect_error', onConnectError);
+
+      // The start request was buffered and sent once the socket reconnected
+      if (refused) {
+        if (response.streamId) {
+          connection.emit('agent-stream-cancel', { streamId: response.streamId });
+        }
+        return;
+      }
+
+      if (!response.streamId) {
+        connection.off('agent-stream', onMessage);
+        handlers.onError?.(response.error || 'Failed to start agent stream');
+        rejectDone(new Error(response.error || 'Failed to start agent stream'));
+        return;
+      }
+
+      streamId = response.streamId;
+      handlers.onStart?.(streamId);
+      if (cancelled) {
+        connection.emit('agent-stream-cancel', { streamId });
+      }
+    });
+
+    return {
+      cancel: () => {
+        cancelled = true;
+        if (streamId) {
+          connection.emit('agent-stream-cancel', { streamId });
+        }
+      },
+      done
+    };
+  },
+
+  /**
+   * Split streamed text into complete sentences, e.g. to start speaking an answer
+   * before the rest of it has arrived
+   */
+  createSentenceChunker: (onSentence: (sentence: string) => void) => {
+    let pending = '';
+
+    return {
+      push: (text: string) => {
+        pending += text;
+        const boundary = /[.!?]+["')\]]*\s+|\n+/g;
+        let start = 0;
+
+        while (boundary.exec(pending)) {
+          const sentence = pending.slice(start, boundary.lastIndex).trim();
+          if (sentence) onSentence(sentence);
+          start = boundary.lastIndex;
+        }
+        pending = pending.slice(start);
+      },
+      flush: () => {
+        const sentence = pending.trim();
+        pending = '';
+        if (sentence) onSentence(sentence);
+      },
+      reset: () => {
+        pending = '';
+      }
+    };
+  }
+};
+
+export interface AgentStreamRequest {
+  agentId: string;
+  input: string;
+  context?: Record<string, unknown>;
+  tools?: string[];
+  maxToolSteps?: number;
+}
+
+export interface AgentStreamResult {
+  output: string;
+  chain_of_thought: string;
+  status: string;
+  audio?: string;
+  citations?: Array<{ ref: string; citation: string; source: KnowledgeSource }>;
+  tool_calls?: AgentToolCall[];
+}
+
+// Knowledge base section an answer cites
+export interface KnowledgeSource {
+  document_id: string;
+  title: string;
+  version: number;
+  section?: string;
+  location?: string;
+}
+
+// A tool the agent called while answering
+export interface AgentToolCall {
+  id: string;
+  step: number;
+  tool: string;
+  toolId?: string;
+  type?: string;
+  arguments: Record<string, unknown>;
+  // `rejected` calls named an unknown tool or had invalid arguments, and were never sent
+  status: 'succeeded' | 'failed' | 'rejected';
+  result?: unknown;
+  error?: string;
+  startedAt: string;
+  durationMs: number;
+}
+
+export interface AgentStreamMessage {
+  streamId: string;
+  sequence: number;
+  timestamp: string;
+  type: 'start' | 'token' | 'thought' | 'tool_call' | 'reset' | 'done' | 'error' | 'cancelled';
+  text?: string;
+  call?: AgentToolCall;
+  result?: AgentStreamResult;
+  error?: string;
+  reason?: string;
+}
+
+export interface AgentStreamHandlers {
+  onStart?: (streamId: string) => void;
+  // Receives each new piece of output along with everything streamed so far
+  onToken?: (text: string, fullText: string) => void;
+  onThought?: (thought: string) => void;
+  onToolCall?: (call: AgentToolCall) => void;
+  // Output streamed so far has been discarded
+  onReset?: () => void;
+  onDone?: (result: AgentStreamResult) => void;
+  onError?: (error: string) => void;
+  onCancelled?: (reason: string) => void;
+}
+
+export interface AgentStreamHandle {
+  cancel: () => void;
+  done: Promise<AgentStreamResult | null>;
+}
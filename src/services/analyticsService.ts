@@ -85,7 +85,8 @@ export interface PerformanceMetrics {
   error_rate: number;
   avg_tokens_per_response: number;
   total_tokens_used: number;
-  avg_sentiment_score: number;
+  total_cost_usd?: number;
+  avg_sentiment_score?: number;
   common_error_types: {
     type: string;
     count: number;
@@ -100,7 +101,7 @@ export interface MemoryMetrics {
     type: string;
     count: number;
   }[];
-  avg_retrieval_time_ms: number;
+  avg_retrieval_time_ms?: number;
 }
 
 export interface ToolUsageMetrics {
@@ -123,7 +124,7 @@ export interface AgentAnalysis {
   memory_metrics: MemoryMetrics;
   tool_usage_metrics: ToolUsageMetrics;
   optimization_opportunities: string[];
-  improvement_suggestions: string[];
+  improvement_suggestions?: string[];
   created_at: string;
 }
 
@@ -162,13 +163,14 @@ export interface GuildAnalytics {
   period: string;
   summary_metrics: {
     total_conversations: number;
-    total_messages: number;
+    total_messages?: number;
     avg_response_time_ms: number;
     overall_success_rate: number;
     total_agents: number;
-    total_workflows: number;
+    total_workflows?: number;
     total_executions: number;
     total_tokens_used: number;
+    total_cost_usd?: number;
   };
   agent_metrics: {
     agent_id: string;
@@ -176,18 +178,25 @@ export interface GuildAnalytics {
     conversations: number;
     success_rate: number;
     avg_response_time_ms: number;
+    tokens_used?: number;
+    cost_usd?: number;
   }[];
+  // One entry per execution source, e.g. workflow, socket or simulation
   channel_metrics: {
     channel: string;
     conversations: number;
-    messages: number;
+    messages?: number;
     users: number;
+    tokens_used?: number;
+    cost_usd?: number;
   }[];
   time_series_data: {
     timestamps: string[];
     conversations: number[];
-    messages: number[];
+    messages?: number[];
     avg_response_times: number[];
+    tokens_used?: number[];
+    cost_usd?: number[];
   };
   insight_highlights: string[];
   created_at: string;
@@ -300,7 +309,7 @@ function generateMockAgentAnalysis(agentId: string, period: string): AgentAnalys
       ? "Error rate is above target threshold. Implement better error handling and recovery mechanisms."
       : "Error rate is within acceptable range.",
     
-    memoryMetrics.avg_retrieval_time_ms > 50
+    (memoryMetrics.avg_retrieval_time_ms ?? 0) > 50
       ? "Memory retrieval time is high. Consider optimizing memory indexing or caching strategies."
       : "Memory retrieval performance is good.",
     
@@ -1,7 +1,7 @@
 import { v4 as uuid } from 'uuid';
 import { voiceService, Voice } from './voiceService';
 import { videoService, Avatar } from './videoService';
-import { api } from '../lib/api';
+import { agentStreamService, AgentStreamHandle } from './agentStreamService';
 
 export interface ConversationConfig {
   guild: {
@@ -52,6 +52,7 @@ export class ConversationManager {
   private voiceConfig: Map<string, {voiceId: string, config: any}> = new Map();
   private videoConfig: Map<string, {avatarId: string, config: any}> = new Map();
   private eventListeners: Map<string, Set<(event: any) => void>> = new Map();
+  private activeStreams: Map<string, AgentStreamHandle> = new Map();
 
   private constructor() {}
 
@@ -210,54 +211,143 @@ export class ConversationManager {
   }
 
   /**
-   * Generate a response to a user message
+   * Generate a response to a user message. The answer is streamed: listeners get
+   * 'messageStarted', then 'messageDelta' per piece of text and, with voice
+   * enabled, 'messageAudio' per spoken sentence in order, and finally
+   * 'messageReceived' (or 'messageCancelled').
    */
   private async generateResponse(session: Session, userMessage: Message): Promise<Message> {
+    const { guildId } = session;
+    
+    // A newer message supersedes an answer that is still streaming
+    this.cancelResponse(session.id);
+    
+    const history = session.messages
+      .filter(m => m.role !== 'system')
+      .map(m => ({
+        role: m.role,
+        content: m.content
+      }));
+    
+    // Create assistant message, filled in as the answer streams
+    const message: Message = {
+      id: uuid(),
+      role: 'assistant',
+      content: '',
+      timestamp: new Date(),
+      metadata: { streaming: true }
+    };
+    
     try {
-      const { guildId } = session;
+      session.messages.push(message);
+      this.emit('messageStarted', {
+        sessionId: session.id,
+        message
+      });
       
-      // Get response from agent service
-      const response = await api.post(`/agent/${guildId}/chat`, {
-        message: userMessage.content,
-        session_id: session.id,
-        history: session.messages
-          .filter(m => m.role !== 'system')
-          .map(m => ({
-            role: m.role,
-            content: m.content
-          }))
+      // Speak each sentence as soon as it is complete; synthesis runs ahead but
+      // audio is emitted in sentence order
+      const voiceConfig = session.config.voice?.enabled ? this.voiceConfig.get(session.id) : undefined;
+      let speech = Promise.resolve();
+      let audioIndex = 0;
+      const sentences = agentStreamService.createSentenceChunker(sentence => {
+        if (!voiceConfig) return;
+        
+        const index = audioIndex++;
+        const audio = voiceService.synthesizeSpeech(sentence, voiceConfig.voiceId, {
+          stability: voiceConfig.config.stability,
+          similarityBoost: voiceConfig.config.similarity,
+          style: voiceConfig.config.style
+        }).catch(error => {
+          console.error('Failed to synthesize speech:', error);
+          return null;
+        });
+        
+        speech = speech.then(async () => {
+          const data = await audio;
+          if (data) {
+            this.emit('messageAudio', {
+              sessionId: session.id,
+              messageId: message.id,
+              index,
+              text: sentence,
+              audio: data
+            });
+          }
+        });
       });
       
-      // Create assistant message
-      const message: Message = {
-        id: uuid(),
-        role: 'assistant',
-        content: response.data.response || 'I\'m not sure how to respond to that.',
-        timestamp: new Date()
-      };
+      // Get response from agent service
+      const stream = agentStreamService.stream({
+        agentId: guildId,
+        input: userMessage.content,
+        context: {
+          guild_id: guildId,
+          session_id: session.id,
+          history
+        }
+      }, {
+        onToken: (text, fullText) => {
+          message.content = fullText;
+          sentences.push(text);
+          this.emit('messageDelta', {
+            sessionId: session.id,
+            messageId: message.id,
+            delta: text,
+            content: fullText
+          });
+        },
+        onReset: () => {
+          message.content = '';
+          sentences.reset();
+          this.emit('messageDelta', {
+            sessionId: session.id,
+            messageId: message.id,
+            delta: '',
+            content: '',
+            reset: true
+          });
+        },
+        onThought: thought => {
+          this.emit('messageThought', {
+            sessionId: session.id,
+            messageId: message.id,
+            thought
+          });
+        }
+      });
       
-      // Generate audio if voice is enabled
-      if (session.config.voice?.enabled) {
-        try {
-          const voiceConfig = this.voiceConfig.get(session.id);
-          if (voiceConfig) {
-            const audio = await voiceService.synthesizeSpeech(
-              message.content,
-              voiceConfig.voiceId,
-              {
-                stability: voiceConfig.config.stability,
-                similarityBoost: voiceConfig.config.similarity,
-                style: voiceConfig.config.style
-              }
-            );
-            
-            message.audio = audio;
-          }
-        } catch (error) {
-          console.error('Failed to synthesize speech:', error);
+      this.activeStreams.set(session.id, stream);
+      const response = await stream.done.finally(() => {
+        if (this.activeStreams.get(session.id) === stream) {
+          this.activeStreams.delete(session.id);
         }
+      });
+      
+      if (!response) {
+        message.metadata = { ...message.metadata, streaming: false, cancelled: true };
+        sentences.reset();
+        
+        this.emit('messageCancelled', {
+          sessionId: session.id,
+          message
+        });
+        
+        return message;
       }
       
+      message.content = response.output || 'I\'m not sure how to respond to that.';
+      message.metadata = {
+        ...message.metadata,
+        streaming: false,
+        chainOfThought: response.chain_of_thought,
+        citations: response.citations,
+        audioSegments: audioIndex
+      };
+      
+      sentences.flush();
+      await speech;
+      
       // Generate video if video is enabled
       if (session.config.video?.enabled) {
         try {
@@ -296,9 +386,6 @@ export class ConversationManager {
         }
       }
       
-      // Add to session
-      session.messages.push(message);
-      
       // Emit event
       this.emit('messageReceived', {
         sessionId: session.id,
@@ -309,28 +396,37 @@ export class ConversationManager {
     } catch (error) {
       console.error('Failed to generate response:', error);
       
-      // Create error message
-      const errorMessage: Message = {
-        id: uuid(),
-        role: 'assistant',
-        content: 'I apologize, but I encountered an error while processing your request. Please try again later.',
-        timestamp: new Date()
-      };
+      // Replace the partial answer with an error message
+      message.content = 'I apologize, but I encountered an error while processing your request. Please try again later.';
+      message.metadata = { ...message.metadata, streaming: false };
       
-      // Add to session
-      session.messages.push(errorMessage);
+      if (!session.messages.includes(message)) {
+        session.messages.push(message);
+      }
       
       // Emit event
       this.emit('messageError', {
         sessionId: session.id,
-        message: errorMessage,
+        message,
         error
       });
       
-      return errorMessage;
+      return message;
     }
   }
 
+  /**
+   * Stop the answer that is streaming in a session, if any
+   */
+  public cancelResponse(sessionId: string): boolean {
+    const stream = this.activeStreams.get(sessionId);
+    if (!stream) return false;
+    
+    stream.cancel();
+    this.activeStreams.delete(sessionId);
+    return true;
+  }
+
   /**
    * Check the status of a generated video
    */
@@ -414,6 +510,7 @@ export class ConversationManager {
     session.endTime = new Date();
     
     // Clean up resources
+    this.cancelResponse(sessionId);
     this.voiceConfig.delete(sessionId);
     this.videoConfig.delete(sessionId);
     
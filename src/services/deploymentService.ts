@@ -757,6 +757,32 @@ Always think strategically, act efficiently, and communicate clearly.`,
     }
   },
   
+  /**
+   * A guild's deployment versions, newest first, with who deployed each one
+   */
+  listVersions: async (guildId: string): Promise<DeploymentVersion[]> => {
+    const response = await api.get(`/deployments/guilds/${guildId}/versions`);
+    return response.data.versions;
+  },
+  
+  /**
+   * What changed between two versions of a guild. Defaults to the current
+   * version and the one before it.
+   */
+  diffVersions: async (guildId: string, from?: number, to?: number): Promise<DeploymentDiff> => {
+    const response = await api.get(`/deployments/guilds/${guildId}/diff`, { params: { from, to } });
+    return response.data;
+  },
+  
+  /**
+   * Restore an earlier version of a guild, by default the one before the
+   * current version. The restored state becomes a new version.
+   */
+  rollback: async (guildId: string, version?: number): Promise<DeploymentRollback> => {
+    const response = await api.post(`/deployments/guilds/${guildId}/rollback`, { version });
+    return response.data;
+  },
+  
   /**
    * Create a multi-channel deployment
    */
@@ -841,6 +867,7 @@ export interface DeploymentResult {
   workflows: any[];
   status: string;
   createdAt: string;
+  version?: number;
   details: {
     agentsCreated: number;
     workflowsCreated: number;
@@ -895,6 +922,70 @@ export interface MultiChannelDeploymentResult {
   createdAt: string;
 }
 
+/**
+ * An immutable deployment of a guild
+ */
+export interface DeploymentVersion {
+  id: string;
+  guildId: string;
+  version: number;
+  deploymentId: string;
+  source: 'deploy' | 'rollback';
+  restoredFrom?: number;
+  checksum: string;
+  deployedBy: { id: string; email?: string } | null;
+  createdAt: string;
+  current: boolean;
+  counts: {
+    agents: number;
+    workflows: number;
+    channels: number;
+  };
+}
+
+/**
+ * Field-level change between two deployment versions
+ */
+export interface DeploymentFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Agents, workflows or channels added, removed or changed between two versions
+ */
+export interface DeploymentCollectionDiff {
+  added: { key: string; name?: string }[];
+  removed: { key: string; name?: string }[];
+  changed: { key: string; name?: string; fields: DeploymentFieldChange[] }[];
+}
+
+/**
+ * Changes between two deployment versions of a guild
+ */
+export interface DeploymentDiff {
+  guildId: string;
+  from: number;
+  to: number;
+  changed: boolean;
+  guild: DeploymentFieldChange[];
+  blueprint: DeploymentFieldChange[];
+  agents: DeploymentCollectionDiff;
+  workflows: DeploymentCollectionDiff;
+  channels: DeploymentCollectionDiff;
+}
+
+/**
+ * Result of rolling a guild back to an earlier version
+ */
+export interface DeploymentRollback {
+  guildId: string;
+  version: DeploymentVersion;
+  restoredFrom: number;
+  previousVersion: number;
+}
+
 /**
  * Determine agent personality based on role
  */
@@ -0,0 +1,256 @@
+import { Node, Edge } from '@xyflow/react';
+import { api } from '../lib/api';
+
+/**
+ * Output fields each node type produces, mirroring the orchestrator's node handlers.
+ * Action nodes are keyed as `action:<actionType>`.
+ */
+const OUTPUT_SCHEMAS: Record<string, OutputField[]> = {
+  trigger: [
+    { path: 'triggered', type: 'boolean' },
+    { path: 'data', type: 'object', description: 'Trigger node configuration' }
+  ],
+  agent: [
+    { path: 'output', type: 'string', description: 'Agent response' },
+    { path: 'status', type: 'string' },
+    { path: 'agentId', type: 'string' },
+    { path: 'toolCalls', type: 'array', description: 'Tools the agent called' },
+    { path: 'metadata.role', type: 'string' },
+    { path: 'metadata.chain_of_thought', type: 'string' }
+  ],
+  'action:api': [
+    { path: 'status', type: 'number', description: 'HTTP status code' },
+    { path: 'data', type: 'any', description: 'Response body' },
+    { path: 'headers', type: 'object', description: 'Response headers' }
+  ],
+  'action:email': [
+    { path: 'sent', type: 'boolean' },
+    { path: 'to', type: 'array' },
+    { path: 'subject', type: 'string' },
+    { path: 'timestamp', type: 'string' }
+  ],
+  'action:database': [
+    { path: 'operation', type: 'string' },
+    { path: 'table', type: 'string' },
+    { path: 'success', type: 'boolean' },
+    { path: 'affected_rows', type: 'number' }
+  ],
+  'action:webhook': [
+    { path: 'sent', type: 'boolean' },
+    { path: 'url', type: 'string' },
+    { path: 'method', type: 'string' },
+    { path: 'timestamp', type: 'string' }
+  ],
+  'action:notification': [
+    { path: 'sent', type: 'boolean' },
+    { path: 'service', type: 'string' },
+    { path: 'channel', type: 'string' }
+  ],
+  condition: [
+    { path: 'result', type: 'any', description: 'Value the condition evaluated to' },
+    { path: 'branch', type: 'string' },
+    { path: 'items', type: 'array', description: 'Matched items (filter conditions)' },
+    { path: 'count', type: 'number', description: 'Matched item count (filter conditions)' }
+  ],
+  delay: [
+    { path: 'delayMs', type: 'number' },
+    { path: 'waitedUntil', type: 'string' }
+  ],
+  join: [
+    { path: 'merged', type: 'any', description: 'Merged branch outputs' },
+    { path: 'arrivedFrom', type: 'array' }
+  ],
+  approval: [
+    { path: 'decision', type: 'string', description: 'approved or rejected' },
+    { path: 'approved', type: 'boolean' },
+    { path: 'payload', type: 'any', description: 'Reviewed (possibly edited) data' },
+    { path: 'decidedBy', type: 'string' },
+    { path: 'comment', type: 'string' }
+  ],
+  subflow: [
+    { path: 'outputs', type: 'object', description: 'Mapped outputs of the nested workflow' },
+    { path: 'status', type: 'string' },
+    { path: 'subExecutionId', type: 'string' }
+  ],
+  loop: [
+    { path: 'results', type: 'array', description: 'One result per item' },
+    { path: 'count', type: 'number' },
+    { path: 'succeeded', type: 'number' },
+    { path: 'failed', type: 'number' }
+  ]
+};
+
+const TRIGGER_FIELDS: OutputField[] = [
+  { path: 'body', type: 'object', description: 'Payload that started the run' },
+  { path: 'headers', type: 'object' },
+  { path: 'query', type: 'object' },
+  { path: 'type', type: 'string', description: 'manual, schedule, event, ...' },
+  { path: 'event.topic', type: 'string' },
+  { path: 'event.payload', type: 'any' },
+  { path: 'scheduledFor', type: 'string' }
+];
+
+// Filters that convert a template's value to another type
+export const TEMPLATE_CONVERSIONS = ['string', 'number', 'integer', 'boolean', 'json', 'date', 'array'] as const;
+
+// A trailing `| <conversion>` filter (a lone pipe, so `||` never matches)
+const CONVERSION_FILTER = new RegExp(`(^|[^|])\\|\\s*(${TEMPLATE_CONVERSIONS.join('|')})\\s*$`);
+
+const nodeLabel = (node: Node): string | undefined =>
+  typeof node.data?.label === 'string' ? node.data.label : undefined;
+
+/**
+ * camelCase handle for a node label, e.g. "Fetch Lead" -> "fetchLead" (same rule as the orchestrator)
+ */
+const toNodeAlias = (label?: string): string | null => {
+  const words = String(label ?? '').match(/[A-Za-z0-9]+/g);
+  if (!words || !/^[A-Za-z]/.test(words[0])) return null;
+
+  return words
+    .map((word, index) => index === 0
+      ? word.charAt(0).toLowerCase() + word.slice(1)
+      : word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+};
+
+/**
+ * Service for building `{{ ... }}` templates in node configs
+ */
+export const templateService = {
+  /**
+   * Nodes whose output has been produced by the time `nodeId` runs
+   */
+  getUpstreamNodes: (nodeId: string, nodes: Node[], edges: Edge[]): Node[] => {
+    const visited = new Set<string>();
+    const queue = [nodeId];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      edges
+        .filter(edge => edge.target === current && !visited.has(edge.source))
+        .forEach(edge => {
+          visited.add(edge.source);
+          queue.push(edge.source);
+        });
+    }
+
+    visited.delete(nodeId);
+    return nodes.filter(node => visited.has(node.id));
+  },
+
+  /**
+   * How templates address a node: its label handle when unambiguous, otherwise its id
+   */
+  getNodeReference: (node: Node, nodes: Node[]): string => {
+    const alias = toNodeAlias(nodeLabel(node));
+    const ambiguous = !alias || nodes.some(other =>
+      other.id === alias || (other.id !== node.id && toNodeAlias(nodeLabel(other)) === alias)
+    );
+
+    return ambiguous ? `nodes['${node.id}']` : `nodes.${alias}`;
+  },
+
+  /**
+   * Output fields a node is known to produce
+   */
+  getOutputSchema: (node: Node): OutputField[] => {
+    const key = node.type === 'action'
+      ? `action:${node.data?.actionType}`
+      : node.type === 'forEach' ? 'loop' : node.type || '';
+    return OUTPUT_SCHEMAS[key] || [];
+  },
+
+  /**
+   * Everything a node's config can reference: upstream outputs, the trigger payload and secrets
+   */
+  getSuggestions: (nodeId: string, nodes: Node[], edges: Edge[], secretNames: string[] = []): TemplateSuggestion[] => {
+    const suggestions: TemplateSuggestion[] = [];
+
+    templateService.getUpstreamNodes(nodeId, nodes, edges).forEach(node => {
+      const reference = templateService.getNodeReference(node, nodes);
+      const source = nodeLabel(node) || node.id;
+
+      suggestions.push({ expression: `${reference}.output`, type: 'object', source, description: 'Whole output' });
+      templateService.getOutputSchema(node).forEach(field => {
+        suggestions.push({
+          expression: `${reference}.output.${field.path}`,
+          type: field.type,
+          source,
+          description: field.description
+        });
+      });
+    });
+
+    TRIGGER_FIELDS.forEach(field => {
+      suggestions.push({ expression: `trigger.${field.path}`, type: field.type, source: 'Trigger', description: field.description });
+    });
+
+    secretNames.forEach(name => {
+      suggestions.push({ expression: `secrets.${name}`, type: 'string', source: 'Secrets' });
+    });
+
+    return suggestions;
+  },
+
+  /**
+   * Names of the secrets configured on the orchestrator
+   */
+  getSecretNames: async (): Promise<string[]> => {
+    try {
+      const response = await api.get('/workflow/secrets');
+      return response.data.secrets || [];
+    } catch (error) {
+      console.warn('Failed to load workflow secret names:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Check a template string with the orchestrator
+   */
+  validateTemplate: async (template: string): Promise<{ valid: boolean; errors: Array<{ message: string; position: number }> }> => {
+    const response = await api.post('/workflow/validate', { template });
+    return response.data;
+  },
+
+  /**
+   * The conversion filter at the end of a value that is a single template, if any
+   */
+  getConversion: (value: string): TemplateConversion | null => {
+    const match = value.trim().match(/^\{\{([\s\S]*)\}\}$/);
+    const filter = match?.[1].match(CONVERSION_FILTER);
+    return filter ? filter[2] as TemplateConversion : null;
+  },
+
+  /**
+   * Replace (or remove) the conversion filter on a value that is a single template
+   */
+  setConversion: (value: string, conversion: TemplateConversion | null): string => {
+    const match = value.trim().match(/^\{\{([\s\S]*)\}\}$/);
+    if (!match) return value;
+
+    const body = match[1].replace(CONVERSION_FILTER, '$1').trim();
+    return `{{ ${conversion ? `${body} | ${conversion}` : body} }}`;
+  },
+
+  isTemplate: (value: unknown): boolean => typeof value === 'string' && /^\s*\{\{[\s\S]*\}\}\s*$/.test(value)
+};
+
+export interface OutputField {
+  path: string;
+  type: 'string' | 'number' | 'boolean' | 'object' | 'array' | 'any';
+  description?: string;
+}
+
+export interface TemplateSuggestion {
+  expression: string;
+  type: OutputField['type'];
+  // Node label, "Trigger" or "Secrets"
+  source: string;
+  description?: string;
+}
+
+export type TemplateConversion = typeof TEMPLATE_CONVERSIONS[number];
+
+// A config value: a literal, or a string with {{ ... }} templates in it
+export type TemplateValue = string | number | boolean | null | TemplateValue[] | { [key: string]: TemplateValue };
@@ -1,5 +1,6 @@
 import { v4 as uuid } from 'uuid';
 import { api } from '../lib/api';
+import { useAuthStore } from '../stores/authStore';
 
 // Trigger system types
 export type TriggerConditionType = 'schedule' | 'webhook' | 'event' | 'threshold';
@@ -451,10 +452,11 @@ export class TriggerService {
       console.log(`🔥 Executing trigger action: ${trigger.name} (${trigger.id})`);
       
       // Update last triggered time
+      const firedAt = new Date();
       this.activeTriggers.set(trigger.id, {
         ...trigger,
-        lastTriggered: new Date(),
-        updatedAt: new Date()
+        lastTriggered: firedAt,
+        updatedAt: firedAt
       });
       
       // Execute based on action type
@@ -469,7 +471,7 @@ export class TriggerService {
           await this.executeNotificationAction(action);
           break;
         case 'webhook':
-          await this.executeWebhookAction(action);
+          await this.executeWebhookAction(action, `${trigger.id}:${firedAt.getTime()}`);
           break;
         default:
           console.warn(`Unsupported action type: ${action.type}`);
@@ -531,16 +533,29 @@ export class TriggerService {
   }
 
   /**
-   * Execute a webhook action
+   * Execute a webhook action. The orchestrator's delivery queue sends it,
+   * retrying with backoff and signing the payload; the idempotency key keeps
+   * one firing of a trigger from being delivered twice.
    */
-  private async executeWebhookAction(action: TriggerAction): Promise<void> {
+  private async executeWebhookAction(action: TriggerAction, idempotencyKey: string): Promise<void> {
     const { target: webhookUrl, payload } = action;
     
     try {
-      // Send webhook
-      await api.post(webhookUrl, payload);
+      const token = useAuthStore.getState().accessToken;
+      const { data: delivery } = await api.post('/deliveries', {
+        url: webhookUrl,
+        payload,
+        kind: 'webhook',
+        idempotency_key: idempotencyKey
+      }, {
+        headers: token ? { Authorization: `Bearer ${token}` } : undefined
+      });
+      
+      if (delivery.status === 'failed') {
+        console.error(`Webhook delivery to ${webhookUrl} failed: ${delivery.lastError}`);
+      }
     } catch (error) {
-      console.error('Failed to execute webhook action:', error);
+      console.error('Failed to queue webhook action:', error);
     }
   }
 
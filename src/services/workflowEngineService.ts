@@ -656,8 +656,13 @@ export interface ExecutionStatus {
   startTime: string;
   endTime?: string;
   currentNodeId?: string | null;
+  parentExecutionId?: string;
+  parentNodeId?: string;
+  iteration?: number;
+  depth?: number;
   nodes: Record<string, {
-    status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+    status: 'pending' | 'running' | 'waiting' | 'completed' | 'failed' | 'skipped';
+    subExecutionIds?: string[];
     startTime?: string;
     endTime?: string;
     output?: any;
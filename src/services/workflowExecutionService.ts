@@ -102,6 +102,52 @@ export const workflowExecutionService = {
     }
   },
   
+  /**
+   * List approval requests awaiting a decision, optionally for one workflow
+   */
+  getPendingApprovals: async (flowId?: string): Promise<ApprovalRequest[]> => {
+    try {
+      const response = await api.get('/approvals', {
+        params: { status: 'pending', flowId }
+      });
+      return response.data.approvals;
+    } catch (error) {
+      console.error('❌ Failed to get pending approvals:', error);
+      return [];
+    }
+  },
+  
+  /**
+   * Approve a pending request as the signed-in user; passing a payload replaces
+   * the reviewed data
+   */
+  approveRequest: async (
+    approvalId: string,
+    decision: { comment?: string; payload?: unknown } = {}
+  ): Promise<ApprovalRequest> => {
+    const response = await api.post(`/approvals/${approvalId}/approve`, decision);
+    return response.data;
+  },
+  
+  /**
+   * Reject a pending request as the signed-in user
+   */
+  rejectRequest: async (
+    approvalId: string,
+    decision: { comment?: string } = {}
+  ): Promise<ApprovalRequest> => {
+    const response = await api.post(`/approvals/${approvalId}/reject`, decision);
+    return response.data;
+  },
+  
+  /**
+   * Edit the payload of a pending request before deciding on it
+   */
+  updateApprovalPayload: async (approvalId: string, payload: unknown): Promise<ApprovalRequest> => {
+    const response = await api.put(`/approvals/${approvalId}/payload`, { payload });
+    return response.data;
+  },
+  
   /**
    * Get execution history for a workflow
    */
@@ -483,8 +529,18 @@ export interface ExecutionStatus {
   startTime: string;
   endTime?: string;
   currentNodeId?: string | null;
+  // Set on executions started by subflow and loop nodes
+  parentExecutionId?: string;
+  parentNodeId?: string;
+  iteration?: number;
+  depth?: number;
   nodes: Record<string, {
-    status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+    status: 'pending' | 'running' | 'waiting' | 'completed' | 'failed' | 'skipped';
+    waitUntil?: string;
+    approvalId?: string;
+    subExecutionIds?: string[];
+    items?: unknown[];
+    iterations?: LoopIteration[];
     startTime?: string;
     endTime?: string;
     output?: any;
@@ -499,6 +555,14 @@ export interface ExecutionStatus {
   }>;
 }
 
+export interface LoopIteration {
+  index: number;
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  executionId?: string;
+  output?: unknown;
+  error?: string;
+}
+
 export interface ExecutionHistoryEntry {
   executionId: string;
   flowId: string;
@@ -510,4 +574,26 @@ export interface ExecutionHistoryEntry {
   successCount: number;
   failureCount: number;
   error?: string;
-}
\ No newline at end of file
+}
+
+export interface ApprovalRequest {
+  id: string;
+  executionId: string;
+  flowId: string;
+  nodeId: string;
+  title: string;
+  message?: string;
+  approvers: string[];
+  channel: string;
+  status: 'pending' | 'approved' | 'rejected' | 'expired' | 'cancelled';
+  outcome?: 'approved' | 'rejected';
+  // Data the approvers review; any JSON value
+  payload: unknown;
+  edits: Array<{ editedBy?: string; editedAt: string; previousPayload: unknown }>;
+  decidedBy?: string;
+  comment?: string;
+  decidedAt?: string;
+  expiresAt?: string;
+  defaultOutcome: 'approved' | 'rejected';
+  createdAt: string;
+}
@@ -4,6 +4,8 @@ import type { User } from '../types';
 
 interface AuthState {
   user: User | null;
+  // Supabase access token, sent to the orchestrator to authenticate sockets
+  accessToken: string | null;
   loading: boolean;
   emailConfirmationRequired: boolean;
   lastEmailSent: number | null;
@@ -21,6 +23,7 @@ interface AuthState {
 
 export const useAuthStore = create<AuthState>((set, get) => ({
   user: null,
+  accessToken: null,
   loading: true,
   emailConfirmationRequired: false,
   lastEmailSent: null,
@@ -34,14 +37,14 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       // Check for existing session first
       const { session } = await auth.getCurrentSession();
       if (session?.user) {
-        set({ user: session.user as User, loading: false });
+        set({ user: session.user as User, accessToken: session.access_token, loading: false });
       } else {
         set({ loading: false });
       }
 
       // Listen for auth changes
-      auth.onAuthStateChange((user) => {
-        set({ user: user as User | null, loading: false });
+      auth.onAuthStateChange((user, accessToken) => {
+        set({ user: user as User | null, accessToken, loading: false });
         if (user) {
           set({ emailConfirmationRequired: false });
         }
@@ -80,7 +83,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       return { error };
     }
 
-    set({ user: data.user as User, loading: false, connectionError: false });
+    set({ user: data.user as User, accessToken: data.session?.access_token || null, loading: false, connectionError: false });
     return {};
   },
 
@@ -136,7 +139,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       return { error: { message: 'Please check your email and click the confirmation link to complete your account setup.' } };
     }
 
-    set({ user: data.user as User, loading: false, connectionError: false });
+    set({ user: data.user as User, accessToken: data.session?.access_token || null, loading: false, connectionError: false });
     return {};
   },
 
@@ -237,6 +240,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     await auth.signOut();
     set({ 
       user: null, 
+      accessToken: null,
       loading: false, 
       emailConfirmationRequired: false,
       lastEmailSent: null,
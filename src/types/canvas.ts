@@ -10,6 +10,16 @@ export interface BaseNodeData extends Record<string, unknown> {
   color: string;
   status: string;
   metadata?: Record<string, any>;
+  retry?: NodeRetryPolicy;
+  timeoutMs?: number;
+}
+
+// Per-node retry policy applied by the orchestrator's workflow engine
+export interface NodeRetryPolicy {
+  maxAttempts?: number;
+  backoff?: 'none' | 'fixed' | 'linear' | 'exponential';
+  delayMs?: number;
+  maxDelayMs?: number;
 }
 
 // Specific node data interfaces extending the base
@@ -58,16 +68,74 @@ export interface ActionNodeData extends BaseNodeData {
 
 export interface ConditionNodeData extends BaseNodeData {
   conditionType: 'if' | 'switch' | 'filter' | 'gate';
+  // Sandboxed expression, e.g. "score >= 0.8 && `agent-1_output`.status == 'completed'"
   condition: string;
+  // List expression whose items a filter condition is applied to
+  source?: string;
+  // Values a switch routes on; each becomes an output handle next to "default"
+  cases?: string[];
   status: 'ready' | 'evaluating' | 'true' | 'false' | 'error';
 }
 
 export interface DelayNodeData extends BaseNodeData {
   delayType: 'fixed' | 'dynamic' | 'conditional';
+  // A duration like "30s" or "2h"; for dynamic delays an expression yielding one
   duration: string;
+  // Conditional delays: re-check `condition` every `pollInterval` for up to `maxWait`
+  condition?: string;
+  pollInterval?: string;
+  maxWait?: string;
+  onDeadline?: 'fail' | 'continue';
   status: 'ready' | 'waiting' | 'paused' | 'completed' | 'error';
 }
 
+export interface ApprovalNodeData extends BaseNodeData {
+  title?: string;
+  message?: string;
+  approvers: string[];
+  channel: 'email' | 'slack' | 'teams' | 'discord' | 'webhook' | 'none';
+  // Webhook URL Slack, Teams, Discord and webhook approval requests are posted to
+  channelTarget?: string;
+  // Expression for the data approvers review and may edit, e.g. "`agent-1_output`.draft"
+  payload?: string;
+  // Without a decision within `timeout` the request settles as `defaultOutcome`
+  timeout?: string;
+  defaultOutcome?: 'approved' | 'rejected';
+  status: 'ready' | 'waiting' | 'approved' | 'rejected' | 'error';
+}
+
+export interface JoinNodeData extends BaseNodeData {
+  joinType: 'all' | 'any' | 'count';
+  count?: number;
+  mergeStrategy?: 'object' | 'array' | 'shallow';
+  outputVariable?: string;
+  status: 'ready' | 'waiting' | 'completed' | 'error';
+}
+
+export interface SubflowNodeData extends BaseNodeData {
+  workflowId: string;
+  // Child input name -> expression over this workflow's variables
+  inputMapping?: Record<string, string>;
+  // Output name -> expression over the child's variables and terminal `outputs`
+  outputMapping?: Record<string, string>;
+  status: 'ready' | 'waiting' | 'completed' | 'error';
+}
+
+export interface LoopNodeData extends BaseNodeData {
+  // Expression that evaluates to the array to iterate
+  items: string;
+  mode: 'sequential' | 'parallel';
+  concurrency?: number;
+  itemVariable?: string;
+  indexVariable?: string;
+  // Expression over an iteration's variables and `outputs`, collected per item
+  resultExpression?: string;
+  continueOnError?: boolean;
+  // Stored workflow to run per item instead of the graph behind the `body` handle
+  workflowId?: string;
+  status: 'ready' | 'waiting' | 'completed' | 'error';
+}
+
 // Enhanced Edge type that handles sourceHandle/targetHandle properly
 export interface CanvasEdge extends Omit<Edge, 'sourceHandle' | 'targetHandle'> {
   sourceHandle: string | null;
@@ -75,7 +143,7 @@ export interface CanvasEdge extends Omit<Edge, 'sourceHandle' | 'targetHandle'>
 }
 
 // Union type for all node data
-export type NodeData = AgentNodeData | TriggerNodeData | ActionNodeData | ConditionNodeData | DelayNodeData;
+export type NodeData = AgentNodeData | TriggerNodeData | ActionNodeData | ConditionNodeData | DelayNodeData | JoinNodeData | ApprovalNodeData | SubflowNodeData | LoopNodeData;
 
 // Typed node definitions for @xyflow/react
 export type CanvasNode = Node<NodeData>;
@@ -85,4 +153,8 @@ export type ActionCanvasNode = Node<ActionNodeData>;
 export type AgentCanvasNode = Node<AgentNodeData>;
 export type TriggerCanvasNode = Node<TriggerNodeData>;
 export type ConditionCanvasNode = Node<ConditionNodeData>;
-export type DelayCanvasNode = Node<DelayNodeData>;
\ No newline at end of file
+export type DelayCanvasNode = Node<DelayNodeData>;
+export type JoinCanvasNode = Node<JoinNodeData>;
+export type ApprovalCanvasNode = Node<ApprovalNodeData>;
+export type SubflowCanvasNode = Node<SubflowNodeData>;
+export type LoopCanvasNode = Node<LoopNodeData>;
\ No newline at end of file
@@ -82,7 +82,7 @@ export interface WorkflowTrigger {
 
 export interface WorkflowNode {
   id: string;
-  type: 'agent' | 'action' | 'condition' | 'delay' | 'trigger';
+  type: 'agent' | 'action' | 'condition' | 'delay' | 'trigger' | 'join' | 'approval' | 'subflow' | 'loop';
   position: { x: number; y: number };
   data: Record<string, any>;
 }
@@ -0,0 +1,26 @@
+/*
+  # Workflow Execution Checkpoints
+
+  1. New Tables
+    - `workflow_executions` - Checkpointed state of orchestrator workflow runs
+      (status, node states, variables, logs and the graph needed to resume)
+
+  2. Security
+    - Enable RLS; only the orchestrator's service role reads and writes rows
+*/
+
+CREATE TABLE IF NOT EXISTS workflow_executions (
+  id uuid PRIMARY KEY,
+  flow_id text NOT NULL,
+  status text NOT NULL CHECK (status IN ('initializing', 'running', 'completed', 'failed', 'paused')),
+  context jsonb NOT NULL,
+  nodes jsonb DEFAULT '[]',
+  edges jsonb DEFAULT '[]',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_executions_status ON workflow_executions(status);
+CREATE INDEX IF NOT EXISTS idx_workflow_executions_flow_id ON workflow_executions(flow_id);
+
+ALTER TABLE workflow_executions ENABLE ROW LEVEL SECURITY;
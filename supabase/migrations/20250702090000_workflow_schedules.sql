@@ -0,0 +1,40 @@
+/*
+  # Workflow Schedules
+
+  1. New Tables
+    - `workflow_schedules` - Cron, interval and one-shot schedules that start
+      workflow executions (full schedule config kept in `config`)
+    - `workflow_schedule_runs` - History of every schedule fire: started,
+      skipped (missed or overlapping) or failed, with the execution it started
+
+  2. Security
+    - Enable RLS; only the orchestrator's service role reads and writes rows
+*/
+
+CREATE TABLE IF NOT EXISTS workflow_schedules (
+  id uuid PRIMARY KEY,
+  workflow_id text NOT NULL,
+  status text NOT NULL CHECK (status IN ('active', 'paused', 'completed')),
+  next_execution timestamptz,
+  config jsonb NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS workflow_schedule_runs (
+  id uuid PRIMARY KEY,
+  schedule_id uuid REFERENCES workflow_schedules(id) ON DELETE CASCADE NOT NULL,
+  workflow_id text NOT NULL,
+  status text NOT NULL CHECK (status IN ('started', 'skipped', 'failed')),
+  execution_id uuid,
+  scheduled_for timestamptz NOT NULL,
+  fired_at timestamptz NOT NULL,
+  run jsonb NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_schedules_workflow_id ON workflow_schedules(workflow_id);
+CREATE INDEX IF NOT EXISTS idx_workflow_schedules_status ON workflow_schedules(status);
+CREATE INDEX IF NOT EXISTS idx_workflow_schedule_runs_schedule_id ON workflow_schedule_runs(schedule_id, fired_at DESC);
+
+ALTER TABLE workflow_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workflow_schedule_runs ENABLE ROW LEVEL SECURITY;
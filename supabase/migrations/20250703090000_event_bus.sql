@@ -0,0 +1,52 @@
+/*
+  # Orchestrator Event Bus
+
+  1. New Tables
+    - `events` - Log of events published on the orchestrator event bus
+    - `event_subscriptions` - Durable subscriptions that start workflows for
+      matching topics (pattern, payload filter and condition in `config`)
+    - `event_deliveries` - One row per event and subscriber, tracking attempts
+      until the delivery succeeds or is dead-lettered
+
+  2. Security
+    - Enable RLS; only the orchestrator's service role reads and writes rows
+*/
+
+CREATE TABLE IF NOT EXISTS events (
+  id uuid PRIMARY KEY,
+  topic text NOT NULL,
+  source text NOT NULL,
+  payload jsonb DEFAULT '{}',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS event_subscriptions (
+  id text PRIMARY KEY,
+  pattern text NOT NULL,
+  workflow_id text,
+  status text NOT NULL CHECK (status IN ('active', 'paused')),
+  config jsonb NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS event_deliveries (
+  id uuid PRIMARY KEY,
+  event_id uuid NOT NULL,
+  subscription_id text NOT NULL,
+  status text NOT NULL CHECK (status IN ('pending', 'delivered', 'dead')),
+  attempts integer DEFAULT 0,
+  next_attempt_at timestamptz,
+  last_error text,
+  delivery jsonb NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_events_topic ON events(topic, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_event_subscriptions_workflow_id ON event_subscriptions(workflow_id);
+CREATE INDEX IF NOT EXISTS idx_event_deliveries_status ON event_deliveries(status);
+CREATE INDEX IF NOT EXISTS idx_event_deliveries_event_id ON event_deliveries(event_id);
+
+ALTER TABLE events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE event_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE event_deliveries ENABLE ROW LEVEL SECURITY;
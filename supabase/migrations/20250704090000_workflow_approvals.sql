@@ -0,0 +1,28 @@
+/*
+  # Workflow Approvals
+
+  1. New Tables
+    - `workflow_approvals` - Approval requests raised by workflow `approval` nodes,
+      with the reviewed payload, its edit history and the decision in `request`
+
+  2. Security
+    - Enable RLS; only the orchestrator's service role reads and writes rows
+*/
+
+CREATE TABLE IF NOT EXISTS workflow_approvals (
+  id uuid PRIMARY KEY,
+  execution_id uuid NOT NULL,
+  workflow_id text NOT NULL,
+  node_id text NOT NULL,
+  status text NOT NULL CHECK (status IN ('pending', 'approved', 'rejected', 'expired', 'cancelled')),
+  expires_at timestamptz,
+  request jsonb NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_approvals_status ON workflow_approvals(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_workflow_approvals_execution_id ON workflow_approvals(execution_id);
+CREATE INDEX IF NOT EXISTS idx_workflow_approvals_workflow_id ON workflow_approvals(workflow_id);
+
+ALTER TABLE workflow_approvals ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,26 @@
+/*
+  # Memory Consolidation Reports
+
+  1. New Tables
+    - `memory_consolidation_reports` - One row per consolidation run; `report` lists
+      the reflections created, the interactions merged into them and every deleted
+      memory with the reason it was deleted
+
+  2. Security
+    - Enable RLS; only the orchestrator's service role reads and writes rows
+*/
+
+CREATE TABLE IF NOT EXISTS memory_consolidation_reports (
+  id uuid PRIMARY KEY,
+  status text NOT NULL CHECK (status IN ('completed', 'failed')),
+  dry_run boolean NOT NULL DEFAULT false,
+  trigger text NOT NULL CHECK (trigger IN ('scheduled', 'manual')),
+  started_at timestamptz NOT NULL,
+  finished_at timestamptz,
+  report jsonb NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_consolidation_reports_started_at ON memory_consolidation_reports(started_at DESC);
+
+ALTER TABLE memory_consolidation_reports ENABLE ROW LEVEL SECURITY;
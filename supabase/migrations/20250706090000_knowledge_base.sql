@@ -0,0 +1,38 @@
+/*
+  # Guild Knowledge Base
+
+  1. New Tables
+    - `knowledge_documents` - Current version of each document in a guild's
+      knowledge base, with its content and metadata in `document`
+    - `knowledge_document_versions` - Snapshot of every version of a document
+
+  2. Security
+    - Enable RLS; only the orchestrator's service role reads and writes rows
+
+  3. Notes
+    - Chunks and their embeddings are derived from the current version and
+      rebuilt by the orchestrator, so they are not stored
+*/
+
+CREATE TABLE IF NOT EXISTS knowledge_documents (
+  id uuid PRIMARY KEY,
+  guild_id text NOT NULL,
+  title text NOT NULL,
+  version integer NOT NULL DEFAULT 1,
+  document jsonb NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS knowledge_document_versions (
+  document_id uuid REFERENCES knowledge_documents(id) ON DELETE CASCADE NOT NULL,
+  version integer NOT NULL,
+  version_data jsonb NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (document_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_documents_guild_id ON knowledge_documents(guild_id, updated_at DESC);
+
+ALTER TABLE knowledge_documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE knowledge_document_versions ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,42 @@
+/*
+  # Persistent Agent Communication Sessions
+
+  1. New Tables
+    - `communication_sessions` - One row per agent communication session with
+      its participants, metadata, status and message count
+    - `communication_messages` - Every message sent in a session, in order of
+      `sequence`, with the full message in `message`
+
+  2. Security
+    - Enable RLS; only the orchestrator's service role reads and writes rows
+
+  3. Notes
+    - Sessions closed for inactivity keep their transcript; rejoining a stored
+      session makes it active again
+*/
+
+CREATE TABLE IF NOT EXISTS communication_sessions (
+  id text PRIMARY KEY,
+  agents text[] NOT NULL DEFAULT '{}',
+  metadata jsonb NOT NULL DEFAULT '{}',
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'closed')),
+  message_count integer NOT NULL DEFAULT 0,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  last_activity timestamptz NOT NULL DEFAULT now(),
+  closed_at timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS communication_messages (
+  id uuid PRIMARY KEY,
+  session_id text REFERENCES communication_sessions(id) ON DELETE CASCADE NOT NULL,
+  sequence integer NOT NULL,
+  message jsonb NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (session_id, sequence)
+);
+
+CREATE INDEX IF NOT EXISTS idx_communication_sessions_last_activity ON communication_sessions(last_activity DESC);
+CREATE INDEX IF NOT EXISTS idx_communication_sessions_agents ON communication_sessions USING gin(agents);
+
+ALTER TABLE communication_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE communication_messages ENABLE ROW LEVEL SECURITY;
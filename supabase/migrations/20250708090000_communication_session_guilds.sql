@@ -0,0 +1,18 @@
+/*
+  # Guild-Scoped Communication Sessions
+
+  1. Changes
+    - `communication_sessions.guild_id` - Guild a session belongs to; its
+      sessions are joined over that guild's Socket.IO namespace
+
+  2. Security
+    - No changes; only the orchestrator's service role reads and writes rows
+
+  3. Notes
+    - Sessions created before this migration have no guild and can no longer
+      be joined over Socket.IO; their transcripts stay readable over HTTP
+*/
+
+ALTER TABLE communication_sessions ADD COLUMN IF NOT EXISTS guild_id text;
+
+CREATE INDEX IF NOT EXISTS idx_communication_sessions_guild_id ON communication_sessions(guild_id, last_activity DESC);
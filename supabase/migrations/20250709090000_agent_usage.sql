@@ -0,0 +1,78 @@
+/*
+  # Agent Usage Metering and Budgets
+
+  1. New Tables
+    - `agent_usage` - One row per agent execution with its model, prompt and
+      completion tokens, cost in USD, duration, status and tool calls
+    - `usage_budgets` - Daily and monthly spending caps (USD) and requests per
+      minute of a guild or agent, overriding the orchestrator's defaults
+
+  2. Security
+    - Enable RLS; only the orchestrator's service role reads and writes rows
+
+  3. Notes
+    - Token counts are estimated from text length when the agent service does
+      not report them; `estimated` marks those rows
+    - A limit of 0 means unlimited
+    - `usage_spend` sums a guild's or agent's cost today and this month, so
+      budget checks don't read every row of the month
+*/
+
+CREATE TABLE IF NOT EXISTS agent_usage (
+  id uuid PRIMARY KEY,
+  agent_id text NOT NULL,
+  guild_id text,
+  user_id text,
+  execution_id text NOT NULL,
+  source text,
+  model text NOT NULL,
+  calls integer NOT NULL DEFAULT 0,
+  prompt_tokens integer NOT NULL DEFAULT 0,
+  completion_tokens integer NOT NULL DEFAULT 0,
+  total_tokens integer NOT NULL DEFAULT 0,
+  estimated boolean NOT NULL DEFAULT false,
+  cost_usd numeric(14, 6) NOT NULL DEFAULT 0,
+  duration_ms integer NOT NULL DEFAULT 0,
+  status text NOT NULL CHECK (status IN ('succeeded', 'fallback', 'failed', 'cancelled')),
+  tool_calls jsonb NOT NULL DEFAULT '[]',
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS usage_budgets (
+  scope text NOT NULL CHECK (scope IN ('guild', 'agent')),
+  scope_id text NOT NULL,
+  daily_cost_usd numeric(12, 4) NOT NULL DEFAULT 0,
+  monthly_cost_usd numeric(12, 4) NOT NULL DEFAULT 0,
+  requests_per_minute integer NOT NULL DEFAULT 0,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (scope, scope_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_usage_guild_id ON agent_usage(guild_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_agent_usage_agent_id ON agent_usage(agent_id, created_at DESC);
+
+ALTER TABLE agent_usage ENABLE ROW LEVEL SECURITY;
+ALTER TABLE usage_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION usage_spend(
+  p_guild_id text,
+  p_agent_id text,
+  p_day_start timestamptz,
+  p_month_start timestamptz
+)
+RETURNS TABLE (day_cost_usd numeric, month_cost_usd numeric)
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT
+    coalesce(sum(cost_usd) FILTER (WHERE created_at >= p_day_start), 0),
+    coalesce(sum(cost_usd), 0)
+  FROM agent_usage
+  WHERE created_at >= p_month_start
+    AND (p_guild_id IS NULL OR guild_id = p_guild_id)
+    AND (p_agent_id IS NULL OR agent_id = p_agent_id);
+$$;
+
+REVOKE EXECUTE ON FUNCTION usage_spend(text, text, timestamptz, timestamptz) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION usage_spend(text, text, timestamptz, timestamptz) TO service_role;
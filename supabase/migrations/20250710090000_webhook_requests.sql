@@ -0,0 +1,47 @@
+/*
+  # Webhook Request Log
+
+  1. New Tables
+    - `webhook_requests` - Every request received at a webhook path: method,
+      headers, body, verification and filter results, the execution it started
+      and how that execution ended
+
+  2. Security
+    - Enable RLS; only the orchestrator's service role reads and writes rows
+
+  3. Notes
+    - Credentials in headers (Authorization, cookies, API keys, token and
+      secret headers) are replaced with [REDACTED] before rows are written
+    - `dead_letter` marks authenticated requests that failed to start a run;
+      they stay in the queue until a replay starts one
+    - Rows older than WEBHOOK_REQUEST_RETENTION_DAYS are deleted by the
+      orchestrator
+*/
+
+CREATE TABLE IF NOT EXISTS webhook_requests (
+  id uuid PRIMARY KEY,
+  webhook_id text,
+  workflow_id text,
+  method text NOT NULL,
+  path text NOT NULL,
+  headers jsonb NOT NULL DEFAULT '{}',
+  body jsonb,
+  status text NOT NULL CHECK (status IN ('started', 'rejected', 'filtered', 'failed')),
+  http_status integer NOT NULL,
+  error text,
+  verification jsonb,
+  filter jsonb,
+  execution_id text,
+  execution_status text,
+  dead_letter boolean NOT NULL DEFAULT false,
+  replay_of uuid REFERENCES webhook_requests(id) ON DELETE SET NULL,
+  replay_count integer NOT NULL DEFAULT 0,
+  received_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_requests_webhook_id ON webhook_requests(webhook_id, received_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_requests_received_at ON webhook_requests(received_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_requests_dead_letter ON webhook_requests(received_at DESC) WHERE dead_letter;
+
+ALTER TABLE webhook_requests ENABLE ROW LEVEL SECURITY;
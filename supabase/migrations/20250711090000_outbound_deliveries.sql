@@ -0,0 +1,43 @@
+/*
+  # Outbound Delivery Queue
+
+  1. New Tables
+    - `outbound_deliveries` - Webhook and notification requests sent by
+      workflow actions and triggers, with their status, next retry and full
+      attempt history (`delivery`)
+
+  2. Security
+    - Enable RLS; only the orchestrator's service role reads and writes rows
+
+  3. Notes
+    - `idempotency_key` is unique: a key is delivered at most once, and a
+      re-run of the same workflow node reuses its key
+    - Pending rows are picked up again when the orchestrator restarts
+    - `requested_by` is the user who queued a delivery through the API; users
+      see those and their workflows' deliveries
+*/
+
+CREATE TABLE IF NOT EXISTS outbound_deliveries (
+  id uuid PRIMARY KEY,
+  idempotency_key text NOT NULL UNIQUE,
+  execution_id text,
+  flow_id text,
+  node_id text,
+  requested_by text,
+  kind text NOT NULL CHECK (kind IN ('webhook', 'notification')),
+  destination text NOT NULL,
+  status text NOT NULL CHECK (status IN ('pending', 'delivered', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  next_attempt_at timestamptz,
+  last_error text,
+  delivery jsonb NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_outbound_deliveries_execution_id ON outbound_deliveries(execution_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_outbound_deliveries_flow_id ON outbound_deliveries(flow_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_outbound_deliveries_requested_by ON outbound_deliveries(requested_by, created_at);
+CREATE INDEX IF NOT EXISTS idx_outbound_deliveries_pending ON outbound_deliveries(next_attempt_at) WHERE status = 'pending';
+
+ALTER TABLE outbound_deliveries ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,180 @@
+/*
+  # Versioned Guild Deployments
+
+  1. New Tables
+    - `guild_deployment_versions` - One immutable row per deployment of a guild,
+      numbered from 1, with a snapshot of its blueprint, guild settings, agents,
+      workflows and channel config, and the user who deployed it
+
+  2. New Functions
+    - `apply_guild_deployment` - Replaces a guild's settings, agents, workflows
+      and channels with a snapshot and records the new version, in one
+      transaction. Used for redeploys and rollbacks.
+
+  3. Security
+    - Enable RLS; only the orchestrator's service role reads and writes rows
+    - Versions can't be updated or deleted, except when their guild is deleted
+    - `apply_guild_deployment` runs as its owner with a fixed search_path and
+      can only be executed by the service role
+
+  4. Notes
+    - A rollback is a new version whose snapshot is copied from an earlier one;
+      `restored_from` is the version it was copied from
+    - `apply_guild_deployment` fails with a serialization error if another
+      version was recorded since the caller read the current one
+*/
+
+CREATE TABLE IF NOT EXISTS guild_deployment_versions (
+  id uuid PRIMARY KEY,
+  guild_id text NOT NULL,
+  version integer NOT NULL CHECK (version > 0),
+  deployment_id text NOT NULL,
+  source text NOT NULL CHECK (source IN ('deploy', 'rollback')),
+  restored_from integer,
+  checksum text NOT NULL,
+  snapshot jsonb NOT NULL,
+  deployed_by text,
+  deployed_by_email text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (guild_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_guild_deployment_versions_guild_id ON guild_deployment_versions(guild_id, version DESC);
+
+ALTER TABLE guild_deployment_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION prevent_deployment_version_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Deleting the guild removes its history along with it
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM guilds WHERE id::text = OLD.guild_id) THEN
+    RETURN OLD;
+  END IF;
+
+  RAISE EXCEPTION 'Deployment versions are immutable';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guild_deployment_versions_immutable ON guild_deployment_versions;
+CREATE TRIGGER guild_deployment_versions_immutable
+  BEFORE UPDATE OR DELETE ON guild_deployment_versions
+  FOR EACH ROW EXECUTE FUNCTION prevent_deployment_version_changes();
+
+CREATE OR REPLACE FUNCTION apply_guild_deployment(
+  p_guild_id uuid,
+  p_snapshot jsonb,
+  p_version jsonb
+)
+RETURNS guild_deployment_versions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_current integer;
+  v_row guild_deployment_versions;
+BEGIN
+  -- Serializes deployments of the same guild
+  SELECT user_id INTO v_user_id FROM guilds WHERE id = p_guild_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Guild % not found', p_guild_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT coalesce(max(version), 0) INTO v_current
+  FROM guild_deployment_versions
+  WHERE guild_id = p_guild_id::text;
+
+  IF v_current <> (p_version->>'expected_version')::integer THEN
+    RAISE EXCEPTION 'Guild % was deployed concurrently (now at version %)', p_guild_id, v_current
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  UPDATE guilds SET
+    name = p_snapshot->'guild'->>'name',
+    description = p_snapshot->'guild'->>'description',
+    purpose = p_snapshot->'guild'->>'purpose',
+    status = coalesce(p_snapshot->'guild'->>'status', status),
+    metadata = coalesce(p_snapshot->'guild'->'metadata', metadata)
+  WHERE id = p_guild_id;
+
+  -- Agents and workflows keep their ids, so memories and executions stay attached
+  DELETE FROM agents
+  WHERE guild_id = p_guild_id
+    AND id::text NOT IN (SELECT value->>'id' FROM jsonb_array_elements(p_snapshot->'agents'));
+
+  INSERT INTO agents (
+    id, guild_id, user_id, name, role, description, personality, instructions,
+    tools, memory_config, voice_config, status, metadata
+  )
+  SELECT
+    (value->>'id')::uuid, p_guild_id, v_user_id, value->>'name', value->>'role',
+    value->>'description', value->>'personality', value->>'instructions',
+    coalesce(value->'tools', '[]'),
+    coalesce(value->'memory_config', '{"short_term_enabled": true, "long_term_enabled": true, "memory_limit": 100, "retention_days": 365}'),
+    coalesce(value->'voice_config', '{"enabled": true, "voice_id": "", "stability": 0.5, "similarity_boost": 0.5}'),
+    coalesce(value->>'status', 'active'), coalesce(value->'metadata', '{}')
+  FROM jsonb_array_elements(p_snapshot->'agents')
+  ON CONFLICT (id) DO UPDATE SET
+    name = EXCLUDED.name,
+    role = EXCLUDED.role,
+    description = EXCLUDED.description,
+    personality = EXCLUDED.personality,
+    instructions = EXCLUDED.instructions,
+    tools = EXCLUDED.tools,
+    memory_config = EXCLUDED.memory_config,
+    voice_config = EXCLUDED.voice_config,
+    status = EXCLUDED.status,
+    metadata = EXCLUDED.metadata;
+
+  DELETE FROM workflows
+  WHERE guild_id = p_guild_id
+    AND id::text NOT IN (SELECT value->>'id' FROM jsonb_array_elements(p_snapshot->'workflows'));
+
+  INSERT INTO workflows (
+    id, guild_id, user_id, name, description, trigger, nodes, edges, status, metadata
+  )
+  SELECT
+    (value->>'id')::uuid, p_guild_id, v_user_id, value->>'name', value->>'description',
+    coalesce(value->'trigger', '{"type": "manual", "config": {}}'),
+    coalesce(value->'nodes', '[]'), coalesce(value->'edges', '[]'),
+    coalesce(value->>'status', 'active'), coalesce(value->'metadata', '{}')
+  FROM jsonb_array_elements(p_snapshot->'workflows')
+  ON CONFLICT (id) DO UPDATE SET
+    name = EXCLUDED.name,
+    description = EXCLUDED.description,
+    trigger = EXCLUDED.trigger,
+    nodes = EXCLUDED.nodes,
+    edges = EXCLUDED.edges,
+    status = EXCLUDED.status,
+    metadata = EXCLUDED.metadata;
+
+  -- Channels are recreated; their ids carry no state
+  DELETE FROM guild_channels WHERE guild_id = p_guild_id;
+
+  INSERT INTO guild_channels (guild_id, type, name, config, status, url)
+  SELECT
+    p_guild_id, value->>'type', value->>'name', coalesce(value->'config', '{}'),
+    coalesce(value->>'status', 'active'), value->>'url'
+  FROM jsonb_array_elements(p_snapshot->'channels');
+
+  INSERT INTO guild_deployment_versions (
+    id, guild_id, version, deployment_id, source, restored_from, checksum,
+    snapshot, deployed_by, deployed_by_email
+  )
+  VALUES (
+    (p_version->>'id')::uuid, p_guild_id::text, v_current + 1, p_version->>'deployment_id',
+    p_version->>'source', (p_version->>'restored_from')::integer, p_version->>'checksum',
+    p_snapshot, p_version->>'deployed_by', p_version->>'deployed_by_email'
+  )
+  RETURNING * INTO v_row;
+
+  RETURN v_row;
+END;
+$$;
+
+-- Only the orchestrator may call it; clients would bypass RLS and guild ownership checks
+REVOKE EXECUTE ON FUNCTION apply_guild_deployment(uuid, jsonb, jsonb) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION apply_guild_deployment(uuid, jsonb, jsonb) TO service_role;